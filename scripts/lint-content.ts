@@ -0,0 +1,30 @@
+/**
+ * Content Lint Script
+ *
+ * Validates the bundled cases, imaging catalog, curricula and achievements.
+ * Runs before every build; exits non-zero when any error is found.
+ *
+ * Usage:
+ *   npx tsx scripts/lint-content.ts [--strict]
+ *
+ * --strict also fails on warnings.
+ */
+
+import { formatContentLintIssue, lintContent } from '../src/lib/content/lint'
+
+const strict = process.argv.includes('--strict')
+const { issues, errorCount, warningCount } = lintContent()
+
+for (const issue of issues) {
+  const line = formatContentLintIssue(issue)
+  if (issue.severity === 'error') console.error(line)
+  else console.warn(line)
+}
+
+console.log(`\n${errorCount} error(s), ${warningCount} warning(s)`)
+
+if (errorCount > 0 || (strict && warningCount > 0)) {
+  console.error('❌ Content lint failed')
+  process.exit(1)
+}
+console.log('✅ Content lint passed')
@@ -212,12 +212,12 @@ export default function OnboardingPage() {
   const completeOnboarding = async () => {
     setIsSubmitting(true);
     try {
-      // Update profile in database
+      // Update profile in database. The role only picks the training years
+      // offered; roles are assigned by admins (migration 017).
       if (user) {
         const { error } = await supabase
           .from("profiles")
           .update({
-            role: data.role || "student",
             training_year: data.trainingYear ? parseInt(data.trainingYear.replace(/\D/g, "")) : null,
             specialty_track: data.specialtyTrack,
             onboarding_completed: true,
@@ -35,6 +35,7 @@ import {
   type CaseResult,
 } from "@/components/assessments/results-breakdown";
 import { cn } from "@/lib/utils";
+import { usePeerBenchmark } from "@/lib/hooks/use-peer-benchmark";
 import { showAssessmentCompletionToast } from "@/lib/utils/achievement-toast";
 import toast from "react-hot-toast";
 
@@ -631,6 +632,7 @@ function CompletionScreen({
   const totalCases = assessment.case_ids.length;
   const score = Math.round((correctCount / totalCases) * 100);
   const passed = score >= assessment.passing_score;
+  const peerBenchmark = usePeerBenchmark(assessment.id);
 
   // Mock data for breakdown
   const categoryScores: CategoryScore[] = [
@@ -686,7 +688,7 @@ function CompletionScreen({
           categoryScores={categoryScores}
           difficultyScores={difficultyScores}
           caseResults={caseResults}
-          percentile={75}
+          percentile={peerBenchmark.comparison?.percentile ?? undefined}
           weakAreas={["Advanced difficulty cases", "Trauma imaging selection"]}
           onRetake={onRetake}
           onBackToAssessments={onBackToAssessments}
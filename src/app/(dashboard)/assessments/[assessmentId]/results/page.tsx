@@ -39,6 +39,8 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { ACRRatingBadge } from "@/components/cases/acr-rating-badge";
+import { PeerBenchmark } from "@/components/assessments/peer-benchmark";
+import { usePeerBenchmark } from "@/lib/hooks/use-peer-benchmark";
 import { cn } from "@/lib/utils";
 import type { CaseCategory, DifficultyLevel } from "@/types/database";
 
@@ -107,7 +109,6 @@ const MOCK_RESULTS = {
   correctCount: 7,
   passingScore: 70,
   passed: true,
-  percentile: 68,
   completedAt: new Date().toISOString(),
   categoryScores: [
     { category: "chest-pain" as CaseCategory, label: "Chest Pain", correct: 3, total: 3, percentage: 100 },
@@ -194,6 +195,8 @@ export default function AssessmentResultsPage({
   );
 
   const results = MOCK_RESULTS;
+  const peerBenchmark = usePeerBenchmark(params.assessmentId);
+  const percentile = peerBenchmark.comparison?.percentile ?? null;
 
   // Animate score on mount
   React.useEffect(() => {
@@ -298,7 +301,7 @@ export default function AssessmentResultsPage({
         <ScoreHero
           score={animatedScore}
           passed={results.passed}
-          percentile={results.percentile}
+          percentile={percentile}
           correctCount={results.correctCount}
           totalCases={results.totalCases}
           passingScore={results.passingScore}
@@ -310,10 +313,20 @@ export default function AssessmentResultsPage({
           score={results.score}
           correctCount={results.correctCount}
           totalCases={results.totalCases}
-          percentile={results.percentile}
+          percentile={percentile}
           timeAnalysis={results.timeAnalysis}
         />
 
+        {/* Peer Comparison */}
+        <PeerBenchmark
+          comparison={peerBenchmark.comparison}
+          cohortLabel={peerBenchmark.cohortLabel}
+          dimensions={peerBenchmark.dimensions}
+          availableDimensions={peerBenchmark.availableDimensions}
+          onToggleDimension={peerBenchmark.toggleDimension}
+          loading={peerBenchmark.loading}
+        />
+
         {/* Category Breakdown */}
         <CategoryBreakdown scores={results.categoryScores} />
 
@@ -358,7 +371,8 @@ export default function AssessmentResultsPage({
 interface ScoreHeroProps {
   score: number;
   passed: boolean;
-  percentile: number;
+  /** Null when no peer cohort is available */
+  percentile: number | null;
   correctCount: number;
   totalCases: number;
   passingScore: number;
@@ -434,17 +448,19 @@ function ScoreHero({
         </div>
 
         {/* Percentile */}
-        <motion.div
-          initial={{ opacity: 0, y: 10 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.5 }}
-          className="inline-flex items-center gap-2 bg-white/20 backdrop-blur px-4 py-2 rounded-lg"
-        >
-          <TrendingUp className="w-4 h-4 text-white" />
-          <span className="text-white font-medium">
-            Better than {percentile}% of learners
-          </span>
-        </motion.div>
+        {percentile !== null && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.5 }}
+            className="inline-flex items-center gap-2 bg-white/20 backdrop-blur px-4 py-2 rounded-lg"
+          >
+            <TrendingUp className="w-4 h-4 text-white" />
+            <span className="text-white font-medium">
+              Better than {percentile}% of learners
+            </span>
+          </motion.div>
+        )}
       </div>
     </motion.div>
   );
@@ -458,7 +474,8 @@ interface OverallStatsProps {
   score: number;
   correctCount: number;
   totalCases: number;
-  percentile: number;
+  /** Null when no peer cohort is available */
+  percentile: number | null;
   timeAnalysis: TimeAnalysis;
 }
 
@@ -498,7 +515,7 @@ function OverallStats({
       <StatCard
         icon={<TrendingUp className="w-5 h-5" />}
         label="Percentile"
-        value={`Top ${100 - percentile}%`}
+        value={percentile === null ? "—" : `Top ${100 - percentile}%`}
         color="violet"
       />
     </div>
@@ -115,7 +115,6 @@ export default function CreateQuizPage() {
     
     // In production, this would create the quiz in the database
     // and navigate to the quiz taking page
-    console.log("Starting quiz with config:", config);
     
     // For now, navigate to a mock quiz
     router.push(`/assessments/${quizId}`);
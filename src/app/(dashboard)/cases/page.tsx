@@ -5,6 +5,7 @@ import { getUser } from "@/lib/auth/get-user";
 import { CaseFilters, parseFiltersFromSearchParams } from "@/components/cases/case-filters";
 import { CaseGrid, CaseGridSkeleton } from "@/components/cases/case-grid";
 import { ProgressSummary, ProgressSummarySkeleton } from "@/components/progress/progress-summary";
+import { NextCaseRecommendations } from "@/components/progress/next-case-recommendations";
 import { Pagination } from "@/components/ui/pagination";
 import type { Case, UserCaseAttempt, UserProgress } from "@/types/database";
 
@@ -32,7 +33,11 @@ const ITEMS_PER_PAGE = 12;
 
 export default async function CasesPage({ searchParams }: CasesPageProps) {
   const params = await searchParams;
-  
+  const category =
+    typeof params.category === "string" && params.category !== "all"
+      ? params.category
+      : undefined;
+
   return (
     <div className="min-h-screen bg-slate-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -51,6 +56,14 @@ export default async function CasesPage({ searchParams }: CasesPageProps) {
           <ProgressSection />
         </Suspense>
 
+        {/* Adaptive Recommendations */}
+        <div className="mt-8">
+          <NextCaseRecommendations
+            category={category}
+            title="Recommended for You"
+          />
+        </div>
+
         {/* Filters */}
         <div className="mt-8 mb-6">
           <CaseFilters />
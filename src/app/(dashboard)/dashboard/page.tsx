@@ -1,9 +1,15 @@
 // @ts-nocheck
+import { DueReviewQueue } from "@/components/progress/review-queue";
+import { NextCaseRecommendations } from "@/components/progress/next-case-recommendations";
+
 export default function DashboardPage() {
   return (
     <div className="p-8">
       <h1 className="text-3xl font-bold">Dashboard</h1>
-      <p className="mt-4 text-gray-600">Dashboard page placeholder</p>
+      <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <DueReviewQueue />
+        <NextCaseRecommendations />
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -21,6 +21,8 @@ import {
   isModuleUnlocked,
   getEstimatedTimeRemaining,
 } from "@/data/specialty-tracks";
+import { IS_SUPABASE_CONFIGURED } from "@/lib/supabase/client";
+import { getMyCertificate, issueCertificate } from "@/lib/supabase/certificates";
 
 // ============================================================================
 // Types
@@ -131,8 +133,41 @@ export function SpecialtyTrackContent({ track }: SpecialtyTrackContentProps) {
   // Check if assessment is available (all modules complete)
   const assessmentAvailable = completedModules.length === track.curriculum.length;
 
-  // Check if certificate is earned (would come from DB)
-  const certificateEarned = assessmentAvailable; // Simplified for demo
+  // Issued certificates come from the database; the demo shows one once
+  // the modules are done
+  const [certificate, setCertificate] = React.useState(null);
+  const [isClaiming, setIsClaiming] = React.useState(false);
+  const [claimMessage, setClaimMessage] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!IS_SUPABASE_CONFIGURED) return;
+    getMyCertificate(track.id)
+      .then(setCertificate)
+      .catch(() => setCertificate(null));
+  }, [track.id]);
+
+  const certificateEarned = IS_SUPABASE_CONFIGURED ? !!certificate : assessmentAvailable;
+
+  const handleClaimCertificate = async () => {
+    setIsClaiming(true);
+    setClaimMessage(null);
+    try {
+      const { certificate: issued, eligibility } = await issueCertificate(track.id);
+      if (issued) {
+        setCertificate(issued);
+      } else if (eligibility) {
+        const missing = [
+          ...eligibility.missingModules,
+          ...(eligibility.assessmentPassed ? [] : ["the track assessment"]),
+        ];
+        setClaimMessage(`Still to complete: ${missing.join(", ")}`);
+      }
+    } catch {
+      setClaimMessage("Could not check your progress. Please try again.");
+    } finally {
+      setIsClaiming(false);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -188,7 +223,14 @@ export function SpecialtyTrackContent({ track }: SpecialtyTrackContentProps) {
               trackName={track.name}
               certificateName={track.certificateName}
               earned={certificateEarned}
-              earnedAt={certificateEarned ? new Date().toISOString() : undefined}
+              earnedAt={
+                certificate?.issued_at ??
+                (certificateEarned ? new Date().toISOString() : undefined)
+              }
+              certificateId={certificate?.id}
+              onClaim={IS_SUPABASE_CONFIGURED ? handleClaimCertificate : undefined}
+              isClaiming={isClaiming}
+              claimMessage={claimMessage}
               color={track.color}
             />
 
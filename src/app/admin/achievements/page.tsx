@@ -0,0 +1,486 @@
+"use client";
+
+import * as React from "react";
+import { Edit, Loader2, Plus, Search, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Modal, ModalContent, ModalHeader, ModalTitle, ModalClose, ModalFooter } from "@/components/ui/modal";
+import { IS_SUPABASE_CONFIGURED } from "@/lib/supabase/client";
+import {
+  getAchievements,
+  saveAchievement,
+  type AchievementInput,
+} from "@/lib/supabase/achievements";
+import {
+  achievementCriteriaSchema,
+  describeCriteria,
+  type AchievementCriteria,
+} from "@/lib/achievements/criteria";
+import { ACHIEVEMENTS } from "@/data/achievements";
+import type { Achievement, AchievementCategory } from "@/types/database";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CATEGORIES: AchievementCategory[] = [
+  "completion",
+  "accuracy",
+  "speed",
+  "streak",
+  "specialty",
+  "milestone",
+];
+
+const CRITERIA_TEMPLATES: Array<{ label: string; criteria: AchievementCriteria }> = [
+  {
+    label: "Count",
+    criteria: {
+      type: "count",
+      of: "cases",
+      where: { categories: ["headache"], minScore: 100 },
+      within: { days: 7 },
+      min: 5,
+    },
+  },
+  {
+    label: "Accuracy",
+    criteria: { type: "accuracy", perCategory: true, minAttempts: 10, min: 85 },
+  },
+  {
+    label: "Streak",
+    criteria: { type: "streak", of: "attempts", where: { correct: true }, min: 10 },
+  },
+  {
+    label: "Assessments",
+    criteria: { type: "assessments", minScore: 90, min: 3 },
+  },
+  {
+    label: "All of",
+    criteria: {
+      type: "all",
+      conditions: [
+        { type: "count", of: "categories", min: 5 },
+        { type: "streak", of: "days", min: 5 },
+      ],
+    },
+  },
+];
+
+// ============================================================================
+// Mock Data
+// ============================================================================
+
+const MOCK_CATEGORIES = {
+  progress: "completion",
+  mastery: "accuracy",
+  streak: "streak",
+  special: "milestone",
+};
+
+const MOCK_ACHIEVEMENTS: Achievement[] = ACHIEVEMENTS.map((achievement, index) => ({
+  id: String(index + 1),
+  slug: achievement.slug,
+  name: achievement.name,
+  description: achievement.description,
+  icon: achievement.icon,
+  category: MOCK_CATEGORIES[achievement.category],
+  criteria: achievement.criteria,
+  points: achievement.points,
+  is_active: true,
+  created_at: "2024-09-01T00:00:00Z",
+  updated_at: "2024-09-01T00:00:00Z",
+}));
+
+// ============================================================================
+// Page Component
+// ============================================================================
+
+export default function AdminAchievementsPage() {
+  const [achievements, setAchievements] = React.useState<Achievement[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [search, setSearch] = React.useState("");
+  const [editing, setEditing] = React.useState<Achievement | null>(null);
+  const [showForm, setShowForm] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!IS_SUPABASE_CONFIGURED) {
+      setAchievements(MOCK_ACHIEVEMENTS);
+      setIsLoading(false);
+      return;
+    }
+    getAchievements()
+      .then(setAchievements)
+      .catch(() => setAchievements([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const filtered = achievements.filter((a) => {
+    if (!search) return true;
+    const q = search.toLowerCase();
+    return a.name.toLowerCase().includes(q) || a.slug.includes(q);
+  });
+
+  const handleSaved = (saved: Achievement) => {
+    setAchievements((prev) =>
+      prev.some((a) => a.id === saved.id)
+        ? prev.map((a) => (a.id === saved.id ? saved : a))
+        : [...prev, saved]
+    );
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  const handleToggleActive = async (achievement: Achievement) => {
+    const updated = { ...achievement, is_active: !achievement.is_active };
+    setAchievements((prev) => prev.map((a) => (a.id === updated.id ? updated : a)));
+    if (!IS_SUPABASE_CONFIGURED) return;
+    try {
+      await saveAchievement(toInput(updated), achievement.id);
+    } catch {
+      setAchievements((prev) => prev.map((a) => (a.id === achievement.id ? achievement : a)));
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Achievements</h1>
+          <p className="text-slate-400 mt-1">
+            Define when achievements are earned; learners are awarded them on their next attempt
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            setEditing(null);
+            setShowForm(true);
+          }}
+          className="bg-cyan-500 hover:bg-cyan-600"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Achievement
+        </Button>
+      </div>
+
+      {/* Search */}
+      <div className="relative max-w-md">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+        <Input
+          placeholder="Search achievements..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-10 bg-slate-800 border-slate-700 text-white"
+        />
+      </div>
+
+      {/* Achievement Table */}
+      <Card className="bg-slate-900 border-slate-800">
+        {isLoading ? (
+          <div className="py-12 flex justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+          </div>
+        ) : filtered.length === 0 ? (
+          <div className="py-12 text-center text-slate-400">
+            <Trophy className="w-8 h-8 mx-auto mb-2 text-slate-600" />
+            No achievements found
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-800">
+                  <th className="text-left py-3 px-4 text-sm font-medium text-slate-400">Achievement</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-slate-400">Criteria</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-slate-400">Category</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-slate-400">Points</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-slate-400">Active</th>
+                  <th className="py-3 px-4" />
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map((achievement) => (
+                  <tr key={achievement.id} className="border-b border-slate-800 hover:bg-slate-800/50">
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-3">
+                        <span className="text-2xl">{achievement.icon}</span>
+                        <div>
+                          <p className="text-white font-medium">{achievement.name}</p>
+                          <p className="text-sm text-slate-400">{achievement.description}</p>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-slate-300 max-w-xs">
+                      {describeCriteria(achievement.criteria)}
+                    </td>
+                    <td className="py-3 px-4">
+                      <Badge outline className="border-slate-700 text-slate-300 capitalize">
+                        {achievement.category}
+                      </Badge>
+                    </td>
+                    <td className="py-3 px-4 text-slate-300">{achievement.points}</td>
+                    <td className="py-3 px-4">
+                      <Switch
+                        checked={achievement.is_active}
+                        onCheckedChange={() => handleToggleActive(achievement)}
+                      />
+                    </td>
+                    <td className="py-3 px-4 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setEditing(achievement);
+                          setShowForm(true);
+                        }}
+                        className="text-slate-400 hover:text-white"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {/* Achievement Modal */}
+      <Modal open={showForm} onOpenChange={setShowForm}>
+        <ModalContent className="bg-slate-900 border-slate-800 max-w-2xl">
+          <ModalHeader>
+            <ModalTitle className="text-white">
+              {editing ? "Edit Achievement" : "New Achievement"}
+            </ModalTitle>
+            <ModalClose />
+          </ModalHeader>
+          {showForm && (
+            <AchievementForm
+              achievement={editing}
+              onSaved={handleSaved}
+              onClose={() => setShowForm(false)}
+            />
+          )}
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+}
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+function toInput(achievement: Achievement): AchievementInput {
+  const { slug, name, description, icon, category, criteria, points, is_active } = achievement;
+  return { slug, name, description, icon, category, criteria, points, is_active };
+}
+
+/**
+ * Parse and validate the criteria JSON, returning the criteria or the first
+ * problem found
+ */
+function parseCriteria(text: string): { criteria?: AchievementCriteria; error?: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { error: "Criteria must be valid JSON" };
+  }
+  const result = achievementCriteriaSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: `${issue.path.join(".") || "criteria"}: ${issue.message}` };
+  }
+  return { criteria: result.data };
+}
+
+function AchievementForm({
+  achievement,
+  onSaved,
+  onClose,
+}: {
+  achievement: Achievement | null;
+  onSaved: (achievement: Achievement) => void;
+  onClose: () => void;
+}) {
+  const [formData, setFormData] = React.useState<Omit<AchievementInput, "criteria">>({
+    slug: achievement?.slug ?? "",
+    name: achievement?.name ?? "",
+    description: achievement?.description ?? "",
+    icon: achievement?.icon ?? "🏆",
+    category: achievement?.category ?? "milestone",
+    points: achievement?.points ?? 50,
+    is_active: achievement?.is_active ?? true,
+  });
+  const [criteriaText, setCriteriaText] = React.useState(
+    JSON.stringify(achievement?.criteria ?? CRITERIA_TEMPLATES[0].criteria, null, 2)
+  );
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const parsed = parseCriteria(criteriaText);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!parsed.criteria) return;
+
+    setSaving(true);
+    setError(null);
+    const input = { ...formData, criteria: parsed.criteria };
+    try {
+      const saved = IS_SUPABASE_CONFIGURED
+        ? await saveAchievement(input, achievement?.id)
+        : {
+            ...input,
+            id: achievement?.id ?? crypto.randomUUID(),
+            created_at: achievement?.created_at ?? new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          };
+      onSaved(saved);
+    } catch (err: any) {
+      setError(
+        err?.code === "23505"
+          ? "An achievement with this slug already exists."
+          : "Could not save the achievement. Please try again."
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-[4rem_1fr_1fr] gap-4">
+        <div>
+          <label className="text-sm text-slate-400 mb-1 block">Icon</label>
+          <Input
+            value={formData.icon}
+            onChange={(e) => setFormData({ ...formData, icon: e.target.value })}
+            required
+            className="bg-slate-800 border-slate-700 text-white text-center"
+          />
+        </div>
+        <div>
+          <label className="text-sm text-slate-400 mb-1 block">Name</label>
+          <Input
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            required
+            className="bg-slate-800 border-slate-700 text-white"
+          />
+        </div>
+        <div>
+          <label className="text-sm text-slate-400 mb-1 block">Slug</label>
+          <Input
+            value={formData.slug}
+            onChange={(e) => setFormData({ ...formData, slug: e.target.value })}
+            pattern="[a-z0-9]+(-[a-z0-9]+)*"
+            title="Lowercase words separated by hyphens"
+            disabled={!!achievement}
+            required
+            className="bg-slate-800 border-slate-700 text-white"
+          />
+        </div>
+      </div>
+      <div>
+        <label className="text-sm text-slate-400 mb-1 block">Description</label>
+        <Input
+          value={formData.description}
+          onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+          required
+          className="bg-slate-800 border-slate-700 text-white"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm text-slate-400 mb-1 block">Category</label>
+          <select
+            value={formData.category}
+            onChange={(e) =>
+              setFormData({ ...formData, category: e.target.value as AchievementCategory })
+            }
+            className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white capitalize"
+          >
+            {CATEGORIES.map((category) => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-sm text-slate-400 mb-1 block">Points</label>
+          <Input
+            type="number"
+            value={formData.points}
+            onChange={(e) => setFormData({ ...formData, points: parseInt(e.target.value) || 0 })}
+            min={0}
+            required
+            className="bg-slate-800 border-slate-700 text-white"
+          />
+        </div>
+      </div>
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="text-sm text-slate-400">Criteria (JSON)</label>
+          <div className="flex gap-1">
+            {CRITERIA_TEMPLATES.map((template) => (
+              <button
+                key={template.label}
+                type="button"
+                onClick={() => setCriteriaText(JSON.stringify(template.criteria, null, 2))}
+                className="px-2 py-0.5 text-xs rounded border border-slate-700 text-slate-400 hover:text-white"
+              >
+                {template.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <textarea
+          value={criteriaText}
+          onChange={(e) => setCriteriaText(e.target.value)}
+          rows={10}
+          spellCheck={false}
+          className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white font-mono text-xs resize-y"
+        />
+        {parsed.criteria ? (
+          <p className="text-sm text-emerald-400 mt-1">{describeCriteria(parsed.criteria)}</p>
+        ) : (
+          <p className="text-sm text-rose-400 mt-1">{parsed.error}</p>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={formData.is_active}
+          onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+        />
+        <label className="text-sm text-slate-300">Active</label>
+      </div>
+      {error && <p className="text-sm text-rose-400">{error}</p>}
+      <ModalFooter className="px-0 pb-0">
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={onClose}
+          className="text-slate-400 hover:text-white"
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          disabled={!parsed.criteria || saving}
+          className="bg-cyan-500 hover:bg-cyan-600"
+        >
+          {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {achievement ? "Update" : "Create"} Achievement
+        </Button>
+      </ModalFooter>
+    </form>
+  );
+}
@@ -37,6 +37,15 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { IS_SUPABASE_CONFIGURED } from "@/lib/supabase/client";
+import {
+  getPlatformAnalytics,
+  percentChange,
+  summarizeRetention,
+  HARDEST_CASE_MIN_ATTEMPTS,
+  type AnalyticsRange,
+  type PlatformAnalytics,
+} from "@/lib/supabase/analytics";
 
 // ============================================================================
 // Mock Data
@@ -109,6 +118,16 @@ const STREAK_DISTRIBUTION = [
   { streak: "30+ days", count: 40 },
 ];
 
+const CATEGORY_LABELS: Record<string, string> = {
+  "chest-pain": "Chest Pain",
+  "low-back-pain": "Low Back Pain",
+  headache: "Headache",
+  "abdominal-pain": "Abdominal Pain",
+  "extremity-trauma": "Extremity Trauma",
+};
+
+const DIFFICULTY_LEVELS = ["beginner", "intermediate", "advanced"] as const;
+
 const COLORS = {
   cyan: "#06b6d4",
   emerald: "#10b981",
@@ -118,14 +137,181 @@ const COLORS = {
   blue: "#3b82f6",
 };
 
+// ============================================================================
+// View Model
+// ============================================================================
+
+interface AnalyticsView {
+  totalUsers: number;
+  userGrowth: number | null;
+  activeUsers: number;
+  activeUsersChange: number | null;
+  attempts: number;
+  attemptsChange: number | null;
+  accuracy: number | null;
+  accuracyChange: number | null;
+  usage: typeof USAGE_DATA;
+  categories: typeof CATEGORY_DATA;
+  difficulty: typeof DIFFICULTY_DATA;
+  topCases: typeof TOP_CASES;
+  hardestCases: typeof HARDEST_CASES;
+  scoreDistribution: typeof SCORE_DISTRIBUTION;
+  retention: Array<{ week: string; retained: number }>;
+  retentionHighlights: Array<{ label: string; value: number | null }>;
+  streaks: typeof STREAK_DISTRIBUTION;
+  averageStreak: number | null;
+  averageMinutes: number | null;
+  totalHours: number;
+}
+
+const MOCK_VIEW: AnalyticsView = {
+  totalUsers: 1247,
+  userGrowth: 12.5,
+  activeUsers: 482,
+  activeUsersChange: 8.3,
+  attempts: 12450,
+  attemptsChange: 15.2,
+  accuracy: 72,
+  accuracyChange: -2.1,
+  usage: USAGE_DATA,
+  categories: CATEGORY_DATA,
+  difficulty: DIFFICULTY_DATA,
+  topCases: TOP_CASES,
+  hardestCases: HARDEST_CASES,
+  scoreDistribution: SCORE_DISTRIBUTION,
+  retention: RETENTION_DATA,
+  retentionHighlights: [
+    { label: "Week 2", value: 72 },
+    { label: "Week 4", value: 48 },
+    { label: "Week 8", value: 33 },
+  ],
+  streaks: STREAK_DISTRIBUTION,
+  averageStreak: 6.4,
+  averageMinutes: 4.2,
+  totalHours: 2847,
+};
+
+const toMinutes = (seconds: number) => Math.round((seconds / 60) * 10) / 10;
+
+/**
+ * Shape the database metrics like the demo data the charts were built on
+ */
+function toAnalyticsView(analytics: PlatformAnalytics): AnalyticsView {
+  const { overview } = analytics;
+  const categories = analytics.breakdown.filter((row) => row.dimension === "category");
+  const difficulties = analytics.breakdown.filter((row) => row.dimension === "difficulty");
+  const retention = summarizeRetention(analytics.retention);
+  const retainedAt = (weekOffset: number) =>
+    retention.find((row) => row.weekOffset === weekOffset)?.retained ?? null;
+  const streakLearners = analytics.streakDistribution.reduce((sum, row) => sum + row.learners, 0);
+  const streakDays = analytics.streakDistribution.reduce((sum, row) => sum + (row.streak_days ?? 0), 0);
+
+  return {
+    totalUsers: overview.total_users,
+    userGrowth: percentChange(overview.total_users, overview.total_users - overview.new_users),
+    activeUsers: overview.active_users,
+    activeUsersChange: percentChange(overview.active_users, overview.previous_active_users),
+    attempts: overview.attempts,
+    attemptsChange: percentChange(overview.attempts, overview.previous_attempts),
+    accuracy: overview.accuracy,
+    // Percentage points, not percent of a percent
+    accuracyChange:
+      overview.accuracy !== null && overview.previous_accuracy !== null
+        ? Math.round((overview.accuracy - overview.previous_accuracy) * 10) / 10
+        : null,
+    usage: analytics.activity.map((row) => ({
+      date: row.bucket,
+      daily: row.active_users,
+      weekly: row.weekly_active_users,
+      attempts: row.attempts,
+      registrations: row.registrations,
+    })),
+    categories: categories.map((row) => ({
+      name: CATEGORY_LABELS[row.value] ?? row.value,
+      attempts: row.attempts,
+      accuracy: row.accuracy,
+      avgTime: toMinutes(row.avg_time_seconds),
+    })),
+    difficulty: DIFFICULTY_LEVELS.map((level) => {
+      const row = difficulties.find((d) => d.value === level);
+      return {
+        name: level.charAt(0).toUpperCase() + level.slice(1),
+        count: row?.attempts ?? 0,
+        accuracy: row?.accuracy ?? 0,
+      };
+    }),
+    topCases: analytics.popularCases.map((c) => ({
+      title: c.title,
+      attempts: c.attempts,
+      accuracy: c.accuracy,
+    })),
+    hardestCases: analytics.hardestCases.map((c) => ({
+      title: c.title,
+      attempts: c.attempts,
+      accuracy: c.accuracy,
+    })),
+    scoreDistribution: analytics.scoreDistribution.map((row) => ({
+      range: row.bucket,
+      count: row.learners,
+    })),
+    retention: retention
+      .filter((row) => row.weekOffset <= 8)
+      .map((row) => ({ week: `Week ${row.weekOffset}`, retained: row.retained })),
+    retentionHighlights: [
+      { label: "Week 1", value: retainedAt(1) },
+      { label: "Week 4", value: retainedAt(4) },
+      { label: "Week 8", value: retainedAt(8) },
+    ],
+    streaks: analytics.streakDistribution.map((row) => ({
+      streak: row.bucket,
+      count: row.learners,
+    })),
+    averageStreak: streakLearners ? Math.round((streakDays / streakLearners) * 10) / 10 : null,
+    averageMinutes: overview.avg_time_seconds !== null ? toMinutes(overview.avg_time_seconds) : null,
+    totalHours: Math.round(overview.total_time_seconds / 3600),
+  };
+}
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${value}%`);
+
 // ============================================================================
 // Component
 // ============================================================================
 
 export default function AnalyticsPage() {
-  const [dateRange, setDateRange] = React.useState<"week" | "month" | "year">(
-    "month"
+  const [dateRange, setDateRange] = React.useState<AnalyticsRange>("month");
+  const [view, setView] = React.useState<AnalyticsView | null>(
+    IS_SUPABASE_CONFIGURED ? null : MOCK_VIEW
   );
+  const [loadError, setLoadError] = React.useState<string | null>(null);
+
+  // Real metrics for the selected range when Supabase is configured
+  React.useEffect(() => {
+    if (!IS_SUPABASE_CONFIGURED) return;
+    let cancelled = false;
+    setLoadError(null);
+    getPlatformAnalytics(dateRange)
+      .then((analytics) => {
+        if (!cancelled) setView(toAnalyticsView(analytics));
+      })
+      .catch((err) => {
+        if (!cancelled) setLoadError(err?.message ?? "Could not load analytics");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [dateRange]);
+
+  if (!view) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-bold text-white">Analytics</h1>
+        <p className={cn("mt-4", loadError ? "text-rose-400" : "text-slate-400")}>
+          {loadError ?? "Loading analytics..."}
+        </p>
+      </div>
+    );
+  }
 
   return (
     <div className="p-6 space-y-6">
@@ -155,33 +341,39 @@ export default function AnalyticsPage() {
         </div>
       </div>
 
+      {loadError && (
+        <p className="text-sm text-rose-400">
+          Could not refresh analytics: {loadError}
+        </p>
+      )}
+
       {/* KPI Overview */}
       <div className="grid grid-cols-4 gap-4">
         <KPICard
           title="Total Users"
-          value="1,247"
-          change={12.5}
+          value={view.totalUsers.toLocaleString()}
+          change={view.userGrowth}
           icon={<Users className="w-5 h-5" />}
           color="cyan"
         />
         <KPICard
-          title="Active Users (Weekly)"
-          value="482"
-          change={8.3}
+          title="Active Users"
+          value={view.activeUsers.toLocaleString()}
+          change={view.activeUsersChange}
           icon={<Activity className="w-5 h-5" />}
           color="emerald"
         />
         <KPICard
           title="Case Attempts"
-          value="12,450"
-          change={15.2}
+          value={view.attempts.toLocaleString()}
+          change={view.attemptsChange}
           icon={<BookOpen className="w-5 h-5" />}
           color="amber"
         />
         <KPICard
           title="Avg Accuracy"
-          value="72%"
-          change={-2.1}
+          value={formatPercent(view.accuracy)}
+          change={view.accuracyChange}
           icon={<Target className="w-5 h-5" />}
           color="violet"
         />
@@ -199,7 +391,7 @@ export default function AnalyticsPage() {
           <CardContent>
             <div className="h-64">
               <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={USAGE_DATA}>
+                <AreaChart data={view.usage}>
                   <defs>
                     <linearGradient id="colorDaily" x1="0" y1="0" x2="0" y2="1">
                       <stop
@@ -275,13 +467,13 @@ export default function AnalyticsPage() {
           <CardContent>
             <div className="h-64">
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={USAGE_DATA.slice(-14)}>
+                <BarChart data={view.usage.slice(-14)}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
                   <XAxis
                     dataKey="date"
                     stroke="#64748b"
                     fontSize={12}
-                    tickFormatter={(v) => v.slice(8)}
+                    tickFormatter={(v) => v.slice(5)}
                   />
                   <YAxis stroke="#64748b" fontSize={12} />
                   <Tooltip
@@ -323,7 +515,10 @@ export default function AnalyticsPage() {
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {TOP_CASES.map((caseItem, i) => (
+              {view.topCases.length === 0 && (
+                <p className="text-sm text-slate-400">No attempts in this period</p>
+              )}
+              {view.topCases.map((caseItem, i) => (
                 <motion.div
                   key={caseItem.title}
                   initial={{ opacity: 0, x: -10 }}
@@ -367,7 +562,12 @@ export default function AnalyticsPage() {
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {HARDEST_CASES.map((caseItem, i) => (
+              {view.hardestCases.length === 0 && (
+                <p className="text-sm text-slate-400">
+                  No case has {HARDEST_CASE_MIN_ATTEMPTS} attempts in this period yet
+                </p>
+              )}
+              {view.hardestCases.map((caseItem, i) => (
                 <motion.div
                   key={caseItem.title}
                   initial={{ opacity: 0, x: -10 }}
@@ -405,7 +605,7 @@ export default function AnalyticsPage() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {CATEGORY_DATA.map((cat) => (
+              {view.categories.map((cat) => (
                 <div key={cat.name}>
                   <div className="flex items-center justify-between mb-1">
                     <span className="text-sm text-slate-300">{cat.name}</span>
@@ -448,7 +648,7 @@ export default function AnalyticsPage() {
           <CardContent>
             <div className="h-64">
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={SCORE_DISTRIBUTION}>
+                <BarChart data={view.scoreDistribution}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
                   <XAxis dataKey="range" stroke="#64748b" fontSize={12} />
                   <YAxis stroke="#64748b" fontSize={12} />
@@ -460,7 +660,7 @@ export default function AnalyticsPage() {
                     }}
                   />
                   <Bar dataKey="count" name="Users" radius={[4, 4, 0, 0]}>
-                    {SCORE_DISTRIBUTION.map((entry, index) => (
+                    {view.scoreDistribution.map((entry, index) => (
                       <Cell
                         key={`cell-${index}`}
                         fill={
@@ -492,7 +692,7 @@ export default function AnalyticsPage() {
               <ResponsiveContainer width="100%" height="100%">
                 <PieChart>
                   <Pie
-                    data={DIFFICULTY_DATA}
+                    data={view.difficulty}
                     cx="50%"
                     cy="50%"
                     innerRadius={60}
@@ -516,7 +716,7 @@ export default function AnalyticsPage() {
               </ResponsiveContainer>
             </div>
             <div className="grid grid-cols-3 gap-4 mt-4">
-              {DIFFICULTY_DATA.map((d, i) => (
+              {view.difficulty.map((d, i) => (
                 <div key={d.name} className="text-center">
                   <p
                     className={cn(
@@ -551,7 +751,7 @@ export default function AnalyticsPage() {
           <CardContent>
             <div className="h-64">
               <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={RETENTION_DATA}>
+                <AreaChart data={view.retention}>
                   <defs>
                     <linearGradient id="retainedGrad" x1="0" y1="0" x2="0" y2="1">
                       <stop
@@ -588,18 +788,19 @@ export default function AnalyticsPage() {
               </ResponsiveContainer>
             </div>
             <div className="grid grid-cols-3 gap-4 mt-4 text-center">
-              <div>
-                <p className="text-2xl font-bold text-emerald-400">72%</p>
-                <p className="text-xs text-slate-400">Week 2 Retention</p>
-              </div>
-              <div>
-                <p className="text-2xl font-bold text-amber-400">48%</p>
-                <p className="text-xs text-slate-400">Week 4 Retention</p>
-              </div>
-              <div>
-                <p className="text-2xl font-bold text-cyan-400">33%</p>
-                <p className="text-xs text-slate-400">Week 8 Retention</p>
-              </div>
+              {view.retentionHighlights.map((highlight, i) => (
+                <div key={highlight.label}>
+                  <p
+                    className={cn(
+                      "text-2xl font-bold",
+                      ["text-emerald-400", "text-amber-400", "text-cyan-400"][i]
+                    )}
+                  >
+                    {formatPercent(highlight.value)}
+                  </p>
+                  <p className="text-xs text-slate-400">{highlight.label} Retention</p>
+                </div>
+              ))}
             </div>
           </CardContent>
         </Card>
@@ -615,7 +816,7 @@ export default function AnalyticsPage() {
           <CardContent>
             <div className="h-64">
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={STREAK_DISTRIBUTION} layout="vertical">
+                <BarChart data={view.streaks} layout="vertical">
                   <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
                   <XAxis type="number" stroke="#64748b" fontSize={12} />
                   <YAxis
@@ -646,7 +847,9 @@ export default function AnalyticsPage() {
                 <Flame className="w-5 h-5 text-amber-400" />
                 <span className="text-slate-300">Average Streak</span>
               </div>
-              <span className="text-xl font-bold text-amber-400">6.4 days</span>
+              <span className="text-xl font-bold text-amber-400">
+                {view.averageStreak === null ? "—" : `${view.averageStreak} days`}
+              </span>
             </div>
           </CardContent>
         </Card>
@@ -662,7 +865,7 @@ export default function AnalyticsPage() {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-5 gap-4">
-            {CATEGORY_DATA.map((cat) => (
+            {view.categories.map((cat) => (
               <div key={cat.name} className="p-4 bg-slate-800 rounded-lg text-center">
                 <p className="text-2xl font-bold text-white">{cat.avgTime}</p>
                 <p className="text-xs text-slate-400">min avg</p>
@@ -673,11 +876,15 @@ export default function AnalyticsPage() {
           <div className="mt-4 p-4 bg-slate-800 rounded-lg flex items-center justify-between">
             <div>
               <p className="text-slate-400 text-sm">Platform-wide Average</p>
-              <p className="text-3xl font-bold text-white">4.2 minutes</p>
+              <p className="text-3xl font-bold text-white">
+                {view.averageMinutes === null ? "—" : `${view.averageMinutes} minutes`}
+              </p>
             </div>
             <div className="text-right">
               <p className="text-slate-400 text-sm">Total Learning Time</p>
-              <p className="text-3xl font-bold text-violet-400">2,847 hours</p>
+              <p className="text-3xl font-bold text-violet-400">
+                {view.totalHours.toLocaleString()} hours
+              </p>
             </div>
           </div>
         </CardContent>
@@ -699,7 +906,7 @@ function KPICard({
 }: {
   title: string;
   value: string;
-  change: number;
+  change: number | null;
   icon: React.ReactNode;
   color: "cyan" | "emerald" | "amber" | "violet";
 }) {
@@ -719,23 +926,27 @@ function KPICard({
           <div>
             <p className="text-sm text-slate-400">{title}</p>
             <p className="text-2xl font-bold text-white mt-1">{value}</p>
-            <div
-              className={cn(
-                "flex items-center gap-1 mt-1 text-sm",
-                isPositive ? "text-emerald-400" : "text-rose-400"
-              )}
-            >
-              {isPositive ? (
-                <TrendingUp className="w-3 h-3" />
-              ) : (
-                <TrendingDown className="w-3 h-3" />
-              )}
-              <span>
-                {isPositive ? "+" : ""}
-                {change}%
-              </span>
-              <span className="text-slate-500">vs last period</span>
-            </div>
+            {change !== null ? (
+              <div
+                className={cn(
+                  "flex items-center gap-1 mt-1 text-sm",
+                  isPositive ? "text-emerald-400" : "text-rose-400"
+                )}
+              >
+                {isPositive ? (
+                  <TrendingUp className="w-3 h-3" />
+                ) : (
+                  <TrendingDown className="w-3 h-3" />
+                )}
+                <span>
+                  {isPositive ? "+" : ""}
+                  {change}%
+                </span>
+                <span className="text-slate-500">vs last period</span>
+              </div>
+            ) : (
+              <p className="mt-1 text-sm text-slate-500">No previous period to compare</p>
+            )}
           </div>
           <div className={cn("p-3 rounded-lg", colors[color])}>{icon}</div>
         </div>
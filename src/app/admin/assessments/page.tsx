@@ -21,6 +21,9 @@ import {
   Users,
   Target,
   FileText,
+  BarChart3,
+  AlertTriangle,
+  ShieldCheck,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -28,19 +31,27 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Modal, ModalContent, ModalHeader, ModalTitle, ModalClose, ModalFooter } from "@/components/ui/modal";
 import { Switch } from "@/components/ui/switch";
+import { ItemAnalysisDialog } from "@/components/admin/item-analysis-dialog";
+import { IntegrityReviewDialog } from "@/components/admin/integrity-review-dialog";
 import { cn } from "@/lib/utils";
-import type { Assessment, DifficultyLevel, SpecialtyTrack } from "@/types/database";
+import { IS_SUPABASE_CONFIGURED } from "@/lib/supabase/client";
+import {
+  getAssessmentItemAnalyses,
+  getAssessmentsWithStats,
+  type AssessmentItemAnalyses,
+  type AssessmentWithStats,
+} from "@/lib/supabase/assessment-analysis";
+import {
+  getProctoredSittingReviews,
+  setAssessmentProctored,
+  type ProctoredSittingReview,
+} from "@/lib/supabase/integrity";
+import type { DifficultyLevel, SpecialtyTrack } from "@/types/database";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface AssessmentWithStats extends Assessment {
-  total_attempts: number;
-  average_score: number;
-  completion_rate: number;
-}
-
 interface AssessmentFormData {
   title: string;
   description: string;
@@ -50,6 +61,7 @@ interface AssessmentFormData {
   specialty_track: SpecialtyTrack | null;
   difficulty: DifficultyLevel | null;
   is_published: boolean;
+  is_proctored: boolean;
 }
 
 // ============================================================================
@@ -68,6 +80,7 @@ const MOCK_ASSESSMENTS: AssessmentWithStats[] = [
     difficulty: "intermediate",
     is_published: true,
     is_custom: false,
+    is_proctored: true,
     created_by: null,
     created_at: "2025-01-01T00:00:00Z",
     updated_at: "2025-01-15T00:00:00Z",
@@ -86,6 +99,7 @@ const MOCK_ASSESSMENTS: AssessmentWithStats[] = [
     difficulty: "beginner",
     is_published: true,
     is_custom: false,
+    is_proctored: false,
     created_by: null,
     created_at: "2025-01-05T00:00:00Z",
     updated_at: "2025-01-10T00:00:00Z",
@@ -104,6 +118,7 @@ const MOCK_ASSESSMENTS: AssessmentWithStats[] = [
     difficulty: "advanced",
     is_published: false,
     is_custom: true,
+    is_proctored: true,
     created_by: "admin-1",
     created_at: "2025-01-10T00:00:00Z",
     updated_at: "2025-01-12T00:00:00Z",
@@ -125,6 +140,27 @@ export default function AssessmentsManagementPage() {
   const [selectedAssessment, setSelectedAssessment] = React.useState<AssessmentWithStats | null>(null);
   const [showEditModal, setShowEditModal] = React.useState(false);
   const [loading, setLoading] = React.useState(false);
+  const [itemData, setItemData] = React.useState<AssessmentItemAnalyses | null>(null);
+  const [analysisTarget, setAnalysisTarget] = React.useState<AssessmentWithStats | null>(null);
+  const [integrityTarget, setIntegrityTarget] = React.useState<AssessmentWithStats | null>(null);
+  const [integrityReviews, setIntegrityReviews] = React.useState<ProctoredSittingReview[] | null>(null);
+
+  // Real assessments and item analysis when Supabase is configured
+  React.useEffect(() => {
+    if (!IS_SUPABASE_CONFIGURED) return;
+    let cancelled = false;
+    getAssessmentsWithStats()
+      .then(async (data) => {
+        if (cancelled) return;
+        setAssessments(data);
+        const analyses = await getAssessmentItemAnalyses(data);
+        if (!cancelled) setItemData(analyses);
+      })
+      .catch((err) => console.error("Error loading assessment statistics:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   // Filter assessments
   const filteredAssessments = React.useMemo(() => {
@@ -152,6 +188,37 @@ export default function AssessmentsManagementPage() {
     setLoading(false);
   };
 
+  const handleToggleProctored = async (assessment: AssessmentWithStats) => {
+    setLoading(true);
+    try {
+      if (IS_SUPABASE_CONFIGURED) {
+        await setAssessmentProctored(assessment.id, !assessment.is_proctored);
+      }
+      setAssessments((prev) =>
+        prev.map((a) => (a.id === assessment.id ? { ...a, is_proctored: !a.is_proctored } : a))
+      );
+    } catch (err) {
+      console.error("Error updating proctoring:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReviewIntegrity = (assessment: AssessmentWithStats) => {
+    setIntegrityTarget(assessment);
+    setIntegrityReviews(null);
+    if (!IS_SUPABASE_CONFIGURED) {
+      setIntegrityReviews([]);
+      return;
+    }
+    getProctoredSittingReviews(assessment.id)
+      .then(setIntegrityReviews)
+      .catch((err) => {
+        console.error("Error loading integrity events:", err);
+        setIntegrityReviews([]);
+      });
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm("Are you sure you want to delete this assessment?")) return;
     setLoading(true);
@@ -202,7 +269,7 @@ export default function AssessmentsManagementPage() {
         <StatCard
           title="Avg Completion Rate"
           value={`${Math.round(
-            assessments.reduce((sum, a) => sum + a.completion_rate, 0) / assessments.length
+            assessments.reduce((sum, a) => sum + a.completion_rate, 0) / (assessments.length || 1)
           )}%`}
           icon={<Target className="w-5 h-5" />}
           color="violet"
@@ -268,6 +335,25 @@ export default function AssessmentsManagementPage() {
                           Custom
                         </Badge>
                       )}
+                      {assessment.is_proctored && (
+                        <Badge
+                          className="bg-violet-500/20 text-violet-400 border-violet-500/30 cursor-pointer"
+                          onClick={() => handleReviewIntegrity(assessment)}
+                        >
+                          <ShieldCheck className="w-3 h-3 mr-1" />
+                          Proctored
+                        </Badge>
+                      )}
+                      {itemData?.analyses[assessment.id]?.flaggedCount > 0 && (
+                        <Badge
+                          className="bg-rose-500/20 text-rose-400 border-rose-500/30 cursor-pointer"
+                          onClick={() => setAnalysisTarget(assessment)}
+                        >
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          {itemData.analyses[assessment.id].flaggedCount} poor discriminator
+                          {itemData.analyses[assessment.id].flaggedCount === 1 ? "" : "s"}
+                        </Badge>
+                      )}
                     </div>
                     <p className="text-sm text-slate-400 mb-4">
                       {assessment.description}
@@ -306,6 +392,12 @@ export default function AssessmentsManagementPage() {
                           {assessment.average_score}%
                         </span>
                       </div>
+                      {itemData?.analyses[assessment.id]?.kr20 != null && (
+                        <div className="flex items-center gap-2 text-slate-300">
+                          <BarChart3 className="w-4 h-4" />
+                          KR-20: {itemData.analyses[assessment.id].kr20.toFixed(2)}
+                        </div>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center gap-2 ml-4">
@@ -331,6 +423,9 @@ export default function AssessmentsManagementPage() {
                         setSelectedAssessment(assessment);
                         setShowEditModal(true);
                       }}
+                      onAnalyze={() => setAnalysisTarget(assessment)}
+                      onReviewIntegrity={() => handleReviewIntegrity(assessment)}
+                      onToggleProctored={() => handleToggleProctored(assessment)}
                       onDelete={() => handleDelete(assessment.id)}
                     />
                   </div>
@@ -341,6 +436,22 @@ export default function AssessmentsManagementPage() {
         ))}
       </div>
 
+      <ItemAnalysisDialog
+        open={!!analysisTarget}
+        onOpenChange={(open) => !open && setAnalysisTarget(null)}
+        title={analysisTarget?.title ?? ""}
+        analysis={analysisTarget ? itemData?.analyses[analysisTarget.id] ?? null : null}
+        caseTitles={itemData?.caseTitles ?? {}}
+        imagingNames={itemData?.imagingNames ?? {}}
+      />
+
+      <IntegrityReviewDialog
+        open={!!integrityTarget}
+        onOpenChange={(open) => !open && setIntegrityTarget(null)}
+        title={integrityTarget?.title ?? ""}
+        reviews={integrityReviews}
+      />
+
       {/* Create/Edit Modal */}
       <Modal
         open={showCreateModal || showEditModal}
@@ -440,10 +551,16 @@ function StatCard({
 function AssessmentActionMenu({
   assessment,
   onEdit,
+  onAnalyze,
+  onReviewIntegrity,
+  onToggleProctored,
   onDelete,
 }: {
   assessment: AssessmentWithStats;
   onEdit: () => void;
+  onAnalyze: () => void;
+  onReviewIntegrity: () => void;
+  onToggleProctored: () => void;
   onDelete: () => void;
 }) {
   const [open, setOpen] = React.useState(false);
@@ -481,6 +598,38 @@ function AssessmentActionMenu({
                 <Edit className="w-4 h-4" />
                 Edit
               </button>
+              <button
+                onClick={() => {
+                  onAnalyze();
+                  setOpen(false);
+                }}
+                className="w-full px-4 py-2 text-left text-sm text-slate-300 hover:bg-slate-700 flex items-center gap-2"
+              >
+                <BarChart3 className="w-4 h-4" />
+                Item Analysis
+              </button>
+              {assessment.is_proctored && (
+                <button
+                  onClick={() => {
+                    onReviewIntegrity();
+                    setOpen(false);
+                  }}
+                  className="w-full px-4 py-2 text-left text-sm text-slate-300 hover:bg-slate-700 flex items-center gap-2"
+                >
+                  <Eye className="w-4 h-4" />
+                  Integrity Review
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  onToggleProctored();
+                  setOpen(false);
+                }}
+                className="w-full px-4 py-2 text-left text-sm text-slate-300 hover:bg-slate-700 flex items-center gap-2"
+              >
+                <ShieldCheck className="w-4 h-4" />
+                {assessment.is_proctored ? "Disable Proctoring" : "Enable Proctoring"}
+              </button>
               <button
                 onClick={() => {
                   onDelete();
@@ -517,6 +666,7 @@ function AssessmentForm({
     specialty_track: assessment?.specialty_track || null,
     difficulty: assessment?.difficulty || null,
     is_published: assessment?.is_published || false,
+    is_proctored: assessment?.is_proctored || false,
   });
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -639,6 +789,17 @@ function AssessmentForm({
         />
         <label className="text-sm text-slate-300">Publish immediately</label>
       </div>
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={formData.is_proctored}
+          onCheckedChange={(checked) =>
+            setFormData({ ...formData, is_proctored: checked })
+          }
+        />
+        <label className="text-sm text-slate-300">
+          Proctored (log tab switches, copy/paste and fullscreen exits; one session per learner)
+        </label>
+      </div>
       <ModalFooter className="px-0 pb-0">
         <Button
           type="button"
@@ -3,14 +3,109 @@
 import * as React from "react";
 import { useRouter, useParams } from "next/navigation";
 import { CaseEditor, CaseFormData } from "@/components/admin/case-editor";
+import { CaseRevisionPanel } from "@/components/admin/case-revision-panel";
 import { createClient } from "@/lib/supabase/client";
+import {
+  addRevisionComment,
+  createCaseWithDraft,
+  getCaseRevisions,
+  saveDraftRevision,
+  transitionCaseRevision,
+  type CaseRevisionWithComments,
+} from "@/lib/supabase/case-revisions";
+import { getRatingCategory } from "@/lib/cases/model";
+import { getOpenDraft, sortRevisions, toRevisionContent } from "@/lib/cases/revisions";
+import type { CaseRevisionContent } from "@/types/database";
 import { Loader2 } from "lucide-react";
 
+/**
+ * Form values for a case or revision snapshot
+ */
+function toFormData(
+  content: CaseRevisionContent,
+  imagingNames: Record<string, string>
+): Partial<CaseFormData> {
+  return {
+    title: content.title,
+    slug: content.slug,
+    category: content.category,
+    difficulty: content.difficulty,
+    specialtyTags: content.specialty_tags || [],
+    acrTopic: content.acr_topic || "",
+    patientAge: content.patient_age,
+    patientSex: content.patient_sex,
+    chiefComplaint: content.chief_complaint,
+    clinicalVignette: content.clinical_vignette,
+    patientHistory: content.patient_history || [],
+    medications: [],
+    socialHistory: "",
+    familyHistory: "",
+    reviewOfSystems: "",
+    vitalSigns: content.vital_signs,
+    physicalExam: content.physical_exam || "",
+    labResults: content.lab_results || [],
+    imagingRatings: (content.imaging_ratings || []).map((rating) => ({
+      imagingOptionId: rating.imaging_option_id,
+      imagingName: imagingNames[rating.imaging_option_id] || "",
+      acrRating: rating.acr_rating,
+      rationale: rating.rationale || "",
+      isOptimal: content.optimal_imaging?.includes(rating.imaging_option_id),
+    })),
+    explanation: content.explanation || "",
+    teachingPoints: content.teaching_points || [],
+    clinicalPearls: content.clinical_pearls || [],
+    hints: content.hints || [],
+    references: content.references || [],
+  };
+}
+
+/**
+ * Revision snapshot of the form. Fields the form does not edit (stages,
+ * decision rules) are carried over from the case being edited.
+ */
+function toContent(formData: CaseFormData, base: Partial<CaseRevisionContent> = {}): CaseRevisionContent {
+  return toRevisionContent(
+    {
+      ...base,
+      title: formData.title,
+      slug: formData.slug,
+      category: formData.category,
+      difficulty: formData.difficulty,
+      specialty_tags: formData.specialtyTags,
+      acr_topic: formData.acrTopic,
+      patient_age: formData.patientAge,
+      patient_sex: formData.patientSex,
+      chief_complaint: formData.chiefComplaint,
+      clinical_vignette: formData.clinicalVignette,
+      patient_history: formData.patientHistory,
+      vital_signs: formData.vitalSigns,
+      physical_exam: formData.physicalExam,
+      lab_results: formData.labResults,
+      optimal_imaging: formData.imagingRatings
+        .filter((r) => r.isOptimal)
+        .map((r) => r.imagingOptionId),
+      explanation: formData.explanation,
+      teaching_points: formData.teachingPoints,
+      clinical_pearls: formData.clinicalPearls,
+      hints: formData.hints,
+      references: formData.references,
+    },
+    formData.imagingRatings.map((r) => ({
+      imaging_option_id: r.imagingOptionId,
+      acr_rating: r.acrRating,
+      rating_category: getRatingCategory(r.acrRating),
+      rationale: r.rationale,
+    }))
+  );
+}
+
 /**
  * Case Edit Page
  * 
  * Admin page for editing existing cases or creating new ones.
  * Uses [caseId] as dynamic route - "new" for new cases.
+ * Saves go to a draft revision; the live case only changes when a
+ * reviewed revision is published.
  */
 export default function CaseEditPage() {
   const router = useRouter();
@@ -25,12 +120,48 @@ export default function CaseEditPage() {
   const [imagingOptions, setImagingOptions] = React.useState<
     Array<{ id: string; name: string; modality: string }>
   >([]);
+  const [baseContent, setBaseContent] = React.useState<Partial<CaseRevisionContent>>({});
+  const [revisions, setRevisions] = React.useState<CaseRevisionWithComments[]>([]);
+  const [currentUserId, setCurrentUserId] = React.useState<string>("");
+  const [userNames, setUserNames] = React.useState<Record<string, string>>({});
+
+  const loadRevisions = React.useCallback(async () => {
+    if (isNew) return;
+    const supabase = createClient();
+    const data = await getCaseRevisions(caseId);
+    setRevisions(data);
+
+    const ids = Array.from(
+      new Set(
+        data.flatMap((r) => [
+          r.author_id,
+          r.approver_id,
+          ...r.comments.map((c) => c.author_id),
+        ]).filter(Boolean)
+      )
+    );
+    if (ids.length > 0) {
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("id, full_name, email")
+        .in("id", ids);
+      setUserNames(
+        Object.fromEntries(
+          ((profiles || []) as any[]).map((p) => [p.id, p.full_name || p.email])
+        )
+      );
+    }
+    return data;
+  }, [caseId, isNew]);
 
-  // Fetch case data and imaging options
+  // Fetch case data, its revisions and imaging options
   React.useEffect(() => {
     const supabase = createClient();
 
     async function fetchData() {
+      const { data: { user } } = await supabase.auth.getUser();
+      setCurrentUserId(user?.id || "");
+
       // Fetch imaging options
       const { data: options } = await supabase
         .from("imaging_options")
@@ -50,11 +181,10 @@ export default function CaseEditPage() {
             `
             *,
             case_imaging_ratings (
-              id,
               imaging_option_id,
               acr_rating,
-              rationale,
-              imaging_options (id, name)
+              rating_category,
+              rationale
             )
           `
           )
@@ -67,153 +197,77 @@ export default function CaseEditPage() {
           return;
         }
 
-        const typedCaseData = caseData as any;        // Transform case data to form data
-        // @ts-ignore
-        const formData: Partial<CaseFormData> = {          title: typedCaseData.title,
-          slug: typedCaseData.slug,
-          category: typedCaseData.category,
-          difficulty: typedCaseData.difficulty,
-          specialtyTags: typedCaseData.specialty_tags || [],
-          acrTopic: typedCaseData.acr_topic || "",
-          patientAge: typedCaseData.patient_age,
-          patientSex: typedCaseData.patient_sex,
-          chiefComplaint: typedCaseData.chief_complaint,
-          clinicalVignette: typedCaseData.clinical_vignette,
-          patientHistory: typedCaseData.patient_history || [],
-          medications: [],
-          socialHistory: "",
-          familyHistory: "",
-          reviewOfSystems: "",
-          vitalSigns: typedCaseData.vital_signs,
-          physicalExam: typedCaseData.physical_exam || "",
-          labResults: typedCaseData.lab_results || [],
-          imagingRatings: (typedCaseData.case_imaging_ratings || []).map(
-            (rating: any) => ({
-              imagingOptionId: rating.imaging_option_id,
-              imagingName: rating.imaging_options?.name || "",
-              acrRating: rating.acr_rating,
-              rationale: rating.rationale || "",
-              isOptimal: typedCaseData.optimal_imaging?.includes(rating.imaging_option_id),
-            })
-          ),
-          explanation: typedCaseData.explanation || "",
-          teachingPoints: typedCaseData.teaching_points || [],
-          clinicalPearls: typedCaseData.clinical_pearls || [],
-          hints: typedCaseData.hints || [],
-          references: typedCaseData.references || [],
-          isPublished: typedCaseData.is_published,
-        };
-
-        setInitialData(formData);
+        const typedCaseData = caseData as any;
+        const caseContent = toRevisionContent(
+          typedCaseData,
+          typedCaseData.case_imaging_ratings || []
+        );
+        const imagingNames = Object.fromEntries(
+          ((options || []) as any[]).map((opt) => [opt.id, opt.name])
+        );
+
+        // Resume the open draft rather than the live case
+        const caseRevisions = await loadRevisions();
+        const draft = getOpenDraft(caseRevisions || []);
+        const content = draft?.content ?? caseContent;
+
+        setBaseContent(content);
+        setInitialData(toFormData(content, imagingNames));
       }
 
       setLoading(false);
     }
 
     fetchData();
-  }, [caseId, isNew, router]);
+  }, [caseId, isNew, router, loadRevisions]);
 
   /**
-   * Handle form submission
+   * Save the form as a draft revision
    */
-  const handleSubmit = async (formData: CaseFormData) => {
-    const supabase = createClient();
+  const handleSubmit = React.useCallback(
+    async (formData: CaseFormData) => {
+      const content = toContent(formData, baseContent);
 
-    // Transform form data to database format
-    const casePayload = {
-      title: formData.title,
-      slug: formData.slug,
-      category: formData.category,
-      difficulty: formData.difficulty,
-      specialty_tags: formData.specialtyTags,
-      acr_topic: formData.acrTopic,
-      patient_age: formData.patientAge,
-      patient_sex: formData.patientSex,
-      chief_complaint: formData.chiefComplaint,
-      clinical_vignette: formData.clinicalVignette,
-      patient_history: formData.patientHistory,
-      vital_signs: formData.vitalSigns,
-      physical_exam: formData.physicalExam,
-      lab_results: formData.labResults,
-      optimal_imaging: formData.imagingRatings
-        .filter((r) => r.isOptimal)
-        .map((r) => r.imagingOptionId),
-      explanation: formData.explanation,
-      teaching_points: formData.teachingPoints,
-      clinical_pearls: formData.clinicalPearls,
-      hints: formData.hints,
-      references: formData.references,
-      is_published: formData.isPublished,
-    };
-
-    try {
-      if (isNew) {
-        // Create new case
-        const { data: newCase, error } = await supabase
-          .from("cases")
-          .insert(casePayload as any)
-          .select("id")
-          .single();
-
-        if (error) throw error;
-
-        // Insert imaging ratings
-        if (formData.imagingRatings.length > 0 && newCase) {
-          const ratings = formData.imagingRatings.map((r: any) => ({
-            case_id: (newCase as any).id,
-            imaging_option_id: r.imagingOptionId,
-            acr_rating: r.acrRating,
-            rationale: r.rationale,
-            rating_category:
-              r.acrRating >= 7
-                ? "usually-appropriate"
-                : r.acrRating >= 4
-                ? "may-be-appropriate"
-                : "usually-not-appropriate",
-          }));
-
-          await supabase.from("case_imaging_ratings").insert(ratings as any);
+      try {
+        if (isNew) {
+          const newCaseId = await createCaseWithDraft(content, "Initial draft");
+          router.push(`/admin/cases/${newCaseId}/edit`);
+        } else {
+          await saveDraftRevision(caseId, content);
+          await loadRevisions();
         }
+      } catch (error) {
+        console.error("Failed to save case:", error);
+        throw error;
+      }
+    },
+    [baseContent, caseId, isNew, loadRevisions, router]
+  );
 
-        router.push("/admin/cases");
-      } else {
-        // Update existing case
-        // @ts-ignore
-        const { error } = await supabase          .from("cases")
-          // @ts-expect-error          .update(casePayload)
-          .eq("id", caseId);
-
-        if (error) throw error;
-
-        // Delete existing ratings and re-insert
-        await supabase
-          .from("case_imaging_ratings")
-          .delete()
-          .eq("case_id", caseId);
-
-        if (formData.imagingRatings.length > 0) {
-          const ratings = formData.imagingRatings.map((r) => ({
-            case_id: caseId,
-            imaging_option_id: r.imagingOptionId,
-            acr_rating: r.acrRating,
-            rationale: r.rationale,
-            rating_category:
-              r.acrRating >= 7
-                ? "usually-appropriate"
-                : r.acrRating >= 4
-                ? "may-be-appropriate"
-                : "usually-not-appropriate",
-          }));
-
-          await supabase.from("case_imaging_ratings").insert(ratings);
-        }
+  /**
+   * Start a new case from a copy of the form
+   */
+  const handleDuplicate = async (formData: CaseFormData) => {
+    const content = toContent(formData, baseContent);
+    const newCaseId = await createCaseWithDraft(
+      content,
+      `Duplicated from ${baseContent.slug ?? caseId}`
+    );
+    router.push(`/admin/cases/${newCaseId}/edit`);
+  };
 
-        router.push("/admin/cases");
-      }
-    } catch (error) {
-      console.error("Failed to save case:", error);
-      throw error;
-    }
+  const handleTransition = async (
+    revisionId: string,
+    status: Parameters<typeof transitionCaseRevision>[1],
+    comment?: string
+  ) => {
+    await transitionCaseRevision(revisionId, status, comment);
+    await loadRevisions();
+  };
+
+  const handleComment = async (revisionId: string, body: string) => {
+    await addRevisionComment(revisionId, body);
+    await loadRevisions();
   };
 
   // Loading state
@@ -234,6 +288,19 @@ export default function CaseEditPage() {
       caseId={isNew ? undefined : caseId}
       imagingOptions={imagingOptions}
       onSubmit={handleSubmit}
+      onDuplicate={handleDuplicate}
+      revisionStatus={sortRevisions(revisions)[0]?.status ?? null}
+      revisionPanel={
+        isNew ? null : (
+          <CaseRevisionPanel
+            revisions={revisions}
+            currentUserId={currentUserId}
+            userNames={userNames}
+            onTransition={handleTransition}
+            onComment={handleComment}
+          />
+        )
+      }
       isNew={isNew}
     />
   );
@@ -4,8 +4,15 @@
 import * as React from "react";
 import Link from "next/link";
 import { useSearchParams, useRouter, usePathname } from "next/navigation";
-import { Plus, Download, Upload } from "lucide-react";
+import { Plus, Download, Upload, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { CaseImportDialog } from "@/components/admin/case-import-dialog";
 import {
   CaseTable,
   CaseFilters,
@@ -13,6 +20,20 @@ import {
   type SortField,
   type SortDirection,
 } from "@/components/admin/case-table";
+import { allCases, getCaseImagingRatings } from "@/data/cases";
+import { imagingOptions } from "@/data/imaging-options";
+import {
+  toCaseInterchangeCsv,
+  toCaseInterchangeJson,
+  toInterchangeCase,
+  type CaseInterchangeFileType,
+} from "@/lib/cases/interchange";
+import { IS_SUPABASE_CONFIGURED } from "@/lib/supabase/client";
+import {
+  getCaseImportContext,
+  getCasesForExport,
+  importCases,
+} from "@/lib/supabase/case-transfer";
 import type { CaseCategory, DifficultyLevel } from "@/types/database";
 
 // ============================================================================
@@ -163,6 +184,8 @@ export default function CaseManagementPage() {
   // Local state
   const [selectedIds, setSelectedIds] = React.useState<string[]>([]);
   const [isLoading, setIsLoading] = React.useState(false);
+  const [importOpen, setImportOpen] = React.useState(false);
+  const [isExporting, setIsExporting] = React.useState(false);
 
   const pageSize = 10;
 
@@ -297,6 +320,45 @@ export default function CaseManagementPage() {
     console.log("Archive case:", id);
   };
 
+  /**
+   * Export the selected cases, or all of them, as an interchange file.
+   * Without Supabase the bundled cases are exported.
+   */
+  const handleExport = async (type: CaseInterchangeFileType) => {
+    setIsExporting(true);
+    try {
+      const cases = IS_SUPABASE_CONFIGURED
+        ? await getCasesForExport(selectedIds)
+        : allCases.map((c) => toInterchangeCase(c, getCaseImagingRatings(c.id)));
+      const body = type === "json" ? toCaseInterchangeJson(cases) : toCaseInterchangeCsv(cases);
+      const blob = new Blob([body], { type: type === "json" ? "application/json" : "text/csv" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `cases-${new Date().toISOString().slice(0, 10)}.${type}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Export failed:", error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  /**
+   * What an import is checked against
+   */
+  const getImportContext = React.useCallback(
+    async () =>
+      IS_SUPABASE_CONFIGURED
+        ? getCaseImportContext()
+        : {
+            existing: allCases.map((c) => ({ id: c.id, slug: c.slug })),
+            imagingOptionIds: imagingOptions.map((opt) => opt.id),
+          },
+    []
+  );
+
   /**
    * Clear filters
    */
@@ -316,15 +378,42 @@ export default function CaseManagementPage() {
             </p>
           </div>
           <div className="flex items-center gap-3">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="default"
+                  disabled={isExporting}
+                  className="border-slate-700 text-slate-300 hover:bg-slate-800"
+                >
+                  {isExporting ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="w-4 h-4 mr-2" />
+                  )}
+                  Export{selectedIds.length > 0 ? ` (${selectedIds.length})` : ""}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent
+                align="end"
+                className="z-50 min-w-[10rem] rounded-lg border border-slate-700 bg-slate-900 p-1 text-sm text-slate-300"
+              >
+                <DropdownMenuItem
+                  onSelect={() => handleExport("json")}
+                  className="px-3 py-2 rounded-md cursor-pointer outline-none hover:bg-slate-800"
+                >
+                  JSON (full fidelity)
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onSelect={() => handleExport("csv")}
+                  className="px-3 py-2 rounded-md cursor-pointer outline-none hover:bg-slate-800"
+                >
+                  CSV (spreadsheet)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button
               variant="default"
-              className="border-slate-700 text-slate-300 hover:bg-slate-800"
-            >
-              <Download className="w-4 h-4 mr-2" />
-              Export
-            </Button>
-            <Button
-              variant="default"
+              onClick={() => setImportOpen(true)}
               className="border-slate-700 text-slate-300 hover:bg-slate-800"
             >
               <Upload className="w-4 h-4 mr-2" />
@@ -372,6 +461,13 @@ export default function CaseManagementPage() {
           onArchive={handleArchive}
         />
       </div>
+
+      <CaseImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        getContext={getImportContext}
+        onImport={IS_SUPABASE_CONFIGURED ? importCases : undefined}
+      />
     </div>
   );
 }
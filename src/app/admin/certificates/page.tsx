@@ -0,0 +1,319 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { Award, Ban, ExternalLink, Loader2, Search, ShieldX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Modal, ModalContent, ModalHeader, ModalTitle, ModalClose, ModalFooter } from "@/components/ui/modal";
+import { cn } from "@/lib/utils";
+import { IS_SUPABASE_CONFIGURED } from "@/lib/supabase/client";
+import {
+  getCertificates,
+  revokeCertificate,
+  type CertificateWithHolder,
+} from "@/lib/supabase/certificates";
+import { SPECIALTY_TRACKS } from "@/data/specialty-tracks";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type CertificateView = "issued" | "revoked";
+
+// ============================================================================
+// Mock Data
+// ============================================================================
+
+const MOCK_CERTIFICATES: CertificateWithHolder[] = [
+  {
+    id: "7f6b8c2e-4a1d-4c3b-9e5f-2d8a1b3c4e5f",
+    user_id: "1",
+    track: "em",
+    certificate_name: "Emergency Imaging Appropriateness Certificate",
+    recipient_name: "John Smith",
+    user_assessment_id: null,
+    issued_at: "2024-11-02T15:30:00Z",
+    signature: "",
+    revoked_at: null,
+    revoked_by: null,
+    revocation_reason: null,
+    created_at: "2024-11-02T15:30:00Z",
+    holderEmail: "john.smith@hospital.edu",
+  },
+  {
+    id: "1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f",
+    user_id: "3",
+    track: "im",
+    certificate_name: "Internal Medicine Imaging Appropriateness Certificate",
+    recipient_name: "Michael Chen",
+    user_assessment_id: null,
+    issued_at: "2024-10-18T10:05:00Z",
+    signature: "",
+    revoked_at: "2024-10-25T09:00:00Z",
+    revoked_by: null,
+    revocation_reason: "Issued in error",
+    created_at: "2024-10-18T10:05:00Z",
+    holderEmail: "m.chen@university.edu",
+  },
+];
+
+// ============================================================================
+// Page Component
+// ============================================================================
+
+export default function AdminCertificatesPage() {
+  const [certificates, setCertificates] = React.useState<CertificateWithHolder[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [view, setView] = React.useState<CertificateView>("issued");
+  const [search, setSearch] = React.useState("");
+  const [revoking, setRevoking] = React.useState<CertificateWithHolder | null>(null);
+
+  React.useEffect(() => {
+    if (!IS_SUPABASE_CONFIGURED) {
+      setCertificates(MOCK_CERTIFICATES);
+      setIsLoading(false);
+      return;
+    }
+    getCertificates()
+      .then(setCertificates)
+      .catch(() => setCertificates([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const filtered = certificates.filter((c) => {
+    if ((view === "revoked") !== !!c.revoked_at) return false;
+    if (!search) return true;
+    const q = search.toLowerCase();
+    return (
+      c.recipient_name.toLowerCase().includes(q) ||
+      c.holderEmail?.toLowerCase().includes(q) ||
+      c.id.includes(q)
+    );
+  });
+
+  const handleRevoked = (updated: CertificateWithHolder) => {
+    setCertificates((prev) => prev.map((c) => (c.id === updated.id ? { ...c, ...updated } : c)));
+    setRevoking(null);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-white">Certificates</h1>
+        <p className="text-slate-400 mt-1">
+          Specialty track certificates issued to learners, and the revocation list
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card className="bg-slate-900 border-slate-800">
+        <CardContent className="p-4">
+          <div className="flex items-center gap-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <Input
+                placeholder="Search by learner, email or certificate ID..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10 bg-slate-800 border-slate-700 text-white"
+              />
+            </div>
+            <div className="flex rounded-lg border border-slate-700 overflow-hidden">
+              {(["issued", "revoked"] as CertificateView[]).map((v) => (
+                <button
+                  key={v}
+                  onClick={() => setView(v)}
+                  className={cn(
+                    "px-4 py-2 text-sm capitalize",
+                    view === v ? "bg-slate-700 text-white" : "text-slate-400 hover:text-white"
+                  )}
+                >
+                  {v} ({certificates.filter((c) => (v === "revoked") === !!c.revoked_at).length})
+                </button>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Certificate Table */}
+      <Card className="bg-slate-900 border-slate-800">
+        {isLoading ? (
+          <div className="py-12 flex justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+          </div>
+        ) : filtered.length === 0 ? (
+          <div className="py-12 text-center text-slate-400">
+            <Award className="w-8 h-8 mx-auto mb-2 text-slate-600" />
+            {view === "revoked" ? "No revoked certificates" : "No certificates issued yet"}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-800">
+                  <th className="text-left py-3 px-4 text-sm font-medium text-slate-400">Learner</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-slate-400">Track</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-slate-400">Issued</th>
+                  <th className="text-left py-3 px-4 text-sm font-medium text-slate-400">
+                    {view === "revoked" ? "Revoked" : "Certificate ID"}
+                  </th>
+                  <th className="py-3 px-4" />
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map((certificate) => (
+                  <tr key={certificate.id} className="border-b border-slate-800 hover:bg-slate-800/50">
+                    <td className="py-3 px-4">
+                      <p className="text-white font-medium">{certificate.recipient_name}</p>
+                      {certificate.holderEmail && (
+                        <p className="text-sm text-slate-400">{certificate.holderEmail}</p>
+                      )}
+                    </td>
+                    <td className="py-3 px-4">
+                      <Badge outline className="border-slate-700 text-slate-300">
+                        {SPECIALTY_TRACKS[certificate.track]?.shortName ?? certificate.track}
+                      </Badge>
+                    </td>
+                    <td className="py-3 px-4 text-slate-300 text-sm">
+                      {new Date(certificate.issued_at).toLocaleDateString()}
+                    </td>
+                    <td className="py-3 px-4 text-sm">
+                      {certificate.revoked_at ? (
+                        <div>
+                          <p className="text-rose-400">
+                            {new Date(certificate.revoked_at).toLocaleDateString()}
+                          </p>
+                          {certificate.revocation_reason && (
+                            <p className="text-slate-500">{certificate.revocation_reason}</p>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="font-mono text-xs text-slate-500">{certificate.id}</span>
+                      )}
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center justify-end gap-2">
+                        <Link
+                          href={`/verify/${certificate.id}`}
+                          target="_blank"
+                          className="text-slate-400 hover:text-white"
+                          title="Open verification page"
+                        >
+                          <ExternalLink className="w-4 h-4" />
+                        </Link>
+                        {!certificate.revoked_at && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setRevoking(certificate)}
+                            className="text-rose-400 hover:text-rose-300"
+                          >
+                            <Ban className="w-4 h-4 mr-1" />
+                            Revoke
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {/* Revoke Modal */}
+      <Modal open={!!revoking} onOpenChange={(open) => !open && setRevoking(null)}>
+        <ModalContent className="bg-slate-900 border-slate-800">
+          <ModalHeader>
+            <ModalTitle className="text-white">Revoke Certificate</ModalTitle>
+            <ModalClose />
+          </ModalHeader>
+          {revoking && (
+            <RevokeCertificateForm
+              certificate={revoking}
+              onRevoked={handleRevoked}
+              onClose={() => setRevoking(null)}
+            />
+          )}
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+}
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+function RevokeCertificateForm({
+  certificate,
+  onRevoked,
+  onClose,
+}: {
+  certificate: CertificateWithHolder;
+  onRevoked: (certificate: CertificateWithHolder) => void;
+  onClose: () => void;
+}) {
+  const [reason, setReason] = React.useState("");
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const handleRevoke = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = IS_SUPABASE_CONFIGURED
+        ? await revokeCertificate(certificate.id, reason.trim())
+        : { ...certificate, revoked_at: new Date().toISOString(), revocation_reason: reason.trim() };
+      onRevoked({ ...certificate, ...updated });
+    } catch {
+      setError("Could not revoke the certificate. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-300">
+        Revoke <span className="font-medium text-white">{certificate.certificate_name}</span> issued
+        to <span className="font-medium text-white">{certificate.recipient_name}</span>? The
+        verification page will report it as revoked. This cannot be undone; the learner
+        must pass the track assessment again to be reissued the certificate.
+      </p>
+      <div>
+        <label className="text-sm text-slate-400 mb-1 block">Reason</label>
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="e.g. Assessment result overturned on review"
+          className="bg-slate-800 border-slate-700 text-white"
+        />
+      </div>
+      {error && <p className="text-sm text-rose-400">{error}</p>}
+      <ModalFooter className="px-0 pb-0">
+        <Button variant="primary" onClick={onClose} className="border-slate-700 text-slate-300">
+          Cancel
+        </Button>
+        <Button
+          onClick={handleRevoke}
+          disabled={!reason.trim() || saving}
+          className="bg-rose-500 hover:bg-rose-600"
+        >
+          {saving ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <ShieldX className="w-4 h-4 mr-2" />
+          )}
+          Revoke
+        </Button>
+      </ModalFooter>
+    </div>
+  );
+}
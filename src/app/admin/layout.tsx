@@ -10,6 +10,8 @@ import {
   Users,
   ClipboardList,
   FileText,
+  Award,
+  Trophy,
   Settings,
   LogOut,
   Menu,
@@ -56,6 +58,16 @@ export default function AdminLayout({
       href: "/admin/reports",
       icon: FileText,
     },
+    {
+      name: "Certificates",
+      href: "/admin/certificates",
+      icon: Award,
+    },
+    {
+      name: "Achievements",
+      href: "/admin/achievements",
+      icon: Trophy,
+    },
     {
       name: "Settings",
       href: "/admin/settings",
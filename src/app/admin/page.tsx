@@ -32,6 +32,16 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { LinearProgress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
+import { IS_SUPABASE_CONFIGURED } from "@/lib/supabase/client";
+import {
+  getAnalyticsActivity,
+  getAnalyticsCases,
+  getAnalyticsOverview,
+  getAnalyticsPeriod,
+  getRecentActivity,
+  percentChange,
+} from "@/lib/supabase/analytics";
+import type { RecentActivity } from "@/types/database";
 import {
   LineChart,
   Line,
@@ -57,7 +67,7 @@ import {
 interface StatCardProps {
   title: string;
   value: number | string;
-  change?: number;
+  change?: number | null;
   changeLabel?: string;
   icon: React.ReactNode;
   color: "cyan" | "emerald" | "amber" | "rose" | "violet";
@@ -169,11 +179,187 @@ const ASSESSMENT_COMPLETION_DATA = [
   { name: "Not Started", value: 156, color: "#64748b" },
 ];
 
+// ============================================================================
+// Dashboard Data
+// ============================================================================
+
+interface SystemHealth {
+  databaseStatus: "healthy" | "degraded" | "down";
+  errorRate?: number;
+  avgResponseTime?: number;
+  uptime?: number;
+}
+
+interface DashboardData {
+  stats: typeof MOCK_STATS;
+  popularCases: PopularCase[];
+  activities: ActivityItem[];
+  signups: typeof USER_SIGNUP_DATA;
+  dailyActive: typeof DAILY_ACTIVE_USERS;
+  assessmentCompletion: typeof ASSESSMENT_COMPLETION_DATA;
+  health: SystemHealth;
+}
+
+const MOCK_DASHBOARD: DashboardData = {
+  stats: MOCK_STATS,
+  popularCases: MOCK_POPULAR_CASES,
+  activities: MOCK_ACTIVITIES,
+  signups: USER_SIGNUP_DATA,
+  dailyActive: DAILY_ACTIVE_USERS,
+  assessmentCompletion: ASSESSMENT_COMPLETION_DATA,
+  health: MOCK_SYSTEM_HEALTH,
+};
+
+// Shown when the analytics queries fail, rather than the demo numbers
+const EMPTY_DASHBOARD: DashboardData = {
+  stats: {
+    totalUsers: 0,
+    userGrowth: null,
+    activeUsersDaily: 0,
+    activeUsersWeekly: 0,
+    activeUsersMonthly: 0,
+    totalAttempts: 0,
+    attemptGrowth: null,
+    averageAccuracy: null,
+    accuracyChange: null,
+  },
+  popularCases: [],
+  activities: [],
+  signups: [],
+  dailyActive: [],
+  assessmentCompletion: [],
+  health: { databaseStatus: "down" },
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+function toActivityItem(activity: RecentActivity, index: number): ActivityItem {
+  const base = { id: `${activity.activity_type}-${index}`, timestamp: activity.occurred_at };
+  switch (activity.activity_type) {
+    case "registration":
+      return {
+        ...base,
+        type: "registration",
+        title: "New user registered",
+        description: `${activity.user_name} joined as ${capitalize(activity.detail)}`,
+      };
+    case "case_completion":
+      return {
+        ...base,
+        type: "case_completion",
+        title: "Case completed",
+        description: `${activity.user_name} scored ${activity.score}% on ${activity.detail}`,
+      };
+    case "assessment_pass":
+      return {
+        ...base,
+        type: "assessment_pass",
+        title: "Assessment passed",
+        description: `${activity.user_name} passed ${activity.detail} with ${activity.score}%`,
+      };
+  }
+}
+
+/**
+ * Load the dashboard from the analytics functions over the last 30 days.
+ * Database health is whether those queries succeed, and how long they take.
+ */
+async function loadDashboard(): Promise<DashboardData> {
+  const period = getAnalyticsPeriod("month");
+  const startedAt = performance.now();
+  const [overview, activity, cases, recent] = await Promise.all([
+    getAnalyticsOverview(period),
+    getAnalyticsActivity(period),
+    getAnalyticsCases(period, { limit: 5 }),
+    getRecentActivity(5),
+  ]);
+  const responseTime = Math.round(performance.now() - startedAt);
+
+  const assessmentCompletion = [
+    { name: "Completed", value: overview.assessments_completed, color: "#10b981" },
+    { name: "In Progress", value: overview.assessments_in_progress, color: "#f59e0b" },
+    { name: "Not Started", value: overview.assessments_not_started, color: "#64748b" },
+  ];
+  if (overview.assessments_abandoned > 0) {
+    assessmentCompletion.push({
+      name: "Abandoned",
+      value: overview.assessments_abandoned,
+      color: "#f43f5e",
+    });
+  }
+
+  return {
+    stats: {
+      totalUsers: overview.total_users,
+      userGrowth: percentChange(overview.total_users, overview.total_users - overview.new_users),
+      activeUsersDaily: overview.daily_active_users,
+      activeUsersWeekly: overview.weekly_active_users,
+      activeUsersMonthly: overview.monthly_active_users,
+      totalAttempts: overview.attempts,
+      attemptGrowth: percentChange(overview.attempts, overview.previous_attempts),
+      averageAccuracy: overview.accuracy,
+      accuracyChange:
+        overview.accuracy !== null && overview.previous_accuracy !== null
+          ? Math.round((overview.accuracy - overview.previous_accuracy) * 10) / 10
+          : null,
+    },
+    popularCases: cases.popular.map((c) => ({
+      id: c.case_id,
+      title: c.title,
+      attempts: c.attempts,
+      avgScore: c.avg_score,
+      category: c.category,
+    })),
+    activities: recent.map(toActivityItem),
+    signups: activity.map((row) => ({
+      date: row.bucket.slice(5),
+      signups: row.registrations,
+    })),
+    dailyActive: activity.slice(-7).map((row) => ({
+      day: new Date(`${row.bucket}T00:00:00Z`).toLocaleDateString("en-US", {
+        weekday: "short",
+        timeZone: "UTC",
+      }),
+      active: row.active_users,
+    })),
+    assessmentCompletion,
+    health: { databaseStatus: "healthy", avgResponseTime: responseTime },
+  };
+}
+
 // ============================================================================
 // Page Component
 // ============================================================================
 
 export default function AdminDashboardPage() {
+  const [data, setData] = React.useState<DashboardData>(MOCK_DASHBOARD);
+  const [isLoading, setIsLoading] = React.useState(IS_SUPABASE_CONFIGURED);
+  const [updatedAt, setUpdatedAt] = React.useState(() => new Date());
+
+  // Real metrics when Supabase is configured
+  React.useEffect(() => {
+    if (!IS_SUPABASE_CONFIGURED) return;
+    let cancelled = false;
+    loadDashboard()
+      .then((dashboard) => {
+        if (cancelled) return;
+        setData(dashboard);
+        setUpdatedAt(new Date());
+      })
+      .catch((err) => {
+        console.error("Error loading admin dashboard:", err);
+        if (!cancelled) setData(EMPTY_DASHBOARD);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const { stats } = data;
+
   return (
     <div className="min-h-screen bg-slate-950 text-white">
       {/* Header */}
@@ -187,7 +373,7 @@ export default function AdminDashboardPage() {
           </div>
           <div className="flex items-center gap-4">
             <span className="text-sm text-slate-400">
-              Last updated: {new Date().toLocaleTimeString()}
+              {isLoading ? "Loading..." : `Last updated: ${updatedAt.toLocaleTimeString()}`}
             </span>
             <Link href="/cases">
               <Button variant="default" className="border-slate-700 text-slate-300 hover:bg-slate-800">
@@ -203,31 +389,31 @@ export default function AdminDashboardPage() {
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
           <AdminStatCard
             title="Total Users"
-            value={MOCK_STATS.totalUsers.toLocaleString()}
-            change={MOCK_STATS.userGrowth}
+            value={stats.totalUsers.toLocaleString()}
+            change={stats.userGrowth}
             changeLabel="vs last month"
             icon={<Users className="w-5 h-5" />}
             color="cyan"
           />
           <AdminStatCard
             title="Active Users (Weekly)"
-            value={MOCK_STATS.activeUsersWeekly.toLocaleString()}
+            value={stats.activeUsersWeekly.toLocaleString()}
             icon={<Activity className="w-5 h-5" />}
             color="emerald"
           />
           <AdminStatCard
-            title="Total Case Attempts"
-            value={MOCK_STATS.totalAttempts.toLocaleString()}
-            change={MOCK_STATS.attemptGrowth}
-            changeLabel="vs last month"
+            title="Case Attempts (30 Days)"
+            value={stats.totalAttempts.toLocaleString()}
+            change={stats.attemptGrowth}
+            changeLabel="vs previous 30 days"
             icon={<BookOpen className="w-5 h-5" />}
             color="amber"
           />
           <AdminStatCard
             title="Average Accuracy"
-            value={`${MOCK_STATS.averageAccuracy}%`}
-            change={MOCK_STATS.accuracyChange}
-            changeLabel="vs last month"
+            value={stats.averageAccuracy === null ? "—" : `${stats.averageAccuracy}%`}
+            change={stats.accuracyChange}
+            changeLabel="vs previous 30 days"
             icon={<Target className="w-5 h-5" />}
             color="violet"
           />
@@ -238,27 +424,27 @@ export default function AdminDashboardPage() {
 
         {/* Charts Section */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <UserSignupsChart data={USER_SIGNUP_DATA} />
-          <DailyActiveUsersChart data={DAILY_ACTIVE_USERS} />
+          <UserSignupsChart data={data.signups} />
+          <DailyActiveUsersChart data={data.dailyActive} />
         </div>
 
         {/* Main Content Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Left: Activity & Popular Cases */}
           <div className="lg:col-span-2 space-y-6">
-            <RecentActivityCard activities={MOCK_ACTIVITIES} />
-            <PopularCasesCard cases={MOCK_POPULAR_CASES} />
-            <AssessmentCompletionChart data={ASSESSMENT_COMPLETION_DATA} />
+            <RecentActivityCard activities={data.activities} />
+            <PopularCasesCard cases={data.popularCases} />
+            <AssessmentCompletionChart data={data.assessmentCompletion} />
           </div>
 
           {/* Right: System Health & User Stats */}
           <div className="space-y-6">
-            <SystemHealthCard health={MOCK_SYSTEM_HEALTH} />
+            <SystemHealthCard health={data.health} />
             <UserBreakdownCard
-              daily={MOCK_STATS.activeUsersDaily}
-              weekly={MOCK_STATS.activeUsersWeekly}
-              monthly={MOCK_STATS.activeUsersMonthly}
-              total={MOCK_STATS.totalUsers}
+              daily={stats.activeUsersDaily}
+              weekly={stats.activeUsersWeekly}
+              monthly={stats.activeUsersMonthly}
+              total={stats.totalUsers}
             />
           </div>
         </div>
@@ -311,7 +497,7 @@ function AdminStatCard({
             <div className={cn("p-2 rounded-lg", colorClasses[color])}>
               <span className={iconColors[color]}>{icon}</span>
             </div>
-            {change !== undefined && (
+            {change !== undefined && change !== null && (
               <div
                 className={cn(
                   "flex items-center gap-1 text-xs font-medium",
@@ -435,6 +621,9 @@ function RecentActivityCard({ activities }: RecentActivityCardProps) {
       </CardHeader>
       <CardContent className="pt-0">
         <div className="space-y-3">
+          {activities.length === 0 && (
+            <p className="text-sm text-slate-400">No recent activity</p>
+          )}
           {activities.map((activity, index) => (
             <motion.div
               key={activity.id}
@@ -493,6 +682,9 @@ function PopularCasesCard({ cases }: PopularCasesCardProps) {
       </CardHeader>
       <CardContent className="pt-0">
         <div className="space-y-3">
+          {cases.length === 0 && (
+            <p className="text-sm text-slate-400">No case attempts in the last 30 days</p>
+          )}
           {cases.map((caseItem, index) => (
             <div
               key={caseItem.id}
@@ -525,7 +717,7 @@ function PopularCasesCard({ cases }: PopularCasesCardProps) {
 // ============================================================================
 
 interface SystemHealthCardProps {
-  health: typeof MOCK_SYSTEM_HEALTH;
+  health: SystemHealth;
 }
 
 function SystemHealthCard({ health }: SystemHealthCardProps) {
@@ -563,37 +755,43 @@ function SystemHealthCard({ health }: SystemHealthCardProps) {
         </div>
 
         {/* Error Rate */}
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <AlertTriangle className="w-4 h-4 text-slate-400" />
-            <span className="text-sm text-slate-300">Error Rate</span>
+        {health.errorRate !== undefined && (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4 text-slate-400" />
+              <span className="text-sm text-slate-300">Error Rate</span>
+            </div>
+            <span className={cn("text-sm font-medium", health.errorRate < 1 ? "text-emerald-400" : "text-amber-400")}>
+              {health.errorRate}%
+            </span>
           </div>
-          <span className={cn("text-sm font-medium", health.errorRate < 1 ? "text-emerald-400" : "text-amber-400")}>
-            {health.errorRate}%
-          </span>
-        </div>
+        )}
 
         {/* Response Time */}
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <Zap className="w-4 h-4 text-slate-400" />
-            <span className="text-sm text-slate-300">Avg Response</span>
+        {health.avgResponseTime !== undefined && (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Zap className="w-4 h-4 text-slate-400" />
+              <span className="text-sm text-slate-300">Avg Response</span>
+            </div>
+            <span className={cn("text-sm font-medium", health.avgResponseTime < 200 ? "text-emerald-400" : "text-amber-400")}>
+              {health.avgResponseTime}ms
+            </span>
           </div>
-          <span className={cn("text-sm font-medium", health.avgResponseTime < 200 ? "text-emerald-400" : "text-amber-400")}>
-            {health.avgResponseTime}ms
-          </span>
-        </div>
+        )}
 
         {/* Uptime */}
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <Clock className="w-4 h-4 text-slate-400" />
-            <span className="text-sm text-slate-300">Uptime</span>
+        {health.uptime !== undefined && (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Clock className="w-4 h-4 text-slate-400" />
+              <span className="text-sm text-slate-300">Uptime</span>
+            </div>
+            <span className="text-sm font-medium text-emerald-400">
+              {health.uptime}%
+            </span>
           </div>
-          <span className="text-sm font-medium text-emerald-400">
-            {health.uptime}%
-          </span>
-        </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -611,6 +809,8 @@ interface UserBreakdownCardProps {
 }
 
 function UserBreakdownCard({ daily, weekly, monthly, total }: UserBreakdownCardProps) {
+  const share = (count: number) => (total ? (count / total) * 100 : 0);
+
   return (
     <Card className="bg-slate-900 border-slate-800">
       <CardHeader className="pb-3">
@@ -625,21 +825,21 @@ function UserBreakdownCard({ daily, weekly, monthly, total }: UserBreakdownCardP
             <span className="text-sm text-slate-400">Daily</span>
             <span className="text-sm font-medium text-white">{daily}</span>
           </div>
-          <LinearProgress value={(daily / total) * 100} color="primary" size="sm" />
+          <LinearProgress value={share(daily)} color="primary" size="sm" />
         </div>
         <div>
           <div className="flex items-center justify-between mb-1">
             <span className="text-sm text-slate-400">Weekly</span>
             <span className="text-sm font-medium text-white">{weekly}</span>
           </div>
-          <LinearProgress value={(weekly / total) * 100} color="primary" size="sm" />
+          <LinearProgress value={share(weekly)} color="primary" size="sm" />
         </div>
         <div>
           <div className="flex items-center justify-between mb-1">
             <span className="text-sm text-slate-400">Monthly</span>
             <span className="text-sm font-medium text-white">{monthly}</span>
           </div>
-          <LinearProgress value={(monthly / total) * 100} color="primary" size="sm" />
+          <LinearProgress value={share(monthly)} color="primary" size="sm" />
         </div>
         <div className="pt-2 border-t border-slate-800">
           <div className="flex items-center justify-between">
@@ -765,7 +965,7 @@ interface AssessmentCompletionChartProps {
 }
 
 function AssessmentCompletionChart({ data }: AssessmentCompletionChartProps) {
-  const total = data.reduce((sum, item) => sum + item.value, 0);
+  const total = data.reduce((sum, item) => sum + item.value, 0) || 1;
 
   return (
     <Card className="bg-slate-900 border-slate-800">
@@ -15,18 +15,37 @@ import {
   FileDown,
   FileSpreadsheet,
   Loader2,
+  History,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { toast } from "@/lib/hooks/use-toast";
+import { K_ANONYMITY } from "@/lib/utils/percentiles";
+import { IS_SUPABASE_CONFIGURED } from "@/lib/supabase/client";
+import {
+  generateReport,
+  getGeneratedReports,
+  getReportHistoryUrl,
+  type GeneratedReportEntry,
+} from "@/lib/supabase/reports";
+import {
+  REPORTS,
+  REPORT_RANGES,
+  REPORT_RANGE_LABELS,
+  isReportRange,
+  type ReportFormat,
+  type ReportId,
+  type ReportRange,
+} from "@/lib/reports/definitions";
 
 // ============================================================================
 // Types
 // ============================================================================
 
 interface Report {
-  id: string;
+  id: ReportId;
   name: string;
   description: string;
   icon: React.ReactNode;
@@ -34,7 +53,7 @@ interface Report {
 }
 
 // ============================================================================
-// Mock Data
+// Reports
 // ============================================================================
 
 const AVAILABLE_REPORTS: Report[] = [
@@ -62,7 +81,7 @@ const AVAILABLE_REPORTS: Report[] = [
   {
     id: "institutional-benchmarks",
     name: "Institutional Benchmarks",
-    description: "Compare your institution's performance against system-wide averages",
+    description: `Compare each institution's first-attempt assessment results against system-wide averages. Institutions with fewer than ${K_ANONYMITY} learners are left out.`,
     icon: <Target className="w-5 h-5" />,
     category: "institutional",
   },
@@ -76,21 +95,66 @@ export default function ReportsPage() {
   const [selectedCategory, setSelectedCategory] = React.useState<
     "all" | "user" | "assessment" | "performance" | "institutional"
   >("all");
-  const [dateRange, setDateRange] = React.useState<"week" | "month" | "quarter" | "year">("month");
+  const [dateRange, setDateRange] = React.useState<ReportRange>("month");
   const [generating, setGenerating] = React.useState<string | null>(null);
+  const [history, setHistory] = React.useState<GeneratedReportEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = React.useState(IS_SUPABASE_CONFIGURED);
+
+  const loadHistory = React.useCallback(async () => {
+    try {
+      setHistory(await getGeneratedReports());
+    } catch {
+      setHistory([]);
+    } finally {
+      setHistoryLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    if (!IS_SUPABASE_CONFIGURED) return;
+    loadHistory();
+  }, [loadHistory]);
 
   const filteredReports = React.useMemo(() => {
     if (selectedCategory === "all") return AVAILABLE_REPORTS;
     return AVAILABLE_REPORTS.filter((r) => r.category === selectedCategory);
   }, [selectedCategory]);
 
-  const handleGenerateReport = async (reportId: string, format: "pdf" | "csv") => {
+  const filteredHistory = React.useMemo(() => {
+    if (selectedCategory === "all") return history;
+    return history.filter((entry) => REPORTS[entry.report_id]?.category === selectedCategory);
+  }, [history, selectedCategory]);
+
+  const stats = React.useMemo(() => {
+    const monthAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
+    return {
+      total: filteredHistory.length,
+      lastMonth: filteredHistory.filter((e) => new Date(e.created_at).getTime() >= monthAgo).length,
+      csv: filteredHistory.filter((e) => e.format === "csv").length,
+      pdf: filteredHistory.filter((e) => e.format === "pdf").length,
+    };
+  }, [filteredHistory]);
+
+  const handleGenerateReport = async (reportId: ReportId, format: ReportFormat) => {
+    if (!IS_SUPABASE_CONFIGURED) {
+      toast.error("Reports unavailable", "Connect Supabase to generate reports.");
+      return;
+    }
     setGenerating(`${reportId}-${format}`);
-    // Simulate report generation
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-    setGenerating(null);
-    // In real implementation, this would download the file
-    alert(`${AVAILABLE_REPORTS.find((r) => r.id === reportId)?.name} (${format.toUpperCase()}) generated successfully!`);
+    try {
+      const { blob, fileName } = await generateReport(reportId, format, dateRange);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+      loadHistory();
+    } catch (error) {
+      toast.error("Report failed", error instanceof Error ? error.message : undefined);
+    } finally {
+      setGenerating(null);
+    }
   };
 
   return (
@@ -136,15 +200,14 @@ export default function ReportsPage() {
               <Calendar className="w-4 h-4 text-slate-400" />
               <select
                 value={dateRange}
-                onChange={(e) =>
-                  setDateRange(e.target.value as "week" | "month" | "quarter" | "year")
-                }
+                onChange={(e) => isReportRange(e.target.value) && setDateRange(e.target.value)}
                 className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm"
               >
-                <option value="week">Last Week</option>
-                <option value="month">Last Month</option>
-                <option value="quarter">Last Quarter</option>
-                <option value="year">Last Year</option>
+                {REPORT_RANGES.map((range) => (
+                  <option key={range} value={range}>
+                    {REPORT_RANGE_LABELS[range]}
+                  </option>
+                ))}
               </select>
             </div>
           </div>
@@ -184,7 +247,7 @@ export default function ReportsPage() {
                 <div className="flex items-center gap-2 pt-4 border-t border-slate-800">
                   <Button
                     onClick={() => handleGenerateReport(report.id, "pdf")}
-                    disabled={generating === `${report.id}-pdf`}
+                    disabled={generating !== null}
                     variant="primary"
                     className="flex-1 border-slate-700 text-slate-300 hover:bg-slate-800"
                   >
@@ -197,7 +260,7 @@ export default function ReportsPage() {
                   </Button>
                   <Button
                     onClick={() => handleGenerateReport(report.id, "csv")}
-                    disabled={generating === `${report.id}-csv`}
+                    disabled={generating !== null}
                     variant="primary"
                     className="flex-1 border-slate-700 text-slate-300 hover:bg-slate-800"
                   >
@@ -219,31 +282,69 @@ export default function ReportsPage() {
       <div className="grid grid-cols-4 gap-4">
         <StatCard
           title="Reports Generated"
-          value="1,247"
-          change={12.5}
+          value={stats.total.toLocaleString()}
           icon={<FileText className="w-5 h-5" />}
           color="cyan"
         />
         <StatCard
-          title="Users Analyzed"
-          value="856"
-          icon={<Users className="w-5 h-5" />}
+          title="Last 30 Days"
+          value={stats.lastMonth.toLocaleString()}
+          icon={<Calendar className="w-5 h-5" />}
           color="emerald"
         />
         <StatCard
-          title="Avg Performance"
-          value="73%"
-          change={2.1}
-          icon={<Target className="w-5 h-5" />}
+          title="CSV Exports"
+          value={stats.csv.toLocaleString()}
+          icon={<FileSpreadsheet className="w-5 h-5" />}
           color="amber"
         />
         <StatCard
-          title="Export Rate"
-          value="94%"
-          icon={<Download className="w-5 h-5" />}
+          title="PDF Exports"
+          value={stats.pdf.toLocaleString()}
+          icon={<FileDown className="w-5 h-5" />}
           color="violet"
         />
       </div>
+
+      {/* Report History */}
+      <Card className="bg-slate-900 border-slate-800">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center gap-2">
+            <History className="w-5 h-5 text-cyan-400" />
+            Report History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {historyLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+            </div>
+          ) : filteredHistory.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-8">
+              {IS_SUPABASE_CONFIGURED
+                ? "No reports generated yet. Generated reports appear here and can be downloaded again."
+                : "Connect Supabase to generate reports and keep a history of them."}
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-400 border-b border-slate-800">
+                  <th className="py-2 font-medium">Report</th>
+                  <th className="py-2 font-medium">Period</th>
+                  <th className="py-2 font-medium text-right">Rows</th>
+                  <th className="py-2 font-medium">Generated</th>
+                  <th className="py-2 font-medium text-right">Download</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredHistory.map((entry) => (
+                  <HistoryRow key={entry.id} entry={entry} />
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -252,6 +353,49 @@ export default function ReportsPage() {
 // Sub-components
 // ============================================================================
 
+function formatDate(timestamp: string) {
+  return new Date(timestamp).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function HistoryRow({ entry }: { entry: GeneratedReportEntry }) {
+  return (
+    <tr className="border-b border-slate-800 last:border-0">
+      <td className="py-3">
+        <p className="text-white">{REPORTS[entry.report_id]?.name ?? entry.report_id}</p>
+        <p className="text-xs text-slate-500 uppercase">{entry.format}</p>
+      </td>
+      <td className="py-3 text-slate-300">
+        {formatDate(entry.period_start)} to {formatDate(entry.period_end)}
+      </td>
+      <td className="py-3 text-right text-slate-300">{entry.row_count.toLocaleString()}</td>
+      <td className="py-3 text-slate-300">
+        {formatDate(entry.created_at)}
+        {entry.generatedByName && (
+          <span className="block text-xs text-slate-500">{entry.generatedByName}</span>
+        )}
+      </td>
+      <td className="py-3">
+        <div className="flex justify-end gap-2">
+          {(["pdf", "csv"] as const).map((format) => (
+            <a
+              key={format}
+              href={getReportHistoryUrl(entry.id, format)}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 text-xs font-medium uppercase"
+            >
+              <Download className="w-3 h-3" />
+              {format}
+            </a>
+          ))}
+        </div>
+      </td>
+    </tr>
+  );
+}
+
 function StatCard({
   title,
   value,
@@ -24,6 +24,9 @@ import {
   Loader2,
   Users,
   Building,
+  KeyRound,
+  RotateCcw,
+  ScrollText,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -31,29 +34,36 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Modal, ModalContent, ModalHeader, ModalTitle, ModalClose, ModalFooter } from "@/components/ui/modal";
 import { cn, getTimeAgo } from "@/lib/utils";
-import type { Profile, UserRole } from "@/types/database";
-
-// ============================================================================
-// Types
-// ============================================================================
-
-interface UserWithStats extends Profile {
-  cases_completed: number;
-  accuracy: number;
-  last_active: string | null;
-}
-
-interface UserFilters {
-  search: string;
-  role: UserRole | "all";
-  institution: string;
-}
+import { toast } from "@/lib/hooks/use-toast";
+import { toCsv } from "@/lib/utils/csv";
+import { IS_SUPABASE_CONFIGURED } from "@/lib/supabase/client";
+import {
+  changeUserRole,
+  getAuditLog,
+  getUserExportUrl,
+  inviteUsers,
+  searchUsers,
+  sendPasswordReset,
+  setUserActive,
+  type AuditLogEntry,
+  type ManagedUser,
+  type UserSearchFilters,
+} from "@/lib/supabase/users";
+import {
+  MAX_INVITES,
+  USERS_PER_PAGE,
+  USER_EXPORT_COLUMNS,
+  USER_ROLES,
+  parseInviteEmails,
+  toUserExportRow,
+} from "@/lib/users/management";
+import type { AdminUserSummary, UserRole } from "@/types/database";
 
 // ============================================================================
 // Mock Data
 // ============================================================================
 
-const MOCK_USERS: UserWithStats[] = [
+const MOCK_USERS: ManagedUser[] = [
   {
     id: "1",
     email: "john.smith@hospital.edu",
@@ -66,6 +76,7 @@ const MOCK_USERS: UserWithStats[] = [
     streak_count: 15,
     last_activity_date: new Date().toISOString(),
     onboarding_completed: true,
+    deactivated_at: null,
     created_at: "2025-06-15T00:00:00Z",
     updated_at: "2026-01-15T00:00:00Z",
     cases_completed: 45,
@@ -84,6 +95,7 @@ const MOCK_USERS: UserWithStats[] = [
     streak_count: 7,
     last_activity_date: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
     onboarding_completed: true,
+    deactivated_at: null,
     created_at: "2025-08-01T00:00:00Z",
     updated_at: "2026-01-14T00:00:00Z",
     cases_completed: 23,
@@ -102,6 +114,7 @@ const MOCK_USERS: UserWithStats[] = [
     streak_count: 3,
     last_activity_date: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
     onboarding_completed: true,
+    deactivated_at: null,
     created_at: "2025-09-10T00:00:00Z",
     updated_at: "2026-01-10T00:00:00Z",
     cases_completed: 12,
@@ -120,10 +133,11 @@ const MOCK_USERS: UserWithStats[] = [
     streak_count: 0,
     last_activity_date: new Date().toISOString(),
     onboarding_completed: true,
+    deactivated_at: null,
     created_at: "2025-01-01T00:00:00Z",
     updated_at: "2026-01-17T00:00:00Z",
     cases_completed: 0,
-    accuracy: 0,
+    accuracy: null,
     last_active: new Date().toISOString(),
   },
   {
@@ -138,6 +152,7 @@ const MOCK_USERS: UserWithStats[] = [
     streak_count: 21,
     last_activity_date: new Date().toISOString(),
     onboarding_completed: true,
+    deactivated_at: null,
     created_at: "2025-07-20T00:00:00Z",
     updated_at: "2026-01-17T00:00:00Z",
     cases_completed: 67,
@@ -150,81 +165,195 @@ const MOCK_USERS: UserWithStats[] = [
 // Component
 // ============================================================================
 
-export default function UserManagementPage() {
-  const [users, setUsers] = React.useState<UserWithStats[]>(MOCK_USERS);
-  const [filters, setFilters] = React.useState<UserFilters>({
-    search: "",
-    role: "all",
-    institution: "",
+const EMPTY_FILTERS: UserSearchFilters = { search: "", role: "all", institution: "" };
+
+/**
+ * Filter and page the mock users, as the server does when Supabase is connected
+ */
+function searchMockUsers(users: ManagedUser[], filters: UserSearchFilters, page: number) {
+  const filtered = users.filter((user) => {
+    if (
+      filters.search &&
+      !user.full_name.toLowerCase().includes(filters.search.toLowerCase()) &&
+      !user.email.toLowerCase().includes(filters.search.toLowerCase())
+    ) {
+      return false;
+    }
+    if (filters.role !== "all" && user.role !== filters.role) {
+      return false;
+    }
+    if (
+      filters.institution &&
+      !user.institution?.toLowerCase().includes(filters.institution.toLowerCase())
+    ) {
+      return false;
+    }
+    return true;
   });
+  const attempted = users.filter((u) => u.accuracy !== null);
+
+  return {
+    filtered,
+    users: filtered.slice((page - 1) * USERS_PER_PAGE, page * USERS_PER_PAGE),
+    total: filtered.length,
+    summary: {
+      total_users: users.length,
+      active_today: users.filter(
+        (u) => u.last_active && new Date(u.last_active) > new Date(Date.now() - 24 * 60 * 60 * 1000)
+      ).length,
+      avg_accuracy: attempted.length
+        ? attempted.reduce((sum, u) => sum + u.accuracy, 0) / attempted.length
+        : null,
+      institutions: new Set(users.map((u) => u.institution).filter(Boolean)).size,
+      deactivated: users.filter((u) => u.deactivated_at).length,
+    },
+  };
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export default function UserManagementPage() {
+  const [mockUsers, setMockUsers] = React.useState<ManagedUser[]>(MOCK_USERS);
+  const [users, setUsers] = React.useState<ManagedUser[]>([]);
+  const [total, setTotal] = React.useState(0);
+  const [summary, setSummary] = React.useState<AdminUserSummary | null>(null);
+  const [auditLog, setAuditLog] = React.useState<AuditLogEntry[]>([]);
+  const [filters, setFilters] = React.useState<UserSearchFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = React.useState<UserSearchFilters>(EMPTY_FILTERS);
   const [showFilters, setShowFilters] = React.useState(false);
-  const [selectedUser, setSelectedUser] = React.useState<UserWithStats | null>(null);
+  const [selectedUser, setSelectedUser] = React.useState<ManagedUser | null>(null);
   const [showUserModal, setShowUserModal] = React.useState(false);
   const [showInviteModal, setShowInviteModal] = React.useState(false);
+  const [deactivating, setDeactivating] = React.useState<ManagedUser | null>(null);
   const [page, setPage] = React.useState(1);
-  const [loading] = React.useState(false);
-  const perPage = 10;
-
-  // Filter users
-  const filteredUsers = React.useMemo(() => {
-    return users.filter((user) => {
-      if (
-        filters.search &&
-        !user.full_name.toLowerCase().includes(filters.search.toLowerCase()) &&
-        !user.email.toLowerCase().includes(filters.search.toLowerCase())
-      ) {
-        return false;
-      }
-      if (filters.role !== "all" && user.role !== filters.role) {
-        return false;
-      }
-      if (
-        filters.institution &&
-        !user.institution?.toLowerCase().includes(filters.institution.toLowerCase())
-      ) {
-        return false;
-      }
-      return true;
-    });
-  }, [users, filters]);
-
-  // Paginate
-  const totalPages = Math.ceil(filteredUsers.length / perPage);
-  const paginatedUsers = filteredUsers.slice(
-    (page - 1) * perPage,
-    page * perPage
-  );
+  const [loading, setLoading] = React.useState(IS_SUPABASE_CONFIGURED);
+  const [reloadKey, setReloadKey] = React.useState(0);
+
+  // Search as the admin types, once they pause
+  React.useEffect(() => {
+    const timer = setTimeout(() => {
+      setAppliedFilters(filters);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  React.useEffect(() => {
+    if (!IS_SUPABASE_CONFIGURED) {
+      const result = searchMockUsers(mockUsers, appliedFilters, page);
+      setUsers(result.users);
+      setTotal(result.total);
+      setSummary(result.summary);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    searchUsers(appliedFilters, page)
+      .then((result) => {
+        if (cancelled) return;
+        setUsers(result.users);
+        setTotal(result.total);
+        setSummary(result.summary);
+      })
+      .catch((error) => {
+        if (!cancelled) toast.error("Could not load users", error.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [appliedFilters, page, reloadKey, mockUsers]);
+
+  React.useEffect(() => {
+    if (!IS_SUPABASE_CONFIGURED) return;
+    let cancelled = false;
+    getAuditLog()
+      .then((entries) => {
+        if (!cancelled) setAuditLog(entries);
+      })
+      .catch(() => {
+        if (!cancelled) setAuditLog([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const reload = () => setReloadKey((key) => key + 1);
+  const totalPages = Math.ceil(total / USERS_PER_PAGE);
 
   /**
-   * Handle CSV export
+   * Apply an account change to the list, or to the mock users when
+   * Supabase is not connected
+   */
+  const applyUpdate = (userId: string, fields: Partial<ManagedUser>) => {
+    if (!IS_SUPABASE_CONFIGURED) {
+      setMockUsers((prev) => prev.map((u) => (u.id === userId ? { ...u, ...fields } : u)));
+      return;
+    }
+    setUsers((prev) => prev.map((u) => (u.id === userId ? { ...u, ...fields } : u)));
+    reload();
+  };
+
+  const handleRoleChange = async (user: ManagedUser, role: UserRole) => {
+    if (user.role === role) return;
+    try {
+      const updated = IS_SUPABASE_CONFIGURED ? await changeUserRole(user.id, role) : { role };
+      applyUpdate(user.id, updated);
+      toast.success("Role changed", `${user.full_name} is now ${role === "admin" ? "an" : "a"} ${role}.`);
+    } catch (error) {
+      toast.error("Could not change role", error.message);
+    }
+  };
+
+  const handleSetActive = async (user: ManagedUser, active: boolean) => {
+    try {
+      const updated = IS_SUPABASE_CONFIGURED
+        ? await setUserActive(user.id, active)
+        : { deactivated_at: active ? null : new Date().toISOString() };
+      applyUpdate(user.id, updated);
+      toast.success(active ? "Account reactivated" : "Account deactivated", user.email);
+    } catch (error) {
+      toast.error("Could not update account", error.message);
+    } finally {
+      setDeactivating(null);
+    }
+  };
+
+  const handlePasswordReset = async (user: ManagedUser) => {
+    if (!IS_SUPABASE_CONFIGURED) {
+      toast.error("Password reset unavailable", "Connect Supabase to send password resets.");
+      return;
+    }
+    try {
+      await sendPasswordReset(user.id);
+      toast.success("Password reset sent", user.email);
+      reload();
+    } catch (error) {
+      toast.error("Could not send password reset", error.message);
+    }
+  };
+
+  /**
+   * Handle CSV export of every user matching the filters
    */
   const handleExport = () => {
-    const headers = [
-      "Name",
-      "Email",
-      "Role",
-      "Institution",
-      "Cases Completed",
-      "Accuracy",
-      "Last Active",
-    ];
-    const rows = filteredUsers.map((user) => [
-      user.full_name,
-      user.email,
-      user.role,
-      user.institution || "",
-      user.cases_completed,
-      `${user.accuracy}%`,
-      user.last_active ? new Date(user.last_active).toLocaleDateString() : "Never",
-    ]);
-
-    const csv = [headers.join(","), ...rows.map((r) => r.join(","))].join("\n");
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
+    if (IS_SUPABASE_CONFIGURED) {
+      a.href = getUserExportUrl(appliedFilters);
+      a.click();
+      return;
+    }
+    const rows = searchMockUsers(mockUsers, appliedFilters, 1).filtered.map(toUserExportRow);
+    const url = URL.createObjectURL(new Blob([toCsv(USER_EXPORT_COLUMNS, rows)], { type: "text/csv" }));
     a.href = url;
-    a.download = "users-export.csv";
+    a.download = `users-${new Date().toISOString().slice(0, 10)}.csv`;
     a.click();
+    URL.revokeObjectURL(url);
   };
 
   /**
@@ -278,33 +407,25 @@ export default function UserManagementPage() {
       <div className="grid grid-cols-4 gap-4">
         <StatCard
           title="Total Users"
-          value={users.length}
+          value={summary ? Number(summary.total_users).toLocaleString() : "-"}
           icon={<Users className="w-5 h-5" />}
           color="cyan"
         />
         <StatCard
           title="Active Today"
-          value={
-            users.filter(
-              (u) =>
-                u.last_active &&
-                new Date(u.last_active) > new Date(Date.now() - 24 * 60 * 60 * 1000)
-            ).length
-          }
+          value={summary ? Number(summary.active_today).toLocaleString() : "-"}
           icon={<Activity className="w-5 h-5" />}
           color="emerald"
         />
         <StatCard
           title="Avg Accuracy"
-          value={`${Math.round(
-            users.reduce((sum, u) => sum + u.accuracy, 0) / users.length
-          )}%`}
+          value={summary?.avg_accuracy != null ? `${Math.round(summary.avg_accuracy)}%` : "-"}
           icon={<Target className="w-5 h-5" />}
           color="amber"
         />
         <StatCard
           title="Institutions"
-          value={new Set(users.map((u) => u.institution).filter(Boolean)).size}
+          value={summary ? Number(summary.institutions).toLocaleString() : "-"}
           icon={<Building className="w-5 h-5" />}
           color="violet"
         />
@@ -436,7 +557,7 @@ export default function UserManagementPage() {
                     <Loader2 className="w-6 h-6 animate-spin text-cyan-500 mx-auto" />
                   </td>
                 </tr>
-              ) : paginatedUsers.length === 0 ? (
+              ) : users.length === 0 ? (
                 <tr>
                   <td
                     colSpan={7}
@@ -446,7 +567,7 @@ export default function UserManagementPage() {
                   </td>
                 </tr>
               ) : (
-                paginatedUsers.map((user, index) => (
+                users.map((user, index) => (
                   <motion.tr
                     key={user.id}
                     initial={{ opacity: 0, y: 10 }}
@@ -462,6 +583,14 @@ export default function UserManagementPage() {
                         <div>
                           <p className="font-medium text-white">
                             {user.full_name}
+                            {user.deactivated_at && (
+                              <Badge
+                                variant="primary"
+                                className="ml-2 bg-slate-700 text-slate-300"
+                              >
+                                Deactivated
+                              </Badge>
+                            )}
                           </p>
                           <p className="text-sm text-slate-400">{user.email}</p>
                         </div>
@@ -482,18 +611,22 @@ export default function UserManagementPage() {
                       {user.cases_completed}
                     </td>
                     <td className="py-3 px-4">
-                      <span
-                        className={cn(
-                          "font-medium",
-                          user.accuracy >= 80
-                            ? "text-emerald-400"
-                            : user.accuracy >= 60
-                            ? "text-amber-400"
-                            : "text-rose-400"
-                        )}
-                      >
-                        {user.accuracy}%
-                      </span>
+                      {user.accuracy === null ? (
+                        <span className="text-slate-500">-</span>
+                      ) : (
+                        <span
+                          className={cn(
+                            "font-medium",
+                            user.accuracy >= 80
+                              ? "text-emerald-400"
+                              : user.accuracy >= 60
+                              ? "text-amber-400"
+                              : "text-rose-400"
+                          )}
+                        >
+                          {Math.round(user.accuracy)}%
+                        </span>
+                      )}
                     </td>
                     <td className="py-3 px-4 text-slate-400">
                       {user.last_active
@@ -507,13 +640,10 @@ export default function UserManagementPage() {
                           setSelectedUser(user);
                           setShowUserModal(true);
                         }}
-                        onRoleChange={(role) => {
-                          setUsers((prev) =>
-                            prev.map((u) =>
-                              u.id === user.id ? { ...u, role } : u
-                            )
-                          );
-                        }}
+                        onRoleChange={(role) => handleRoleChange(user, role)}
+                        onPasswordReset={() => handlePasswordReset(user)}
+                        onDeactivate={() => setDeactivating(user)}
+                        onReactivate={() => handleSetActive(user, true)}
                       />
                     </td>
                   </motion.tr>
@@ -527,9 +657,9 @@ export default function UserManagementPage() {
         {totalPages > 1 && (
           <div className="flex items-center justify-between px-4 py-3 border-t border-slate-800">
             <p className="text-sm text-slate-400">
-              Showing {(page - 1) * perPage + 1} -{" "}
-              {Math.min(page * perPage, filteredUsers.length)} of{" "}
-              {filteredUsers.length} users
+              Showing {(page - 1) * USERS_PER_PAGE + 1} -{" "}
+              {Math.min(page * USERS_PER_PAGE, total)} of{" "}
+              {total} users
             </p>
             <div className="flex items-center gap-2">
               <Button
@@ -570,6 +700,32 @@ export default function UserManagementPage() {
         )}
       </Card>
 
+      {/* Audit Log */}
+      {IS_SUPABASE_CONFIGURED && (
+        <Card className="bg-slate-900 border-slate-800">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              <ScrollText className="w-5 h-5 text-cyan-400" />
+              Audit Log
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {auditLog.length === 0 ? (
+              <p className="text-sm text-slate-400 text-center py-6">
+                No admin actions yet. Invitations, role changes, deactivations and
+                password resets are recorded here.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {auditLog.map((entry) => (
+                  <AuditLogRow key={entry.id} entry={entry} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* User Detail Modal */}
       <Modal open={showUserModal} onOpenChange={setShowUserModal}>
         <ModalContent className="bg-slate-900 border-slate-800 max-w-2xl">
@@ -588,7 +744,27 @@ export default function UserManagementPage() {
             <ModalTitle className="text-white">Invite Users</ModalTitle>
             <ModalClose />
           </ModalHeader>
-          <InviteUserForm onClose={() => setShowInviteModal(false)} />
+          <InviteUserForm
+            onClose={() => setShowInviteModal(false)}
+            onInvited={reload}
+          />
+        </ModalContent>
+      </Modal>
+
+      {/* Deactivate Modal */}
+      <Modal open={!!deactivating} onOpenChange={(open) => !open && setDeactivating(null)}>
+        <ModalContent className="bg-slate-900 border-slate-800">
+          <ModalHeader>
+            <ModalTitle className="text-white">Deactivate Account</ModalTitle>
+            <ModalClose />
+          </ModalHeader>
+          {deactivating && (
+            <DeactivateConfirm
+              user={deactivating}
+              onConfirm={() => handleSetActive(deactivating, false)}
+              onClose={() => setDeactivating(null)}
+            />
+          )}
         </ModalContent>
       </Modal>
     </div>
@@ -636,10 +812,16 @@ function UserActionMenu({
   user,
   onView,
   onRoleChange,
+  onPasswordReset,
+  onDeactivate,
+  onReactivate,
 }: {
-  user: UserWithStats;
+  user: ManagedUser;
   onView: () => void;
   onRoleChange: (role: UserRole) => void;
+  onPasswordReset: () => void;
+  onDeactivate: () => void;
+  onReactivate: () => void;
 }) {
   const [open, setOpen] = React.useState(false);
 
@@ -677,17 +859,21 @@ function UserActionMenu({
                 View Details
               </button>
               <button
-                onClick={() => setOpen(false)}
-                className="w-full px-4 py-2 text-left text-sm text-slate-300 hover:bg-slate-700 flex items-center gap-2"
+                onClick={() => {
+                  onPasswordReset();
+                  setOpen(false);
+                }}
+                disabled={!!user.deactivated_at}
+                className="w-full px-4 py-2 text-left text-sm text-slate-300 hover:bg-slate-700 flex items-center gap-2 disabled:opacity-50 disabled:pointer-events-none"
               >
-                <Mail className="w-4 h-4" />
-                Send Message
+                <KeyRound className="w-4 h-4" />
+                Send Password Reset
               </button>
               <div className="border-t border-slate-700 my-1" />
               <div className="px-4 py-2 text-xs text-slate-500 uppercase">
                 Change Role
               </div>
-              {(["student", "resident", "attending", "admin"] as UserRole[]).map(
+              {USER_ROLES.map(
                 (role) => (
                   <button
                     key={role}
@@ -708,13 +894,29 @@ function UserActionMenu({
                 )
               )}
               <div className="border-t border-slate-700 my-1" />
-              <button
-                onClick={() => setOpen(false)}
-                className="w-full px-4 py-2 text-left text-sm text-rose-400 hover:bg-rose-500/10 flex items-center gap-2"
-              >
-                <Ban className="w-4 h-4" />
-                Disable Account
-              </button>
+              {user.deactivated_at ? (
+                <button
+                  onClick={() => {
+                    onReactivate();
+                    setOpen(false);
+                  }}
+                  className="w-full px-4 py-2 text-left text-sm text-emerald-400 hover:bg-emerald-500/10 flex items-center gap-2"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Reactivate Account
+                </button>
+              ) : (
+                <button
+                  onClick={() => {
+                    onDeactivate();
+                    setOpen(false);
+                  }}
+                  className="w-full px-4 py-2 text-left text-sm text-rose-400 hover:bg-rose-500/10 flex items-center gap-2"
+                >
+                  <Ban className="w-4 h-4" />
+                  Deactivate Account
+                </button>
+              )}
             </motion.div>
           </>
         )}
@@ -723,7 +925,7 @@ function UserActionMenu({
   );
 }
 
-function UserDetailContent({ user }: { user: UserWithStats }) {
+function UserDetailContent({ user }: { user: ManagedUser }) {
   return (
     <div className="p-6 space-y-6">
       {/* Profile Header */}
@@ -756,7 +958,9 @@ function UserDetailContent({ user }: { user: UserWithStats }) {
         </div>
         <div className="p-4 bg-slate-800 rounded-lg text-center">
           <Target className="w-5 h-5 text-emerald-400 mx-auto mb-2" />
-          <p className="text-2xl font-bold text-white">{user.accuracy}%</p>
+          <p className="text-2xl font-bold text-white">
+            {user.accuracy === null ? "-" : `${Math.round(user.accuracy)}%`}
+          </p>
           <p className="text-xs text-slate-400">Accuracy</p>
         </div>
         <div className="p-4 bg-slate-800 rounded-lg text-center">
@@ -800,17 +1004,145 @@ function UserDetailContent({ user }: { user: UserWithStats }) {
   );
 }
 
-function InviteUserForm({ onClose }: { onClose: () => void }) {
+function DeactivateConfirm({
+  user,
+  onConfirm,
+  onClose,
+}: {
+  user: ManagedUser;
+  onConfirm: () => Promise<void>;
+  onClose: () => void;
+}) {
+  const [saving, setSaving] = React.useState(false);
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    await onConfirm();
+    setSaving(false);
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <p className="text-sm text-slate-300">
+        Deactivate <span className="font-medium text-white">{user.full_name}</span> (
+        {user.email})? They will be signed out and unable to sign in until the account
+        is reactivated. Their progress and results are kept.
+      </p>
+      <ModalFooter className="px-0 pb-0">
+        <Button
+          variant="primary"
+          onClick={onClose}
+          className="border-slate-700 text-slate-300"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleConfirm}
+          disabled={saving}
+          className="bg-rose-500 hover:bg-rose-600"
+        >
+          {saving ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Ban className="w-4 h-4 mr-2" />
+          )}
+          Deactivate
+        </Button>
+      </ModalFooter>
+    </div>
+  );
+}
+
+function describeAuditEntry(entry: AuditLogEntry): string {
+  switch (entry.action) {
+    case "invite":
+      return `invited ${entry.target_email} as ${entry.details.role}`;
+    case "role_change":
+      return `changed ${entry.target_email} from ${entry.details.from} to ${entry.details.to}`;
+    case "deactivate":
+      return `deactivated ${entry.target_email}`;
+    case "reactivate":
+      return `reactivated ${entry.target_email}`;
+    case "password_reset":
+      return `sent a password reset to ${entry.target_email}`;
+    default:
+      return `${entry.action} ${entry.target_email}`;
+  }
+}
+
+function AuditLogRow({ entry }: { entry: AuditLogEntry }) {
+  return (
+    <div className="flex items-center gap-3 p-3 bg-slate-800 rounded-lg">
+      <Shield className="w-4 h-4 text-slate-400 shrink-0" />
+      <p className="flex-1 text-sm text-slate-300">
+        <span className="font-medium text-white">{entry.actorName ?? "A former admin"}</span>{" "}
+        {describeAuditEntry(entry)}
+      </p>
+      <span className="text-xs text-slate-500 whitespace-nowrap">
+        {getTimeAgo(new Date(entry.created_at))}
+      </span>
+    </div>
+  );
+}
+
+function InviteUserForm({
+  onClose,
+  onInvited,
+}: {
+  onClose: () => void;
+  onInvited: () => void;
+}) {
   const [emails, setEmails] = React.useState("");
   const [role, setRole] = React.useState<UserRole>("student");
+  const [institution, setInstitution] = React.useState("");
   const [sending, setSending] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
 
   const handleSend = async () => {
+    const { valid, invalid } = parseInviteEmails(emails);
+    if (invalid.length) {
+      setError(`Not an email address: ${invalid.join(", ")}`);
+      return;
+    }
+    if (valid.length > MAX_INVITES) {
+      setError(`Invite at most ${MAX_INVITES} addresses at a time.`);
+      return;
+    }
+    if (!IS_SUPABASE_CONFIGURED) {
+      toast.error("Invitations unavailable", "Connect Supabase to send invitations.");
+      return;
+    }
+
     setSending(true);
-    // Simulate API call
-    await new Promise((r) => setTimeout(r, 1500));
-    setSending(false);
-    onClose();
+    setError(null);
+    try {
+      const results = await inviteUsers(valid, role, institution.trim() || null);
+      const invited = results.filter((r) => r.status === "invited").length;
+      const existing = results.filter((r) => r.status === "exists").map((r) => r.email);
+      const failed = results.filter((r) => r.status === "failed").map((r) => r.email);
+
+      if (invited) {
+        toast.success(`Sent ${invited} invitation${invited === 1 ? "" : "s"}`);
+        onInvited();
+      }
+      if (existing.length || failed.length) {
+        setEmails([...existing, ...failed].join("\n"));
+        setError(
+          [
+            existing.length && `Already have accounts: ${existing.join(", ")}`,
+            failed.length && `Could not invite: ${failed.join(", ")}`,
+          ]
+            .filter(Boolean)
+            .join(". ")
+        );
+      } else {
+        onClose();
+      }
+    } catch (err) {
+      setError(err.message);
+    } finally {
+      setSending(false);
+    }
   };
 
   return (
@@ -827,23 +1159,37 @@ function InviteUserForm({ onClose }: { onClose: () => void }) {
           className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white resize-none"
         />
         <p className="text-xs text-slate-500 mt-1">
-          Separate multiple emails with a new line
+          Separate multiple emails with a new line, up to {MAX_INVITES} at a time
         </p>
       </div>
-      <div>
-        <label className="text-sm text-slate-400 mb-1 block">
-          Default Role
-        </label>
-        <select
-          value={role}
-          onChange={(e) => setRole(e.target.value as UserRole)}
-          className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white"
-        >
-          <option value="student">Student</option>
-          <option value="resident">Resident</option>
-          <option value="attending">Attending</option>
-        </select>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm text-slate-400 mb-1 block">
+            Role
+          </label>
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as UserRole)}
+            className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white"
+          >
+            <option value="student">Student</option>
+            <option value="resident">Resident</option>
+            <option value="attending">Attending</option>
+          </select>
+        </div>
+        <div>
+          <label className="text-sm text-slate-400 mb-1 block">
+            Institution
+          </label>
+          <Input
+            value={institution}
+            onChange={(e) => setInstitution(e.target.value)}
+            placeholder="Optional"
+            className="bg-slate-800 border-slate-700 text-white"
+          />
+        </div>
       </div>
+      {error && <p className="text-sm text-rose-400">{error}</p>}
       <ModalFooter className="px-0 pb-0">
         <Button
           variant="primary"
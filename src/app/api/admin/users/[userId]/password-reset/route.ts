@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient, recordAdminAction, requireAdmin } from "@/lib/supabase/admin";
+
+/**
+ * Email a user a password reset link (admins only)
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: { userId: string } }
+) {
+  const supabase = await createClient();
+  const admin = await requireAdmin(supabase);
+  if ("response" in admin) return admin.response;
+
+  const service = createAdminClient();
+  const { data: target, error: lookupError } = await service
+    .from("profiles")
+    .select("id, email, deactivated_at")
+    .eq("id", params.userId)
+    .maybeSingle();
+
+  if (lookupError) {
+    console.error("Error fetching user:", lookupError);
+    return NextResponse.json({ error: "Could not load user" }, { status: 500 });
+  }
+  if (!target) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+  const user = target as { id: string; email: string; deactivated_at: string | null };
+  if (user.deactivated_at) {
+    return NextResponse.json(
+      { error: "Reactivate the account before resetting its password" },
+      { status: 409 }
+    );
+  }
+
+  const { error } = await service.auth.resetPasswordForEmail(user.email);
+  if (error) {
+    console.error("Error sending password reset:", error);
+    return NextResponse.json({ error: "Could not send password reset" }, { status: 500 });
+  }
+
+  await recordAdminAction(service, {
+    actorId: admin.userId,
+    action: "password_reset",
+    targetUserId: user.id,
+    targetEmail: user.email,
+  });
+  return NextResponse.json({ sent: true });
+}
@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient, recordAdminAction, requireAdmin } from "@/lib/supabase/admin";
+import { isUserRole } from "@/lib/users/management";
+import type { Profile } from "@/types/database";
+
+/** Ban length for a deactivated account: until it is reactivated */
+const DEACTIVATED_BAN = "876000h";
+
+/**
+ * Change a user's role, or deactivate or reactivate their account (admins
+ * only). Body: { role } or { active }. Admins cannot do either to
+ * themselves, so there is always an admin left who can undo it.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: { userId: string } }
+) {
+  const supabase = await createClient();
+  const admin = await requireAdmin(supabase);
+  if ("response" in admin) return admin.response;
+
+  const body = (await request.json().catch(() => ({}))) as {
+    role?: string;
+    active?: boolean;
+  };
+  const changesRole = body.role !== undefined;
+  if (changesRole === (body.active !== undefined)) {
+    return NextResponse.json({ error: "Give either role or active" }, { status: 400 });
+  }
+  if (changesRole && !isUserRole(body.role)) {
+    return NextResponse.json({ error: "Unknown role" }, { status: 400 });
+  }
+  if (!changesRole && typeof body.active !== "boolean") {
+    return NextResponse.json({ error: "active must be true or false" }, { status: 400 });
+  }
+  if (params.userId === admin.userId) {
+    return NextResponse.json(
+      { error: "You cannot change your own account" },
+      { status: 400 }
+    );
+  }
+
+  const service = createAdminClient();
+  const { data: target, error: lookupError } = await service
+    .from("profiles")
+    .select("id, email, role, deactivated_at")
+    .eq("id", params.userId)
+    .maybeSingle();
+
+  if (lookupError) {
+    console.error("Error fetching user:", lookupError);
+    return NextResponse.json({ error: "Could not load user" }, { status: 500 });
+  }
+  if (!target) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+  const user = target as Pick<Profile, "id" | "email" | "role" | "deactivated_at">;
+
+  if (changesRole) {
+    if (user.role === body.role) {
+      return NextResponse.json({ user });
+    }
+
+    const { data: updated, error } = await service
+      .from("profiles")
+      .update({ role: body.role, updated_at: new Date().toISOString() })
+      .eq("id", user.id)
+      .select("id, email, role, deactivated_at")
+      .single();
+
+    if (error) {
+      console.error("Error changing user role:", error);
+      return NextResponse.json({ error: "Could not change role" }, { status: 500 });
+    }
+
+    await recordAdminAction(service, {
+      actorId: admin.userId,
+      action: "role_change",
+      targetUserId: user.id,
+      targetEmail: user.email,
+      details: { from: user.role, to: body.role },
+    });
+    return NextResponse.json({ user: updated });
+  }
+
+  if (body.active === !user.deactivated_at) {
+    return NextResponse.json({ user });
+  }
+
+  // The ban blocks sign-in and token refresh; until the current session
+  // expires, the database refuses the user's requests (migration 017)
+  const { error: banError } = await service.auth.admin.updateUserById(user.id, {
+    ban_duration: body.active ? "none" : DEACTIVATED_BAN,
+  });
+  if (banError) {
+    console.error("Error updating user's sign-in:", banError);
+    return NextResponse.json({ error: "Could not update account" }, { status: 500 });
+  }
+
+  const { data: updated, error } = await service
+    .from("profiles")
+    .update({
+      deactivated_at: body.active ? null : new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", user.id)
+    .select("id, email, role, deactivated_at")
+    .single();
+
+  if (error) {
+    console.error("Error updating user's account:", error);
+    return NextResponse.json({ error: "Could not update account" }, { status: 500 });
+  }
+
+  await recordAdminAction(service, {
+    actorId: admin.userId,
+    action: body.active ? "reactivate" : "deactivate",
+    targetUserId: user.id,
+    targetEmail: user.email,
+  });
+  return NextResponse.json({ user: updated });
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient, recordAdminAction, requireAdmin } from "@/lib/supabase/admin";
+import {
+  MAX_INVITES,
+  isUserRole,
+  parseInviteEmails,
+  type InviteResult,
+} from "@/lib/users/management";
+
+/**
+ * Invite users by email with a preassigned role and institution (admins
+ * only). Body: { emails, role, institution? }. Each address is invited on
+ * its own, so one failure does not stop the rest; the result lists the
+ * outcome per address.
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const admin = await requireAdmin(supabase);
+  if ("response" in admin) return admin.response;
+
+  const { emails, role, institution } = (await request.json().catch(() => ({}))) as {
+    emails?: string[];
+    role?: string;
+    institution?: string | null;
+  };
+  const { valid, invalid } = parseInviteEmails(Array.isArray(emails) ? emails.join("\n") : "");
+  if (invalid.length) {
+    return NextResponse.json(
+      { error: `Not an email address: ${invalid.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  if (valid.length === 0) {
+    return NextResponse.json({ error: "No email addresses given" }, { status: 400 });
+  }
+  if (valid.length > MAX_INVITES) {
+    return NextResponse.json(
+      { error: `Invite at most ${MAX_INVITES} addresses at a time` },
+      { status: 400 }
+    );
+  }
+  if (!isUserRole(role)) {
+    return NextResponse.json({ error: "Unknown role" }, { status: 400 });
+  }
+
+  const service = createAdminClient();
+  const redirectTo = new URL("/onboarding", request.url).toString();
+  const assigned = { role, institution: institution?.trim() || null };
+  const results: InviteResult[] = [];
+
+  for (const email of valid) {
+    const { data, error } = await service.auth.admin.inviteUserByEmail(email, {
+      data: assigned,
+      redirectTo,
+    });
+
+    if (error) {
+      const exists = error.status === 422 || error.code === "email_exists";
+      if (!exists) console.error("Error inviting user:", error);
+      results.push({ email, status: exists ? "exists" : "failed", error: error.message });
+      continue;
+    }
+
+    // The profile is created from the new auth user by handle_new_user()
+    const { error: profileError } = await service
+      .from("profiles")
+      .update(assigned)
+      .eq("id", data.user.id);
+    if (profileError) {
+      console.error("Error assigning invited user's role:", profileError);
+    }
+
+    await recordAdminAction(service, {
+      actorId: admin.userId,
+      action: "invite",
+      targetUserId: data.user.id,
+      targetEmail: email,
+      details: assigned,
+    });
+    results.push({ email, status: "invited" });
+  }
+
+  return NextResponse.json({ results });
+}
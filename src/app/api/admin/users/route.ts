@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient, requireAdmin } from "@/lib/supabase/admin";
+import { toCsvStream } from "@/lib/utils/csv";
+import {
+  USERS_PER_PAGE,
+  USER_EXPORT_COLUMNS,
+  isUserRole,
+  toUserExportRow,
+} from "@/lib/users/management";
+import type { AdminUser, AdminUserSummary } from "@/types/database";
+
+/** Most users in one CSV export */
+const EXPORT_LIMIT = 10000;
+
+/**
+ * List users with their case activity, and headline figures across all
+ * users (admins only).
+ * Query: search, role, institution, page, and format=csv to download every
+ * matching user instead of a page.
+ */
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const admin = await requireAdmin(supabase);
+  if ("response" in admin) return admin.response;
+
+  const params = new URL(request.url).searchParams;
+  const role = params.get("role");
+  if (role && !isUserRole(role)) {
+    return NextResponse.json({ error: "Unknown role" }, { status: 400 });
+  }
+  const isExport = params.get("format") === "csv";
+  const page = Math.max(1, Number(params.get("page")) || 1);
+
+  const service = createAdminClient();
+  const [searchResult, summaryResult] = await Promise.all([
+    service.rpc("search_admin_users", {
+      p_search: params.get("search")?.trim() || null,
+      p_role: role || null,
+      p_institution: params.get("institution")?.trim() || null,
+      p_limit: isExport ? EXPORT_LIMIT : USERS_PER_PAGE,
+      p_offset: isExport ? 0 : (page - 1) * USERS_PER_PAGE,
+    }),
+    isExport ? { data: null, error: null } : service.rpc("get_admin_user_summary"),
+  ]);
+
+  const error = searchResult.error || summaryResult.error;
+  if (error) {
+    console.error("Error searching users:", error);
+    return NextResponse.json({ error: "Could not load users" }, { status: 500 });
+  }
+
+  const users = (searchResult.data || []) as AdminUser[];
+
+  if (isExport) {
+    const fileName = `users-${new Date().toISOString().slice(0, 10)}.csv`;
+    return new NextResponse(toCsvStream(USER_EXPORT_COLUMNS, users.map(toUserExportRow)), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  }
+
+  return NextResponse.json({
+    users: users.map(({ total_count, ...user }) => user),
+    total: users.length ? Number(users[0].total_count) : 0,
+    page,
+    perPage: USERS_PER_PAGE,
+    summary: ((summaryResult.data || []) as AdminUserSummary[])[0] ?? null,
+  });
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getFormAssemblyContext, resolveAssessmentId } from "@/lib/supabase/assessment-sittings";
+import { assembleAssessmentForm, getBuiltInAssessment } from "@/lib/data/assessments";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Start the signed-in learner's sitting of a built-in assessment.
+ * Body: { assessmentId, sessionId }. The form is assembled here from the
+ * assessment's blueprint, never taken from the client, and the sitting is
+ * created with the service role: learners cannot create sittings
+ * themselves (migration 010).
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { assessmentId, sessionId } = (await request.json().catch(() => ({}))) as {
+    assessmentId?: string;
+    sessionId?: string;
+  };
+  const assessment = assessmentId ? getBuiltInAssessment(assessmentId) : null;
+  if (!assessment) {
+    return NextResponse.json({ error: "Unknown assessment" }, { status: 400 });
+  }
+  if (!sessionId || !UUID_PATTERN.test(sessionId)) {
+    return NextResponse.json({ error: "Missing browser session" }, { status: 400 });
+  }
+
+  let id: string | null;
+  let caseIds: string[];
+  try {
+    id = await resolveAssessmentId(assessment.id, supabase);
+    const context = await getFormAssemblyContext(assessment.id, assessment.specialty, supabase);
+    caseIds = assembleAssessmentForm(assessment, context).caseIds;
+  } catch (error) {
+    console.error("Error assembling assessment form:", error);
+    return NextResponse.json({ error: "Could not assemble the assessment" }, { status: 500 });
+  }
+  if (!id) {
+    return NextResponse.json({ error: "Unknown assessment" }, { status: 400 });
+  }
+  if (caseIds.length === 0) {
+    return NextResponse.json({ error: "No cases are available for this assessment" }, { status: 409 });
+  }
+
+  const { data: sitting, error } = await createAdminClient()
+    .from("user_assessments")
+    .insert({
+      user_id: user.id,
+      assessment_id: id,
+      status: "in_progress",
+      case_ids: caseIds,
+      current_case_index: 0,
+      answers: [],
+      session_id: sessionId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // e.g. another proctored sitting is still in progress
+    console.error("Error starting assessment sitting:", error);
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+
+  return NextResponse.json({ sitting });
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { renderCertificatePdf } from "@/lib/certificates/pdf";
+import { getVerificationCode } from "@/lib/certificates/signature";
+import { SPECIALTY_TRACKS } from "@/data/specialty-tracks";
+import type { Certificate } from "@/types/database";
+
+/**
+ * Download a certificate as PDF. Row level security limits this to the
+ * certificate's holder and admins.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { certificateId: string } }
+) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("certificates")
+    .select("*")
+    .eq("id", params.certificateId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching certificate:", error);
+    return NextResponse.json({ error: "Could not load certificate" }, { status: 500 });
+  }
+
+  const certificate = data as Certificate | null;
+  if (!certificate) {
+    return NextResponse.json({ error: "Certificate not found" }, { status: 404 });
+  }
+  if (certificate.revoked_at) {
+    return NextResponse.json({ error: "Certificate has been revoked" }, { status: 410 });
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+  const pdf = renderCertificatePdf({
+    certificateId: certificate.id,
+    recipientName: certificate.recipient_name,
+    certificateName: certificate.certificate_name,
+    trackName: SPECIALTY_TRACKS[certificate.track]?.name ?? certificate.track,
+    issuedAt: certificate.issued_at,
+    verificationCode: getVerificationCode(certificate.signature),
+    verifyUrl: `${appUrl}/verify/${certificate.id}`,
+  });
+
+  return new NextResponse(Buffer.from(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename="arka-ed-certificate-${certificate.id}.pdf"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,160 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getCertificateEligibility } from "@/lib/certificates/eligibility";
+import { signCertificate } from "@/lib/certificates/signature";
+import { SPECIALTY_TRACKS } from "@/data/specialty-tracks";
+import { allCases } from "@/data/cases";
+import type { Certificate, SpecialtyTrack } from "@/types/database";
+
+/**
+ * Issue the signed-in learner's certificate for a specialty track.
+ * Body: { track }. Returns the existing certificate if one is already valid,
+ * 403 with the eligibility check if the track is not finished.
+ */
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { track: trackId } = (await request.json().catch(() => ({}))) as {
+    track?: SpecialtyTrack;
+  };
+  const track = trackId ? SPECIALTY_TRACKS[trackId] : undefined;
+  if (!track) {
+    return NextResponse.json({ error: "Unknown specialty track" }, { status: 400 });
+  }
+
+  const { data: existing } = await supabase
+    .from("certificates")
+    .select("*")
+    .eq("user_id", user.id)
+    .eq("track", track.id)
+    .is("revoked_at", null)
+    .maybeSingle();
+  if (existing) {
+    return NextResponse.json({ certificate: existing });
+  }
+
+  // Curriculum modules list bundled case ids; the database knows the same
+  // cases by slug
+  const curriculumIds = new Set(track.curriculum.flatMap((module) => module.caseIds));
+  const curriculumCases = allCases.filter((c) => curriculumIds.has(c.id));
+  const curriculumSlugs = curriculumCases.map((c) => c.slug);
+  const [casesResult, assessmentResult, profileResult] = await Promise.all([
+    supabase.from("cases").select("id, slug").in("slug", curriculumSlugs),
+    supabase.from("assessments").select("id").eq("slug", track.assessmentId).maybeSingle(),
+    supabase.from("profiles").select("full_name, email").eq("id", user.id).single(),
+  ]);
+
+  const lookupError = casesResult.error || assessmentResult.error || profileResult.error;
+  if (lookupError) {
+    console.error("Error checking certificate eligibility:", lookupError);
+    return NextResponse.json({ error: "Could not check eligibility" }, { status: 500 });
+  }
+
+  // Attempts and sittings are scored by the database (migrations 010 and
+  // 013): a curriculum case counts once answered correctly, and the pass
+  // must come from a sitting whose form the server assembled
+  const cases = (casesResult.data || []) as { id: string; slug: string }[];
+  const { data: attempts, error: attemptsError } = cases.length
+    ? await supabase
+        .from("user_case_attempts")
+        .select("case_id")
+        .eq("user_id", user.id)
+        .eq("is_correct", true)
+        .in(
+          "case_id",
+          cases.map((c) => c.id)
+        )
+    : { data: [], error: null };
+
+  const assessment = assessmentResult.data as { id: string } | null;
+  const { data: passedSitting, error: sittingError } = assessment
+    ? await supabase
+        .from("user_assessments")
+        .select("id")
+        .eq("user_id", user.id)
+        .eq("assessment_id", assessment.id)
+        .eq("status", "completed")
+        .eq("passed", true)
+        .not("case_ids", "eq", "{}")
+        .order("completed_at", { ascending: false })
+        .limit(1)
+        .maybeSingle()
+    : { data: null, error: null };
+
+  if (attemptsError || sittingError) {
+    console.error("Error checking certificate eligibility:", attemptsError || sittingError);
+    return NextResponse.json({ error: "Could not check eligibility" }, { status: 500 });
+  }
+
+  // A revoked certificate's sitting cannot earn it again; a new pass is needed
+  const { data: revoked } = await supabase
+    .from("certificates")
+    .select("user_assessment_id")
+    .eq("user_id", user.id)
+    .eq("track", track.id)
+    .not("revoked_at", "is", null);
+  const passedId = (passedSitting as { id: string } | null)?.id ?? null;
+  const passUsed = ((revoked || []) as { user_assessment_id: string | null }[]).some(
+    (c) => c.user_assessment_id === passedId
+  );
+
+  const attemptedIds = new Set(((attempts || []) as { case_id: string }[]).map((a) => a.case_id));
+  const completedSlugs = new Set(cases.filter((c) => attemptedIds.has(c.id)).map((c) => c.slug));
+  const eligibility = getCertificateEligibility(
+    track,
+    curriculumCases.filter((c) => completedSlugs.has(c.slug)).map((c) => c.id),
+    !!passedId && !passUsed
+  );
+  if (!eligibility.eligible) {
+    return NextResponse.json(
+      { error: "Track not yet complete", eligibility },
+      { status: 403 }
+    );
+  }
+
+  const profile = profileResult.data as { full_name: string | null; email: string };
+  const fields = {
+    id: randomUUID(),
+    track: track.id,
+    certificate_name: track.certificateName,
+    recipient_name: profile.full_name || profile.email,
+    issued_at: new Date().toISOString(),
+  };
+
+  const { data: certificate, error: insertError } = await createAdminClient()
+    .from("certificates")
+    .insert({
+      ...fields,
+      user_id: user.id,
+      user_assessment_id: passedId,
+      signature: signCertificate(fields),
+    } as any)
+    .select()
+    .single();
+
+  if (insertError?.code === "23505") {
+    // Issued by a concurrent request
+    const { data: issued } = await supabase
+      .from("certificates")
+      .select("*")
+      .eq("user_id", user.id)
+      .eq("track", track.id)
+      .is("revoked_at", null)
+      .maybeSingle();
+    return NextResponse.json({ certificate: issued });
+  }
+  if (insertError) {
+    console.error("Error issuing certificate:", insertError);
+    return NextResponse.json({ error: "Could not issue certificate" }, { status: 500 });
+  }
+
+  return NextResponse.json({ certificate: certificate as Certificate }, { status: 201 });
+}
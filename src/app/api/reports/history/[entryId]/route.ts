@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { requireAdmin } from "@/lib/supabase/admin";
+import { reportResponse } from "@/lib/reports/server";
+import type { GeneratedReport } from "@/types/database";
+
+/**
+ * Download a previously generated report again, from its snapshot, so it
+ * matches what was originally downloaded (admins only). ?format=csv|pdf
+ * picks the format; it defaults to the one originally generated.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { entryId: string } }
+) {
+  const supabase = await createClient();
+  const admin = await requireAdmin(supabase);
+  if ("response" in admin) return admin.response;
+
+  const requested = new URL(request.url).searchParams.get("format");
+  if (requested && requested !== "csv" && requested !== "pdf") {
+    return NextResponse.json({ error: "Format must be csv or pdf" }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from("generated_reports")
+    .select("*")
+    .eq("id", params.entryId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching generated report:", error);
+    return NextResponse.json({ error: "Could not load report" }, { status: 500 });
+  }
+
+  const entry = data as GeneratedReport | null;
+  if (!entry) {
+    return NextResponse.json({ error: "Report not found" }, { status: 404 });
+  }
+
+  return reportResponse({
+    reportId: entry.report_id,
+    format: (requested as GeneratedReport["format"] | null) ?? entry.format,
+    dateRange: entry.date_range,
+    periodStart: entry.period_start,
+    periodEnd: entry.period_end,
+    generatedAt: entry.created_at,
+    rows: entry.rows,
+    entryId: entry.id,
+  });
+}
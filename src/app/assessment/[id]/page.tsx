@@ -15,6 +15,9 @@ import {
   FileText,
   Target,
   Play,
+  ShieldCheck,
+  Maximize,
+  MonitorSmartphone,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -31,26 +34,77 @@ import {
 import { ClinicalVignette } from "@/components/cases/clinical-vignette";
 import { OrderingInterface } from "@/components/cases/ordering-interface";
 import {
-  QUICK_QUIZ,
-  SPECIALTY_ASSESSMENTS,
-  FULL_EXAM,
+  assembleAssessmentForm,
   formatTimeRemaining,
+  getBuiltInAssessment,
   type Assessment,
 } from "@/lib/data/assessments";
 import { createClient } from "@/lib/supabase/client";
+import {
+  claimSitting,
+  completeSitting,
+  getActiveSitting,
+  getBrowserSessionId,
+  getFormAssemblyContext,
+  getSecondsRemaining,
+  isAssessmentProctored,
+  saveSittingAnswers,
+  startSitting,
+} from "@/lib/supabase/assessment-sittings";
+import { useIntegrityMonitor } from "@/lib/hooks/use-integrity-monitor";
 import { cn } from "@/lib/utils";
-import type { Case, ImagingOption } from "@/types/database";
+import { scoreImagingSelection, type ScoreDeduction } from "@/lib/utils/imaging-score";
+import type {
+  AssessmentAnswer,
+  Case,
+  CaseImagingRating,
+  ImagingOption,
+  UserAssessment,
+} from "@/types/database";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-type AssessmentState = "start" | "in_progress" | "completed";
+type AssessmentState = "start" | "in_progress" | "session_conflict" | "completed";
 
 interface CaseAnswer {
   caseId: string;
   selectedImaging: string[];
   timeSpent: number; // seconds
+  score: number; // 0-100, partial credit
+  acrRating: number | null;
+  isCorrect: boolean;
+  deductions: ScoreDeduction[];
+}
+
+function toStoredAnswers(answers: Map<string, CaseAnswer>): AssessmentAnswer[] {
+  return Array.from(answers.values()).map((a) => ({
+    case_id: a.caseId,
+    selected_imaging: a.selectedImaging,
+    acr_rating_received: a.acrRating,
+    is_correct: a.isCorrect,
+    time_spent_seconds: a.timeSpent,
+    hints_used: 0,
+    score: a.score,
+  }));
+}
+
+function fromStoredAnswers(answers: AssessmentAnswer[]): Map<string, CaseAnswer> {
+  return new Map(
+    answers.map((a) => [
+      a.case_id,
+      {
+        caseId: a.case_id,
+        selectedImaging: a.selected_imaging,
+        timeSpent: a.time_spent_seconds,
+        score: a.score ?? (a.is_correct ? 100 : 0),
+        acrRating: a.acr_rating_received,
+        isCorrect: a.is_correct,
+        deductions: [],
+      },
+    ])
+  );
 }
 
 // ============================================================================
@@ -69,6 +123,9 @@ export default function AssessmentFlowPage() {
   const [imagingOptions, setImagingOptions] = React.useState<ImagingOption[]>(
     []
   );
+  const [imagingRatings, setImagingRatings] = React.useState<
+    CaseImagingRating[]
+  >([]);
   const [currentCaseIndex, setCurrentCaseIndex] = React.useState(0);
   const [answers, setAnswers] = React.useState<Map<string, CaseAnswer>>(
     new Map()
@@ -76,6 +133,13 @@ export default function AssessmentFlowPage() {
   const [selectedImaging, setSelectedImaging] = React.useState<string[]>([]);
   const [timeRemaining, setTimeRemaining] = React.useState(0);
   const [timerRunning, setTimerRunning] = React.useState(false);
+  // Signed-in sittings are saved on every answer and timed by the server
+  const [canPersist, setCanPersist] = React.useState(false);
+  const [sitting, setSitting] = React.useState<UserAssessment | null>(null);
+  const [deadline, setDeadline] = React.useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [proctored, setProctored] = React.useState(false);
+  const [startError, setStartError] = React.useState<string | null>(null);
   const [showEndConfirm, setShowEndConfirm] = React.useState(false);
   const [caseStartTime, setCaseStartTime] = React.useState(Date.now());
   const [isLoading, setIsLoading] = React.useState(true);
@@ -86,20 +150,7 @@ export default function AssessmentFlowPage() {
       setIsLoading(true);
       try {
         // Get assessment config
-        let assessmentConfig: Assessment | null = null;
-        if (assessmentId === QUICK_QUIZ.id) {
-          assessmentConfig = QUICK_QUIZ;
-        } else if (assessmentId === FULL_EXAM.id) {
-          assessmentConfig = FULL_EXAM;
-        } else {
-          const specialtyAssessment = Object.values(SPECIALTY_ASSESSMENTS).find(
-            (a) => a.id === assessmentId
-          );
-          if (specialtyAssessment) {
-            assessmentConfig = specialtyAssessment;
-          }
-        }
-
+        const assessmentConfig = getBuiltInAssessment(assessmentId);
         if (!assessmentConfig) {
           router.push("/assessment");
           return;
@@ -108,50 +159,77 @@ export default function AssessmentFlowPage() {
         setAssessment(assessmentConfig);
         setTimeRemaining(assessmentConfig.timeLimit * 60);
 
-        // Fetch cases from database
         const supabase = createClient();
-        let query = supabase
-          .from("cases")
-          .select("*")
-          .eq("is_published", true)
-          .limit(assessmentConfig.questionCount);
-
-        // Apply filters
-        if (assessmentConfig.specialty) {
-          query = query.contains("specialty_tags", [
-            assessmentConfig.specialty,
-          ]);
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        setCanPersist(!!user);
+        if (user) {
+          setProctored(
+            await isAssessmentProctored(assessmentConfig.id).catch(() => false)
+          );
         }
 
-        if (assessmentConfig.categories && assessmentConfig.categories.length > 0) {
-          query = query.in("category", assessmentConfig.categories);
-        }
+        // Resume an unfinished sitting on the cases it drew
+        const resumed = user
+          ? await getActiveSitting(assessmentConfig.id).catch((error) => {
+              console.error("Error fetching active sitting:", error);
+              return null;
+            })
+          : null;
 
-        if (
-          assessmentConfig.difficulty &&
-          assessmentConfig.difficulty.length > 0
-        ) {
-          query = query.in("difficulty", assessmentConfig.difficulty);
-        }
+        let selectedCases: Case[];
+        if (resumed && resumed.case_ids.length > 0) {
+          const { data: resumedCases, error: resumedError } = await supabase
+            .from("cases")
+            .select("*")
+            .in("id", resumed.case_ids);
 
-        // Randomize order
-        query = query.order("created_at", { ascending: false });
-
-        const { data: casesData, error: casesError } = await query;
+          if (resumedError) {
+            console.error("Error fetching cases:", resumedError);
+            return;
+          }
 
-        if (casesError) {
-          console.error("Error fetching cases:", casesError);
-          return;
+          selectedCases = resumed.case_ids
+            .map((id) => (resumedCases || []).find((c: Case) => c.id === id))
+            .filter(Boolean) as Case[];
+        } else {
+          selectedCases = await drawCases(assessmentConfig);
         }
 
-        if (!casesData || casesData.length === 0) {
+        if (selectedCases.length === 0) {
           console.error("No cases found");
           return;
         }
+        setCases(selectedCases);
+
+        if (resumed && resumed.case_ids.length > 0) {
+          if (resumed.is_proctored && resumed.session_id !== getBrowserSessionId()) {
+            // Proctored sittings run in one session; ask before moving it here
+            setProctored(true);
+            setSitting(resumed);
+            setState("session_conflict");
+          } else if (
+            await enterSitting(resumed, assessmentConfig.timeLimit, selectedCases.length)
+          ) {
+            return;
+          }
+        }
+
+        // Fetch imaging ratings for scoring
+        const { data: ratingsData, error: ratingsError } = await supabase
+          .from("case_imaging_ratings")
+          .select("*")
+          .in(
+            "case_id",
+            selectedCases.map((c) => c.id)
+          );
 
-        // Shuffle cases for randomization
-        const shuffledCases = [...casesData].sort(() => Math.random() - 0.5);
-        setCases(shuffledCases.slice(0, assessmentConfig.questionCount));
+        if (ratingsError) {
+          console.error("Error fetching imaging ratings:", ratingsError);
+        } else {
+          setImagingRatings(ratingsData || []);
+        }
 
         // Fetch imaging options
         const { data: imagingData, error: imagingError } = await supabase
@@ -171,41 +249,127 @@ export default function AssessmentFlowPage() {
       }
     }
 
+    /**
+     * Draw the learner's form for this attempt, the same one the sittings
+     * route assembles when the sitting starts
+     */
+    async function drawCases(assessmentConfig: Assessment): Promise<Case[]> {
+      let context: Awaited<ReturnType<typeof getFormAssemblyContext>>;
+      try {
+        context = await getFormAssemblyContext(
+          assessmentConfig.id,
+          assessmentConfig.specialty
+        );
+      } catch {
+        return [];
+      }
+
+      const form = assembleAssessmentForm(assessmentConfig, context);
+      if (form.shortfalls.length > 0) {
+        console.warn("Assessment form falls short of its blueprint:", form.shortfalls);
+      }
+
+      return form.caseIds
+        .map((id) => context.cases.find((c) => c.id === id))
+        .filter(Boolean) as Case[];
+    }
+
     loadAssessment();
   }, [assessmentId, router]);
 
-  // Timer effect
+  /**
+   * Continue a saved sitting. Returns true when it had already ended and
+   * the learner was sent to the results instead.
+   */
+  async function enterSitting(
+    saved: UserAssessment,
+    timeLimitMinutes: number,
+    caseCount: number
+  ): Promise<boolean> {
+    if (saved.status === "completed" || getSecondsRemaining(saved) === 0) {
+      // Time ran out while away; the server keeps only what was saved
+      if (saved.status !== "completed") {
+        await completeSitting(saved.id, saved.answers).catch((error) =>
+          console.error("Error completing expired sitting:", error)
+        );
+      }
+      cacheProgress(
+        fromStoredAnswers(saved.answers),
+        saved.current_case_index,
+        0,
+        saved.id
+      );
+      router.push(`/assessment/${assessmentId}/results`);
+      return true;
+    }
+
+    setSitting(saved);
+    setAnswers(fromStoredAnswers(saved.answers));
+    setCurrentCaseIndex(Math.min(saved.current_case_index, caseCount - 1));
+    setDeadline(
+      saved.deadline_at
+        ? new Date(saved.deadline_at).getTime()
+        : Date.now() + timeLimitMinutes * 60 * 1000
+    );
+    setState("in_progress");
+    setTimerRunning(true);
+    return false;
+  }
+
+  const integrity = useIntegrityMonitor({
+    sittingId: sitting?.id ?? null,
+    enabled: (sitting?.is_proctored ?? false) && state === "in_progress",
+    caseIndex: currentCaseIndex,
+  });
+
+  // Timer effect: counts down to the deadline rather than ticking a
+  // counter, so pausing the page cannot stop the clock
+  const autoSubmitRef = React.useRef<() => void>(() => {});
   React.useEffect(() => {
-    if (!timerRunning || state !== "in_progress") return;
+    if (!timerRunning || state !== "in_progress" || deadline === null) return;
 
-    const interval = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev <= 1) {
-          setTimerRunning(false);
-          handleAutoSubmit();
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+      setTimeRemaining(remaining);
+      if (remaining === 0) {
+        setTimerRunning(false);
+        autoSubmitRef.current();
+      }
+    };
 
+    tick();
+    const interval = setInterval(tick, 1000);
     return () => clearInterval(interval);
-  }, [timerRunning, state]);
+  }, [timerRunning, state, deadline]);
+
+  /**
+   * Cache progress locally for the results page and signed-out learners
+   */
+  function cacheProgress(
+    cached: Map<string, CaseAnswer>,
+    caseIndex: number,
+    remaining: number,
+    sittingId: string | null
+  ) {
+    localStorage.setItem(
+      `assessment_${assessmentId}`,
+      JSON.stringify({
+        assessmentId,
+        sittingId,
+        answers: Array.from(cached.entries()),
+        currentCaseIndex: caseIndex,
+        timeRemaining: remaining,
+        timestamp: Date.now(),
+      })
+    );
+  }
 
   // Auto-save progress
   React.useEffect(() => {
     if (state === "in_progress" && answers.size > 0) {
-      // Save to localStorage as backup
-      const saveData = {
-        assessmentId,
-        answers: Array.from(answers.entries()),
-        currentCaseIndex,
-        timeRemaining,
-        timestamp: Date.now(),
-      };
-      localStorage.setItem(`assessment_${assessmentId}`, JSON.stringify(saveData));
+      cacheProgress(answers, currentCaseIndex, timeRemaining, sitting?.id ?? null);
     }
-  }, [answers, currentCaseIndex, timeRemaining, assessmentId, state]);
+  }, [answers, currentCaseIndex, timeRemaining, assessmentId, state, sitting]);
 
   // Current case
   const currentCase = cases[currentCaseIndex];
@@ -227,7 +391,54 @@ export default function AssessmentFlowPage() {
   /**
    * Start assessment
    */
-  const handleStart = () => {
+  const handleStart = async () => {
+    if (!assessment) return;
+    if (proctored && !canPersist) {
+      setStartError("Sign in to take a proctored assessment.");
+      return;
+    }
+    setStartError(null);
+    // Must run inside the click that started the assessment
+    if (proctored) integrity.requestFullscreen();
+
+    let nextDeadline = Date.now() + assessment.timeLimit * 60 * 1000;
+    if (canPersist) {
+      try {
+        const started = await startSitting(assessment.id);
+        setSitting(started);
+        // The server assembles the form again; it only differs from the one
+        // drawn here if the case pool changed in between
+        if (started.case_ids.join() !== cases.map((c) => c.id).join()) {
+          const supabase = createClient();
+          const [casesResult, ratingsResult] = await Promise.all([
+            supabase.from("cases").select("*").in("id", started.case_ids),
+            supabase.from("case_imaging_ratings").select("*").in("case_id", started.case_ids),
+          ]);
+          if (casesResult.error || ratingsResult.error) {
+            throw casesResult.error || ratingsResult.error;
+          }
+          setCases(
+            started.case_ids
+              .map((id) => (casesResult.data || []).find((c: Case) => c.id === id))
+              .filter(Boolean) as Case[]
+          );
+          setImagingRatings(ratingsResult.data || []);
+        }
+        // Server seconds remaining, so a skewed local clock cannot shift it
+        if (started.time_remaining_seconds !== null) {
+          nextDeadline = Date.now() + started.time_remaining_seconds * 1000;
+        }
+      } catch (error) {
+        // Proctored results only count from a saved sitting
+        if (proctored) {
+          setStartError(error?.message || "The assessment could not be started.");
+          return;
+        }
+        console.error("Error starting sitting; progress will not be saved:", error);
+      }
+    }
+
+    setDeadline(nextDeadline);
     setState("in_progress");
     setTimerRunning(true);
     setCaseStartTime(Date.now());
@@ -236,30 +447,78 @@ export default function AssessmentFlowPage() {
   /**
    * Save current answer
    */
-  const saveCurrentAnswer = () => {
-    if (!currentCase) return;
+  const saveCurrentAnswer = (): Map<string, CaseAnswer> => {
+    if (!currentCase) return answers;
 
     const timeSpent = Math.floor((Date.now() - caseStartTime) / 1000);
     const existingAnswer = answers.get(currentCase.id);
+    const result = scoreImagingSelection({
+      selectedImaging,
+      ratings: imagingRatings.filter((r) => r.case_id === currentCase.id),
+      optimalImaging: currentCase.optimal_imaging,
+      imagingOptions,
+    });
 
-    setAnswers((prev) => {
-      const newAnswers = new Map(prev);
-      newAnswers.set(currentCase.id, {
-        caseId: currentCase.id,
-        selectedImaging,
-        timeSpent: (existingAnswer?.timeSpent || 0) + timeSpent,
-      });
-      return newAnswers;
+    const newAnswers = new Map(answers);
+    newAnswers.set(currentCase.id, {
+      caseId: currentCase.id,
+      selectedImaging,
+      timeSpent: (existingAnswer?.timeSpent || 0) + timeSpent,
+      score: result.score,
+      acrRating: result.acrRating,
+      isCorrect: result.isCorrect,
+      deductions: result.deductions,
     });
+    setAnswers(newAnswers);
+    return newAnswers;
   };
 
   /**
    * Go to next case
    */
-  const handleNext = () => {
+  const handleNext = async () => {
     if (currentCaseIndex < totalCases - 1) {
-      saveCurrentAnswer();
-      setCurrentCaseIndex((prev) => prev + 1);
+      const newAnswers = saveCurrentAnswer();
+      const nextIndex = currentCaseIndex + 1;
+      setCurrentCaseIndex(nextIndex);
+
+      if (!sitting) return;
+      try {
+        const saved = await saveSittingAnswers(
+          sitting.id,
+          toStoredAnswers(newAnswers),
+          nextIndex
+        );
+        setSitting(saved);
+        // The server completed the sitting because time had run out
+        if (saved.status === "completed") {
+          setTimerRunning(false);
+          cacheProgress(fromStoredAnswers(saved.answers), nextIndex, 0, saved.id);
+          router.push(`/assessment/${assessmentId}/results`);
+        }
+      } catch (error) {
+        console.error("Error saving answer:", error);
+        // Another window took over this proctored sitting
+        if (sitting.is_proctored && /another session/.test(error?.message ?? "")) {
+          setTimerRunning(false);
+          setState("session_conflict");
+        }
+      }
+    }
+  };
+
+  /**
+   * Move a proctored sitting open elsewhere to this window
+   */
+  const handleClaimSession = async () => {
+    if (!sitting || !assessment) return;
+    setStartError(null);
+    try {
+      const claimed = await claimSitting(sitting.id);
+      integrity.requestFullscreen();
+      await enterSitting(claimed, assessment.timeLimit, cases.length);
+    } catch (error) {
+      setStartError(error?.message || "The assessment could not be resumed here.");
     }
   };
 
@@ -267,13 +526,26 @@ export default function AssessmentFlowPage() {
    * Submit assessment
    */
   const handleSubmit = async () => {
-    saveCurrentAnswer();
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    const newAnswers = saveCurrentAnswer();
     setTimerRunning(false);
 
-    // Calculate results
-    const totalTimeUsed = assessment
-      ? assessment.timeLimit * 60 - timeRemaining
-      : 0;
+    if (sitting) {
+      try {
+        await completeSitting(sitting.id, toStoredAnswers(newAnswers));
+      } catch (error) {
+        console.error("Error completing assessment:", error);
+        if (sitting.is_proctored && /another session/.test(error?.message ?? "")) {
+          setIsSubmitting(false);
+          setState("session_conflict");
+          return;
+        }
+        // Otherwise already completed by the server at the deadline
+      }
+    }
+
+    cacheProgress(newAnswers, currentCaseIndex, timeRemaining, sitting?.id ?? null);
 
     // Navigate to results page
     router.push(`/assessment/${assessmentId}/results`);
@@ -283,9 +555,9 @@ export default function AssessmentFlowPage() {
    * Auto-submit when time expires
    */
   const handleAutoSubmit = () => {
-    saveCurrentAnswer();
     handleSubmit();
   };
+  autoSubmitRef.current = handleAutoSubmit;
 
   /**
    * End assessment early
@@ -342,11 +614,24 @@ export default function AssessmentFlowPage() {
           <StartScreen
             key="start"
             assessment={assessment}
+            canResume={canPersist}
+            proctored={proctored}
+            error={startError}
             onStart={handleStart}
             onBack={() => router.push("/assessment")}
           />
         )}
 
+        {state === "session_conflict" && (
+          <SessionConflictScreen
+            key="session-conflict"
+            assessment={assessment}
+            error={startError}
+            onContinue={handleClaimSession}
+            onBack={() => router.push("/assessment")}
+          />
+        )}
+
         {state === "in_progress" && (
           <InProgressScreen
             key="in-progress"
@@ -363,6 +648,10 @@ export default function AssessmentFlowPage() {
             onSubmit={handleSubmit}
             onEndAssessment={handleEndAssessment}
             isLastCase={isLastCase}
+            proctored={sitting?.is_proctored ?? false}
+            isFullscreen={integrity.isFullscreen}
+            flaggedCount={integrity.flaggedCount}
+            onRequestFullscreen={integrity.requestFullscreen}
           />
         )}
       </AnimatePresence>
@@ -376,11 +665,21 @@ export default function AssessmentFlowPage() {
 
 interface StartScreenProps {
   assessment: Assessment;
+  canResume: boolean;
+  proctored: boolean;
+  error: string | null;
   onStart: () => void;
   onBack: () => void;
 }
 
-function StartScreen({ assessment, onStart, onBack }: StartScreenProps) {
+function StartScreen({
+  assessment,
+  canResume,
+  proctored,
+  error,
+  onStart,
+  onBack,
+}: StartScreenProps) {
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -445,12 +744,39 @@ function StartScreen({ assessment, onStart, onBack }: StartScreenProps) {
                       <li>Cannot go back to previous questions</li>
                       <li>Timer visible at all times</li>
                       <li>Auto-submit when time expires</li>
+                      {canResume && (
+                        <li>Progress is saved after each question; reloading resumes where you left off</li>
+                      )}
                     </ul>
                   </div>
                 </div>
               </CardContent>
             </Card>
 
+            {proctored && (
+              <Card className="bg-cyan-50 border-cyan-200">
+                <CardContent className="p-4">
+                  <div className="flex items-start gap-3">
+                    <ShieldCheck className="w-5 h-5 text-cyan-600 flex-shrink-0 mt-0.5" aria-hidden="true" />
+                    <div className="text-sm text-cyan-800">
+                      <p className="font-semibold mb-1">Proctored Assessment</p>
+                      <ul className="list-disc list-inside space-y-1 text-cyan-700" role="list">
+                        <li>Runs in fullscreen in this window only</li>
+                        <li>Leaving the tab, copy/paste and exiting fullscreen are recorded for your faculty</li>
+                        <li>Finish any other assessment in progress first</li>
+                      </ul>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {error && (
+              <p className="text-sm text-rose-600 text-center" role="alert">
+                {error}
+              </p>
+            )}
+
             <Button onClick={onStart} className="w-full touch-target" size="lg" aria-label="Begin assessment">
               <Play className="w-5 h-5 mr-2" aria-hidden="true" />
               Begin Assessment
@@ -462,6 +788,61 @@ function StartScreen({ assessment, onStart, onBack }: StartScreenProps) {
   );
 }
 
+// ============================================================================
+// Session Conflict Screen
+// ============================================================================
+
+interface SessionConflictScreenProps {
+  assessment: Assessment;
+  error: string | null;
+  onContinue: () => void;
+  onBack: () => void;
+}
+
+function SessionConflictScreen({
+  assessment,
+  error,
+  onContinue,
+  onBack,
+}: SessionConflictScreenProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="min-h-screen bg-slate-50 flex items-center justify-center p-4"
+    >
+      <Card className="max-w-lg w-full">
+        <CardHeader className="text-center pb-2">
+          <MonitorSmartphone className="w-10 h-10 mx-auto mb-2 text-amber-500" aria-hidden="true" />
+          <CardTitle className="text-xl">{assessment.name} is open elsewhere</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-slate-600 text-center">
+            This proctored assessment is running in another window or device.
+            You can continue here instead; the other window will stop saving
+            answers and the switch will be noted for your faculty. The timer
+            has kept running.
+          </p>
+          {error && (
+            <p className="text-sm text-rose-600 text-center" role="alert">
+              {error}
+            </p>
+          )}
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Button variant="outline" onClick={onBack} className="flex-1 touch-target">
+              Back to Assessments
+            </Button>
+            <Button onClick={onContinue} className="flex-1 touch-target">
+              Continue Here
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
+
 // ============================================================================
 // In Progress Screen
 // ============================================================================
@@ -480,6 +861,10 @@ interface InProgressScreenProps {
   onSubmit: () => void;
   onEndAssessment: () => void;
   isLastCase: boolean;
+  proctored: boolean;
+  isFullscreen: boolean;
+  flaggedCount: number;
+  onRequestFullscreen: () => void;
 }
 
 function InProgressScreen({
@@ -496,6 +881,10 @@ function InProgressScreen({
   onSubmit,
   onEndAssessment,
   isLastCase,
+  proctored,
+  isFullscreen,
+  flaggedCount,
+  onRequestFullscreen,
 }: InProgressScreenProps) {
   const progressPercent = ((currentCaseIndex + 1) / totalCases) * 100;
   const isLowTime = timeRemaining < 5 * 60; // Less than 5 minutes
@@ -551,6 +940,35 @@ function InProgressScreen({
         </div>
       </header>
 
+      {/* Proctoring status */}
+      {proctored && (
+        <div
+          className={cn(
+            "border-b px-3 sm:px-4 py-2 text-xs sm:text-sm",
+            isFullscreen
+              ? "bg-cyan-50 border-cyan-200 text-cyan-800"
+              : "bg-amber-50 border-amber-200 text-amber-800"
+          )}
+          role="status"
+        >
+          <div className="max-w-7xl mx-auto flex items-center justify-between gap-3">
+            <span className="flex items-center gap-2">
+              <ShieldCheck className="w-4 h-4" aria-hidden="true" />
+              {isFullscreen
+                ? "Proctored: activity outside this window is recorded"
+                : "Proctored: you have left fullscreen; this has been recorded"}
+              {flaggedCount > 0 && ` (${flaggedCount} event${flaggedCount === 1 ? "" : "s"})`}
+            </span>
+            {!isFullscreen && (
+              <Button size="sm" variant="outline" onClick={onRequestFullscreen} className="touch-target">
+                <Maximize className="w-4 h-4 mr-2" aria-hidden="true" />
+                Return to Fullscreen
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Progress Bar */}
       <div className="bg-white border-b border-slate-200 px-3 sm:px-4 py-1 sm:py-2">
         <div className="max-w-7xl mx-auto">
@@ -29,6 +29,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { LinearProgress } from "@/components/ui/progress";
 import { ACRRatingBadge } from "@/components/cases/acr-rating-badge";
+import { PeerBenchmark } from "@/components/assessments/peer-benchmark";
 import {
   QUICK_QUIZ,
   SPECIALTY_ASSESSMENTS,
@@ -45,6 +46,8 @@ import {
   type Assessment,
 } from "@/lib/data/assessments";
 import { createClient } from "@/lib/supabase/client";
+import { getLatestCompletedSitting } from "@/lib/supabase/assessment-sittings";
+import { usePeerBenchmark } from "@/lib/hooks/use-peer-benchmark";
 import { cn } from "@/lib/utils";
 import type { Case, ImagingOption } from "@/types/database";
 
@@ -86,6 +89,7 @@ export default function AssessmentResultsPage() {
     new Set(["missed"])
   );
   const [copied, setCopied] = React.useState(false);
+  const peerBenchmark = usePeerBenchmark(assessmentId);
 
   // Load assessment and results
   React.useEffect(() => {
@@ -114,14 +118,39 @@ export default function AssessmentResultsPage() {
 
         setAssessment(assessmentConfig);
 
-        // Load saved answers from localStorage
+        // Prefer the server's completed sitting, which is scored there;
+        // fall back to answers saved in localStorage
         const savedData = localStorage.getItem(`assessment_${assessmentId}`);
-        if (!savedData) {
+        const cached = savedData ? JSON.parse(savedData) : null;
+        const latest = await getLatestCompletedSitting(assessmentId).catch((error) => {
+          console.error("Error fetching completed sitting:", error);
+          return null;
+        });
+        // Local answers from a sitting that was never saved are newer
+        const sitting =
+          latest && (!cached || cached.sittingId === latest.id)
+            ? latest
+            : null;
+        if (!sitting && !cached) {
           router.push(`/assessment/${assessmentId}`);
           return;
         }
 
-        const parsed = JSON.parse(savedData);
+        const parsed = sitting
+          ? {
+              answers: sitting.answers.map((a) => [
+                a.case_id,
+                {
+                  selectedImaging: a.selected_imaging,
+                  isCorrect: a.is_correct,
+                  timeSpent: a.time_spent_seconds,
+                  acrRating: a.acr_rating_received,
+                  score: a.score,
+                },
+              ]),
+              timeRemaining: sitting.time_remaining_seconds,
+            }
+          : cached;
         const answersMap = new Map<string, any>(parsed.answers);
         setAnswers(answersMap);
 
@@ -155,19 +184,17 @@ export default function AssessmentResultsPage() {
             const caseData = casesData.find((c) => c.id === caseId);
             if (!caseData) return null;
 
-            // Check if answer is correct
+            // Answers are scored with the shared model when saved
             const userSelected = answer.selectedImaging || [];
-            const correctAnswers = caseData.optimal_imaging || [];
-            const isCorrect =
-              userSelected.length === correctAnswers.length &&
-              userSelected.every((id: string) => correctAnswers.includes(id));
 
             return {
               questionId: caseId,
               caseId,
               selectedOption: userSelected,
-              correct: isCorrect,
+              correct: !!answer.isCorrect,
               timeSpent: answer.timeSpent || 0,
+              acrRating: answer.acrRating ?? undefined,
+              score: answer.score,
             };
           }
         ).filter(Boolean);
@@ -175,7 +202,8 @@ export default function AssessmentResultsPage() {
         const totalQuestions = assessmentAnswers.length;
         const correctCount = assessmentAnswers.filter((a: any) => a.correct)
           .length;
-        const score = calculateScore(assessmentAnswers, totalQuestions);
+        const score =
+          sitting?.score ?? calculateScore(assessmentAnswers, totalQuestions);
         const passed = checkPassed(score, assessmentConfig.passingScore);
         const timeUsed = parsed.timeRemaining
           ? assessmentConfig.timeLimit * 60 - parsed.timeRemaining
@@ -198,9 +226,25 @@ export default function AssessmentResultsPage() {
           categoryBreakdown,
           difficultyBreakdown
         );
+        // Recommend from the whole library, not just the cases just answered
+        const { data: { user } } = await supabase.auth.getUser();
+        const [{ data: libraryCases }, { data: caseStats }, { data: history }] =
+          await Promise.all([
+            supabase.from("cases").select("*").eq("is_published", true),
+            supabase
+              .from("case_difficulty_stats")
+              .select("case_id, learner_count, mean_score"),
+            user
+              ? supabase
+                  .from("user_case_attempts")
+                  .select("case_id, score, created_at")
+                  .eq("user_id", user.id)
+              : Promise.resolve({ data: [] }),
+          ]);
         const recommendations = generateRecommendations(
-          missedQuestions,
-          casesData
+          assessmentAnswers,
+          libraryCases || casesData,
+          { history: history || [], caseStats: caseStats || [] }
         );
 
         setResults({
@@ -343,6 +387,16 @@ export default function AssessmentResultsPage() {
           timeLimit={results.timeLimit}
         />
 
+        {/* Peer Comparison */}
+        <PeerBenchmark
+          comparison={peerBenchmark.comparison}
+          cohortLabel={peerBenchmark.cohortLabel}
+          dimensions={peerBenchmark.dimensions}
+          availableDimensions={peerBenchmark.availableDimensions}
+          onToggleDimension={peerBenchmark.toggleDimension}
+          loading={peerBenchmark.loading}
+        />
+
         {/* Category Breakdown */}
         <CategoryBreakdown scores={results.categoryBreakdown} />
 
@@ -799,6 +853,7 @@ interface ImprovementSuggestionsProps {
     category: string;
     difficulty: string;
     reason: string;
+    expectedScore?: number;
   }>;
 }
 
@@ -851,6 +906,11 @@ function ImprovementSuggestions({
                   <p className="font-medium text-slate-900 text-sm">{rec.title}</p>
                   <p className="text-xs text-slate-500 mt-1">{rec.reason}</p>
                 </div>
+                {rec.expectedScore !== undefined && (
+                  <span className="text-xs text-slate-500 ml-auto mr-3">
+                    ~{rec.expectedScore}%
+                  </span>
+                )}
                 <ExternalLink className="w-4 h-4 text-slate-400" />
               </a>
             ))}
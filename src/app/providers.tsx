@@ -1,6 +1,7 @@
 'use client'
 
 import { AuthProvider } from '@/context/AuthContext'
+import { AchievementNotifier } from '@/components/progress/achievement-notifier'
 import { CaseProvider } from '@/context/CaseContext'
 import { ToastProvider } from '@/providers/toast-provider'
 
@@ -10,6 +11,7 @@ export function Providers({ children }: { children: React.ReactNode }) {
       <CaseProvider>
         <ToastProvider>
           {children}
+          <AchievementNotifier />
         </ToastProvider>
       </CaseProvider>
     </AuthProvider>
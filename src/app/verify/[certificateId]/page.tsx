@@ -0,0 +1,173 @@
+import Link from "next/link";
+import { Award, ShieldAlert, ShieldCheck, ShieldX } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getVerificationCode,
+  verifyCertificateSignature,
+} from "@/lib/certificates/signature";
+import { SPECIALTY_TRACKS } from "@/data/specialty-tracks";
+import type { CertificateVerification } from "@/types/database";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface VerifyCertificatePageProps {
+  params: { certificateId: string };
+}
+
+type VerificationStatus = "valid" | "revoked" | "invalid" | "not_found";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const dynamic = "force-dynamic";
+
+// ============================================================================
+// Data
+// ============================================================================
+
+async function verifyCertificate(certificateId: string): Promise<{
+  status: VerificationStatus;
+  certificate: CertificateVerification | null;
+}> {
+  if (!UUID_PATTERN.test(certificateId)) {
+    return { status: "not_found", certificate: null };
+  }
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("verify_certificate", {
+    p_certificate_id: certificateId,
+  });
+
+  if (error) {
+    console.error("Error verifying certificate:", error);
+    throw error;
+  }
+
+  const certificate = ((data || []) as CertificateVerification[])[0] ?? null;
+  if (!certificate) return { status: "not_found", certificate: null };
+  if (!verifyCertificateSignature(certificate)) return { status: "invalid", certificate };
+  if (certificate.revoked_at) return { status: "revoked", certificate };
+  return { status: "valid", certificate };
+}
+
+// ============================================================================
+// Page
+// ============================================================================
+
+const STATUS_DISPLAY: Record<
+  VerificationStatus,
+  { title: string; description: string; icon: typeof ShieldCheck; className: string }
+> = {
+  valid: {
+    title: "Valid certificate",
+    description: "This certificate was issued by ARKA-ED and has not been revoked.",
+    icon: ShieldCheck,
+    className: "text-emerald-600 bg-emerald-50 border-emerald-200",
+  },
+  revoked: {
+    title: "Certificate revoked",
+    description: "This certificate was issued by ARKA-ED but has since been revoked.",
+    icon: ShieldX,
+    className: "text-rose-600 bg-rose-50 border-rose-200",
+  },
+  invalid: {
+    title: "Could not be verified",
+    description:
+      "The certificate record does not match its signature. Do not rely on it.",
+    icon: ShieldAlert,
+    className: "text-amber-600 bg-amber-50 border-amber-200",
+  },
+  not_found: {
+    title: "Certificate not found",
+    description: "No ARKA-ED certificate has this ID. Check it against the printed certificate.",
+    icon: ShieldAlert,
+    className: "text-slate-600 bg-slate-50 border-slate-200",
+  },
+};
+
+export default async function VerifyCertificatePage({ params }: VerifyCertificatePageProps) {
+  const { status, certificate } = await verifyCertificate(params.certificateId);
+  const display = STATUS_DISPLAY[status];
+  const StatusIcon = display.icon;
+  const showDetails = certificate && status !== "invalid";
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
+      <div className="max-w-lg w-full space-y-6">
+        <Link href="/" className="block text-center font-display text-xl font-bold text-slate-900">
+          ARKA-ED
+        </Link>
+
+        <Card>
+          <CardContent className="p-6 space-y-6">
+            <div className={`flex items-start gap-3 rounded-xl border p-4 ${display.className}`}>
+              <StatusIcon className="w-6 h-6 flex-shrink-0" />
+              <div>
+                <p className="font-semibold">{display.title}</p>
+                <p className="text-sm mt-0.5 opacity-80">{display.description}</p>
+              </div>
+            </div>
+
+            {showDetails && (
+              <div className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <Award className="w-10 h-10 text-amber-500" />
+                  <div>
+                    <p className="font-bold text-slate-900">{certificate.certificate_name}</p>
+                    <p className="text-sm text-slate-500">
+                      {SPECIALTY_TRACKS[certificate.track]?.name ?? certificate.track} Track
+                    </p>
+                  </div>
+                </div>
+                <dl className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-slate-500">Awarded to</dt>
+                    <dd className="font-medium text-slate-900">{certificate.recipient_name}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-slate-500">Issued</dt>
+                    <dd className="font-medium text-slate-900">
+                      {new Date(certificate.issued_at).toLocaleDateString("en-US", {
+                        month: "long",
+                        day: "numeric",
+                        year: "numeric",
+                        timeZone: "UTC",
+                      })}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-slate-500">Verification code</dt>
+                    <dd className="font-mono text-slate-900">
+                      {getVerificationCode(certificate.signature)}
+                    </dd>
+                  </div>
+                  {certificate.revoked_at && (
+                    <div>
+                      <dt className="text-slate-500">Revoked</dt>
+                      <dd className="font-medium text-rose-600">
+                        {new Date(certificate.revoked_at).toLocaleDateString("en-US", {
+                          timeZone: "UTC",
+                        })}
+                        {certificate.revocation_reason && ` — ${certificate.revocation_reason}`}
+                      </dd>
+                    </div>
+                  )}
+                </dl>
+              </div>
+            )}
+
+            <p className="text-xs text-slate-400 break-all">
+              Certificate ID: {params.certificateId}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export function generateMetadata() {
+  return { title: "Verify Certificate | ARKA-ED", robots: { index: false } };
+}
@@ -30,11 +30,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Switch } from "@/components/ui/switch";
 import { Checkbox } from "@/components/ui/checkbox";
 import { cn, slugify } from "@/lib/utils";
+import {
+  CASE_REVISION_STATUS_LABELS,
+  CASE_REVISION_STATUS_VARIANTS,
+} from "@/lib/cases/revisions";
 import type {
   CaseCategory,
+  CaseRevisionStatus,
   DifficultyLevel,
   SpecialtyTrack,
   VitalSigns,
@@ -87,9 +91,6 @@ export interface CaseFormData {
 
   // References
   references: Reference[];
-
-  // Status
-  isPublished: boolean;
 }
 
 export interface ImagingRating {
@@ -107,8 +108,14 @@ export interface CaseEditorProps {
   caseId?: string;
   /** Available imaging options */
   imagingOptions: Array<{ id: string; name: string; modality: string }>;
-  /** Submit handler */
+  /** Saves the form as a draft revision */
   onSubmit: (data: CaseFormData) => Promise<void>;
+  /** Starts a new case from a copy of the form */
+  onDuplicate?: (data: CaseFormData) => Promise<void>;
+  /** Status of the revision being edited; publishing goes through review */
+  revisionStatus?: CaseRevisionStatus | null;
+  /** Revision history and review actions */
+  revisionPanel?: React.ReactNode;
   /** Is new case */
   isNew?: boolean;
 }
@@ -150,7 +157,6 @@ const DEFAULT_FORM_DATA: CaseFormData = {
   clinicalPearls: [],
   hints: [],
   references: [],
-  isPublished: false,
 };
 
 // ============================================================================
@@ -162,6 +168,9 @@ export function CaseEditor({
   caseId,
   imagingOptions,
   onSubmit,
+  onDuplicate,
+  revisionStatus,
+  revisionPanel,
   isNew = true,
 }: CaseEditorProps) {
   const router = useRouter();
@@ -178,6 +187,7 @@ export function CaseEditor({
   const [isSaving, setIsSaving] = React.useState(false);
   const [lastSaved, setLastSaved] = React.useState<Date | null>(null);
   const [errors, setErrors] = React.useState<Record<string, string>>({});
+  const savedSnapshot = React.useRef(JSON.stringify({ ...DEFAULT_FORM_DATA, ...initialData }));
 
   // Auto-generate slug from title
   React.useEffect(() => {
@@ -189,19 +199,22 @@ export function CaseEditor({
     }
   }, [formData.title, isNew, initialData?.slug]);
 
-  // Auto-save draft
+  // Auto-save to the draft revision; new cases are created by the first explicit save
   React.useEffect(() => {
-    const timer = setTimeout(() => {
-      if (formData.title) {
-        localStorage.setItem(
-          `case-draft-${caseId || "new"}`,
-          JSON.stringify(formData)
-        );
+    if (isNew || !formData.title) return;
+    const timer = setTimeout(async () => {
+      const snapshot = JSON.stringify(formData);
+      if (snapshot === savedSnapshot.current) return;
+      try {
+        await onSubmit(formData);
+        savedSnapshot.current = snapshot;
         setLastSaved(new Date());
+      } catch (error) {
+        console.error("Auto-save failed:", error);
       }
     }, 5000);
     return () => clearTimeout(timer);
-  }, [formData, caseId]);
+  }, [formData, isNew, onSubmit]);
 
   /**
    * Update form field
@@ -273,7 +286,8 @@ export function CaseEditor({
     setIsSaving(true);
     try {
       await onSubmit(formData);
-      localStorage.removeItem(`case-draft-${caseId || "new"}`);
+      savedSnapshot.current = JSON.stringify(formData);
+      setLastSaved(new Date());
     } catch (error) {
       console.error("Save failed:", error);
     } finally {
@@ -284,15 +298,20 @@ export function CaseEditor({
   /**
    * Handle duplicate
    */
-  const handleDuplicate = () => {
-    const duplicatedData = {
-      ...formData,
-      title: `${formData.title} (Copy)`,
-      slug: `${formData.slug}-copy`,
-      isPublished: false,
-    };
-    localStorage.setItem("case-draft-new", JSON.stringify(duplicatedData));
-    router.push("/admin/cases/new");
+  const handleDuplicate = async () => {
+    if (!onDuplicate) return;
+    setIsSaving(true);
+    try {
+      await onDuplicate({
+        ...formData,
+        title: `${formData.title} (Copy)`,
+        slug: `${formData.slug}-copy`,
+      });
+    } catch (error) {
+      console.error("Duplicate failed:", error);
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -316,7 +335,7 @@ export function CaseEditor({
               {lastSaved && (
                 <p className="text-xs text-slate-500 flex items-center gap-1">
                   <Clock className="w-3 h-3" />
-                  Auto-saved {lastSaved.toLocaleTimeString()}
+                  Draft saved {lastSaved.toLocaleTimeString()}
                 </p>
               )}
             </div>
@@ -350,19 +369,15 @@ export function CaseEditor({
               </button>
             </div>
 
-            {/* Publish Toggle */}
-            <div className="flex items-center gap-2">
-              <span className="text-sm text-slate-400">
-                {formData.isPublished ? "Published" : "Draft"}
-              </span>
-              <Switch
-                checked={formData.isPublished}
-                onCheckedChange={(checked) => updateField("isPublished", checked)}
-              />
-            </div>
+            {/* Revision Status */}
+            {revisionStatus && (
+              <Badge variant={CASE_REVISION_STATUS_VARIANTS[revisionStatus]}>
+                {CASE_REVISION_STATUS_LABELS[revisionStatus]}
+              </Badge>
+            )}
 
             {/* Actions */}
-            {!isNew && (
+            {!isNew && onDuplicate && (
               <Button
                 variant="default"
                 onClick={handleDuplicate}
@@ -382,7 +397,7 @@ export function CaseEditor({
               ) : (
                 <Save className="w-4 h-4 mr-2" />
               )}
-              {isNew ? "Create Case" : "Save Changes"}
+              {isNew ? "Create Draft" : "Save Draft"}
             </Button>
           </div>
         </div>
@@ -398,6 +413,8 @@ export function CaseEditor({
               exit={{ opacity: 0 }}
               className="space-y-4"
             >
+              {revisionPanel}
+
               {/* Basic Info */}
               <EditorSection
                 title="Basic Information"
@@ -791,7 +808,7 @@ export function CaseEditor({
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
             >
-              <CasePreview formData={formData} />
+              <CasePreview formData={formData} revisionStatus={revisionStatus} />
             </motion.div>
           )}
         </AnimatePresence>
@@ -1258,9 +1275,10 @@ function ReferencesEditor({ value, onChange }: ReferencesEditorProps) {
 
 interface CasePreviewProps {
   formData: CaseFormData;
+  revisionStatus?: CaseRevisionStatus | null;
 }
 
-function CasePreview({ formData }: CasePreviewProps) {
+function CasePreview({ formData, revisionStatus }: CasePreviewProps) {
   return (
     <Card className="bg-slate-900 border-slate-800">
       <CardHeader>
@@ -1278,9 +1296,9 @@ function CasePreview({ formData }: CasePreviewProps) {
           >
             {formData.difficulty}
           </Badge>
-          {!formData.isPublished && (
+          {revisionStatus !== "published" && (
             <Badge variant="default" className="bg-slate-600">
-              Draft
+              {CASE_REVISION_STATUS_LABELS[revisionStatus ?? "draft"]}
             </Badge>
           )}
         </div>
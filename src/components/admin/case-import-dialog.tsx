@@ -0,0 +1,280 @@
+"use client";
+
+import * as React from "react";
+import {
+  AlertCircle,
+  CheckCircle,
+  FileUp,
+  Loader2,
+  Upload,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/modal";
+import { cn } from "@/lib/utils";
+import {
+  CASE_IMPORT_LIMIT,
+  parseCaseInterchange,
+  planCaseImport,
+  type CaseImportAction,
+  type CaseImportConflictStrategy,
+  type CaseImportContext,
+  type CaseImportPlan,
+} from "@/lib/cases/interchange";
+import type { CaseImportResult } from "@/lib/supabase/case-transfer";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CaseImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Existing cases and imaging options the file is checked against */
+  getContext: () => Promise<Omit<CaseImportContext, "onConflict">>;
+  /** Writes the plan; omit for dry runs only (demo mode) */
+  onImport?: (plan: CaseImportPlan, fileName: string) => Promise<CaseImportResult[]>;
+}
+
+const ACTION_LABELS: Record<CaseImportAction, string> = {
+  create: "New",
+  update: "Overwrite",
+  skip: "Skip",
+  invalid: "Invalid",
+};
+
+const ACTION_VARIANTS: Record<CaseImportAction, "success" | "info" | "default" | "danger"> = {
+  create: "success",
+  update: "info",
+  skip: "default",
+  invalid: "danger",
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function CaseImportDialog({
+  open,
+  onOpenChange,
+  getContext,
+  onImport,
+}: CaseImportDialogProps) {
+  const [file, setFile] = React.useState<{ name: string; text: string } | null>(null);
+  const [onConflict, setOnConflict] = React.useState<CaseImportConflictStrategy>("skip");
+  const [plan, setPlan] = React.useState<CaseImportPlan | null>(null);
+  const [results, setResults] = React.useState<CaseImportResult[] | null>(null);
+  const [status, setStatus] = React.useState<"idle" | "checking" | "importing">("idle");
+  const [error, setError] = React.useState<string | null>(null);
+
+  // Dry run whenever the file or conflict strategy changes
+  React.useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    setStatus("checking");
+    setError(null);
+    getContext()
+      .then((context) => {
+        if (cancelled) return;
+        setPlan(planCaseImport(parseCaseInterchange(file.text), { ...context, onConflict }));
+      })
+      .catch((err) => !cancelled && setError(err?.message || "Could not check the file"))
+      .finally(() => !cancelled && setStatus("idle"));
+    return () => {
+      cancelled = true;
+    };
+  }, [file, onConflict, getContext]);
+
+  const reset = () => {
+    setFile(null);
+    setPlan(null);
+    setResults(null);
+    setError(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    setResults(null);
+    setFile({ name: selected.name, text: await selected.text() });
+  };
+
+  const handleImport = async () => {
+    if (!plan || !file || !onImport) return;
+    setStatus("importing");
+    setError(null);
+    try {
+      setResults(await onImport(plan, file.name));
+    } catch (err) {
+      setError(err?.message || "Import failed");
+    } finally {
+      setStatus("idle");
+    }
+  };
+
+  const failed = results?.filter((r) => r.error) ?? [];
+  const writes = plan ? plan.counts.create + plan.counts.update : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent size="xl" className="bg-slate-900 border-slate-800 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <Upload className="w-5 h-5 text-cyan-400" />
+            Import Cases
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <p className="text-sm text-slate-400">
+            Upload a case interchange JSON file or a CSV with one case per row
+            (up to {CASE_IMPORT_LIMIT}). Imported cases are saved as draft
+            revisions and go live only after review.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-700 text-sm text-slate-300 hover:bg-slate-800 cursor-pointer">
+              <FileUp className="w-4 h-4" />
+              {file ? file.name : "Choose file"}
+              <input
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                onChange={handleFile}
+                className="sr-only"
+              />
+            </label>
+            <label className="text-sm text-slate-400 flex items-center gap-2">
+              Existing slugs
+              <select
+                value={onConflict}
+                onChange={(e) => setOnConflict(e.target.value as CaseImportConflictStrategy)}
+                className="px-2 py-1.5 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm"
+              >
+                <option value="skip">Skip</option>
+                <option value="overwrite">Overwrite as new draft</option>
+              </select>
+            </label>
+            {status === "checking" && (
+              <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+            )}
+          </div>
+
+          {error && (
+            <p className="text-sm text-rose-400 flex items-center gap-2">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </p>
+          )}
+
+          {plan && (
+            <>
+              {/* Dry-run summary */}
+              <div className="flex flex-wrap gap-2 text-sm">
+                {(Object.keys(ACTION_LABELS) as CaseImportAction[]).map((action) => (
+                  <Badge key={action} variant={ACTION_VARIANTS[action]}>
+                    {plan.counts[action]} {ACTION_LABELS[action].toLowerCase()}
+                  </Badge>
+                ))}
+                <span className="text-slate-500">({plan.type.toUpperCase()})</span>
+              </div>
+
+              {plan.errors.map((message) => (
+                <p key={message} className="text-sm text-rose-400 flex items-center gap-2">
+                  <AlertCircle className="w-4 h-4" />
+                  {message}
+                </p>
+              ))}
+
+              {plan.rows.length > 0 && (
+                <div className="max-h-80 overflow-y-auto rounded-lg border border-slate-800">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-800/60 text-slate-400 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium">#</th>
+                        <th className="px-3 py-2 text-left font-medium">Slug</th>
+                        <th className="px-3 py-2 text-left font-medium">Action</th>
+                        <th className="px-3 py-2 text-left font-medium">Issues</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {plan.rows.map((row) => {
+                        const result = results?.find((r) => r.slug === row.slug);
+                        return (
+                          <tr key={row.position} className="border-t border-slate-800 align-top">
+                            <td className="px-3 py-2 text-slate-500">{row.position}</td>
+                            <td className="px-3 py-2">
+                              <p className="font-mono text-xs text-slate-200">{row.slug || "—"}</p>
+                              <p className="text-xs text-slate-500">{row.title}</p>
+                            </td>
+                            <td className="px-3 py-2">
+                              <Badge variant={ACTION_VARIANTS[row.action]} size="sm">
+                                {ACTION_LABELS[row.action]}
+                              </Badge>
+                            </td>
+                            <td className="px-3 py-2 text-xs">
+                              {row.errors.map((message) => (
+                                <p key={message} className="text-rose-300">{message}</p>
+                              ))}
+                              {result?.error && <p className="text-rose-300">{result.error}</p>}
+                              {result && !result.error && (
+                                <p className="text-emerald-300 flex items-center gap-1">
+                                  <CheckCircle className="w-3 h-3" />
+                                  Saved as draft
+                                </p>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+
+          {results && (
+            <p className={cn("text-sm", failed.length > 0 ? "text-amber-400" : "text-emerald-400")}>
+              Imported {results.length - failed.length} of {results.length} cases
+              {failed.length > 0 && `; ${failed.length} failed`}.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button
+            variant="ghost"
+            onClick={() => handleOpenChange(false)}
+            className="text-slate-400 hover:text-white"
+          >
+            {results ? "Close" : "Cancel"}
+          </Button>
+          {onImport ? (
+            <Button
+              onClick={handleImport}
+              disabled={!plan?.canApply || status !== "idle" || !!results}
+              className="bg-cyan-500 hover:bg-cyan-600 text-white"
+            >
+              {status === "importing" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Import {writes} case{writes === 1 ? "" : "s"}
+            </Button>
+          ) : (
+            <p className="text-xs text-slate-500 self-center">
+              Dry run only: connect Supabase to import.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,298 @@
+"use client";
+
+import * as React from "react";
+import {
+  ChevronDown,
+  ChevronUp,
+  GitBranch,
+  Loader2,
+  MessageSquare,
+  Send,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  CASE_REVISION_ACTION_LABELS,
+  CASE_REVISION_STATUS_LABELS,
+  CASE_REVISION_STATUS_VARIANTS,
+  CASE_REVISION_TRANSITIONS,
+  canTransitionRevision,
+  formatRevisionValue,
+  sortRevisions,
+} from "@/lib/cases/revisions";
+import type { CaseRevisionWithComments } from "@/lib/supabase/case-revisions";
+import type { CaseRevisionStatus } from "@/types/database";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CaseRevisionPanelProps {
+  /** Every revision of the case, with comments */
+  revisions: CaseRevisionWithComments[];
+  /** Signed-in editor */
+  currentUserId: string;
+  /** Display names keyed by profile ID */
+  userNames: Record<string, string>;
+  /** Move a revision to a new status, with an optional comment */
+  onTransition: (
+    revisionId: string,
+    status: CaseRevisionStatus,
+    comment?: string
+  ) => Promise<void>;
+  /** Add a reviewer comment */
+  onComment: (revisionId: string, body: string) => Promise<void>;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function CaseRevisionPanel({
+  revisions,
+  currentUserId,
+  userNames,
+  onTransition,
+  onComment,
+}: CaseRevisionPanelProps) {
+  const sorted = sortRevisions(revisions);
+  const [expandedId, setExpandedId] = React.useState<string | null>(
+    sorted[0]?.id ?? null
+  );
+
+  if (sorted.length === 0) {
+    return (
+      <Card className="bg-slate-900 border-slate-800">
+        <CardContent className="p-4 text-sm text-slate-400 flex items-center gap-2">
+          <GitBranch className="w-4 h-4" />
+          Save a draft to start the review history for this case.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base text-white flex items-center gap-2">
+          <GitBranch className="w-4 h-4 text-slate-400" />
+          Revisions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {sorted.map((revision) => (
+          <RevisionRow
+            key={revision.id}
+            revision={revision}
+            isExpanded={expandedId === revision.id}
+            onToggle={() =>
+              setExpandedId((prev) => (prev === revision.id ? null : revision.id))
+            }
+            currentUserId={currentUserId}
+            userNames={userNames}
+            onTransition={onTransition}
+            onComment={onComment}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ============================================================================
+// Revision Row
+// ============================================================================
+
+interface RevisionRowProps extends Omit<CaseRevisionPanelProps, "revisions"> {
+  revision: CaseRevisionWithComments;
+  isExpanded: boolean;
+  onToggle: () => void;
+}
+
+function RevisionRow({
+  revision,
+  isExpanded,
+  onToggle,
+  currentUserId,
+  userNames,
+  onTransition,
+  onComment,
+}: RevisionRowProps) {
+  const [comment, setComment] = React.useState("");
+  const [pending, setPending] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const nameOf = (id: string | null) => (id ? userNames[id] || "Unknown editor" : "—");
+  const formatTime = (iso: string | null) =>
+    iso ? new Date(iso).toLocaleString() : null;
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setPending(key);
+    setError(null);
+    try {
+      await action();
+      setComment("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  // Disabled actions stay visible so authors can see why they cannot approve
+  const actions = CASE_REVISION_TRANSITIONS[revision.status].map((to) => ({
+    to,
+    check: canTransitionRevision(revision, to, currentUserId),
+  }));
+
+  return (
+    <div className="rounded-lg border border-slate-800">
+      <button
+        onClick={onToggle}
+        className="w-full px-3 py-2 flex items-center justify-between text-left hover:bg-slate-800/50 transition-colors rounded-lg"
+      >
+        <div className="flex items-center gap-3">
+          <span className="font-medium text-white">
+            Revision {revision.revision_number}
+          </span>
+          <Badge variant={CASE_REVISION_STATUS_VARIANTS[revision.status]} size="sm">
+            {CASE_REVISION_STATUS_LABELS[revision.status]}
+          </Badge>
+          <span className="text-xs text-slate-500">
+            {revision.diff.length} change{revision.diff.length === 1 ? "" : "s"}
+            {revision.comments.length > 0 &&
+              ` · ${revision.comments.length} comment${revision.comments.length === 1 ? "" : "s"}`}
+          </span>
+        </div>
+        {isExpanded ? (
+          <ChevronUp className="w-4 h-4 text-slate-400" />
+        ) : (
+          <ChevronDown className="w-4 h-4 text-slate-400" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-4">
+          {/* Sign-off */}
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+            <dt className="text-slate-500">Author</dt>
+            <dd className="text-slate-300">{nameOf(revision.author_id)}</dd>
+            <dt className="text-slate-500">Approver</dt>
+            <dd className="text-slate-300">{nameOf(revision.approver_id)}</dd>
+            {[
+              ["Submitted", revision.submitted_at],
+              ["Approved", revision.approved_at],
+              ["Published", revision.published_at],
+              ["Retired", revision.retired_at],
+            ]
+              .filter(([, at]) => at)
+              .map(([label, at]) => (
+                <React.Fragment key={label}>
+                  <dt className="text-slate-500">{label}</dt>
+                  <dd className="text-slate-300">{formatTime(at)}</dd>
+                </React.Fragment>
+              ))}
+          </dl>
+
+          {revision.change_summary && (
+            <p className="text-sm text-slate-300">{revision.change_summary}</p>
+          )}
+
+          {/* Diff */}
+          {revision.diff.length > 0 ? (
+            <div className="space-y-1">
+              {revision.diff.map((change) => (
+                <div
+                  key={change.field}
+                  className="grid grid-cols-[10rem_1fr_1fr] gap-2 text-xs font-mono"
+                >
+                  <span className="text-slate-400 truncate" title={change.field}>
+                    {change.field}
+                  </span>
+                  <span className="text-rose-300 line-through break-words">
+                    {formatRevisionValue(change.before)}
+                  </span>
+                  <span className="text-emerald-300 break-words">
+                    {formatRevisionValue(change.after)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">No changes from the previous revision.</p>
+          )}
+
+          {/* Comments */}
+          {revision.comments.length > 0 && (
+            <ul className="space-y-2">
+              {revision.comments.map((c) => (
+                <li key={c.id} className="text-sm bg-slate-800/60 rounded-md px-3 py-2">
+                  <p className="text-xs text-slate-500 mb-0.5">
+                    {nameOf(c.author_id)} · {formatTime(c.created_at)}
+                  </p>
+                  <p className="text-slate-200 whitespace-pre-wrap">{c.body}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {revision.status !== "retired" && (
+            <div className="space-y-2">
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={2}
+                placeholder="Reviewer comment..."
+                className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm resize-y"
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={!comment.trim() || !!pending}
+                  onClick={() => run("comment", () => onComment(revision.id, comment))}
+                  className="text-slate-300"
+                >
+                  {pending === "comment" ? (
+                    <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                  ) : (
+                    <MessageSquare className="w-3 h-3 mr-1" />
+                  )}
+                  Comment
+                </Button>
+                {actions.map(({ to, check }) => (
+                  <Button
+                    key={to}
+                    size="sm"
+                    disabled={!check.allowed || !!pending}
+                    title={check.reason}
+                    onClick={() =>
+                      run(to, () => onTransition(revision.id, to, comment || undefined))
+                    }
+                    className={cn(
+                      to === "published"
+                        ? "bg-emerald-600 hover:bg-emerald-700"
+                        : to === "retired" || to === "draft"
+                        ? "bg-slate-700 hover:bg-slate-600"
+                        : "bg-cyan-500 hover:bg-cyan-600"
+                    )}
+                  >
+                    {pending === to ? (
+                      <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                    ) : (
+                      <Send className="w-3 h-3 mr-1" />
+                    )}
+                    {CASE_REVISION_ACTION_LABELS[to]}
+                  </Button>
+                ))}
+              </div>
+              {error && <p className="text-xs text-rose-400">{error}</p>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import * as React from "react";
+import { ChevronLeft, Loader2, ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/modal";
+import { cn } from "@/lib/utils";
+import {
+  INTEGRITY_EVENT_LABELS,
+  isFlaggedIntegrityEvent,
+} from "@/lib/utils/integrity";
+import type { ProctoredSittingReview } from "@/lib/supabase/integrity";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IntegrityReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  /** Null while loading */
+  reviews: ProctoredSittingReview[] | null;
+}
+
+function formatOffset(from: string | null, at: string): string {
+  if (!from) return "";
+  const seconds = Math.max(0, Math.round((new Date(at).getTime() - new Date(from).getTime()) / 1000));
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `+${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function IntegrityReviewDialog({
+  open,
+  onOpenChange,
+  title,
+  reviews,
+}: IntegrityReviewDialogProps) {
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const selected = reviews?.find((r) => r.sitting.id === selectedId) ?? null;
+
+  React.useEffect(() => {
+    if (!open) setSelectedId(null);
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="xl" className="bg-slate-900 border-slate-800 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-cyan-400" />
+            Integrity Review: {title}
+          </DialogTitle>
+        </DialogHeader>
+
+        {!reviews ? (
+          <div className="py-10 flex justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+          </div>
+        ) : reviews.length === 0 ? (
+          <p className="text-sm text-slate-400 py-6 text-center">
+            No proctored sittings yet.
+          </p>
+        ) : selected ? (
+          <div className="space-y-4 py-2">
+            <button
+              onClick={() => setSelectedId(null)}
+              className="text-sm text-slate-400 hover:text-white flex items-center gap-1"
+            >
+              <ChevronLeft className="w-4 h-4" />
+              All sittings
+            </button>
+            <div className="grid grid-cols-4 gap-3">
+              {[
+                { label: "Learner", value: selected.learnerName },
+                { label: "Score", value: selected.sitting.score != null ? `${selected.sitting.score}%` : "—" },
+                { label: "Flagged events", value: selected.summary.flaggedCount },
+                { label: "Time away", value: formatDuration(selected.summary.secondsAway) },
+              ].map((stat) => (
+                <div key={stat.label} className="p-3 rounded-lg bg-slate-800/60 border border-slate-800">
+                  <p className="text-xs text-slate-400">{stat.label}</p>
+                  <p className="text-lg font-semibold text-white truncate">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {/* Timeline */}
+            <div className="max-h-96 overflow-y-auto rounded-lg border border-slate-800 p-4">
+              {selected.events.length === 0 ? (
+                <p className="text-sm text-slate-400 text-center">No events recorded.</p>
+              ) : (
+                <ol className="relative border-l border-slate-700 ml-2 space-y-3">
+                  {selected.events.map((event) => (
+                    <li key={event.id} className="ml-4">
+                      <span
+                        className={cn(
+                          "absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-slate-900",
+                          isFlaggedIntegrityEvent(event.event_type) ? "bg-amber-400" : "bg-slate-500"
+                        )}
+                      />
+                      <div className="flex items-center gap-3 text-sm">
+                        <span className="font-mono text-xs text-slate-500 w-14">
+                          {formatOffset(selected.sitting.started_at, event.occurred_at)}
+                        </span>
+                        <span
+                          className={cn(
+                            isFlaggedIntegrityEvent(event.event_type) ? "text-amber-300" : "text-slate-300"
+                          )}
+                        >
+                          {INTEGRITY_EVENT_LABELS[event.event_type]}
+                        </span>
+                        {event.case_index != null && (
+                          <span className="text-xs text-slate-500">Case {event.case_index + 1}</span>
+                        )}
+                        {event.detail?.length > 0 && (
+                          <span className="text-xs text-slate-500">{event.detail.length} chars</span>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto rounded-lg border border-slate-800 mt-2">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-800/60 text-slate-400 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">Learner</th>
+                  <th className="px-3 py-2 text-left font-medium">Started</th>
+                  <th className="px-3 py-2 text-right font-medium">Score</th>
+                  <th className="px-3 py-2 text-right font-medium">Time away</th>
+                  <th className="px-3 py-2 text-left font-medium">Events</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reviews.map((review) => (
+                  <tr
+                    key={review.sitting.id}
+                    onClick={() => setSelectedId(review.sitting.id)}
+                    className="border-t border-slate-800 cursor-pointer hover:bg-slate-800/40"
+                  >
+                    <td className="px-3 py-2">
+                      <p className="text-slate-200">{review.learnerName}</p>
+                      {review.learnerEmail && (
+                        <p className="text-xs text-slate-500">{review.learnerEmail}</p>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-slate-400">
+                      {review.sitting.started_at
+                        ? new Date(review.sitting.started_at).toLocaleString()
+                        : "—"}
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-300">
+                      {review.sitting.status === "completed" && review.sitting.score != null
+                        ? `${review.sitting.score}%`
+                        : "In progress"}
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-300">
+                      {formatDuration(review.summary.secondsAway)}
+                    </td>
+                    <td className="px-3 py-2">
+                      {review.summary.flaggedCount === 0 ? (
+                        <Badge variant="success" size="sm">Clean</Badge>
+                      ) : (
+                        <Badge variant={review.summary.flaggedCount >= 5 ? "danger" : "warning"} size="sm">
+                          {review.summary.flaggedCount} flagged
+                        </Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import * as React from "react";
+import { AlertTriangle, BarChart3, ChevronDown, ChevronRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/modal";
+import { cn } from "@/lib/utils";
+import {
+  HIGH_STAKES_RELIABILITY,
+  ITEM_FLAG_DESCRIPTIONS,
+  ITEM_FLAG_LABELS,
+  MIN_RESPONDENTS,
+  type AssessmentAnalysis,
+  type ItemFlag,
+} from "@/lib/utils/psychometrics";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ItemAnalysisDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  /** Null until sittings are loaded, or in demo mode */
+  analysis: AssessmentAnalysis | null;
+  caseTitles: Record<string, string>;
+  imagingNames: Record<string, string>;
+}
+
+const FLAG_VARIANTS: Record<ItemFlag, "danger" | "warning" | "default"> = {
+  "negative-discrimination": "danger",
+  "poor-discrimination": "danger",
+  "too-easy": "warning",
+  "too-hard": "warning",
+  "misleading-distractor": "warning",
+  "low-sample": "default",
+};
+
+function formatStat(value: number | null, digits = 2): string {
+  return value === null ? "—" : value.toFixed(digits);
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function ItemAnalysisDialog({
+  open,
+  onOpenChange,
+  title,
+  analysis,
+  caseTitles,
+  imagingNames,
+}: ItemAnalysisDialogProps) {
+  const [expanded, setExpanded] = React.useState<string | null>(null);
+  const reliability = analysis?.kr20 ?? null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="xl" className="bg-slate-900 border-slate-800 text-white">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-cyan-400" />
+            Item Analysis: {title}
+          </DialogTitle>
+        </DialogHeader>
+
+        {!analysis || analysis.respondents === 0 ? (
+          <p className="text-sm text-slate-400 py-6 text-center">
+            No completed sittings yet. Item statistics appear once learners
+            finish this assessment.
+          </p>
+        ) : (
+          <div className="space-y-4 py-2">
+            {/* Test-level summary */}
+            <div className="grid grid-cols-4 gap-3">
+              {[
+                { label: "Sittings", value: analysis.respondents },
+                { label: "Mean score", value: `${Math.round(analysis.meanScore)}%` },
+                { label: "KR-20", value: formatStat(analysis.kr20) },
+                { label: "Cronbach's alpha", value: formatStat(analysis.alpha) },
+              ].map((stat) => (
+                <div key={stat.label} className="p-3 rounded-lg bg-slate-800/60 border border-slate-800">
+                  <p className="text-xs text-slate-400">{stat.label}</p>
+                  <p className="text-lg font-semibold text-white">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <p
+              className={cn(
+                "text-sm flex items-center gap-2",
+                reliability !== null && reliability >= HIGH_STAKES_RELIABILITY
+                  ? "text-emerald-400"
+                  : "text-amber-400"
+              )}
+            >
+              <AlertTriangle className="w-4 h-4" />
+              {reliability === null
+                ? "Reliability cannot be estimated yet."
+                : reliability >= HIGH_STAKES_RELIABILITY
+                  ? `Reliability meets the ${HIGH_STAKES_RELIABILITY} threshold for high-stakes use.`
+                  : `Reliability is below ${HIGH_STAKES_RELIABILITY}; do not use for high-stakes decisions.`}
+              {analysis.respondents < MIN_RESPONDENTS &&
+                ` Based on fewer than ${MIN_RESPONDENTS} sittings.`}
+            </p>
+
+            {/* Items */}
+            <div className="max-h-96 overflow-y-auto rounded-lg border border-slate-800">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-800/60 text-slate-400 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">Case</th>
+                    <th className="px-3 py-2 text-right font-medium" title="Proportion correct">p</th>
+                    <th className="px-3 py-2 text-right font-medium" title="Corrected point-biserial">r<sub>pb</sub></th>
+                    <th className="px-3 py-2 text-right font-medium" title="Upper minus lower 27% p-value">D</th>
+                    <th className="px-3 py-2 text-left font-medium">Flags</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analysis.items.map((item) => {
+                    const isExpanded = expanded === item.caseId;
+                    return (
+                      <React.Fragment key={item.caseId}>
+                        <tr
+                          onClick={() => setExpanded(isExpanded ? null : item.caseId)}
+                          className="border-t border-slate-800 cursor-pointer hover:bg-slate-800/40"
+                        >
+                          <td className="px-3 py-2 text-slate-200">
+                            <span className="flex items-center gap-1">
+                              {isExpanded ? (
+                                <ChevronDown className="w-3 h-3 text-slate-500" />
+                              ) : (
+                                <ChevronRight className="w-3 h-3 text-slate-500" />
+                              )}
+                              {caseTitles[item.caseId] || item.caseId}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-right text-slate-300">{formatStat(item.pValue)}</td>
+                          <td
+                            className={cn(
+                              "px-3 py-2 text-right",
+                              item.flags.includes("negative-discrimination") ||
+                                item.flags.includes("poor-discrimination")
+                                ? "text-rose-400"
+                                : "text-slate-300"
+                            )}
+                          >
+                            {formatStat(item.pointBiserial)}
+                          </td>
+                          <td className="px-3 py-2 text-right text-slate-300">
+                            {formatStat(item.discriminationIndex)}
+                          </td>
+                          <td className="px-3 py-2">
+                            <div className="flex flex-wrap gap-1">
+                              {item.flags.map((flag) => (
+                                <Badge
+                                  key={flag}
+                                  variant={FLAG_VARIANTS[flag]}
+                                  size="sm"
+                                  title={ITEM_FLAG_DESCRIPTIONS[flag]}
+                                >
+                                  {ITEM_FLAG_LABELS[flag]}
+                                </Badge>
+                              ))}
+                            </div>
+                          </td>
+                        </tr>
+                        {isExpanded && (
+                          <tr className="bg-slate-950/40">
+                            <td colSpan={5} className="px-6 py-3">
+                              <p className="text-xs text-slate-400 mb-2">
+                                Mean partial credit {Math.round(item.meanScore)}%.
+                                Wrong studies chosen (top / bottom 27% of scorers):
+                              </p>
+                              {item.distractors.length === 0 ? (
+                                <p className="text-xs text-slate-500">No wrong studies chosen.</p>
+                              ) : (
+                                <div className="space-y-1">
+                                  {item.distractors.map((d) => (
+                                    <div key={d.imagingOptionId} className="flex items-center gap-3 text-xs">
+                                      <span className="w-48 truncate text-slate-300">
+                                        {imagingNames[d.imagingOptionId] || d.imagingOptionId}
+                                      </span>
+                                      <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                                        <div
+                                          className="h-full bg-amber-500"
+                                          style={{ width: `${d.share * 100}%` }}
+                                        />
+                                      </div>
+                                      <span className="w-12 text-right text-slate-400">
+                                        {Math.round(d.share * 100)}%
+                                      </span>
+                                      <span
+                                        className={cn(
+                                          "w-16 text-right",
+                                          d.upperCount > d.lowerCount ? "text-amber-400" : "text-slate-500"
+                                        )}
+                                      >
+                                        {d.upperCount} / {d.lowerCount}
+                                      </span>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
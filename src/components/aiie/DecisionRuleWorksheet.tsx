@@ -0,0 +1,98 @@
+'use client'
+
+import * as React from 'react'
+import { CheckCircle, Circle, ClipboardList, ExternalLink } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import type { DecisionRuleResult, DecisionRuleRisk } from '@/lib/aiie/decision-rules'
+import { cn } from '@/lib/utils'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DecisionRuleWorksheetProps {
+  /** Evaluated decision rule */
+  result: DecisionRuleResult
+  /** Additional CSS classes */
+  className?: string
+}
+
+const RISK_BADGE: Record<DecisionRuleRisk, { variant: 'success' | 'warning' | 'danger'; label: string }> = {
+  low: { variant: 'success', label: 'Low risk' },
+  intermediate: { variant: 'warning', label: 'Intermediate risk' },
+  high: { variant: 'danger', label: 'High risk' },
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Worked decision rule shown after submission.
+ * Lists every criterion with whether the case met it, then the rule's outcome and citation.
+ */
+export function DecisionRuleWorksheet({ result, className }: DecisionRuleWorksheetProps) {
+  const risk = RISK_BADGE[result.risk]
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <ClipboardList className="w-5 h-5 text-cyan-600" />
+            {result.name}
+          </CardTitle>
+          {result.applicable ? (
+            <Badge variant={risk.variant} size="sm">
+              {risk.label}
+              {result.score !== undefined && ` · ${result.score}`}
+            </Badge>
+          ) : (
+            <Badge variant="default" size="sm">
+              Not applicable
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-2">
+          {result.criteria.map((criterion) => (
+            <li key={criterion.id} className="flex items-start gap-2 text-sm">
+              {criterion.met ? (
+                <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-600" />
+              ) : (
+                <Circle className="w-4 h-4 mt-0.5 flex-shrink-0 text-slate-300" />
+              )}
+              <span className={cn('flex-1', criterion.met ? 'text-slate-900' : 'text-slate-500')}>
+                {criterion.label}
+              </span>
+              {criterion.points !== undefined && (
+                <span className="font-mono text-xs text-slate-500">
+                  {criterion.met ? `+${criterion.points}` : '0'}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <div
+          className={cn(
+            'p-3 rounded-lg border text-sm',
+            result.imagingIndicated
+              ? 'bg-amber-50 border-amber-200'
+              : 'bg-emerald-50 border-emerald-200'
+          )}
+        >
+          <p className="font-semibold text-slate-900">{result.outcome}</p>
+          <p className="text-slate-700 mt-1">{result.recommendation}</p>
+        </div>
+
+        <p className="flex items-center gap-1 text-xs text-slate-500">
+          <ExternalLink className="w-3 h-3" />
+          {result.citation}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -17,7 +17,7 @@ import { cn } from '@/lib/utils'
 export interface ScoreBreakdownProps {
   /** Scoring result with SHAP factors */
   result: ScoringResult
-  /** Baseline score (default: 5.0) */
+  /** Baseline score (default: the result's profile baseline) */
   baselineScore?: number
   /** Show waterfall visualization */
   showWaterfall?: boolean
@@ -37,7 +37,7 @@ export interface ScoreBreakdownProps {
  */
 export function ScoreBreakdown({
   result,
-  baselineScore = 5.0,
+  baselineScore,
   showWaterfall = true,
   collapsible = false,
   className,
@@ -45,7 +45,7 @@ export function ScoreBreakdown({
   const [expandedFactors, setExpandedFactors] = React.useState<Set<string>>(new Set())
   const [isCollapsed, setIsCollapsed] = React.useState(collapsible)
 
-  const baseline = baselineScore
+  const baseline = baselineScore ?? result.baselineScore ?? 5.0
   const maxContribution = result.shapFactors.length > 0
     ? Math.max(
         ...result.shapFactors.map((f) => Math.abs(f.contribution)),
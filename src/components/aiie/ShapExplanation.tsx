@@ -16,17 +16,6 @@ interface ShapExplanationProps {
   className?: string
 }
 
-const MODALITY_BASELINES: Record<string, number> = {
-  'X-ray': 5,
-  'CT without contrast': 5,
-  'CT with contrast': 5,
-  'MRI without contrast': 5,
-  'MRI with contrast': 5,
-  'Ultrasound': 5,
-  'Nuclear medicine': 5,
-  'No imaging': 5
-}
-
 export function ShapExplanation({
   result,
   baselineScore,
@@ -36,7 +25,7 @@ export function ShapExplanation({
   const [expandedFactors, setExpandedFactors] = useState<Set<string>>(new Set())
   const [showAllCitations, setShowAllCitations] = useState(false)
 
-  const baseline = baselineScore ?? MODALITY_BASELINES[result.modality] ?? 5
+  const baseline = baselineScore ?? result.baselineScore ?? 5
   const maxContribution = Math.max(
     ...result.shapFactors.map(f => Math.abs(f.contribution)),
     1
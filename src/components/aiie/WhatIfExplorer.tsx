@@ -0,0 +1,309 @@
+'use client'
+
+import * as React from 'react'
+import { ArrowRight, FlaskConical, Plus, RotateCcw, X } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { ClinicalInput, ScoringResult } from '@/lib/aiie/scoring-engine'
+import { compareScenarios, FactorChange } from '@/lib/aiie/counterfactual'
+import { getScoreCategory } from '@/lib/constants/aiie'
+import { cn } from '@/lib/utils'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WhatIfExplorerProps {
+  /** Clinical input of the submitted case */
+  input: ClinicalInput
+  /** Modalities to rescore */
+  modalities: string[]
+  /** Additional CSS classes */
+  className?: string
+}
+
+type RiskFactorKey =
+  | 'cancerHistory'
+  | 'immunocompromised'
+  | 'recentTrauma'
+  | 'neurologicDeficit'
+  | 'progressiveSymptoms'
+
+const RISK_FACTOR_TOGGLES: { key: RiskFactorKey; label: string }[] = [
+  { key: 'cancerHistory', label: 'Cancer history' },
+  { key: 'immunocompromised', label: 'Immunocompromised' },
+  { key: 'recentTrauma', label: 'Recent trauma' },
+  { key: 'neurologicDeficit', label: 'Neurologic deficit' },
+  { key: 'progressiveSymptoms', label: 'Progressive symptoms' },
+]
+
+const DURATIONS = ['acute', 'subacute', 'chronic']
+const SEVERITIES: ClinicalInput['severity'][] = ['mild', 'moderate', 'severe']
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatContribution(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}`
+}
+
+function CategoryPill({ result }: { result: ScoringResult }) {
+  const category = getScoreCategory(result.finalScore)
+  return (
+    <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', category.bgClass)}>
+      {result.finalScore.toFixed(1)} · {category.label}
+    </span>
+  )
+}
+
+function FactorChangeRow({ change }: { change: FactorChange }) {
+  const net = change.after - change.before
+  return (
+    <li className="flex items-center justify-between gap-3 text-xs">
+      <span className="text-slate-700">
+        {change.factor}
+        <span className="ml-1 text-slate-400">({change.change})</span>
+      </span>
+      <span className={cn('font-mono', net > 0 ? 'text-emerald-600' : 'text-red-600')}>
+        {formatContribution(change.before)} → {formatContribution(change.after)}
+      </span>
+    </li>
+  )
+}
+
+function OptionButton({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean
+  onClick: () => void
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        'px-3 py-1 rounded-md border text-xs font-medium capitalize transition-colors',
+        active
+          ? 'bg-cyan-600 border-cyan-600 text-white'
+          : 'bg-white border-slate-200 text-slate-600 hover:border-cyan-300'
+      )}
+    >
+      {children}
+    </button>
+  )
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Counterfactual explorer for AIIE scores.
+ * Learners edit the clinical variables and every modality is rescored live,
+ * highlighting the factors that moved a modality into a different category.
+ */
+export function WhatIfExplorer({ input, modalities, className }: WhatIfExplorerProps) {
+  const [scenario, setScenario] = React.useState<ClinicalInput>(input)
+  const [newRedFlag, setNewRedFlag] = React.useState('')
+
+  React.useEffect(() => {
+    setScenario(input)
+  }, [input])
+
+  const comparisons = React.useMemo(
+    () => compareScenarios(input, scenario, modalities),
+    [input, scenario, modalities]
+  )
+  const flippedCount = comparisons.filter((c) => c.categoryFlipped).length
+  const isModified = scenario !== input
+
+  const update = (patch: Partial<ClinicalInput>) =>
+    setScenario((prev) => ({ ...prev, ...patch }))
+
+  const removeRedFlag = (flag: string) =>
+    update({ redFlags: scenario.redFlags.filter((f) => f !== flag) })
+
+  const addRedFlag = () => {
+    const flag = newRedFlag.trim()
+    if (!flag || scenario.redFlags.includes(flag)) return
+    update({ redFlags: [...scenario.redFlags, flag] })
+    setNewRedFlag('')
+  }
+
+  return (
+    <Card className={cn('w-full', className)}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <FlaskConical className="w-5 h-5 text-cyan-600" />
+            What If?
+          </CardTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setScenario(input)}
+            disabled={!isModified}
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Reset
+          </Button>
+        </div>
+        <p className="text-sm text-slate-600">
+          Change the presentation and see how each imaging option is rescored.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Controls */}
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-4">
+            <div>
+              <label className="flex items-center justify-between text-sm font-medium text-slate-900">
+                Age
+                <span className="font-mono text-slate-600">{scenario.age}</span>
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={scenario.age}
+                onChange={(e) => update({ age: Number(e.target.value) })}
+                className="w-full accent-cyan-600"
+              />
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-slate-900 mb-2">Duration</p>
+              <div className="flex gap-2">
+                {DURATIONS.map((duration) => (
+                  <OptionButton
+                    key={duration}
+                    active={scenario.duration === duration}
+                    onClick={() => update({ duration })}
+                  >
+                    {duration}
+                  </OptionButton>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-slate-900 mb-2">Severity</p>
+              <div className="flex gap-2">
+                {SEVERITIES.map((severity) => (
+                  <OptionButton
+                    key={severity}
+                    active={scenario.severity === severity}
+                    onClick={() => update({ severity })}
+                  >
+                    {severity}
+                  </OptionButton>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {RISK_FACTOR_TOGGLES.map(({ key, label }) => (
+                <Switch
+                  key={key}
+                  size="sm"
+                  label={label}
+                  checked={scenario[key]}
+                  onCheckedChange={(checked: boolean) => update({ [key]: checked })}
+                />
+              ))}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-slate-900 mb-2">Red flags</p>
+              <div className="flex flex-wrap gap-2 mb-2">
+                {scenario.redFlags.length === 0 && (
+                  <span className="text-xs text-slate-500">None</span>
+                )}
+                {scenario.redFlags.map((flag) => (
+                  <Badge key={flag} variant="danger" size="sm" shape="pill">
+                    {flag}
+                    <button
+                      type="button"
+                      onClick={() => removeRedFlag(flag)}
+                      className="ml-1"
+                      aria-label={`Remove ${flag}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <input
+                  value={newRedFlag}
+                  onChange={(e) => setNewRedFlag(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addRedFlag()}
+                  placeholder="Add a red flag"
+                  className="flex-1 px-3 py-1.5 text-sm border border-slate-200 rounded-md"
+                />
+                <Button variant="secondary" size="sm" onClick={addRedFlag}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="space-y-3">
+          <p className="text-sm text-slate-600">
+            {isModified
+              ? `${flippedCount} of ${comparisons.length} options changed category`
+              : 'Adjust a variable to compare against the original case'}
+          </p>
+          {comparisons.map((comparison) => (
+            <div
+              key={comparison.modality}
+              className={cn(
+                'p-3 rounded-lg border',
+                comparison.categoryFlipped
+                  ? 'border-amber-300 bg-amber-50'
+                  : 'border-slate-200'
+              )}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-medium text-slate-900">{comparison.modality}</span>
+                <div className="flex items-center gap-2">
+                  <CategoryPill result={comparison.base} />
+                  <ArrowRight className="w-4 h-4 text-slate-400" />
+                  <CategoryPill result={comparison.variant} />
+                  {comparison.delta !== 0 && (
+                    <span
+                      className={cn(
+                        'font-mono text-xs',
+                        comparison.delta > 0 ? 'text-emerald-600' : 'text-red-600'
+                      )}
+                    >
+                      {comparison.delta > 0 ? '+' : ''}
+                      {comparison.delta.toFixed(1)}
+                    </span>
+                  )}
+                </div>
+              </div>
+              {comparison.changedFactors.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {comparison.changedFactors.map((change) => (
+                    <FactorChangeRow key={change.factor} change={change} />
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
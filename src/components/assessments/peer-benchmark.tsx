@@ -0,0 +1,116 @@
+"use client";
+
+import * as React from "react";
+import { Loader2, ShieldCheck, Users } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import {
+  COHORT_DIMENSION_LABELS,
+  K_ANONYMITY,
+  type CohortDimension,
+  type PeerComparison,
+} from "@/lib/utils/percentiles";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PeerBenchmarkProps {
+  comparison: PeerComparison | null;
+  /** e.g. "PGY-2 residents at Mercy General" */
+  cohortLabel: string;
+  dimensions: CohortDimension[];
+  availableDimensions: CohortDimension[];
+  onToggleDimension: (dimension: CohortDimension) => void;
+  loading?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * PeerBenchmark - Percentile among peers, narrowed by cohort filters.
+ */
+export function PeerBenchmark({
+  comparison,
+  cohortLabel,
+  dimensions,
+  availableDimensions,
+  onToggleDimension,
+  loading = false,
+  className,
+}: PeerBenchmarkProps) {
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Users className="w-4 h-4 text-violet-500" />
+          Peer Comparison
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {availableDimensions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-slate-500">Compare with the same:</span>
+            {availableDimensions.map((dimension) => (
+              <button
+                key={dimension}
+                onClick={() => onToggleDimension(dimension)}
+                className={cn(
+                  "px-3 py-1 rounded-full text-xs font-medium border transition-colors",
+                  dimensions.includes(dimension)
+                    ? "bg-violet-500 text-white border-violet-500"
+                    : "bg-white text-slate-600 border-slate-200 hover:bg-slate-50"
+                )}
+              >
+                {COHORT_DIMENSION_LABELS[dimension]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+          </div>
+        ) : !comparison ? (
+          <p className="text-sm text-slate-500">
+            Peer comparison is not available for this assessment.
+          </p>
+        ) : comparison.suppressed ? (
+          <p className="text-sm text-slate-500 flex items-start gap-2">
+            <ShieldCheck className="w-4 h-4 mt-0.5 text-slate-400 flex-shrink-0" />
+            Fewer than {K_ANONYMITY} {cohortLabel} have completed this
+            assessment. Results for small groups are hidden to protect
+            privacy; try a broader comparison.
+          </p>
+        ) : comparison.percentile === null ? (
+          <p className="text-sm text-slate-500">
+            Complete this assessment to see where you stand among{" "}
+            {comparison.cohortSize} {cohortLabel}.
+          </p>
+        ) : (
+          <div className="flex items-end justify-between">
+            <div>
+              <p className="text-3xl font-bold text-slate-900">
+                {comparison.percentile}
+                <span className="text-base font-medium text-slate-500">th percentile</span>
+              </p>
+              <p className="text-sm text-slate-500 mt-1">
+                Among {comparison.cohortSize} {cohortLabel}
+              </p>
+            </div>
+            {comparison.median !== null && (
+              <p className="text-sm text-slate-500">
+                Cohort median <span className="font-semibold text-slate-700">{Math.round(comparison.median)}%</span>
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
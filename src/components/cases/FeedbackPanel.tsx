@@ -378,7 +378,6 @@ export function FeedbackPanel({
               <div className="min-w-[300px]">
                 <ScoreBreakdown
                   result={selectedAIIEScore}
-                  baselineScore={5.0}
                   showWaterfall={true}
                 />
               </div>
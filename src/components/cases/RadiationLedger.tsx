@@ -0,0 +1,103 @@
+'use client'
+
+import * as React from 'react'
+import { AlertTriangle, Radiation } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { getImagingById } from '@/data/imaging-options'
+import { cn } from '@/lib/utils'
+import type { RadiationLedger as RadiationLedgerData } from '@/lib/utils/radiation'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RadiationLedgerProps {
+  /** Cumulative ledger for the virtual patient */
+  ledger: RadiationLedgerData
+  /** Additional CSS classes */
+  className?: string
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Running effective dose for a virtual patient across a case series or
+ * longitudinal case, with repeat studies flagged.
+ */
+export function RadiationLedger({ ledger, className }: RadiationLedgerProps) {
+  const isWeighted = ledger.ageWeight !== 1
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+            <Radiation className="w-5 h-5 text-amber-500" />
+            Cumulative Radiation
+          </CardTitle>
+          {isWeighted && (
+            <Badge variant="peds" size="sm">
+              Pediatric weighting ×{ledger.ageWeight}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ol className="space-y-3">
+          {ledger.entries.map((entry, index) => (
+            <li
+              key={`${entry.caseId}-${index}`}
+              className="flex items-start justify-between gap-3 text-sm"
+            >
+              <div>
+                <p className="font-medium text-slate-900">
+                  {entry.label ?? `Order ${index + 1}`}
+                </p>
+                <p className="text-slate-600">
+                  {entry.imagingIds
+                    .map((id) => getImagingById(id)?.short_name ?? id)
+                    .join(', ') || 'No imaging'}
+                </p>
+                {entry.repeatedImagingIds.length > 0 && (
+                  <p className="flex items-center gap-1 text-xs text-amber-700 mt-1">
+                    <AlertTriangle className="w-3 h-3" />
+                    Repeat study
+                  </p>
+                )}
+              </div>
+              <div className="text-right font-mono">
+                <p className="text-slate-900">+{entry.weightedDoseMsv.toFixed(2)} mSv</p>
+                <p className="text-xs text-slate-500">
+                  Σ {entry.cumulativeWeightedMsv.toFixed(2)} mSv
+                </p>
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        <div
+          className={cn(
+            'p-3 rounded-lg border',
+            ledger.weightedTotalMsv > 10
+              ? 'bg-red-50 border-red-200'
+              : 'bg-slate-50 border-slate-200'
+          )}
+        >
+          <p className="font-semibold text-slate-900">
+            {ledger.weightedTotalMsv.toFixed(2)} mSv total
+            {isWeighted && (
+              <span className="ml-1 text-xs font-normal text-slate-500">
+                ({ledger.totalMsv.toFixed(2)} mSv unweighted)
+              </span>
+            )}
+          </p>
+          <p className="text-sm text-slate-600 mt-1">{ledger.chestXrayEquivalent}</p>
+          <p className="text-sm text-slate-600">{ledger.backgroundEquivalent}</p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
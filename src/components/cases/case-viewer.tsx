@@ -19,7 +19,21 @@ import { FeedbackPanel, type FeedbackData } from "./feedback-panel";
 import { LearningModeToggle, type CaseMode } from "./learning-mode-toggle";
 import { HintSystem, HintButton, HintProgress } from "./hint-system";
 import { QuizTimer, TimerBadge, TimeUpModal } from "./quiz-timer";
+import { StageTimeline } from "./stage-timeline";
 import { useLearningMode } from "@/lib/hooks/use-learning-mode";
+import { useCaseBookmark } from "@/lib/hooks/use-review-queue";
+import { startCaseAttempt, submitCaseAttempt } from "@/lib/supabase/api";
+import {
+  applyStage,
+  buildStageRadiationLedger,
+  getCaseStages,
+  scorePathway,
+  scoreStage,
+  type StageScore,
+} from "@/lib/utils/case-stages";
+import { evaluateDecisionRules } from "@/lib/aiie/decision-rules";
+import { deriveClinicalInput } from "@/lib/cases/adapters";
+import type { ClinicalInput } from "@/lib/aiie/scoring-engine";
 import { cn } from "@/lib/utils";
 import type {
   Case,
@@ -39,6 +53,8 @@ export interface CaseViewerProps {
   imagingOptions: ImagingOption[];
   /** Imaging ratings for this case */
   imagingRatings: CaseImagingRating[];
+  /** Structured input the AIIE engine scores the case from (default: derived from the narrative) */
+  clinicalInput?: ClinicalInput;
   /** User's previous attempts */
   previousAttempts?: UserCaseAttempt[];
   /** User ID for tracking */
@@ -65,11 +81,13 @@ const MAX_HINTS = 3;
  *
  * Learning Mode: Hints available, no timer, detailed feedback
  * Quiz Mode: No hints, 5-minute timer, score tracking
+ * Longitudinal cases: one decision per stage, results revealed between stages
  */
 export function CaseViewer({
   caseData,
   imagingOptions,
   imagingRatings,
+  clinicalInput,
   previousAttempts = [],
   userId,
   className,
@@ -93,6 +111,7 @@ export function CaseViewer({
     quizDuration: QUIZ_DURATION,
     persistMode: true,
   });
+  const { isBookmarked, toggleBookmark } = useCaseBookmark(caseData.id);
 
   // State
   const [selectedImaging, setSelectedImaging] = React.useState<string[]>([]);
@@ -102,13 +121,41 @@ export function CaseViewer({
   const [showHintPanel, setShowHintPanel] = React.useState(false);
   const [showTimeUpModal, setShowTimeUpModal] = React.useState(false);
 
+  // Stage state (single-snapshot cases have one stage)
+  const stages = React.useMemo(
+    () => getCaseStages(caseData, imagingRatings),
+    [caseData, imagingRatings]
+  );
+  const [stageIndex, setStageIndex] = React.useState(0);
+  const [stageScores, setStageScores] = React.useState<StageScore[]>([]);
+  const currentStage = stages[stageIndex];
+  const stageCase = React.useMemo(
+    () => applyStage(caseData, stages, stageIndex),
+    [caseData, stages, stageIndex]
+  );
+  const decisionRules = React.useMemo(
+    () => evaluateDecisionRules(caseData.decision_rules ?? []),
+    [caseData.decision_rules]
+  );
+  const caseClinicalInput = React.useMemo(
+    () => ({ ...(clinicalInput ?? deriveClinicalInput(caseData)), decisionRules }),
+    [clinicalInput, caseData, decisionRules]
+  );
+  const isLongitudinal = stages.length > 1;
+  const isLastStage = stageIndex === stages.length - 1;
+
   // Quiz timer state
   const [quizTimeRemaining, setQuizTimeRemaining] = React.useState(QUIZ_DURATION);
   const [quizTimerRunning, setQuizTimerRunning] = React.useState(false);
 
-  // Start tracking time on mount
+  // Start tracking time on mount; the database times the saved attempt
   React.useEffect(() => {
     startTimer();
+    if (userId) {
+      startCaseAttempt(caseData.id).catch((error) =>
+        console.error("Error starting case attempt:", error)
+      );
+    }
     return () => stopTimer();
   }, []);
 
@@ -141,39 +188,22 @@ export function CaseViewer({
   }, [quizTimerRunning, isSubmitted]);
 
   /**
-   * Handle imaging submission
+   * Handle imaging submission for the current stage
    */
   const handleSubmit = () => {
     setQuizTimerRunning(false);
     setShowTimeUpModal(false);
 
-    // Find the rating for selected imaging
-    let bestRating: CaseImagingRating | null = null;
-    let acrRating = 1;
-
-    if (selectedImaging.includes("no-imaging")) {
-      // Check if "no imaging" is optimal
-      const optimalIsNone = caseData.optimal_imaging.length === 0;
-      acrRating = optimalIsNone ? 9 : 1;
-      bestRating = null;
-    } else if (selectedImaging.length > 0) {
-      // Find best rating among selected options
-      const selectedRatings = imagingRatings.filter((r) =>
-        selectedImaging.includes(r.imaging_option_id)
-      );
-      if (selectedRatings.length > 0) {
-        bestRating = selectedRatings.reduce((best, curr) =>
-          curr.acr_rating > best.acr_rating ? curr : best
-        );
-        acrRating = bestRating.acr_rating;
-      }
-    }
+    // Score the stage (hints only count against learning mode)
+    const stageScore = scoreStage(currentStage, stageIndex, selectedImaging, {
+      hintsUsed: (mode as any) === "learning" ? hintsUsed : 0,
+      imagingOptions,
+    });
+    const nextStageScores = [...stageScores];
+    nextStageScores[stageIndex] = stageScore;
+    setStageScores(nextStageScores);
 
-    // Calculate score (penalize for hints in learning mode)
-    const baseScore = Math.round((acrRating / 9) * 100);
-    const hintPenalty = (mode as any) === "learning" ? hintsUsed * 5 : 0;
-    const score = Math.max(0, baseScore - hintPenalty);
-    const isCorrect = acrRating >= 7;
+    const acrRating = stageScore.acrRating ?? 1;
 
     // Determine rating category
     let ratingCategory:
@@ -189,40 +219,69 @@ export function CaseViewer({
       ratingCategory = "usually-not-appropriate";
     }
 
-    // Find optimal ACR rating
-    let optimalAcrRating = 9;
-    if (caseData.optimal_imaging.length > 0) {
-      const optimalRatings = imagingRatings.filter((r) =>
-        caseData.optimal_imaging.includes(r.imaging_option_id)
-      );
-      if (optimalRatings.length > 0) {
-        optimalAcrRating = Math.max(...optimalRatings.map((r) => r.acr_rating));
-      }
-    }
-
     // Build feedback data
     const feedback: FeedbackData = {
       selectedImaging,
       imagingOptions,
       acrRating,
       ratingCategory,
-      isCorrect,
-      score,
-      optimalImaging: caseData.optimal_imaging,
-      optimalAcrRating,
-      explanation: caseData.explanation,
-      teachingPoints: caseData.teaching_points,
-      clinicalPearls: caseData.clinical_pearls,
+      isCorrect: stageScore.isCorrect,
+      score: stageScore.score,
+      optimalImaging: currentStage.optimal_imaging,
+      optimalAcrRating: stageScore.optimalAcrRating,
+      explanation: currentStage.explanation,
+      teachingPoints: isLastStage ? caseData.teaching_points : [],
+      clinicalPearls: isLastStage ? caseData.clinical_pearls : null,
       references: caseData.references,
-      rationale: bestRating?.rationale,
+      rationale: stageScore.rating?.rationale,
+      breakdown: stageScore.breakdown,
+      stageFindings: stageScore.findings,
+      stageOutcome: currentStage.outcome,
+      pathway:
+        isLongitudinal && isLastStage
+          ? scorePathway(caseData, stages, nextStageScores)
+          : undefined,
+      radiationLedger: isLongitudinal
+        ? buildStageRadiationLedger(caseData, stages, nextStageScores)
+        : undefined,
+      decisionRules,
+      clinicalInput: caseClinicalInput,
     };
 
     setFeedbackData(feedback);
     setIsSubmitted(true);
     setActiveTab("order"); // Switch to feedback on mobile
 
-    // TODO: Save attempt to database via API
-    // await saveAttempt({ userId, caseId: caseData.id, selectedImaging, acrRating, score, isCorrect, timeSpent, mode, hintsUsed });
+    // Record the attempt once the last stage is answered; the database
+    // rescores it from the selection
+    if (isLastStage && userId) {
+      submitCaseAttempt(
+        caseData.id,
+        selectedImaging,
+        stageScore.score,
+        timeSpent,
+        hintsUsed,
+        (mode as any) === "quiz" ? "assessment" : "learning",
+        caseData.published_revision_id ?? null
+      ).catch((error) => console.error("Error saving case attempt:", error));
+    }
+  };
+
+  /**
+   * Advance a longitudinal case to its next stage
+   */
+  const handleNextStage = () => {
+    setStageIndex((prev) => prev + 1);
+    setSelectedImaging([]);
+    setIsSubmitted(false);
+    setFeedbackData(null);
+    resetHints();
+    setActiveTab("case");
+
+    if ((mode as any) === "quiz") {
+      setQuizTimeRemaining(QUIZ_DURATION);
+      setQuizTimerRunning(true);
+    }
   };
 
   /**
@@ -234,6 +293,11 @@ export function CaseViewer({
     setFeedbackData(null);
     resetHints();
     setActiveTab("order");
+    if (userId) {
+      startCaseAttempt(caseData.id).catch((error) =>
+        console.error("Error starting case attempt:", error)
+      );
+    }
 
     // Reset quiz timer if in quiz mode
     if ((mode as any) === "quiz") {
@@ -328,8 +392,17 @@ export function CaseViewer({
             {/* Left Panel - Clinical Case (60%) */}
             <div className="w-[60%] border-r border-slate-200 overflow-y-auto">
               <div className="p-6">
+                {isLongitudinal && (
+                  <StageTimeline
+                    stages={stages}
+                    currentStageIndex={stageIndex}
+                    stageScores={stageScores}
+                    imagingOptions={imagingOptions}
+                    className="mb-6"
+                  />
+                )}
                 <ClinicalVignette
-                  caseData={caseData}
+                  caseData={stageCase}
                   mode={mode}
                   hintsRevealed={hintsUsed}
                   onRevealHint={revealHint}
@@ -373,11 +446,14 @@ export function CaseViewer({
                     <FeedbackPanel
                       feedback={feedbackData}
                       onTryAgain={(mode as any) === "learning" ? handleTryAgain : undefined}
-                      onNextCase={handleNextCase}
+                      onNextCase={isLastStage ? handleNextCase : handleNextStage}
+                      nextLabel={isLastStage ? "Next Case" : "Next Stage"}
                       onReviewCase={handleReviewCase}
+                      onBookmark={toggleBookmark}
+                      isBookmarked={isBookmarked}
                       canTryAgain={(mode as any) === "learning"}
                       showAllOptions={(mode as any) === "learning"}
-                      allRatings={imagingRatings.map((r) => ({
+                      allRatings={currentStage.imaging_ratings.map((r) => ({
                         imagingOptionId: r.imaging_option_id,
                         acrRating: r.acr_rating,
                         rationale: r.rationale,
@@ -438,8 +514,17 @@ export function CaseViewer({
                   </div>
                 )}
 
+                {isLongitudinal && (
+                  <StageTimeline
+                    stages={stages}
+                    currentStageIndex={stageIndex}
+                    stageScores={stageScores}
+                    imagingOptions={imagingOptions}
+                    className="mb-6"
+                  />
+                )}
                 <ClinicalVignette
-                  caseData={caseData}
+                  caseData={stageCase}
                   mode={mode}
                   hintsRevealed={hintsUsed}
                   onRevealHint={revealHint}
@@ -455,11 +540,14 @@ export function CaseViewer({
                     <FeedbackPanel
                       feedback={feedbackData}
                       onTryAgain={(mode as any) === "learning" ? handleTryAgain : undefined}
-                      onNextCase={handleNextCase}
+                      onNextCase={isLastStage ? handleNextCase : handleNextStage}
+                      nextLabel={isLastStage ? "Next Case" : "Next Stage"}
                       onReviewCase={handleReviewCase}
+                      onBookmark={toggleBookmark}
+                      isBookmarked={isBookmarked}
                       canTryAgain={(mode as any) === "learning"}
                       showAllOptions={(mode as any) === "learning"}
-                      allRatings={imagingRatings.map((r) => ({
+                      allRatings={currentStage.imaging_ratings.map((r) => ({
                         imagingOptionId: r.imaging_option_id,
                         acrRating: r.acr_rating,
                         rationale: r.rationale,
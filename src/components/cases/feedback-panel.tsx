@@ -26,7 +26,16 @@ import { ACRRatingBadge, ACRRatingLarge, getACRConfig } from "./acr-rating-badge
 import { ACRRatingScale } from "./acr-rating-scale";
 import { RadiationIndicator, RadiationBadge } from "./radiation-indicator";
 import { CostDisplay, CostBadge } from "./cost-display";
+import { RadiationLedger } from "./RadiationLedger";
+import { DecisionRuleWorksheet } from "@/components/aiie/DecisionRuleWorksheet";
+import { WhatIfExplorer } from "@/components/aiie/WhatIfExplorer";
 import { cn } from "@/lib/utils";
+import type { PathwayScore } from "@/lib/utils/case-stages";
+import type { SelectionScore } from "@/lib/utils/imaging-score";
+import type { RadiationLedger as RadiationLedgerData } from "@/lib/utils/radiation";
+import { getAIIEModality } from "@/lib/cases/model";
+import type { DecisionRuleResult } from "@/lib/aiie/decision-rules";
+import type { ClinicalInput } from "@/lib/aiie/scoring-engine";
 import type {
   ACRCategory,
   ClinicalPearl,
@@ -65,6 +74,20 @@ export interface FeedbackData {
   references?: Reference[];
   /** Rationale for the rating */
   rationale?: string;
+  /** Base score and deductions from the shared scoring model */
+  breakdown?: SelectionScore;
+  /** Results of the ordered studies (longitudinal cases) */
+  stageFindings?: string[];
+  /** Clinical course revealed after this stage (longitudinal cases) */
+  stageOutcome?: string | null;
+  /** Pathway score once every stage is complete (longitudinal cases) */
+  pathway?: PathwayScore;
+  /** Cumulative dose delivered to the patient so far (longitudinal cases) */
+  radiationLedger?: RadiationLedgerData;
+  /** Clinical decision rules evaluated for the case */
+  decisionRules?: DecisionRuleResult[];
+  /** Clinical input the AIIE engine scores the case from; enables the what-if explorer */
+  clinicalInput?: ClinicalInput;
 }
 
 export interface FeedbackPanelProps {
@@ -74,6 +97,8 @@ export interface FeedbackPanelProps {
   onTryAgain?: () => void;
   /** Handler to go to next case */
   onNextCase?: () => void;
+  /** Label for the next button (e.g. "Next Stage") */
+  nextLabel?: string;
   /** Handler to review case */
   onReviewCase?: () => void;
   /** Handler to bookmark */
@@ -155,6 +180,7 @@ export function FeedbackPanel({
   feedback,
   onTryAgain,
   onNextCase,
+  nextLabel = "Next Case",
   onReviewCase,
   onBookmark,
   isBookmarked = false,
@@ -195,6 +221,12 @@ export function FeedbackPanel({
     0
   );
 
+  // Modalities the what-if explorer rescores: one per offered option
+  const whatIfModalities = React.useMemo(
+    () => Array.from(new Set(feedback.imagingOptions.map(getAIIEModality))),
+    [feedback.imagingOptions]
+  );
+
   // Animate score counter
   React.useEffect(() => {
     const duration = 1500;
@@ -305,6 +337,46 @@ export function FeedbackPanel({
             </div>
           </motion.div>
 
+          {/* Pathway Summary (longitudinal cases) */}
+          {feedback.pathway && feedback.pathway.stages.length > 1 && (
+            <motion.div variants={itemVariants}>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base flex items-center justify-between">
+                    <span>Pathway Score</span>
+                    <span className="text-slate-900">
+                      {feedback.pathway.score}/100
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {feedback.pathway.stages.map((stage, index) => (
+                    <div
+                      key={stage.stageId}
+                      className="flex items-center justify-between text-sm"
+                    >
+                      <span className="flex items-center gap-2 text-slate-700">
+                        {stage.isCorrect ? (
+                          <CheckCircle className="w-4 h-4 text-emerald-500" />
+                        ) : (
+                          <XCircle className="w-4 h-4 text-rose-500" />
+                        )}
+                        Stage {index + 1}
+                      </span>
+                      <span className="font-medium">{stage.score}/100</span>
+                    </div>
+                  ))}
+                  <p className="pt-2 border-t border-slate-100 text-xs text-slate-500">
+                    {feedback.pathway.stagesCorrect} of{" "}
+                    {feedback.pathway.stages.length} decisions appropriate ·{" "}
+                    {feedback.pathway.radiation.weightedTotalMsv.toFixed(1)} mSv
+                    cumulative dose
+                  </p>
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
           {/* ACR Rating Scale Visualization */}
           {feedback.acrRating && (
             <motion.div variants={itemVariants}>
@@ -326,6 +398,42 @@ export function FeedbackPanel({
             </motion.div>
           )}
 
+          {/* Score Deductions */}
+          {feedback.breakdown && feedback.breakdown.deductions.length > 0 && (
+            <motion.div variants={itemVariants}>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">Score Breakdown</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-600">
+                      Best choice (ACR {feedback.breakdown.acrRating}/9)
+                    </span>
+                    <span className="font-medium text-slate-900">
+                      {feedback.breakdown.baseScore}
+                    </span>
+                  </div>
+                  {feedback.breakdown.deductions.map((deduction, index) => (
+                    <div
+                      key={`${deduction.kind}-${deduction.imagingOptionId ?? index}`}
+                      className="flex items-center justify-between"
+                    >
+                      <span className="text-slate-600">{deduction.reason}</span>
+                      <span className="font-medium text-rose-600">
+                        −{deduction.points}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="pt-2 border-t border-slate-100 flex items-center justify-between font-semibold">
+                    <span>Score</span>
+                    <span>{feedback.breakdown.score}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
           {/* Your Selection Card */}
           <motion.div variants={itemVariants}>
             <Card>
@@ -388,6 +496,32 @@ export function FeedbackPanel({
             </Card>
           </motion.div>
 
+          {/* Stage Results (longitudinal cases) */}
+          {(feedback.stageFindings?.length > 0 || feedback.stageOutcome) && (
+            <motion.div variants={itemVariants}>
+              <Card className="border-cyan-200 bg-cyan-50/50">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base">What Happened Next</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm text-slate-700">
+                  {feedback.stageFindings?.map((finding) => (
+                    <p key={finding} className="font-medium text-slate-900">
+                      {finding}
+                    </p>
+                  ))}
+                  {feedback.stageOutcome && <p>{feedback.stageOutcome}</p>}
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
+          {/* Cumulative Radiation (longitudinal cases) */}
+          {feedback.radiationLedger?.entries.length > 0 && (
+            <motion.div variants={itemVariants}>
+              <RadiationLedger ledger={feedback.radiationLedger} />
+            </motion.div>
+          )}
+
           {/* Better Choice Card (if not correct) */}
           {!feedback.isCorrect && optimalOptions.length > 0 && (
             <motion.div variants={itemVariants}>
@@ -453,6 +587,25 @@ export function FeedbackPanel({
             </Card>
           </motion.div>
 
+          {/* Clinical Decision Rules */}
+          {feedback.decisionRules?.length > 0 && (
+            <motion.div variants={itemVariants} className="space-y-4">
+              {feedback.decisionRules.map((result) => (
+                <DecisionRuleWorksheet key={result.rule} result={result} />
+              ))}
+            </motion.div>
+          )}
+
+          {/* What-if Explorer */}
+          {feedback.clinicalInput && whatIfModalities.length > 0 && (
+            <motion.div variants={itemVariants}>
+              <WhatIfExplorer
+                input={feedback.clinicalInput}
+                modalities={whatIfModalities}
+              />
+            </motion.div>
+          )}
+
           {/* Teaching Points */}
           {feedback.teachingPoints.length > 0 && (
             <motion.div variants={itemVariants}>
@@ -722,7 +875,7 @@ export function FeedbackPanel({
           {/* Next Case */}
           {onNextCase && (
             <Button onClick={onNextCase} className="w-full">
-              Next Case
+              {nextLabel}
               <ArrowRight className="w-4 h-4 ml-2" />
             </Button>
           )}
@@ -0,0 +1,118 @@
+"use client";
+
+import * as React from "react";
+import { CheckCircle, Circle, Clock, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type { StageScore } from "@/lib/utils/case-stages";
+import type { CaseStage, ImagingOption } from "@/types/database";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StageTimelineProps {
+  /** Ordered case stages */
+  stages: CaseStage[];
+  /** Index of the stage being decided */
+  currentStageIndex: number;
+  /** Scores for completed stages, indexed by stage */
+  stageScores: StageScore[];
+  /** Imaging options for labelling selections */
+  imagingOptions: ImagingOption[];
+  /** Additional CSS classes */
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * StageTimeline - Earlier decisions and their revealed results for a
+ * longitudinal case, leading up to the current decision point.
+ */
+export function StageTimeline({
+  stages,
+  currentStageIndex,
+  stageScores,
+  imagingOptions,
+  className,
+}: StageTimelineProps) {
+  const getLabel = (id: string) =>
+    imagingOptions.find((opt) => opt.id === id)?.short_name ?? id;
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Clock className="w-4 h-4 text-cyan-500" />
+          Case Timeline
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="relative border-l border-slate-200 ml-2 space-y-5">
+          {stages.map((stage, index) => {
+            const result = stageScores[index];
+            const isCurrent = index === currentStageIndex;
+            const isPast = index < currentStageIndex;
+            const Icon = !isPast
+              ? Circle
+              : result?.isCorrect
+              ? CheckCircle
+              : XCircle;
+
+            return (
+              <li key={stage.id} className="ml-4">
+                <span
+                  className={cn(
+                    "absolute -left-2 flex items-center justify-center w-4 h-4 rounded-full bg-white",
+                    isCurrent && "text-cyan-500",
+                    isPast && (result?.isCorrect ? "text-emerald-500" : "text-rose-500"),
+                    !isCurrent && !isPast && "text-slate-300"
+                  )}
+                >
+                  <Icon className="w-4 h-4" />
+                </span>
+                <p
+                  className={cn(
+                    "text-sm font-semibold",
+                    index > currentStageIndex ? "text-slate-400" : "text-slate-900"
+                  )}
+                >
+                  {stage.title}
+                  {stage.time_offset && (
+                    <span className="ml-2 font-normal text-slate-500">
+                      {stage.time_offset}
+                    </span>
+                  )}
+                  {isCurrent && (
+                    <span className="ml-2 text-xs font-medium text-cyan-600">
+                      Now
+                    </span>
+                  )}
+                </p>
+
+                {isPast && result && (
+                  <div className="mt-1 space-y-1 text-sm text-slate-600">
+                    <p>
+                      Ordered:{" "}
+                      {result.selectedImaging.map(getLabel).join(", ") ||
+                        "No imaging"}
+                    </p>
+                    {result.findings.map((finding) => (
+                      <p key={finding} className="text-slate-800">
+                        {finding}
+                      </p>
+                    ))}
+                    {stage.outcome && <p className="italic">{stage.outcome}</p>}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
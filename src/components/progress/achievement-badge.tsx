@@ -292,7 +292,7 @@ function AchievementModal({
               <div className="flex items-center justify-between text-sm">
                 <span className="text-slate-600">Progress</span>
                 <span className="font-medium">
-                  {progress} / {total || achievement.requirementValue}
+                  {progress} / {total}
                 </span>
               </div>
               <LinearProgress
@@ -0,0 +1,31 @@
+"use client";
+
+import * as React from "react";
+import {
+  AchievementToastContainer,
+  useAchievementToasts,
+} from "@/components/ui/AchievementToast";
+import { useAchievementUnlocks } from "@/lib/hooks/use-achievements";
+
+// ============================================================================
+// AchievementNotifier Component
+// ============================================================================
+
+/**
+ * Shows an AchievementToast whenever the server awards the signed-in user an
+ * achievement, on whichever page they are on. Mounted once in Providers.
+ */
+export function AchievementNotifier() {
+  const { toasts, showToast, dismissToast } = useAchievementToasts();
+
+  useAchievementUnlocks(({ definition: achievement }) => {
+    showToast({
+      title: achievement.name,
+      description: achievement.description,
+      icon: achievement.icon,
+      showConfetti: achievement.confettiOnUnlock,
+    });
+  });
+
+  return <AchievementToastContainer toasts={toasts} onDismiss={dismissToast} />;
+}
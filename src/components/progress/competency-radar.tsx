@@ -26,6 +26,8 @@ export interface CompetencyScore {
   label: string;
   current: number;
   target: number;
+  /** Spaced-repetition retention, 0-100 */
+  retention?: number;
 }
 
 export interface CompetencyRadarProps {
@@ -39,6 +41,8 @@ export interface CompetencyRadarProps {
   currentColor?: string;
   /** Target score color */
   targetColor?: string;
+  /** Retention color */
+  retentionColor?: string;
   /** Additional CSS classes */
   className?: string;
 }
@@ -91,6 +95,7 @@ export function CompetencyRadar({
   title = "Competency by Category",
   currentColor = "#06b6d4",
   targetColor = "#e2e8f0",
+  retentionColor = "#8b5cf6",
   className,
 }: CompetencyRadarProps) {
   const ref = React.useRef<HTMLDivElement>(null);
@@ -103,11 +108,14 @@ export function CompetencyRadar({
     }
   }, [isInView, isAnimated]);
 
+  const showRetention = scores.some((s) => s.retention !== undefined);
+
   // Format data for Recharts
   const chartData = scores.map((s) => ({
     category: s.label,
     current: isAnimated ? s.current : 0,
     target: s.target,
+    retention: isAnimated ? s.retention ?? 0 : 0,
     fullMark: 100,
   }));
 
@@ -160,6 +168,18 @@ export function CompetencyRadar({
                   animationDuration={1500}
                   animationBegin={isAnimated ? 0 : 9999}
                 />
+                {showRetention && (
+                  <Radar
+                    name="Retention"
+                    dataKey="retention"
+                    stroke={retentionColor}
+                    strokeWidth={2}
+                    fill={retentionColor}
+                    fillOpacity={0.15}
+                    animationDuration={1500}
+                    animationBegin={isAnimated ? 0 : 9999}
+                  />
+                )}
                 <Tooltip content={<CustomTooltip />} />
                 <Legend
                   wrapperStyle={{ fontSize: 12 }}
@@ -191,6 +211,11 @@ export function CompetencyRadar({
                   )}
                 >
                   {score.current}%
+                  {score.retention !== undefined && (
+                    <span className="font-normal text-violet-600">
+                      {" "}· {score.retention}% retained
+                    </span>
+                  )}
                 </span>
               </div>
             ))}
@@ -0,0 +1,113 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { ChevronRight, Compass, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  useRecommendations,
+  type UseRecommendationsOptions,
+} from "@/lib/hooks/use-recommendations";
+import type { NextCaseRecommendation } from "@/lib/utils/adaptive-difficulty";
+import type { DifficultyLevel } from "@/types/database";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RecommendedCasesProps {
+  recommendations: NextCaseRecommendation[];
+  loading?: boolean;
+  /** Title */
+  title?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const DIFFICULTY_CLASSES: Record<DifficultyLevel, string> = {
+  beginner: "bg-emerald-500/10 text-emerald-700 border-emerald-500/20",
+  intermediate: "bg-amber-500/10 text-amber-700 border-amber-500/20",
+  advanced: "bg-rose-500/10 text-rose-700 border-rose-500/20",
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * RecommendedCases - Next cases picked by the adaptive learner model.
+ */
+export function RecommendedCases({
+  recommendations,
+  loading = false,
+  title = "Recommended Next",
+  className,
+}: RecommendedCasesProps) {
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Compass className="w-4 h-4 text-cyan-500" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+          </div>
+        ) : recommendations.length === 0 ? (
+          <p className="text-sm text-slate-500 py-4 text-center">
+            You have mastered or recently practiced every available case.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {recommendations.map((rec) => (
+              <Link
+                key={rec.caseId}
+                href={`/cases/${rec.caseId}`}
+                className="flex items-center justify-between gap-3 p-3 rounded-lg bg-slate-50 hover:bg-slate-100 transition-colors"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-900 truncate">
+                    {rec.title}
+                  </p>
+                  <p className="text-xs text-slate-500 mt-1">{rec.reason}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge
+                    size="sm"
+                    className={cn("capitalize border", DIFFICULTY_CLASSES[rec.difficulty])}
+                  >
+                    {rec.difficulty}
+                  </Badge>
+                  <span
+                    className="text-xs text-slate-500"
+                    title="Predicted score at your current level"
+                  >
+                    ~{rec.expectedScore}%
+                  </span>
+                  <ChevronRight className="w-4 h-4 text-slate-400" />
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * NextCaseRecommendations - RecommendedCases for the signed-in learner.
+ */
+export function NextCaseRecommendations({
+  limit,
+  category,
+  ...props
+}: UseRecommendationsOptions & Omit<RecommendedCasesProps, "recommendations" | "loading">) {
+  const { recommendations, loading } = useRecommendations({ limit, category });
+  return <RecommendedCases recommendations={recommendations} loading={loading} {...props} />;
+}
@@ -24,6 +24,10 @@ import { CompetencyRadar, type CompetencyScore } from "./competency-radar";
 import { CategoryBreakdown, type CategoryData } from "./category-bar";
 import { StreakCalendar, type DayActivity } from "./streak-calendar";
 import { ActivityFeed, type ActivityItem } from "./activity-feed";
+import { RadiationSummary } from "./radiation-summary";
+import { allCases } from "@/data/cases";
+import { useRadiationSummary } from "@/lib/hooks/use-radiation-summary";
+import { buildReviewSchedule, getCategoryRetention } from "@/lib/utils/spaced-repetition";
 import { cn } from "@/lib/utils";
 import type { CaseCategory } from "@/types/database";
 
@@ -75,14 +79,6 @@ const MOCK_CHART_DATA: ProgressDataPoint[] = [
   { date: "2026-01-17", value: 76, cases: 3, label: "Jan 17" },
 ];
 
-const MOCK_COMPETENCY_SCORES: CompetencyScore[] = [
-  { category: "low-back-pain", label: "Low Back Pain", current: 85, target: 80 },
-  { category: "headache", label: "Headache", current: 72, target: 80 },
-  { category: "chest-pain", label: "Chest Pain", current: 78, target: 80 },
-  { category: "abdominal-pain", label: "Abdominal Pain", current: 65, target: 80 },
-  { category: "extremity-trauma", label: "Extremity Trauma", current: 58, target: 80 },
-];
-
 const MOCK_CATEGORY_DATA: CategoryData[] = [
   { category: "low-back-pain", label: "Low Back Pain", attempted: 10, correct: 8, total: 12, icon: "🦴" },
   { category: "headache", label: "Headache", attempted: 8, correct: 6, total: 10, icon: "🧠" },
@@ -187,6 +183,35 @@ const MOCK_WEAK_AREAS: WeakArea[] = [
   },
 ];
 
+const MOCK_BASE_COMPETENCY_SCORES: CompetencyScore[] = [
+  { category: "low-back-pain", label: "Low Back Pain", current: 85, target: 80 },
+  { category: "headache", label: "Headache", current: 72, target: 80 },
+  { category: "chest-pain", label: "Chest Pain", current: 78, target: 80 },
+  { category: "abdominal-pain", label: "Abdominal Pain", current: 65, target: 80 },
+  { category: "extremity-trauma", label: "Extremity Trauma", current: 58, target: 80 },
+];
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const MOCK_RETENTION = getCategoryRetention(
+  buildReviewSchedule([
+    { case_id: "lbp-acute-mechanical", score: 85, time_spent_seconds: 150, created_at: daysAgo(12) },
+    { case_id: "lbp-acute-mechanical", score: 95, time_spent_seconds: 120, created_at: daysAgo(5) },
+    { case_id: "lbp-radiculopathy-acute", score: 90, time_spent_seconds: 200, created_at: daysAgo(3) },
+    { case_id: "headache-thunderclap-sah", score: 45, time_spent_seconds: 260, created_at: daysAgo(6) },
+    { case_id: "headache-chronic-daily", score: 80, time_spent_seconds: 180, created_at: daysAgo(2) },
+    { case_id: "chest-pain-pe-suspected", score: 78, time_spent_seconds: 320, created_at: daysAgo(4) },
+    { case_id: "abd-pain-biliary", score: 60, time_spent_seconds: 240, created_at: daysAgo(9) },
+    { case_id: "trauma-ankle-ottawa-negative", score: 25, time_spent_seconds: 200, created_at: daysAgo(8) },
+  ]),
+  allCases
+);
+
+const MOCK_COMPETENCY_SCORES: CompetencyScore[] = MOCK_BASE_COMPETENCY_SCORES.map((score) => ({
+  ...score,
+  retention: MOCK_RETENTION.find((r) => r.category === score.category)?.retention,
+}));
+
 // ============================================================================
 // Component
 // ============================================================================
@@ -194,6 +219,7 @@ const MOCK_WEAK_AREAS: WeakArea[] = [
 export function ProgressDashboard() {
   const router = useRouter();
   const [dateRange, setDateRange] = React.useState<DateRange>("week");
+  const { summary: radiationSummary } = useRadiationSummary();
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -296,14 +322,15 @@ export function ProgressDashboard() {
           />
         </div>
 
-        {/* Activity & Achievements */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+        {/* Activity, Achievements & Radiation */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
           <ActivityFeed
             activities={MOCK_ACTIVITIES}
             title="Recent Activity"
             initialCount={5}
           />
           <AchievementsCard achievements={MOCK_ACHIEVEMENTS} />
+          <RadiationSummary summary={radiationSummary} />
         </div>
 
         {/* Weak Areas */}
@@ -0,0 +1,105 @@
+"use client";
+
+import * as React from "react";
+import { Radiation } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type { LearnerRadiationSummary } from "@/lib/utils/radiation";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RadiationSummaryProps {
+  /** Learner radiation totals */
+  summary: LearnerRadiationSummary;
+  /** Title */
+  title?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Per-learner radiation summary comparing the dose the learner's choices
+ * would have delivered with the dose from optimal choices.
+ */
+export function RadiationSummary({
+  summary,
+  title = "Radiation Stewardship",
+  className,
+}: RadiationSummaryProps) {
+  const maxDose = Math.max(summary.selectedMsv, summary.optimalMsv, 0.01);
+  const rows = [
+    {
+      label: "Your choices",
+      value: summary.selectedMsv,
+      equivalent: summary.selectedEquivalent,
+      color: summary.excessMsv > 0 ? "bg-amber-500" : "bg-emerald-500",
+    },
+    {
+      label: "Optimal choices",
+      value: summary.optimalMsv,
+      equivalent: summary.optimalEquivalent,
+      color: "bg-cyan-500",
+    },
+  ];
+
+  return (
+    <Card className={cn("h-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Radiation className="w-5 h-5 text-amber-500" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {rows.map((row) => (
+          <div key={row.label}>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="font-medium text-slate-900">{row.label}</span>
+              <span className="font-mono text-slate-700">
+                {row.value.toFixed(1)} mSv
+              </span>
+            </div>
+            <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div
+                className={cn("h-full rounded-full", row.color)}
+                style={{ width: `${(row.value / maxDose) * 100}%` }}
+              />
+            </div>
+            <p className="text-xs text-slate-500 mt-1">{row.equivalent}</p>
+          </div>
+        ))}
+
+        <div
+          className={cn(
+            "p-3 rounded-lg text-sm",
+            summary.excessMsv > 0
+              ? "bg-amber-50 text-amber-800"
+              : "bg-emerald-50 text-emerald-800"
+          )}
+        >
+          {summary.excessMsv > 0 ? (
+            <>
+              <span className="font-semibold">
+                {summary.excessMsv.toFixed(1)} mSv avoidable
+              </span>{" "}
+              across {summary.casesWithExcess} of {summary.casesCounted} cases (
+              {summary.excessBackgroundEquivalent}).
+            </>
+          ) : (
+            <>No avoidable radiation across {summary.casesCounted} cases.</>
+          )}
+        </div>
+
+        <p className="text-xs text-slate-400">
+          Doses are age-weighted for pediatric patients.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { Bookmark, ChevronRight, Loader2, RotateCcw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { useReviewQueue } from "@/lib/hooks/use-review-queue";
+import type { ReviewQueueItem, ReviewReason } from "@/lib/utils/spaced-repetition";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReviewQueueProps {
+  /** Due cases, most overdue first */
+  items: ReviewQueueItem[];
+  /** Maximum items to show */
+  limit?: number;
+  loading?: boolean;
+  /** Title */
+  title?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const REASON_LABELS: Record<ReviewReason, string> = {
+  missed: "Missed",
+  bookmarked: "Study list",
+};
+
+function formatDue(item: ReviewQueueItem): string {
+  if (item.attempts === 0) return "Not yet attempted";
+  if (item.overdueDays <= 0) return "Due today";
+  return `${item.overdueDays} day${item.overdueDays === 1 ? "" : "s"} overdue`;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * ReviewQueue - Spaced-repetition cases that are due for another attempt.
+ */
+export function ReviewQueue({
+  items,
+  limit = 5,
+  loading = false,
+  title = "Due for Review",
+  className,
+}: ReviewQueueProps) {
+  const visible = items.slice(0, limit);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <RotateCcw className="w-4 h-4 text-cyan-500" />
+            {title}
+          </CardTitle>
+          {items.length > 0 && (
+            <Badge variant="primary" size="sm">
+              {items.length} due
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+          </div>
+        ) : visible.length === 0 ? (
+          <p className="text-sm text-slate-500 py-4 text-center">
+            Nothing due. Missed and study-list cases will come back here when
+            it is time to review them.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {visible.map((item) => (
+              <Link
+                key={item.caseId}
+                href={`/cases/${item.caseId}`}
+                className="flex items-center justify-between gap-3 p-3 rounded-lg bg-slate-50 hover:bg-slate-100 transition-colors"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-900 truncate">
+                    {item.title}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2 mt-1">
+                    {item.reasons.map((reason) => (
+                      <Badge
+                        key={reason}
+                        variant={reason === "missed" ? "warning" : "info"}
+                        size="sm"
+                      >
+                        {reason === "bookmarked" && <Bookmark className="w-3 h-3 mr-1" />}
+                        {REASON_LABELS[reason]}
+                      </Badge>
+                    ))}
+                    <span
+                      className={cn(
+                        "text-xs",
+                        item.overdueDays > 0 ? "text-rose-600" : "text-slate-500"
+                      )}
+                    >
+                      {formatDue(item)}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {item.attempts > 0 && (
+                    <span className="text-xs text-slate-500">
+                      {Math.round(item.retention * 100)}% recall
+                    </span>
+                  )}
+                  <ChevronRight className="w-4 h-4 text-slate-400" />
+                </div>
+              </Link>
+            ))}
+            {items.length > visible.length && (
+              <p className="text-xs text-slate-500 text-center pt-1">
+                +{items.length - visible.length} more due
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * DueReviewQueue - ReviewQueue for the signed-in learner.
+ */
+export function DueReviewQueue(props: Omit<ReviewQueueProps, "items" | "loading">) {
+  const { dueReviews, loading } = useReviewQueue();
+  return <ReviewQueue items={dueReviews} loading={loading} {...props} />;
+}
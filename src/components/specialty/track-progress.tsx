@@ -263,7 +263,7 @@ export function TrackProgress({
                 </p>
               </div>
               {assessmentAvailable && (
-                <Link href={`/assessments/${assessmentId}`}>
+                <Link href={`/assessment/${assessmentId}`}>
                   <Button size="sm" className="bg-amber-500 hover:bg-amber-600">
                     Take Exam
                   </Button>
@@ -368,6 +368,12 @@ export interface TrackCertificateProps {
   certificateName: string;
   earned: boolean;
   earnedAt?: string;
+  /** Issued certificate, for the PDF and verification links */
+  certificateId?: string;
+  /** Shown when the learner may have finished the track */
+  onClaim?: () => void;
+  isClaiming?: boolean;
+  claimMessage?: string | null;
   color: TrackColor;
   className?: string;
 }
@@ -377,6 +383,10 @@ export function TrackCertificate({
   certificateName,
   earned,
   earnedAt,
+  certificateId,
+  onClaim,
+  isClaiming = false,
+  claimMessage,
   color,
   className,
 }: TrackCertificateProps) {
@@ -391,6 +401,20 @@ export function TrackCertificate({
           <p className="text-sm text-slate-400 mt-1">
             Complete the track to earn this certificate
           </p>
+          {onClaim && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-4"
+              onClick={onClaim}
+              disabled={isClaiming}
+            >
+              {isClaiming ? "Checking..." : "Claim Certificate"}
+            </Button>
+          )}
+          {claimMessage && (
+            <p className="text-xs text-slate-500 mt-3">{claimMessage}</p>
+          )}
         </CardContent>
       </Card>
     );
@@ -428,9 +452,25 @@ export function TrackCertificate({
         {formattedDate && (
           <p className="text-xs text-amber-500 mt-2">Earned {formattedDate}</p>
         )}
-        <Button variant="default" size="sm" className="mt-4">
-          View Certificate
-        </Button>
+        {certificateId ? (
+          <div className="mt-4 flex flex-col items-center gap-2">
+            <a href={`/api/certificates/${certificateId}/pdf`} target="_blank" rel="noreferrer">
+              <Button variant="default" size="sm">
+                View Certificate
+              </Button>
+            </a>
+            <Link
+              href={`/verify/${certificateId}`}
+              className="text-xs text-amber-600 hover:text-amber-700 underline"
+            >
+              Verification link
+            </Link>
+          </div>
+        ) : (
+          <Button variant="default" size="sm" className="mt-4">
+            View Certificate
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
@@ -170,7 +170,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         options: {
           data: {
             name: data.name,
-            role: data.role,
             institution: data.institution,
           },
         },
@@ -186,7 +185,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             id: authData.user.id,
             email: data.email,
             full_name: data.name,
-            role: data.role,
             institution: data.institution || null,
             onboarding_completed: false,
           } as any)
@@ -256,9 +254,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
 
     try {
+      // Roles are assigned by admins (migration 017)
       const updateData: any = {}
       if (data.name !== undefined) updateData.full_name = data.name
-      if (data.role !== undefined) updateData.role = data.role
       if (data.institution !== undefined) updateData.institution = data.institution
       if (data.specialty !== undefined) updateData.specialty_track = data.specialty
       if (data.trainingYear !== undefined) updateData.training_year = parseInt(data.trainingYear) || null
@@ -1,4 +1,5 @@
 // @ts-nocheck
+import type { AchievementCriteria } from "@/lib/achievements/criteria";
 import type { AchievementCategory } from "@/types/database";
 
 // ============================================================================
@@ -32,26 +33,14 @@ export type AchievementSlug =
   | "night-owl"
   | "weekend-warrior";
 
-export type RequirementType =
-  | "cases_completed"
-  | "perfect_scores"
-  | "category_accuracy"
-  | "categories_completed"
-  | "case_time"
-  | "streak_days"
-  | "assessments_passed"
-  | "feedback_submitted"
-  | "special";
-
 export interface AchievementDefinition {
   slug: AchievementSlug;
   name: string;
   description: string;
   icon: string;
   category: AchievementCategory;
-  requirementType: RequirementType;
-  requirementValue: number;
-  requirementMeta?: Record<string, any>;
+  /** When it is earned; evaluated by the database, see @/lib/achievements/criteria */
+  criteria: AchievementCriteria;
   points: number;
   isSecret?: boolean;
   confettiOnUnlock?: boolean;
@@ -79,8 +68,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Complete your first case",
     icon: "👣",
     category: "progress",
-    requirementType: "cases_completed",
-    requirementValue: 1,
+    criteria: { type: "count", of: "cases", min: 1 },
     points: 10,
     confettiOnUnlock: true,
   },
@@ -90,8 +78,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Complete 10 cases",
     icon: "📚",
     category: "progress",
-    requirementType: "cases_completed",
-    requirementValue: 10,
+    criteria: { type: "count", of: "cases", min: 10 },
     points: 25,
   },
   {
@@ -100,8 +87,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Complete 25 cases",
     icon: "🎓",
     category: "progress",
-    requirementType: "cases_completed",
-    requirementValue: 25,
+    criteria: { type: "count", of: "cases", min: 25 },
     points: 50,
   },
   {
@@ -110,8 +96,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Complete 50 cases",
     icon: "⭐",
     category: "progress",
-    requirementType: "cases_completed",
-    requirementValue: 50,
+    criteria: { type: "count", of: "cases", min: 50 },
     points: 100,
     confettiOnUnlock: true,
   },
@@ -121,8 +106,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Complete 100 cases",
     icon: "💯",
     category: "progress",
-    requirementType: "cases_completed",
-    requirementValue: 100,
+    criteria: { type: "count", of: "cases", min: 100 },
     points: 250,
     confettiOnUnlock: true,
   },
@@ -136,8 +120,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Get 100% on a case",
     icon: "🎯",
     category: "mastery",
-    requirementType: "perfect_scores",
-    requirementValue: 1,
+    criteria: { type: "count", of: "cases", where: { minScore: 100 }, min: 1 },
     points: 25,
     confettiOnUnlock: true,
   },
@@ -147,8 +130,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Get 100% on 3 different cases",
     icon: "✨",
     category: "mastery",
-    requirementType: "perfect_scores",
-    requirementValue: 3,
+    criteria: { type: "count", of: "cases", where: { minScore: 100 }, min: 3 },
     points: 75,
   },
   {
@@ -157,9 +139,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Achieve 90%+ accuracy in any category (min 5 cases)",
     icon: "🏆",
     category: "mastery",
-    requirementType: "category_accuracy",
-    requirementValue: 90,
-    requirementMeta: { minCases: 5 },
+    criteria: { type: "accuracy", perCategory: true, minAttempts: 5, min: 90 },
     points: 100,
     confettiOnUnlock: true,
   },
@@ -169,8 +149,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Complete at least one case in every category",
     icon: "🌟",
     category: "mastery",
-    requirementType: "categories_completed",
-    requirementValue: 5,
+    criteria: { type: "count", of: "categories", min: 5 },
     points: 75,
   },
   {
@@ -179,9 +158,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Complete a case correctly in under 2 minutes",
     icon: "⚡",
     category: "mastery",
-    requirementType: "case_time",
-    requirementValue: 120,
-    requirementMeta: { mustBeCorrect: true },
+    criteria: { type: "count", of: "attempts", where: { correct: true, maxTimeSeconds: 120 }, min: 1 },
     points: 50,
   },
   {
@@ -190,9 +167,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Complete a case correctly in under 1 minute",
     icon: "🚀",
     category: "mastery",
-    requirementType: "case_time",
-    requirementValue: 60,
-    requirementMeta: { mustBeCorrect: true },
+    criteria: { type: "count", of: "attempts", where: { correct: true, maxTimeSeconds: 60 }, min: 1 },
     points: 100,
     isSecret: true,
   },
@@ -206,8 +181,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Maintain a 3-day study streak",
     icon: "🔥",
     category: "streak",
-    requirementType: "streak_days",
-    requirementValue: 3,
+    criteria: { type: "streak", of: "days", min: 3 },
     points: 25,
   },
   {
@@ -216,8 +190,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Maintain a 7-day study streak",
     icon: "🔥",
     category: "streak",
-    requirementType: "streak_days",
-    requirementValue: 7,
+    criteria: { type: "streak", of: "days", min: 7 },
     points: 75,
     confettiOnUnlock: true,
   },
@@ -227,8 +200,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Maintain a 14-day study streak",
     icon: "🔥",
     category: "streak",
-    requirementType: "streak_days",
-    requirementValue: 14,
+    criteria: { type: "streak", of: "days", min: 14 },
     points: 150,
   },
   {
@@ -237,8 +209,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Maintain a 30-day study streak",
     icon: "🔥",
     category: "streak",
-    requirementType: "streak_days",
-    requirementValue: 30,
+    criteria: { type: "streak", of: "days", min: 30 },
     points: 500,
     confettiOnUnlock: true,
   },
@@ -252,8 +223,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Join ARKA-ED during the beta period",
     icon: "🌱",
     category: "special",
-    requirementType: "special",
-    requirementValue: 1,
+    criteria: { type: "manual" },
     points: 100,
     isSecret: true,
   },
@@ -263,8 +233,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Submit 5 helpful feedback reports",
     icon: "💬",
     category: "special",
-    requirementType: "feedback_submitted",
-    requirementValue: 5,
+    criteria: { type: "manual" },
     points: 50,
   },
   {
@@ -273,9 +242,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Pass an assessment with 100%",
     icon: "🎖️",
     category: "special",
-    requirementType: "assessments_passed",
-    requirementValue: 1,
-    requirementMeta: { perfectScore: true },
+    criteria: { type: "assessments", minScore: 100, min: 1 },
     points: 150,
     confettiOnUnlock: true,
   },
@@ -285,8 +252,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Pass 5 different assessments",
     icon: "🏅",
     category: "special",
-    requirementType: "assessments_passed",
-    requirementValue: 5,
+    criteria: { type: "assessments", min: 5 },
     points: 200,
   },
   {
@@ -295,8 +261,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Complete a case after midnight",
     icon: "🦉",
     category: "special",
-    requirementType: "special",
-    requirementValue: 1,
+    criteria: { type: "count", of: "attempts", where: { hours: { from: 0, to: 5 } }, min: 1 },
     isSecret: true,
     points: 25,
   },
@@ -306,8 +271,7 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     description: "Complete 10 cases on weekends",
     icon: "🎮",
     category: "special",
-    requirementType: "special",
-    requirementValue: 10,
+    criteria: { type: "count", of: "attempts", where: { weekdays: [6, 7] }, min: 10 },
     isSecret: true,
     points: 50,
   },
@@ -355,21 +319,9 @@ export function calculateTotalPoints(earnedSlugs: AchievementSlug[]): number {
 /**
  * Get achievement progress percentage
  */
-export function getAchievementProgress(
-  achievement: AchievementDefinition,
-  currentValue: number
-): number {
-  return Math.min(100, Math.round((currentValue / achievement.requirementValue) * 100));
-}
-
-/**
- * Check if achievement should be unlocked
- */
-export function shouldUnlockAchievement(
-  achievement: AchievementDefinition,
-  currentValue: number
-): boolean {
-  return currentValue >= achievement.requirementValue;
+export function getAchievementProgress(progress: number, total: number): number {
+  if (total <= 0) return 100;
+  return Math.min(100, Math.round((progress / total) * 100));
 }
 
 // ============================================================================
@@ -99,6 +99,18 @@ Skin: No xanthomas`,
   specialty_tags: ["fm", "im", "em"] as SpecialtyTrack[],
   difficulty: "intermediate" as DifficultyLevel,
   acr_topic: "ACR Appropriateness Criteria: Chest Pain - Suspected Cardiac Cause",
+  decision_rules: [
+    {
+      rule: "heart",
+      input: {
+        history: 2,
+        ecg: 0,
+        ageYears: 62,
+        riskFactorCount: 5,
+        troponinMultipleOfNormal: 0,
+      },
+    },
+  ],
   optimal_imaging: ["nm-myocardial-perfusion"],
   explanation: `This case represents stable angina pectoris with INTERMEDIATE pretest probability for coronary artery disease (CAD). Functional (stress) testing is appropriate.
 
@@ -234,6 +246,18 @@ Extremities: No leg swelling, no calf tenderness.`,
   specialty_tags: ["fm", "im", "em"] as SpecialtyTrack[],
   difficulty: "beginner" as DifficultyLevel,
   acr_topic: "ACR Appropriateness Criteria: Chest Pain - Low Risk",
+  decision_rules: [
+    {
+      rule: "heart",
+      input: {
+        history: 0,
+        ecg: 0,
+        ageYears: 25,
+        riskFactorCount: 0,
+        troponinMultipleOfNormal: 0,
+      },
+    },
+  ],
   optimal_imaging: ["no-imaging"],
   explanation: `This case represents musculoskeletal (MSK) chest pain, the most common cause of chest pain in the outpatient setting. NO imaging is needed.
 
@@ -383,6 +407,33 @@ Extremities: Right calf slightly fuller than left. Mild tenderness to palpation
   specialty_tags: ["em", "im"] as SpecialtyTrack[],
   difficulty: "intermediate" as DifficultyLevel,
   acr_topic: "ACR Appropriateness Criteria: Suspected Pulmonary Embolism",
+  decision_rules: [
+    {
+      rule: "wells-pe",
+      input: {
+        dvtSigns: true,
+        peMostLikely: true,
+        heartRate: 108,
+        immobilizationOrRecentSurgery: false,
+        priorPEorDVT: false,
+        hemoptysis: false,
+        activeMalignancy: false,
+      },
+    },
+    {
+      rule: "perc",
+      input: {
+        ageYears: 35,
+        heartRate: 108,
+        oxygenSaturation: 94,
+        unilateralLegSwelling: true,
+        hemoptysis: false,
+        recentSurgeryOrTrauma: false,
+        priorPEorDVT: false,
+        hormoneUse: true,
+      },
+    },
+  ],
   optimal_imaging: ["cta-chest-pe"],
   explanation: `This case represents suspected pulmonary embolism (PE) with intermediate clinical probability. CT Pulmonary Angiography (CTPA) is indicated.
 
@@ -68,6 +68,20 @@ Neurovascular: Intact distal pulses, sensation, and motor function`,
   specialty_tags: ["em", "fm"] as SpecialtyTrack[],
   difficulty: "beginner" as DifficultyLevel,
   acr_topic: "ACR Appropriateness Criteria: Acute Ankle Injury",
+  decision_rules: [
+    {
+      rule: "ottawa-ankle",
+      input: {
+        malleolarZonePain: true,
+        midfootZonePain: false,
+        lateralMalleolusTenderness: false,
+        medialMalleolusTenderness: false,
+        fifthMetatarsalBaseTenderness: false,
+        navicularTenderness: false,
+        unableToBearWeight: false,
+      },
+    },
+  ],
   optimal_imaging: ["no-imaging"],
   explanation: `This case represents an ankle injury that DOES NOT meet Ottawa Ankle Rules criteria. No imaging is needed.
 
@@ -202,6 +216,20 @@ Neurovascular: Intact distal pulses, sensation, and motor function (limited by p
   specialty_tags: ["em", "fm"] as SpecialtyTrack[],
   difficulty: "beginner" as DifficultyLevel,
   acr_topic: "ACR Appropriateness Criteria: Acute Ankle Injury",
+  decision_rules: [
+    {
+      rule: "ottawa-ankle",
+      input: {
+        malleolarZonePain: true,
+        midfootZonePain: false,
+        lateralMalleolusTenderness: true,
+        medialMalleolusTenderness: false,
+        fifthMetatarsalBaseTenderness: false,
+        navicularTenderness: false,
+        unableToBearWeight: true,
+      },
+    },
+  ],
   optimal_imaging: ["xray-ankle"],
   explanation: `This case represents an ankle injury that MEETS Ottawa Ankle Rules criteria. Ankle X-ray IS indicated.
 
@@ -495,6 +523,18 @@ Remainder:
   specialty_tags: ["em", "surgery"] as SpecialtyTrack[],
   difficulty: "intermediate" as DifficultyLevel,
   acr_topic: "ACR Appropriateness Criteria: Acute Knee Trauma",
+  decision_rules: [
+    {
+      rule: "ottawa-knee",
+      input: {
+        ageYears: 35,
+        isolatedPatellarTenderness: false,
+        fibularHeadTenderness: false,
+        unableToFlexTo90: true,
+        unableToBearWeight: true,
+      },
+    },
+  ],
   optimal_imaging: ["xray-hip"],
   explanation: `This case represents significant knee trauma from dashboard impact. Knee X-ray is indicated based on Ottawa Knee Rules AND mechanism.
 
@@ -3,12 +3,12 @@
  * Unified case index - exports all cases and provides getCaseBySlug function
  */
 
-import { headacheCases, getHeadacheCaseBySlug } from './headache'
-import { lowBackPainCases, getLBPCaseBySlug } from './low-back-pain'
-import { chestPainCases, getChestPainCaseBySlug } from './chest-pain'
-import { abdominalPainCases, getAbdominalPainCaseBySlug } from './abdominal-pain'
-import { extremityTraumaCases, getExtremityTraumaCaseBySlug } from './extremity-trauma'
-import type { Case } from '@/types/database'
+import { headacheCases, getHeadacheCaseBySlug, getHeadacheImagingRatings } from './headache'
+import { lowBackPainCases, getLBPCaseBySlug, getLBPImagingRatings } from './low-back-pain'
+import { chestPainCases, getChestPainCaseBySlug, getChestPainImagingRatings } from './chest-pain'
+import { abdominalPainCases, getAbdominalPainCaseBySlug, getAbdominalPainImagingRatings } from './abdominal-pain'
+import { extremityTraumaCases, getExtremityTraumaCaseBySlug, getExtremityTraumaImagingRatings } from './extremity-trauma'
+import type { Case, StageImagingRating } from '@/types/database'
 
 // Export all cases
 export const allCases: Case[] = [
@@ -39,3 +39,17 @@ export function getCaseBySlug(slug: string): Case | undefined {
 export function getCaseById(id: string): Case | undefined {
   return allCases.find((c) => c.id === id)
 }
+
+/**
+ * Get the imaging ratings for a case by ID from any category
+ */
+export function getCaseImagingRatings(caseId: string): StageImagingRating[] {
+  return (
+    getHeadacheImagingRatings(caseId) ||
+    getLBPImagingRatings(caseId) ||
+    getChestPainImagingRatings(caseId) ||
+    getAbdominalPainImagingRatings(caseId) ||
+    getExtremityTraumaImagingRatings(caseId) ||
+    []
+  )
+}
@@ -2,7 +2,7 @@
 /**
  * Low Back Pain Seed Cases
  *
- * Five clinical cases covering the spectrum of low back pain presentations
+ * Six clinical cases covering the spectrum of low back pain presentations
  * from simple mechanical LBP to complex cases with red flags.
  *
  * Based on ACR Appropriateness Criteria for Low Back Pain.
@@ -674,6 +674,188 @@ Skin: No ecchymosis over spine`,
   updated_at: new Date().toISOString(),
 };
 
+// ============================================================================
+// Case 6: Longitudinal Sciatica with Progressive Deficit (Advanced)
+// ============================================================================
+
+const sciaticaInitialVignette = `A 44-year-old female warehouse supervisor presents with 10 days of low back pain radiating down the back of her left leg to the lateral foot. The pain began the morning after she helped move inventory. The leg pain is sharp and worse with sitting and bending forward. She has mild tingling along the outer left foot.
+
+She denies weakness, saddle numbness, or bowel or bladder changes. She has no fever, weight loss, history of cancer, or immunosuppression. She has been taking ibuprofen with partial relief and would like "a scan to see what's going on."`;
+
+export const longitudinalSciatica: Case = {
+  id: "lbp-longitudinal-sciatica",
+  slug: "sciatica-progressive-deficit-longitudinal",
+  title: "Sciatica Over Six Weeks: When Does Imaging Change?",
+  chief_complaint: "Back pain radiating down my left leg",
+  clinical_vignette: sciaticaInitialVignette,
+  patient_age: 44,
+  patient_sex: "female",
+  patient_history: [
+    "No significant past medical history",
+    "Warehouse supervisor - intermittent lifting",
+    "No prior back problems",
+    "No history of cancer",
+  ],
+  vital_signs: {
+    heart_rate: 74,
+    blood_pressure_systolic: 124,
+    blood_pressure_diastolic: 80,
+    respiratory_rate: 14,
+    temperature: 36.7,
+    temperature_unit: "celsius",
+    oxygen_saturation: 99,
+  } as VitalSigns,
+  physical_exam: `General: Uncomfortable when seated, shifts weight frequently
+Spine: Mild left paraspinal tenderness. No midline tenderness.
+Neurological: Strength 5/5 bilateral lower extremities including ankle dorsiflexion and great toe extension. Decreased light touch over left lateral foot. Reflexes 2+ and symmetric.
+Special Tests: Positive straight leg raise on the left at 45 degrees
+Gait: Normal, able to heel and toe walk`,
+  lab_results: null,
+  category: "low-back-pain" as CaseCategory,
+  specialty_tags: ["em", "fm", "im"] as SpecialtyTrack[],
+  difficulty: "advanced" as DifficultyLevel,
+  acr_topic: "ACR Appropriateness Criteria: Low Back Pain",
+  optimal_imaging: ["no-imaging"],
+  explanation: `Early sciatica without red flags or motor deficit is managed conservatively. Imaging becomes appropriate when the patient develops a progressive neurologic deficit or remains a candidate for intervention after a failed trial of conservative therapy.`,
+  stages: [
+    {
+      id: "initial-visit",
+      title: "Initial visit",
+      time_offset: null,
+      clinical_vignette: sciaticaInitialVignette,
+      vital_signs: null,
+      physical_exam: null,
+      lab_results: null,
+      optimal_imaging: ["no-imaging"],
+      imaging_ratings: [
+        {
+          imaging_option_id: "no-imaging",
+          acr_rating: 9,
+          rating_category: "usually-appropriate",
+          rationale:
+            "Acute radicular pain without red flags or motor deficit resolves in most patients within 6 weeks. Imaging does not change initial management.",
+        },
+        {
+          imaging_option_id: "xray-lumbar",
+          acr_rating: 2,
+          rating_category: "usually-not-appropriate",
+          rationale:
+            "Radiographs cannot show disc herniation or nerve root compression and add radiation without changing management.",
+        },
+        {
+          imaging_option_id: "mri-lumbar-nc",
+          acr_rating: 3,
+          rating_category: "usually-not-appropriate",
+          rationale:
+            "MRI is reserved for patients with red flags, progressive deficit, or persistent symptoms after 6 weeks of conservative care who are candidates for intervention.",
+        },
+      ],
+      imaging_results: {
+        "xray-lumbar":
+          "Lumbar X-ray: Mild disc space narrowing at L4-5 and L5-S1. No fracture, listhesis, or destructive lesion.",
+        "mri-lumbar-nc":
+          "MRI lumbar spine: Left paracentral L5-S1 disc protrusion contacting the traversing left S1 nerve root.",
+      },
+      outcome:
+        "She is started on a course of physical therapy and scheduled NSAIDs with return precautions for weakness or bowel and bladder symptoms.",
+      explanation: `At 10 days with a normal motor exam and no red flags, conservative management is appropriate. Most radicular pain improves within 6 weeks, and early imaging frequently shows findings that do not change management.`,
+    },
+    {
+      id: "six-week-follow-up",
+      title: "6-week follow-up",
+      time_offset: "6 weeks later",
+      clinical_vignette: `She returns after completing 6 weeks of physical therapy. Her leg pain has worsened rather than improved, now reaching 8/10. Over the past 2 weeks she has noticed her left foot "slapping" when she walks and has tripped twice. Numbness has spread to the top of her left foot.
+
+She still denies saddle numbness and bowel or bladder changes. She is unable to work and asks about further treatment options.`,
+      vital_signs: null,
+      physical_exam: `General: Antalgic gait
+Neurological: Left ankle dorsiflexion 3/5 and great toe extension 3/5 (previously 5/5). Decreased sensation over left dorsal foot and first web space. Reflexes 2+ and symmetric. Normal perianal sensation.
+Special Tests: Positive straight leg raise on the left at 30 degrees
+Gait: Left foot drop, unable to heel walk on the left`,
+      lab_results: null,
+      optimal_imaging: ["mri-lumbar-nc"],
+      imaging_ratings: [
+        {
+          imaging_option_id: "mri-lumbar-nc",
+          acr_rating: 9,
+          rating_category: "usually-appropriate",
+          rationale:
+            "Progressive motor deficit after a failed conservative trial warrants MRI to define the compressive lesion and plan surgical referral.",
+        },
+        {
+          imaging_option_id: "ct-abd-pelvis-nc",
+          acr_rating: 5,
+          rating_category: "may-be-appropriate",
+          rationale:
+            "CT shows bony anatomy but is inferior to MRI for disc and nerve root evaluation; reserve for patients who cannot undergo MRI.",
+        },
+        {
+          imaging_option_id: "xray-lumbar",
+          acr_rating: 2,
+          rating_category: "usually-not-appropriate",
+          rationale:
+            "Radiographs cannot evaluate the nerve root compression causing a new foot drop.",
+        },
+        {
+          imaging_option_id: "no-imaging",
+          acr_rating: 1,
+          rating_category: "usually-not-appropriate",
+          rationale:
+            "A progressive motor deficit is a red flag. Continued conservative management risks permanent weakness.",
+        },
+      ],
+      imaging_results: {
+        "mri-lumbar-nc":
+          "MRI lumbar spine: Large left paracentral L4-5 disc extrusion with caudal migration severely compressing the traversing left L5 nerve root.",
+        "xray-lumbar":
+          "Lumbar X-ray: Unchanged mild degenerative disc disease. No fracture or listhesis.",
+      },
+      outcome:
+        "She is referred urgently to spine surgery and undergoes L4-5 microdiscectomy. Dorsiflexion strength recovers to 4+/5 by 3 months.",
+      explanation: `The clinical picture has changed: a new and progressive L5 motor deficit after a failed 6-week conservative trial. MRI without contrast is now usually appropriate to identify the compressive lesion and guide surgical referral. The same study that was low value at 10 days is now the right test.`,
+    },
+  ],
+  teaching_points: [
+    "Appropriateness depends on timing: the same MRI can be low value at presentation and usually appropriate 6 weeks later",
+    "A new or progressive motor deficit is a red flag that warrants MRI without waiting",
+    "Early imaging in uncomplicated sciatica does not improve outcomes and often shows incidental disc findings",
+    "MRI is the study of choice for radiculopathy when imaging is indicated; radiographs do not show the nerve roots",
+  ],
+  clinical_pearls: [
+    {
+      content:
+        "Foot drop with L5 distribution sensory loss points to L4-5 disc disease compressing the traversing L5 root",
+      category: "high-yield",
+    },
+    {
+      content:
+        "Give patients explicit return precautions at the first visit so progressive deficits are caught early",
+      category: "clinical-pearl",
+    },
+  ] as ClinicalPearl[],
+  hints: [
+    "Has anything about the neurologic exam changed?",
+    "How long has the patient tried conservative therapy?",
+    "Which study shows nerve root compression?",
+  ],
+  references: [
+    {
+      title: "ACR Appropriateness Criteria: Low Back Pain",
+      source: "American College of Radiology",
+      year: 2021,
+      url: "https://acsearch.acr.org/docs/69483/Narrative/",
+    },
+    {
+      title: "Diagnosis and Treatment of Low Back Pain: A Joint Clinical Practice Guideline",
+      source: "Annals of Internal Medicine",
+      year: 2007,
+    },
+  ] as Reference[],
+  is_published: true,
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+};
+
 // ============================================================================
 // Export All Cases
 // ============================================================================
@@ -684,6 +866,7 @@ export const lowBackPainCases: Case[] = [
   chronicLBP,
   lbpWithRadiculopathy,
   suspectedCompressionFracture,
+  longitudinalSciatica,
 ];
 
 /**
@@ -857,6 +1040,9 @@ export const lowBackPainImagingRatings = {
         "Elderly patient with osteoporosis, trauma, and point tenderness has high probability of fracture. Imaging is indicated.",
     },
   ],
+
+  // Case 6: Longitudinal Sciatica (ratings for the initial visit; later stages carry their own)
+  "lbp-longitudinal-sciatica": longitudinalSciatica.stages[0].imaging_ratings,
 };
 
 // ============================================================================
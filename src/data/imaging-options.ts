@@ -769,6 +769,33 @@ export function calculateTotalRadiation(ids: string[]): number {
   );
 }
 
+/**
+ * Relative radiosensitivity multipliers by age, applied to effective dose.
+ * Children carry roughly 2-3x the adult lifetime attributable cancer risk per mSv
+ * (BEIR VII Phase 2, 2006; ICRP Publication 103).
+ */
+export const PEDIATRIC_DOSE_WEIGHTS: { maxAgeYears: number; weight: number }[] = [
+  { maxAgeYears: 4, weight: 3 },
+  { maxAgeYears: 9, weight: 2.5 },
+  { maxAgeYears: 14, weight: 2 },
+  { maxAgeYears: 17, weight: 1.5 },
+];
+
+/**
+ * Get the age weighting for a patient (1 for adults)
+ */
+export function getAgeDoseWeight(ageYears: number): number {
+  const band = PEDIATRIC_DOSE_WEIGHTS.find((b) => ageYears <= b.maxAgeYears);
+  return band ? band.weight : 1;
+}
+
+/**
+ * Calculate age-weighted radiation for selected imaging options
+ */
+export function calculateAgeWeightedRadiation(ids: string[], ageYears: number): number {
+  return calculateTotalRadiation(ids) * getAgeDoseWeight(ageYears);
+}
+
 /**
  * Get radiation category based on mSv value
  * Based on ACR guidelines for radiation dose categories
@@ -810,6 +837,23 @@ export function getRadiationEquivalent(mSv: number): string {
   return `Equivalent to ~${cxrEquivalent} chest X-rays`;
 }
 
+/**
+ * Average annual natural background radiation in the US (NCRP Report 160)
+ */
+export const ANNUAL_BACKGROUND_MSV = 3.1;
+
+/**
+ * Get radiation equivalent in days, months, or years of natural background
+ */
+export function getBackgroundRadiationEquivalent(mSv: number): string {
+  if (mSv === 0) return "No added background exposure";
+  const days = (mSv / ANNUAL_BACKGROUND_MSV) * 365;
+  if (days < 1) return "Less than 1 day of natural background";
+  if (days < 60) return `~${Math.round(days)} days of natural background`;
+  if (days < 730) return `~${Math.round(days / 30)} months of natural background`;
+  return `~${Math.round(days / 365)} years of natural background`;
+}
+
 /**
  * Get cost category
  */
@@ -110,7 +110,7 @@ export const SPECIALTY_TRACKS: Record<SpecialtyTrackEnum, SpecialtyTrackConfig>
         estimatedMinutes: 60,
       },
     ],
-    assessmentId: "em-comprehensive",
+    assessmentId: "specialty-em",
     certificateName: "Emergency Imaging Appropriateness Certificate",
     prerequisites: [],
     resources: [
@@ -172,7 +172,7 @@ export const SPECIALTY_TRACKS: Record<SpecialtyTrackEnum, SpecialtyTrackConfig>
         estimatedMinutes: 90,
       },
     ],
-    assessmentId: "im-comprehensive",
+    assessmentId: "specialty-im",
     certificateName: "Internal Medicine Imaging Appropriateness Certificate",
     prerequisites: [],
     resources: [
@@ -233,7 +233,7 @@ export const SPECIALTY_TRACKS: Record<SpecialtyTrackEnum, SpecialtyTrackConfig>
         estimatedMinutes: 60,
       },
     ],
-    assessmentId: "fm-comprehensive",
+    assessmentId: "specialty-fm",
     certificateName: "Primary Care Imaging Appropriateness Certificate",
     prerequisites: [],
     resources: [
@@ -294,7 +294,7 @@ export const SPECIALTY_TRACKS: Record<SpecialtyTrackEnum, SpecialtyTrackConfig>
         estimatedMinutes: 75,
       },
     ],
-    assessmentId: "surgery-comprehensive",
+    assessmentId: "specialty-surgery",
     certificateName: "Surgical Imaging Appropriateness Certificate",
     prerequisites: [],
     resources: [
@@ -355,7 +355,7 @@ export const SPECIALTY_TRACKS: Record<SpecialtyTrackEnum, SpecialtyTrackConfig>
         estimatedMinutes: 60,
       },
     ],
-    assessmentId: "peds-comprehensive",
+    assessmentId: "specialty-peds",
     certificateName: "Pediatric Imaging Appropriateness Certificate",
     prerequisites: [],
     resources: [
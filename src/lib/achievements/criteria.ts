@@ -0,0 +1,241 @@
+/**
+ * Achievement criteria: a small JSON expression language describing when an
+ * achievement is earned. Criteria are stored on each achievement row and
+ * evaluated by the database (achievement_criteria_progress, migration 014),
+ * so admins can add achievements without a code change.
+ *
+ * Example, "5 perfect headache cases in a week":
+ *   { type: 'count', of: 'cases', min: 5, within: { days: 7 },
+ *     where: { categories: ['headache'], minScore: 100 } }
+ */
+
+import { z } from 'zod'
+import { caseCategorySchema, difficultySchema } from '@/lib/cases/schema'
+import type { AttemptMode, CaseCategory, DifficultyLevel } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Which case attempts a condition looks at. All fields must match. */
+export interface AttemptFilter {
+  categories?: CaseCategory[]
+  difficulties?: DifficultyLevel[]
+  modes?: AttemptMode[]
+  correct?: boolean
+  minScore?: number
+  /** Only attempts the database timed from the case's start can match */
+  maxTimeSeconds?: number
+  /** UTC hours, from inclusive to exclusive; wraps past midnight when from > to */
+  hours?: { from: number; to: number }
+  /** ISO weekdays in UTC, 1 = Monday … 7 = Sunday */
+  weekdays?: number[]
+}
+
+/** Met if it ever held inside some span of this many days */
+export interface CriteriaWindow {
+  days: number
+}
+
+/** At least `min` matching attempts, distinct cases, categories or active days */
+export interface CountCriterion {
+  type: 'count'
+  of: 'attempts' | 'cases' | 'categories' | 'days'
+  where?: AttemptFilter
+  within?: CriteriaWindow
+  min: number
+}
+
+/** At least `min` percent of matching attempts correct, over `minAttempts` or more */
+export interface AccuracyCriterion {
+  type: 'accuracy'
+  where?: AttemptFilter
+  within?: CriteriaWindow
+  /** Judge each case category separately and take the best */
+  perCategory?: boolean
+  minAttempts: number
+  min: number
+}
+
+/**
+ * A current run of at least `min`: consecutive UTC days with a matching
+ * attempt (ending today or yesterday), or the learner's most recent
+ * attempts all matching
+ */
+export interface StreakCriterion {
+  type: 'streak'
+  of: 'days' | 'attempts'
+  where?: AttemptFilter
+  min: number
+}
+
+/** At least `min` different assessments passed */
+export interface AssessmentCriterion {
+  type: 'assessments'
+  minScore?: number
+  within?: CriteriaWindow
+  min: number
+}
+
+/** Never earned automatically; awarded by hand */
+export interface ManualCriterion {
+  type: 'manual'
+}
+
+export interface AllCriterion {
+  type: 'all'
+  conditions: AchievementCriteria[]
+}
+
+export interface AnyCriterion {
+  type: 'any'
+  conditions: AchievementCriteria[]
+}
+
+export type AchievementCriteria =
+  | CountCriterion
+  | AccuracyCriterion
+  | StreakCriterion
+  | AssessmentCriterion
+  | ManualCriterion
+  | AllCriterion
+  | AnyCriterion
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const hourSchema = z.number().int().min(0).max(23)
+const countSchema = z.number().int().positive()
+
+export const attemptFilterSchema = z
+  .object({
+    categories: z.array(caseCategorySchema).min(1).optional(),
+    difficulties: z.array(difficultySchema).min(1).optional(),
+    modes: z.array(z.enum(['practice', 'assessment', 'learning'])).min(1).optional(),
+    correct: z.boolean().optional(),
+    minScore: z.number().int().min(0).max(100).optional(),
+    maxTimeSeconds: z.number().int().positive().optional(),
+    hours: z.object({ from: hourSchema, to: hourSchema }).strict().optional(),
+    weekdays: z.array(z.number().int().min(1).max(7)).min(1).optional(),
+  })
+  .strict()
+
+const windowSchema = z.object({ days: countSchema }).strict()
+
+export const achievementCriteriaSchema = z.lazy(() =>
+  z.discriminatedUnion('type', [
+    z
+      .object({
+        type: z.literal('count'),
+        of: z.enum(['attempts', 'cases', 'categories', 'days']),
+        where: attemptFilterSchema.optional(),
+        within: windowSchema.optional(),
+        min: countSchema,
+      })
+      .strict(),
+    z
+      .object({
+        type: z.literal('accuracy'),
+        where: attemptFilterSchema.optional(),
+        within: windowSchema.optional(),
+        perCategory: z.boolean().optional(),
+        minAttempts: countSchema,
+        min: z.number().int().min(1).max(100),
+      })
+      .strict(),
+    z
+      .object({
+        type: z.literal('streak'),
+        of: z.enum(['days', 'attempts']),
+        where: attemptFilterSchema.optional(),
+        min: countSchema,
+      })
+      .strict(),
+    z
+      .object({
+        type: z.literal('assessments'),
+        minScore: z.number().int().min(0).max(100).optional(),
+        within: windowSchema.optional(),
+        min: countSchema,
+      })
+      .strict(),
+    z.object({ type: z.literal('manual') }).strict(),
+    z
+      .object({
+        type: z.literal('all'),
+        conditions: z.array(achievementCriteriaSchema).min(1),
+      })
+      .strict(),
+    z
+      .object({
+        type: z.literal('any'),
+        conditions: z.array(achievementCriteriaSchema).min(1),
+      })
+      .strict(),
+  ])
+) as z.ZodType<AchievementCriteria>
+
+// ============================================================================
+// Description
+// ============================================================================
+
+const COUNT_NOUNS: Record<CountCriterion['of'], [string, string]> = {
+  attempts: ['case attempt', 'case attempts'],
+  cases: ['different case', 'different cases'],
+  categories: ['category', 'categories'],
+  days: ['active day', 'active days'],
+}
+
+const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+function plural(count: number, [one, many]: [string, string]): string {
+  return `${count} ${count === 1 ? one : many}`
+}
+
+function describeFilter(where?: AttemptFilter): string {
+  if (!where) return ''
+  const parts: string[] = []
+  if (where.categories) parts.push(where.categories.join(' or '))
+  if (where.difficulties) parts.push(where.difficulties.join(' or '))
+  if (where.modes) parts.push(`${where.modes.join(' or ')} mode`)
+  if (where.correct !== undefined) parts.push(where.correct ? 'correct' : 'incorrect')
+  if (where.minScore !== undefined) parts.push(`score ≥ ${where.minScore}%`)
+  if (where.maxTimeSeconds !== undefined) parts.push(`≤ ${where.maxTimeSeconds}s`)
+  if (where.hours) parts.push(`${where.hours.from}:00–${where.hours.to}:00 UTC`)
+  if (where.weekdays) parts.push(where.weekdays.map((d) => WEEKDAY_NAMES[d - 1]).join('/'))
+  return parts.length ? ` (${parts.join(', ')})` : ''
+}
+
+function describeWindow(within?: CriteriaWindow): string {
+  return within ? ` within ${plural(within.days, ['day', 'days'])}` : ''
+}
+
+/**
+ * One-line, human-readable summary of criteria, for admin screens
+ */
+export function describeCriteria(criteria: AchievementCriteria): string {
+  switch (criteria.type) {
+    case 'count':
+      return `${plural(criteria.min, COUNT_NOUNS[criteria.of])}${describeFilter(criteria.where)}${describeWindow(criteria.within)}`
+    case 'accuracy':
+      return `${criteria.min}% accuracy${criteria.perCategory ? ' in one category' : ''} over ${plural(criteria.minAttempts, ['attempt', 'attempts'])}${describeFilter(criteria.where)}${describeWindow(criteria.within)}`
+    case 'streak':
+      return criteria.of === 'days'
+        ? `${criteria.min}-day streak${describeFilter(criteria.where)}`
+        : `${plural(criteria.min, ['attempt', 'attempts'])} in a row${describeFilter(criteria.where)}`
+    case 'assessments':
+      return `${plural(criteria.min, ['assessment', 'assessments'])} passed${criteria.minScore !== undefined ? ` with ≥ ${criteria.minScore}%` : ''}${describeWindow(criteria.within)}`
+    case 'manual':
+      return 'Awarded by an admin'
+    case 'all':
+      return criteria.conditions.map(describeCondition).join(' and ')
+    case 'any':
+      return criteria.conditions.map(describeCondition).join(' or ')
+  }
+}
+
+function describeCondition(criteria: AchievementCriteria): string {
+  const text = describeCriteria(criteria)
+  return criteria.type === 'all' || criteria.type === 'any' ? `(${text})` : text
+}
@@ -0,0 +1,74 @@
+import { ClinicalInput, ScoringResult, ShapFactor, rankImagingOptions } from './scoring-engine'
+
+// "What-if" comparisons: rescore every modality for an edited clinical
+// input and report which factors moved each modality's score.
+
+export interface FactorChange {
+  factor: string
+  before: number
+  after: number
+  change: 'added' | 'removed' | 'changed'
+}
+
+export interface ModalityComparison {
+  modality: string
+  base: ScoringResult
+  variant: ScoringResult
+  delta: number
+  categoryFlipped: boolean
+  changedFactors: FactorChange[]
+}
+
+/**
+ * Diff two SHAP factor lists by factor name.
+ * Factors whose contribution is unchanged are omitted.
+ */
+export function diffShapFactors(before: ShapFactor[], after: ShapFactor[]): FactorChange[] {
+  const beforeByFactor = new Map(before.map(f => [f.factor, f.contribution]))
+  const afterByFactor = new Map(after.map(f => [f.factor, f.contribution]))
+  const changes: FactorChange[] = []
+
+  for (const [factor, contribution] of beforeByFactor) {
+    const next = afterByFactor.get(factor)
+    if (next === undefined) {
+      changes.push({ factor, before: contribution, after: 0, change: 'removed' })
+    } else if (next !== contribution) {
+      changes.push({ factor, before: contribution, after: next, change: 'changed' })
+    }
+  }
+  for (const [factor, contribution] of afterByFactor) {
+    if (!beforeByFactor.has(factor)) {
+      changes.push({ factor, before: 0, after: contribution, change: 'added' })
+    }
+  }
+
+  return changes.sort(
+    (a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before)
+  )
+}
+
+/**
+ * Score the original and edited inputs across the same modalities.
+ * Results follow the edited input's ranking.
+ */
+export function compareScenarios(
+  base: ClinicalInput,
+  variant: ClinicalInput,
+  modalities: string[]
+): ModalityComparison[] {
+  const baseByModality = new Map(
+    rankImagingOptions(base, modalities).map(r => [r.modality, r])
+  )
+
+  return rankImagingOptions(variant, modalities).map(variantResult => {
+    const baseResult = baseByModality.get(variantResult.modality)!
+    return {
+      modality: variantResult.modality,
+      base: baseResult,
+      variant: variantResult,
+      delta: Math.round((variantResult.finalScore - baseResult.finalScore) * 10) / 10,
+      categoryFlipped: variantResult.category !== baseResult.category,
+      changedFactors: diffShapFactors(baseResult.shapFactors, variantResult.shapFactors)
+    }
+  })
+}
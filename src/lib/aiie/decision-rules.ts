@@ -0,0 +1,523 @@
+/**
+ * Validated clinical decision rules taught in the ARKA-ED case library.
+ * Each evaluator takes structured findings and returns the rule outcome
+ * together with every criterion and whether it was met, so the same result
+ * can drive an AIIE SHAP factor and the post-submission rule worksheet.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DecisionRuleId =
+  | 'pecarn'
+  | 'canadian-ct-head'
+  | 'ottawa-ankle'
+  | 'ottawa-knee'
+  | 'nexus'
+  | 'wells-pe'
+  | 'perc'
+  | 'heart'
+
+export type DecisionRuleRisk = 'low' | 'intermediate' | 'high'
+
+export interface DecisionRuleCriterion {
+  id: string
+  label: string
+  met: boolean
+  // Points awarded for scored rules (Wells, HEART)
+  points?: number
+}
+
+export interface DecisionRuleResult {
+  rule: DecisionRuleId
+  name: string
+  // False when the patient falls outside the rule's validated population
+  applicable: boolean
+  risk: DecisionRuleRisk
+  imagingIndicated: boolean
+  score?: number
+  outcome: string
+  recommendation: string
+  criteria: DecisionRuleCriterion[]
+  citation: string
+}
+
+export interface PecarnInput {
+  ageYears: number
+  gcs: number
+  alteredMentalStatus?: boolean
+  // Under 2 years
+  palpableSkullFracture?: boolean
+  nonFrontalScalpHematoma?: boolean
+  actingAbnormallyPerParent?: boolean
+  // 2 years and older
+  basilarSkullFractureSigns?: boolean
+  vomiting?: boolean
+  severeHeadache?: boolean
+  // Both age groups
+  lossOfConsciousnessSeconds?: number
+  severeMechanism?: boolean
+}
+
+export interface CanadianCTHeadInput {
+  ageYears: number
+  // GCS 2 hours after injury
+  gcsAt2Hours: number
+  suspectedOpenOrDepressedSkullFracture?: boolean
+  basilarSkullFractureSigns?: boolean
+  vomitingEpisodes?: number
+  retrogradeAmnesiaMinutes?: number
+  dangerousMechanism?: boolean
+  // Exclusions from the derivation cohort
+  onAnticoagulation?: boolean
+  postTraumaticSeizure?: boolean
+}
+
+export interface OttawaAnkleInput {
+  malleolarZonePain: boolean
+  midfootZonePain?: boolean
+  lateralMalleolusTenderness?: boolean
+  medialMalleolusTenderness?: boolean
+  fifthMetatarsalBaseTenderness?: boolean
+  navicularTenderness?: boolean
+  unableToBearWeight?: boolean
+}
+
+export interface OttawaKneeInput {
+  ageYears: number
+  isolatedPatellarTenderness?: boolean
+  fibularHeadTenderness?: boolean
+  unableToFlexTo90?: boolean
+  unableToBearWeight?: boolean
+}
+
+export interface NexusInput {
+  midlineTenderness?: boolean
+  focalNeurologicDeficit?: boolean
+  alteredAlertness?: boolean
+  intoxication?: boolean
+  distractingInjury?: boolean
+}
+
+export interface WellsPEInput {
+  dvtSigns?: boolean
+  peMostLikely?: boolean
+  heartRate: number
+  immobilizationOrRecentSurgery?: boolean
+  priorPEorDVT?: boolean
+  hemoptysis?: boolean
+  activeMalignancy?: boolean
+}
+
+export interface PercInput {
+  ageYears: number
+  heartRate: number
+  oxygenSaturation: number
+  unilateralLegSwelling?: boolean
+  hemoptysis?: boolean
+  recentSurgeryOrTrauma?: boolean
+  priorPEorDVT?: boolean
+  hormoneUse?: boolean
+}
+
+export type HeartComponentScore = 0 | 1 | 2
+
+export interface HeartInput {
+  // 0 slightly, 1 moderately, 2 highly suspicious
+  history: HeartComponentScore
+  // 0 normal, 1 non-specific repolarization, 2 significant ST deviation
+  ecg: HeartComponentScore
+  ageYears: number
+  riskFactorCount: number
+  knownAtheroscleroticDisease?: boolean
+  // Initial troponin as a multiple of the upper reference limit
+  troponinMultipleOfNormal: number
+}
+
+// Structured rule inputs as stored on a case; evaluated with evaluateDecisionRule
+export type DecisionRuleInput =
+  | { rule: 'pecarn'; input: PecarnInput }
+  | { rule: 'canadian-ct-head'; input: CanadianCTHeadInput }
+  | { rule: 'ottawa-ankle'; input: OttawaAnkleInput }
+  | { rule: 'ottawa-knee'; input: OttawaKneeInput }
+  | { rule: 'nexus'; input: NexusInput }
+  | { rule: 'wells-pe'; input: WellsPEInput }
+  | { rule: 'perc'; input: PercInput }
+  | { rule: 'heart'; input: HeartInput }
+
+// ============================================================================
+// Rule metadata
+// ============================================================================
+
+export const DECISION_RULES: Record<DecisionRuleId, { name: string; citation: string }> = {
+  'pecarn': {
+    name: 'PECARN Pediatric Head Injury Rule',
+    citation: 'Kuppermann N et al. Lancet 2009: Identification of children at very low risk of clinically important brain injuries'
+  },
+  'canadian-ct-head': {
+    name: 'Canadian CT Head Rule',
+    citation: 'Stiell IG et al. Lancet 2001: The Canadian CT Head Rule for patients with minor head injury'
+  },
+  'ottawa-ankle': {
+    name: 'Ottawa Ankle Rules',
+    citation: 'Stiell IG et al. JAMA 1993: Decision rules for the use of radiography in acute ankle injuries'
+  },
+  'ottawa-knee': {
+    name: 'Ottawa Knee Rule',
+    citation: 'Stiell IG et al. JAMA 1996: Derivation of a decision rule for the use of radiography in acute knee injuries'
+  },
+  'nexus': {
+    name: 'NEXUS C-Spine Criteria',
+    citation: 'Hoffman JR et al. NEJM 2000: Validity of a set of clinical criteria to rule out injury to the cervical spine'
+  },
+  'wells-pe': {
+    name: 'Wells Criteria for PE',
+    citation: 'Wells PS et al. Thromb Haemost 2000: Derivation of a simple clinical model to categorize pretest probability of PE'
+  },
+  'perc': {
+    name: 'PERC Rule',
+    citation: 'Kline JA et al. J Thromb Haemost 2004: Clinical criteria to prevent unnecessary diagnostic testing for PE'
+  },
+  'heart': {
+    name: 'HEART Score',
+    citation: 'Six AJ et al. Neth Heart J 2008: Chest pain in the emergency room: value of the HEART score'
+  }
+}
+
+function buildResult(
+  rule: DecisionRuleId,
+  fields: Omit<DecisionRuleResult, 'rule' | 'name' | 'citation'>
+): DecisionRuleResult {
+  return { rule, ...DECISION_RULES[rule], ...fields }
+}
+
+export function getMetCriteria(result: DecisionRuleResult): DecisionRuleCriterion[] {
+  return result.criteria.filter(c => c.met)
+}
+
+// ============================================================================
+// Head trauma
+// ============================================================================
+
+export function evaluatePecarn(input: PecarnInput): DecisionRuleResult {
+  const loc = input.lossOfConsciousnessSeconds ?? 0
+  const underTwo = input.ageYears < 2
+
+  const high: DecisionRuleCriterion[] = underTwo
+    ? [
+        { id: 'gcs', label: 'GCS < 15', met: input.gcs < 15 },
+        { id: 'ams', label: 'Other signs of altered mental status', met: !!input.alteredMentalStatus },
+        { id: 'skull-fracture', label: 'Palpable skull fracture', met: !!input.palpableSkullFracture }
+      ]
+    : [
+        { id: 'gcs', label: 'GCS < 15', met: input.gcs < 15 },
+        { id: 'ams', label: 'Other signs of altered mental status', met: !!input.alteredMentalStatus },
+        { id: 'basilar-fracture', label: 'Signs of basilar skull fracture', met: !!input.basilarSkullFractureSigns }
+      ]
+  const intermediate: DecisionRuleCriterion[] = underTwo
+    ? [
+        { id: 'scalp-hematoma', label: 'Occipital, parietal or temporal scalp hematoma', met: !!input.nonFrontalScalpHematoma },
+        { id: 'loc', label: 'Loss of consciousness ≥ 5 seconds', met: loc >= 5 },
+        { id: 'mechanism', label: 'Severe mechanism of injury', met: !!input.severeMechanism },
+        { id: 'acting-abnormally', label: 'Not acting normally per parent', met: !!input.actingAbnormallyPerParent }
+      ]
+    : [
+        { id: 'loc', label: 'Any loss of consciousness', met: loc > 0 },
+        { id: 'vomiting', label: 'Vomiting', met: !!input.vomiting },
+        { id: 'mechanism', label: 'Severe mechanism of injury', met: !!input.severeMechanism },
+        { id: 'headache', label: 'Severe headache', met: !!input.severeHeadache }
+      ]
+
+  const criteria = [...high, ...intermediate]
+  if (high.some(c => c.met)) {
+    return buildResult('pecarn', {
+      applicable: true,
+      risk: 'high',
+      imagingIndicated: true,
+      outcome: 'High risk (ciTBI ≈ 4%)',
+      recommendation: 'CT head recommended',
+      criteria
+    })
+  }
+  if (intermediate.some(c => c.met)) {
+    return buildResult('pecarn', {
+      applicable: true,
+      risk: 'intermediate',
+      imagingIndicated: false,
+      outcome: 'Intermediate risk (ciTBI ≈ 0.9%)',
+      recommendation: 'Observation versus CT based on clinician experience, multiple findings, worsening symptoms and parental preference',
+      criteria
+    })
+  }
+  return buildResult('pecarn', {
+    applicable: true,
+    risk: 'low',
+    imagingIndicated: false,
+    outcome: 'Very low risk (ciTBI < 0.05%)',
+    recommendation: 'CT not recommended',
+    criteria
+  })
+}
+
+export function evaluateCanadianCTHead(input: CanadianCTHeadInput): DecisionRuleResult {
+  const high: DecisionRuleCriterion[] = [
+    { id: 'gcs', label: 'GCS < 15 at 2 hours after injury', met: input.gcsAt2Hours < 15 },
+    { id: 'open-fracture', label: 'Suspected open or depressed skull fracture', met: !!input.suspectedOpenOrDepressedSkullFracture },
+    { id: 'basilar-fracture', label: 'Any sign of basilar skull fracture', met: !!input.basilarSkullFractureSigns },
+    { id: 'vomiting', label: 'Vomiting ≥ 2 episodes', met: (input.vomitingEpisodes ?? 0) >= 2 },
+    { id: 'age', label: 'Age ≥ 65 years', met: input.ageYears >= 65 }
+  ]
+  const medium: DecisionRuleCriterion[] = [
+    { id: 'amnesia', label: 'Retrograde amnesia ≥ 30 minutes', met: (input.retrogradeAmnesiaMinutes ?? 0) >= 30 },
+    { id: 'mechanism', label: 'Dangerous mechanism', met: !!input.dangerousMechanism }
+  ]
+  const criteria = [...high, ...medium]
+
+  if (input.ageYears < 16 || input.onAnticoagulation || input.postTraumaticSeizure) {
+    return buildResult('canadian-ct-head', {
+      applicable: false,
+      risk: 'intermediate',
+      imagingIndicated: false,
+      outcome: 'Rule not applicable',
+      recommendation: 'Patient meets an exclusion (age < 16, anticoagulation or seizure); use clinical judgment',
+      criteria
+    })
+  }
+  if (high.some(c => c.met)) {
+    return buildResult('canadian-ct-head', {
+      applicable: true,
+      risk: 'high',
+      imagingIndicated: true,
+      outcome: 'High risk for neurosurgical intervention',
+      recommendation: 'CT head required',
+      criteria
+    })
+  }
+  if (medium.some(c => c.met)) {
+    return buildResult('canadian-ct-head', {
+      applicable: true,
+      risk: 'intermediate',
+      imagingIndicated: true,
+      outcome: 'Medium risk for brain injury on CT',
+      recommendation: 'CT head required',
+      criteria
+    })
+  }
+  return buildResult('canadian-ct-head', {
+    applicable: true,
+    risk: 'low',
+    imagingIndicated: false,
+    outcome: 'Low risk',
+    recommendation: 'CT head not required',
+    criteria
+  })
+}
+
+// ============================================================================
+// Musculoskeletal trauma
+// ============================================================================
+
+export function evaluateOttawaAnkle(input: OttawaAnkleInput): DecisionRuleResult {
+  const ankleCriteria: DecisionRuleCriterion[] = [
+    { id: 'lateral-malleolus', label: 'Bone tenderness at posterior edge or tip of lateral malleolus', met: !!input.lateralMalleolusTenderness },
+    { id: 'medial-malleolus', label: 'Bone tenderness at posterior edge or tip of medial malleolus', met: !!input.medialMalleolusTenderness }
+  ]
+  const footCriteria: DecisionRuleCriterion[] = [
+    { id: 'fifth-metatarsal', label: 'Bone tenderness at base of 5th metatarsal', met: !!input.fifthMetatarsalBaseTenderness },
+    { id: 'navicular', label: 'Bone tenderness at navicular', met: !!input.navicularTenderness }
+  ]
+  const weightBearing: DecisionRuleCriterion = {
+    id: 'weight-bearing',
+    label: 'Unable to bear weight both immediately and in the ED (4 steps)',
+    met: !!input.unableToBearWeight
+  }
+
+  const ankleSeries = input.malleolarZonePain && (ankleCriteria.some(c => c.met) || weightBearing.met)
+  const footSeries = !!input.midfootZonePain && (footCriteria.some(c => c.met) || weightBearing.met)
+  const views = [ankleSeries && 'ankle', footSeries && 'foot'].filter(Boolean).join(' and ')
+
+  return buildResult('ottawa-ankle', {
+    applicable: input.malleolarZonePain || !!input.midfootZonePain,
+    risk: ankleSeries || footSeries ? 'high' : 'low',
+    imagingIndicated: ankleSeries || footSeries,
+    outcome: ankleSeries || footSeries ? 'Ottawa positive' : 'Ottawa negative',
+    recommendation: ankleSeries || footSeries
+      ? `${views.charAt(0).toUpperCase()}${views.slice(1)} radiographs indicated`
+      : 'Radiographs not indicated; treat as sprain',
+    criteria: [...ankleCriteria, ...footCriteria, weightBearing]
+  })
+}
+
+export function evaluateOttawaKnee(input: OttawaKneeInput): DecisionRuleResult {
+  const criteria: DecisionRuleCriterion[] = [
+    { id: 'age', label: 'Age ≥ 55 years', met: input.ageYears >= 55 },
+    { id: 'patella', label: 'Isolated tenderness of the patella', met: !!input.isolatedPatellarTenderness },
+    { id: 'fibular-head', label: 'Tenderness at head of fibula', met: !!input.fibularHeadTenderness },
+    { id: 'flexion', label: 'Inability to flex to 90°', met: !!input.unableToFlexTo90 },
+    { id: 'weight-bearing', label: 'Unable to bear weight both immediately and in the ED (4 steps)', met: !!input.unableToBearWeight }
+  ]
+  const positive = criteria.some(c => c.met)
+
+  return buildResult('ottawa-knee', {
+    applicable: true,
+    risk: positive ? 'high' : 'low',
+    imagingIndicated: positive,
+    outcome: positive ? 'Ottawa positive' : 'Ottawa negative',
+    recommendation: positive ? 'Knee radiographs indicated' : 'Radiographs not indicated',
+    criteria
+  })
+}
+
+export function evaluateNexus(input: NexusInput): DecisionRuleResult {
+  const criteria: DecisionRuleCriterion[] = [
+    { id: 'midline', label: 'Posterior midline cervical tenderness', met: !!input.midlineTenderness },
+    { id: 'neuro', label: 'Focal neurologic deficit', met: !!input.focalNeurologicDeficit },
+    { id: 'alertness', label: 'Altered level of alertness', met: !!input.alteredAlertness },
+    { id: 'intoxication', label: 'Evidence of intoxication', met: !!input.intoxication },
+    { id: 'distracting', label: 'Painful distracting injury', met: !!input.distractingInjury }
+  ]
+  const positive = criteria.some(c => c.met)
+
+  return buildResult('nexus', {
+    applicable: true,
+    risk: positive ? 'high' : 'low',
+    imagingIndicated: positive,
+    outcome: positive ? 'NEXUS criteria not satisfied' : 'NEXUS low risk',
+    recommendation: positive ? 'Cervical spine imaging indicated' : 'Cervical spine imaging not required',
+    criteria
+  })
+}
+
+// ============================================================================
+// Chest pain
+// ============================================================================
+
+export function evaluateWellsPE(input: WellsPEInput): DecisionRuleResult {
+  const criteria: DecisionRuleCriterion[] = [
+    { id: 'dvt', label: 'Clinical signs and symptoms of DVT', met: !!input.dvtSigns, points: 3 },
+    { id: 'pe-likely', label: 'PE is the most likely diagnosis', met: !!input.peMostLikely, points: 3 },
+    { id: 'hr', label: 'Heart rate > 100', met: input.heartRate > 100, points: 1.5 },
+    { id: 'immobilization', label: 'Immobilization ≥ 3 days or surgery in previous 4 weeks', met: !!input.immobilizationOrRecentSurgery, points: 1.5 },
+    { id: 'prior', label: 'Previous PE or DVT', met: !!input.priorPEorDVT, points: 1.5 },
+    { id: 'hemoptysis', label: 'Hemoptysis', met: !!input.hemoptysis, points: 1 },
+    { id: 'malignancy', label: 'Malignancy with treatment within 6 months', met: !!input.activeMalignancy, points: 1 }
+  ]
+  const score = criteria.reduce((sum, c) => sum + (c.met ? c.points ?? 0 : 0), 0)
+  const likely = score > 4
+
+  return buildResult('wells-pe', {
+    applicable: true,
+    risk: score > 6 ? 'high' : score >= 2 ? 'intermediate' : 'low',
+    imagingIndicated: likely,
+    score,
+    outcome: likely ? `PE likely (score ${score})` : `PE unlikely (score ${score})`,
+    recommendation: likely
+      ? 'CT pulmonary angiography indicated'
+      : 'Apply PERC if low risk, otherwise obtain D-dimer before imaging',
+    criteria
+  })
+}
+
+export function evaluatePerc(input: PercInput): DecisionRuleResult {
+  const criteria: DecisionRuleCriterion[] = [
+    { id: 'age', label: 'Age ≥ 50', met: input.ageYears >= 50 },
+    { id: 'hr', label: 'Heart rate ≥ 100', met: input.heartRate >= 100 },
+    { id: 'spo2', label: 'SaO₂ < 95%', met: input.oxygenSaturation < 95 },
+    { id: 'leg-swelling', label: 'Unilateral leg swelling', met: !!input.unilateralLegSwelling },
+    { id: 'hemoptysis', label: 'Hemoptysis', met: !!input.hemoptysis },
+    { id: 'surgery', label: 'Surgery or trauma within 4 weeks', met: !!input.recentSurgeryOrTrauma },
+    { id: 'prior', label: 'Prior PE or DVT', met: !!input.priorPEorDVT },
+    { id: 'hormones', label: 'Hormone use', met: !!input.hormoneUse }
+  ]
+  const positive = criteria.some(c => c.met)
+
+  return buildResult('perc', {
+    applicable: true,
+    risk: positive ? 'intermediate' : 'low',
+    imagingIndicated: false,
+    outcome: positive ? 'PERC positive' : 'PERC negative',
+    recommendation: positive
+      ? 'PE cannot be excluded clinically; obtain D-dimer or risk-stratify with Wells'
+      : 'PE ruled out in a low-pretest-probability patient; no further testing',
+    criteria
+  })
+}
+
+export function evaluateHeart(input: HeartInput): DecisionRuleResult {
+  const age: HeartComponentScore = input.ageYears >= 65 ? 2 : input.ageYears >= 45 ? 1 : 0
+  const risk: HeartComponentScore =
+    input.riskFactorCount >= 3 || input.knownAtheroscleroticDisease ? 2 : input.riskFactorCount >= 1 ? 1 : 0
+  const troponin: HeartComponentScore =
+    input.troponinMultipleOfNormal > 3 ? 2 : input.troponinMultipleOfNormal > 1 ? 1 : 0
+
+  const criteria: DecisionRuleCriterion[] = [
+    { id: 'history', label: 'History', met: input.history > 0, points: input.history },
+    { id: 'ecg', label: 'ECG', met: input.ecg > 0, points: input.ecg },
+    { id: 'age', label: 'Age', met: age > 0, points: age },
+    { id: 'risk-factors', label: 'Risk factors', met: risk > 0, points: risk },
+    { id: 'troponin', label: 'Troponin', met: troponin > 0, points: troponin }
+  ]
+  const score = criteria.reduce((sum, c) => sum + (c.points ?? 0), 0)
+
+  if (score >= 7) {
+    return buildResult('heart', {
+      applicable: true,
+      risk: 'high',
+      imagingIndicated: true,
+      score,
+      outcome: `High risk (score ${score}, 6-week MACE 50-65%)`,
+      recommendation: 'Early invasive strategy; cardiology consultation',
+      criteria
+    })
+  }
+  if (score >= 4) {
+    return buildResult('heart', {
+      applicable: true,
+      risk: 'intermediate',
+      imagingIndicated: true,
+      score,
+      outcome: `Moderate risk (score ${score}, 6-week MACE 12-16.6%)`,
+      recommendation: 'Observation with further testing such as coronary CTA or stress imaging',
+      criteria
+    })
+  }
+  return buildResult('heart', {
+    applicable: true,
+    risk: 'low',
+    imagingIndicated: false,
+    score,
+    outcome: `Low risk (score ${score}, 6-week MACE 0.9-1.7%)`,
+    recommendation: 'Early discharge without further cardiac imaging',
+    criteria
+  })
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+export function evaluateDecisionRule(spec: DecisionRuleInput): DecisionRuleResult {
+  switch (spec.rule) {
+    case 'pecarn':
+      return evaluatePecarn(spec.input)
+    case 'canadian-ct-head':
+      return evaluateCanadianCTHead(spec.input)
+    case 'ottawa-ankle':
+      return evaluateOttawaAnkle(spec.input)
+    case 'ottawa-knee':
+      return evaluateOttawaKnee(spec.input)
+    case 'nexus':
+      return evaluateNexus(spec.input)
+    case 'wells-pe':
+      return evaluateWellsPE(spec.input)
+    case 'perc':
+      return evaluatePerc(spec.input)
+    case 'heart':
+      return evaluateHeart(spec.input)
+  }
+}
+
+export function evaluateDecisionRules(specs: DecisionRuleInput[]): DecisionRuleResult[] {
+  return specs.map(evaluateDecisionRule)
+}
@@ -0,0 +1,354 @@
+import type { CaseCategory } from '@/types/database'
+import type { AIIEModality, ClinicalInput } from './scoring-engine'
+import { AIIE_RULES, FACTOR_WEIGHTS, ScoringRule, WeightTable } from './rules'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ScoringProfileId = CaseCategory | 'general'
+
+export interface RedFlagCriterion {
+  id: string
+  // Label shown in SHAP values, e.g. "Sudden onset (SNOOP)"
+  label: string
+  // Lower-case terms matched against redFlags and physicalExamFindings
+  terms: string[]
+  // Structured check for criteria that are not written as free text
+  test?: (input: ClinicalInput) => boolean
+}
+
+export interface ScoringProfile {
+  id: ScoringProfileId
+  name: string
+  // Name of the red-flag criteria set the profile teaches (SNOOP, Ottawa, ...)
+  criteriaName: string
+  // Lower-case terms matched against ClinicalInput.chiefComplaint
+  complaintTerms: string[]
+  redFlags: RedFlagCriterion[]
+  // Per-modality starting scores; unlisted modalities use the AIIE baseline
+  baselines: Partial<Record<AIIEModality, number>>
+  // Topic-specific weight overrides, merged over FACTOR_WEIGHTS
+  weights: Partial<WeightTable>
+  // Topic rules; a rule with the same id as a general rule replaces it
+  rules: ScoringRule[]
+}
+
+// ============================================================================
+// Red-flag matching
+// ============================================================================
+
+export interface RedFlagMatch {
+  criteria: RedFlagCriterion[]
+  // Free-text red flags that do not map to any criterion in the vocabulary
+  unmatched: string[]
+}
+
+export function matchRedFlags(
+  vocabulary: RedFlagCriterion[],
+  input: ClinicalInput
+): RedFlagMatch {
+  // Negated findings ("No focal deficits", "Normal gait") never count
+  const findings = [...input.redFlags, ...input.physicalExamFindings]
+    .map(f => f.toLowerCase())
+    .filter(f => !/^(no|normal|negative)\b/.test(f))
+  const criteria = vocabulary.filter(
+    c => c.test?.(input) || c.terms.some(term => findings.some(f => f.includes(term)))
+  )
+  const unmatched = input.redFlags.filter(flag => {
+    const lower = flag.toLowerCase()
+    return !vocabulary.some(c => c.terms.some(term => lower.includes(term)))
+  })
+  return { criteria, unmatched }
+}
+
+function countRedFlags(vocabulary: RedFlagCriterion[], input: ClinicalInput): number {
+  const { criteria, unmatched } = matchRedFlags(vocabulary, input)
+  return criteria.length + unmatched.length
+}
+
+// Builds the pair of rules that replace the general red-flag rules so that
+// SHAP factors name the topic's criteria instead of a generic count
+function topicRedFlagRules(vocabulary: RedFlagCriterion[], criteriaName: string): ScoringRule[] {
+  return [
+    {
+      id: 'red-flags',
+      factor: `Red Flags (${criteriaName})`,
+      weightKey: 'redFlag',
+      when: input => countRedFlags(vocabulary, input) > 0,
+      count: input => countRedFlags(vocabulary, input),
+      value: input => {
+        const { criteria, unmatched } = matchRedFlags(vocabulary, input)
+        return [...criteria.map(c => c.label), ...unmatched].join(', ')
+      },
+      explanation: '{count} red flag(s) meeting {criteria} criteria increase imaging urgency',
+      vars: () => ({ criteria: criteriaName })
+    },
+    {
+      id: 'no-red-flags',
+      factor: 'No Red Flags',
+      weightKey: 'noRedFlags',
+      when: input => countRedFlags(vocabulary, input) === 0 && !input.neurologicDeficit,
+      value: `No ${criteriaName} criteria met`,
+      explanation: 'No {criteria} criteria are met, so {modality} adds little over clinical management',
+      vars: () => ({ criteria: criteriaName })
+    }
+  ]
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+const LBP_RED_FLAGS: RedFlagCriterion[] = [
+  {
+    id: 'cauda-equina',
+    label: 'Cauda equina signs',
+    terms: ['urinary retention', 'incontinence', 'saddle anesthesia', 'bowel', 'bladder', 'cauda equina']
+  },
+  { id: 'progressive-deficit', label: 'Progressive neurologic deficit', terms: ['progressive neurologic', 'progressive weakness', 'foot drop'] },
+  { id: 'malignancy', label: 'Suspected malignancy', terms: ['cancer', 'malignancy', 'weight loss', 'night pain'] },
+  { id: 'infection', label: 'Suspected infection', terms: ['fever', 'iv drug', 'injection drug', 'epidural abscess'] },
+  { id: 'fracture', label: 'Suspected fracture', terms: ['osteoporosis', 'steroid', 'compression fracture', 'significant trauma'] }
+]
+
+const HEADACHE_RED_FLAGS: RedFlagCriterion[] = [
+  { id: 'systemic', label: 'S: Systemic symptoms', terms: ['fever', 'weight loss', 'immunosuppress'] },
+  { id: 'neurologic', label: 'N: Neurologic signs', terms: ['focal', 'papilledema', 'confusion', 'altered mental'] },
+  { id: 'onset', label: 'O: Sudden onset', terms: ['thunderclap', 'sudden onset', 'worst headache'] },
+  {
+    id: 'older',
+    label: 'O: Older age at onset (>50)',
+    terms: ['age >50', 'age > 50'],
+    test: input => input.age > 50
+  },
+  { id: 'pattern', label: 'P: Pattern change', terms: ['positional', 'pattern change', 'progressive headache', 'valsalva'] },
+  { id: 'meningeal', label: 'Meningeal signs', terms: ['meningeal', 'neck stiffness', 'nuchal rigidity', 'meningismus'] }
+]
+
+const CHEST_PAIN_RED_FLAGS: RedFlagCriterion[] = [
+  { id: 'hypoxia', label: 'Hypoxia', terms: ['hypoxia', 'hypoxemia', 'low o2'] },
+  { id: 'hemodynamic', label: 'Hemodynamic instability', terms: ['hypotension', 'tachycardia', 'syncope', 'shock'] },
+  { id: 'cardiac-risk', label: 'Cardiac risk profile', terms: ['cardiac risk', 'age >50', 'diabetes', 'known cad'] },
+  { id: 'infection', label: 'Infectious features', terms: ['fever', 'productive cough', 'crackles'] },
+  { id: 'dissection', label: 'Aortic dissection features', terms: ['tearing', 'pulse deficit', 'radiating to back'] },
+  { id: 'pe', label: 'PE features', terms: ['hemoptysis', 'unilateral leg swelling', 'pleuritic'] }
+]
+
+const ABDOMINAL_RED_FLAGS: RedFlagCriterion[] = [
+  { id: 'peritoneal', label: 'Peritoneal signs', terms: ['peritoneal', 'rebound', 'guarding', 'rigidity'] },
+  { id: 'focal-tenderness', label: 'Focal tenderness', terms: ['focal tenderness', 'mcburney', 'rlq tenderness'] },
+  { id: 'fever', label: 'Fever', terms: ['fever'] },
+  { id: 'gi-bleed', label: 'GI bleeding', terms: ['hematochezia', 'melena', 'hematemesis', 'gi bleed'] },
+  { id: 'constitutional', label: 'Weight loss or anemia', terms: ['weight loss', 'anemia'] },
+  { id: 'jaundice', label: 'Jaundice', terms: ['jaundice'] }
+]
+
+const OTTAWA_CRITERIA: RedFlagCriterion[] = [
+  { id: 'weight-bearing', label: 'Unable to bear weight (4 steps)', terms: ['unable to bear weight', 'inability to bear weight', 'non-weight bearing'] },
+  { id: 'malleolar', label: 'Malleolar bone tenderness', terms: ['malleolus', 'malleolar'] },
+  { id: 'midfoot', label: 'Navicular or 5th metatarsal tenderness', terms: ['navicular', '5th metatarsal', 'fifth metatarsal'] },
+  { id: 'patella', label: 'Isolated patellar tenderness', terms: ['patellar tenderness', 'patella tenderness'] },
+  { id: 'fibular-head', label: 'Fibular head tenderness', terms: ['fibular head'] },
+  { id: 'knee-flexion', label: 'Unable to flex knee to 90°', terms: ['unable to flex', 'cannot flex'] },
+  { id: 'deformity', label: 'Gross deformity', terms: ['deformity', 'open fracture', 'neurovascular'] }
+]
+
+export const SCORING_PROFILES: Record<ScoringProfileId, ScoringProfile> = {
+  'low-back-pain': {
+    id: 'low-back-pain',
+    name: 'Low Back Pain',
+    criteriaName: 'ACR LBP red-flag',
+    complaintTerms: ['back pain', 'lumbar', 'sciatica', 'lbp'],
+    redFlags: LBP_RED_FLAGS,
+    baselines: { 'No imaging': 5.5, 'CT without contrast': 4.5 },
+    weights: {
+      redFlag: {
+        weight: 0.6,
+        cap: 2.4,
+        byModality: {
+          'X-ray': 0.25,
+          'CT without contrast': 0.75,
+          'CT with contrast': 0.75,
+          'No imaging': -1.5
+        },
+        citation: 'ACR Appropriateness Criteria: Low Back Pain (2021) – cauda equina and red-flag variants'
+      },
+      priorNormalImaging: {
+        weight: -1.0,
+        byModality: { 'MRI without contrast': 0, 'MRI with contrast': 0, 'No imaging': -1 },
+        citation: 'ACR Appropriateness Criteria: Low Back Pain (2021) – normal radiographs do not exclude disc or neural pathology'
+      }
+    },
+    rules: [
+      {
+        id: 'persistent-radiculopathy',
+        factor: 'Persistent Radiculopathy',
+        weightKey: 'persistentRadiculopathy',
+        when: input =>
+          input.duration === 'chronic' &&
+          input.physicalExamFindings.some(f => /slr|straight leg|radicul|sciatica|dermatom/i.test(f)),
+        value: '>6 weeks with radicular signs',
+        explanation: 'Radicular symptoms persisting beyond 6 weeks of conservative care make MRI appropriate for surgical or interventional planning'
+      }
+    ]
+  },
+  'headache': {
+    id: 'headache',
+    name: 'Headache',
+    criteriaName: 'SNOOP',
+    complaintTerms: ['headache', 'migraine', 'cephalgia'],
+    redFlags: HEADACHE_RED_FLAGS,
+    baselines: { 'X-ray': 2, 'Ultrasound': 2, 'Nuclear medicine': 2 },
+    weights: {
+      redFlag: {
+        weight: 0.6,
+        cap: 2.4,
+        byModality: { 'X-ray': -0.5, 'Ultrasound': -0.5, 'Nuclear medicine': 0, 'No imaging': -1.5 },
+        citation: 'Do TP et al. Neurology 2019: SNOOP10 red and orange flags for secondary headache'
+      }
+    },
+    rules: [
+      {
+        id: 'thunderclap-onset',
+        factor: 'Thunderclap Onset',
+        weightKey: 'thunderclapOnset',
+        when: input =>
+          [...input.redFlags, ...input.physicalExamFindings].some(f => /thunderclap|worst headache|sudden onset/i.test(f)),
+        value: 'Sudden, maximal at onset',
+        explanation: 'Thunderclap headache requires noncontrast CT within 6 hours to exclude subarachnoid hemorrhage'
+      }
+    ]
+  },
+  'chest-pain': {
+    id: 'chest-pain',
+    name: 'Chest Pain',
+    criteriaName: 'ACR chest pain',
+    complaintTerms: ['chest pain', 'chest tightness', 'chest pressure'],
+    redFlags: CHEST_PAIN_RED_FLAGS,
+    baselines: { 'X-ray': 5.5, 'MRI without contrast': 4, 'MRI with contrast': 4 },
+    weights: {
+      redFlag: {
+        weight: 0.5,
+        cap: 2,
+        byModality: { 'X-ray': 0.75, 'Ultrasound': 0.5, 'No imaging': -1.5 },
+        citation: 'ACR Appropriateness Criteria: Acute Nonspecific Chest Pain – Low Probability of CAD (2020)'
+      }
+    },
+    rules: [
+      {
+        id: 'pneumonia-features',
+        factor: 'Pneumonia Features',
+        weightKey: 'pneumoniaFeatures',
+        when: input =>
+          [...input.redFlags, ...input.physicalExamFindings].some(f => /fever|crackles|productive cough|consolidation/i.test(f)),
+        value: 'Fever or focal lung findings',
+        explanation: 'Suspected pneumonia is first evaluated with chest radiography; CT is reserved for complicated or equivocal cases'
+      }
+    ]
+  },
+  'abdominal-pain': {
+    id: 'abdominal-pain',
+    name: 'Abdominal Pain',
+    criteriaName: 'ACR abdominal pain',
+    complaintTerms: ['abdominal', 'abdomen', 'quadrant', 'appendicitis', 'flank', 'epigastric'],
+    redFlags: ABDOMINAL_RED_FLAGS,
+    baselines: { 'X-ray': 4, 'Ultrasound': 5.5 },
+    weights: {
+      redFlag: {
+        weight: 0.5,
+        cap: 2,
+        byModality: { 'X-ray': 0.25, 'CT without contrast': 0.75, 'Nuclear medicine': 0, 'No imaging': -1.5 },
+        citation: 'ACR Appropriateness Criteria: Right Lower Quadrant Pain (2022)'
+      }
+    },
+    rules: []
+  },
+  'extremity-trauma': {
+    id: 'extremity-trauma',
+    name: 'Extremity Trauma',
+    criteriaName: 'Ottawa',
+    complaintTerms: ['ankle', 'knee', 'wrist', 'foot', 'extremity', 'fracture', 'sprain', 'shoulder', 'elbow', 'hip injury'],
+    redFlags: OTTAWA_CRITERIA,
+    baselines: { 'X-ray': 6, 'CT without contrast': 4, 'CT with contrast': 3, 'MRI without contrast': 4, 'MRI with contrast': 3 },
+    weights: {
+      redFlag: {
+        weight: 0.75,
+        cap: 2.25,
+        byModality: {
+          'X-ray': 1,
+          'CT without contrast': 0.25,
+          'CT with contrast': 0,
+          'MRI without contrast': 0.25,
+          'MRI with contrast': 0,
+          'Ultrasound': 0,
+          'Nuclear medicine': 0,
+          'No imaging': -1.5
+        },
+        citation: 'Stiell IG et al. JAMA 1993/1996: Ottawa ankle and knee rules'
+      },
+      noRedFlags: {
+        weight: 1.0,
+        byModality: {
+          'X-ray': -1.5,
+          'CT without contrast': -0.5,
+          'CT with contrast': -0.5,
+          'MRI without contrast': -0.5,
+          'MRI with contrast': -0.5,
+          'Ultrasound': -0.25,
+          'Nuclear medicine': -0.5,
+          'No imaging': 2
+        },
+        citation: 'Bachmann LM et al. BMJ 2003: Accuracy of Ottawa ankle rules (sensitivity ~98%)'
+      }
+    },
+    rules: []
+  },
+  'general': {
+    id: 'general',
+    name: 'General',
+    criteriaName: 'general red-flag',
+    complaintTerms: [],
+    redFlags: [],
+    baselines: {},
+    weights: {},
+    rules: []
+  }
+}
+
+// ============================================================================
+// Profile resolution
+// ============================================================================
+
+export function resolveScoringProfile(input: ClinicalInput): ScoringProfile {
+  if (input.category) return SCORING_PROFILES[input.category] ?? SCORING_PROFILES.general
+
+  const complaint = input.chiefComplaint.toLowerCase()
+  const match = Object.values(SCORING_PROFILES).find(profile =>
+    profile.complaintTerms.some(term => complaint.includes(term))
+  )
+  return match ?? SCORING_PROFILES.general
+}
+
+export function getProfileWeights(profile: ScoringProfile): WeightTable {
+  return { ...FACTOR_WEIGHTS, ...profile.weights }
+}
+
+export function getProfileRules(profile: ScoringProfile): ScoringRule[] {
+  // The general profile keeps the free-text red-flag count from AIIE_RULES
+  const topicRules = profile.redFlags.length > 0
+    ? [...topicRedFlagRules(profile.redFlags, profile.criteriaName), ...profile.rules]
+    : profile.rules
+  const overrides = new Map(topicRules.map(rule => [rule.id, rule]))
+  const merged = AIIE_RULES.map(rule => overrides.get(rule.id) ?? rule)
+  const added = topicRules.filter(rule => !AIIE_RULES.some(r => r.id === rule.id))
+  return [...merged, ...added]
+}
+
+export function getProfileBaseline(
+  profile: ScoringProfile,
+  modality: AIIEModality,
+  fallback: number
+): number {
+  return profile.baselines[modality] ?? fallback
+}
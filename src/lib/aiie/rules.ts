@@ -0,0 +1,529 @@
+import type { AIIEModality, ClinicalInput } from './scoring-engine'
+import { DECISION_RULES, DecisionRuleId, DecisionRuleResult, getMetCriteria } from './decision-rules'
+
+// ============================================================================
+// Factor weight table
+// ============================================================================
+
+export interface FactorWeight {
+  weight: number
+  // Upper bound for rules whose contribution scales with a count (e.g. red flags)
+  cap?: number
+  // Multiplier on the weight per modality; unlisted modalities use 1
+  byModality?: Partial<Record<AIIEModality, number>>
+  citation: string
+}
+
+// Every weight the engine applies lives here so faculty can audit and retune
+// them in one place. Rules reference entries by key. `byModality` captures
+// factor-by-modality interactions: a negative multiplier means the factor
+// argues against that modality (most often "No imaging").
+export const FACTOR_WEIGHTS = {
+  redFlag: {
+    weight: 0.5,
+    cap: 2,
+    byModality: { 'X-ray': 0.5, 'Ultrasound': 0.75, 'Nuclear medicine': 0.5, 'No imaging': -1.5 },
+    citation: 'JAMA 2019: Red flags in imaging guidelines'
+  },
+  noRedFlags: {
+    weight: 1.0,
+    byModality: {
+      'X-ray': -0.5,
+      'CT without contrast': -1,
+      'CT with contrast': -1,
+      'MRI without contrast': -0.75,
+      'MRI with contrast': -0.75,
+      'Ultrasound': -0.5,
+      'Nuclear medicine': -1,
+      'No imaging': 1.5
+    },
+    citation: 'Ann Intern Med 2011: Diagnostic imaging for low back pain (Choosing Wisely)'
+  },
+  acuteOnset: {
+    weight: 0.8,
+    byModality: { 'No imaging': 0 },
+    citation: 'Radiology 2020: Timing and imaging appropriateness'
+  },
+  chronicDuration: {
+    weight: -0.5,
+    byModality: { 'No imaging': -1 },
+    citation: 'AJR 2021: Conservative management in chronic conditions'
+  },
+  priorNormalImaging: {
+    weight: -1.0,
+    byModality: { 'No imaging': -1 },
+    citation: 'JACR 2022: Repeat imaging utility'
+  },
+  neurologicDeficit: {
+    weight: 2.0,
+    byModality: {
+      'X-ray': -0.5,
+      'CT without contrast': 0.5,
+      'CT with contrast': 0.5,
+      'Ultrasound': -0.5,
+      'Nuclear medicine': 0,
+      'No imaging': -1.5
+    },
+    citation: 'Neurology 2020: Imaging in neurologic emergencies'
+  },
+  cancerHistory: {
+    weight: 1.5,
+    byModality: {
+      'X-ray': 0.25,
+      'CT without contrast': 0.5,
+      'MRI without contrast': 0.75,
+      'Ultrasound': 0.5,
+      'No imaging': -1
+    },
+    citation: 'JCO 2021: Imaging in oncology surveillance'
+  },
+  pediatricAge: {
+    weight: 0.5,
+    byModality: {
+      'X-ray': 0,
+      'CT without contrast': -1,
+      'CT with contrast': -1,
+      'Ultrasound': 2,
+      'Nuclear medicine': -1,
+      'No imaging': 0
+    },
+    citation: 'Pediatrics 2020: Age-based imaging considerations'
+  },
+  geriatricAge: {
+    weight: 0.5,
+    byModality: { 'No imaging': -1 },
+    citation: 'J Am Geriatr Soc 2019: Age-based imaging considerations'
+  },
+  conservativeTrialFailed: {
+    weight: 1.0,
+    byModality: {
+      'X-ray': 0.25,
+      'CT without contrast': 0.75,
+      'CT with contrast': 0.75,
+      'No imaging': -1
+    },
+    citation: 'Spine 2019: Imaging after conservative therapy'
+  },
+  recentTrauma: {
+    weight: 1.2,
+    byModality: {
+      'CT with contrast': 0.5,
+      'MRI without contrast': 0.5,
+      'MRI with contrast': 0.5,
+      'Ultrasound': 0.5,
+      'Nuclear medicine': 0,
+      'No imaging': -1
+    },
+    citation: 'J Trauma Acute Care Surg 2021: Imaging in trauma evaluation'
+  },
+  immunocompromised: {
+    weight: 1.0,
+    byModality: {
+      'X-ray': 0.5,
+      'CT without contrast': 0.75,
+      'MRI without contrast': 0.75,
+      'Ultrasound': 0.5,
+      'Nuclear medicine': 0.5,
+      'No imaging': -1
+    },
+    citation: 'Clin Infect Dis 2020: Imaging in immunocompromised hosts'
+  },
+  severeSymptoms: {
+    weight: 0.5,
+    byModality: { 'No imaging': -1 },
+    citation: 'Ann Emerg Med 2019: Symptom severity and imaging decisions'
+  },
+  mildChronicSymptoms: {
+    weight: -0.5,
+    byModality: { 'No imaging': -1 },
+    citation: 'BMJ 2020: Conservative management in chronic pain'
+  },
+  // Validated decision rules: positive results add the weight, low-risk
+  // results subtract it (see decisionRuleCount)
+  pecarn: {
+    weight: 1.5,
+    byModality: {
+      'X-ray': 0,
+      'CT with contrast': 0.25,
+      'MRI without contrast': 0.25,
+      'MRI with contrast': 0,
+      'Ultrasound': 0,
+      'Nuclear medicine': 0,
+      'No imaging': -1
+    },
+    citation: DECISION_RULES['pecarn'].citation
+  },
+  canadianCtHead: {
+    weight: 1.5,
+    byModality: {
+      'X-ray': 0,
+      'CT with contrast': 0.25,
+      'MRI without contrast': 0.25,
+      'MRI with contrast': 0,
+      'Ultrasound': 0,
+      'Nuclear medicine': 0,
+      'No imaging': -1
+    },
+    citation: DECISION_RULES['canadian-ct-head'].citation
+  },
+  ottawaAnkle: {
+    weight: 2.0,
+    byModality: {
+      'CT without contrast': 0.25,
+      'CT with contrast': 0,
+      'MRI without contrast': 0.25,
+      'MRI with contrast': 0,
+      'Ultrasound': 0,
+      'Nuclear medicine': 0,
+      'No imaging': -1
+    },
+    citation: DECISION_RULES['ottawa-ankle'].citation
+  },
+  ottawaKnee: {
+    weight: 2.0,
+    byModality: {
+      'CT without contrast': 0.25,
+      'CT with contrast': 0,
+      'MRI without contrast': 0.25,
+      'MRI with contrast': 0,
+      'Ultrasound': 0,
+      'Nuclear medicine': 0,
+      'No imaging': -1
+    },
+    citation: DECISION_RULES['ottawa-knee'].citation
+  },
+  nexus: {
+    weight: 1.5,
+    byModality: {
+      'X-ray': 0.5,
+      'CT with contrast': 0.25,
+      'MRI without contrast': 0.5,
+      'MRI with contrast': 0.25,
+      'Ultrasound': 0,
+      'Nuclear medicine': 0,
+      'No imaging': -1
+    },
+    citation: DECISION_RULES['nexus'].citation
+  },
+  wellsPe: {
+    weight: 1.5,
+    byModality: {
+      'X-ray': 0.25,
+      'CT without contrast': 0.25,
+      'MRI without contrast': 0,
+      'MRI with contrast': 0,
+      'Ultrasound': 0.25,
+      'Nuclear medicine': 0.75,
+      'No imaging': -1
+    },
+    citation: DECISION_RULES['wells-pe'].citation
+  },
+  perc: {
+    weight: 1.5,
+    byModality: {
+      'X-ray': 0.25,
+      'CT without contrast': 0.25,
+      'MRI without contrast': 0,
+      'MRI with contrast': 0,
+      'Ultrasound': 0.25,
+      'Nuclear medicine': 0.75,
+      'No imaging': -1
+    },
+    citation: DECISION_RULES['perc'].citation
+  },
+  heart: {
+    weight: 1.0,
+    byModality: {
+      'X-ray': 0,
+      'CT without contrast': 0.25,
+      'MRI without contrast': 0.25,
+      'MRI with contrast': 0.5,
+      'Ultrasound': 0.25,
+      'No imaging': -1
+    },
+    citation: DECISION_RULES['heart'].citation
+  },
+  // Topic factors: referenced only by the rules of one scoring profile
+  // (see profiles.ts), which may still override them
+  persistentRadiculopathy: {
+    weight: 2.5,
+    byModality: {
+      'X-ray': -0.5,
+      'CT without contrast': 0.5,
+      'CT with contrast': 0.25,
+      'MRI with contrast': 0.5,
+      'Nuclear medicine': -0.5,
+      'No imaging': -1.5
+    },
+    citation: 'ACR Appropriateness Criteria: Low Back Pain (2021) – persistent radiculopathy after 6 weeks'
+  },
+  thunderclapOnset: {
+    weight: 1.0,
+    byModality: {
+      'X-ray': 0,
+      'CT with contrast': 0,
+      'MRI without contrast': -0.5,
+      'MRI with contrast': -0.5,
+      'Ultrasound': 0,
+      'Nuclear medicine': 0,
+      'No imaging': -1.5
+    },
+    citation: 'ACR Appropriateness Criteria: Headache (2022) – sudden severe headache, noncontrast CT first'
+  },
+  pneumoniaFeatures: {
+    weight: 1.0,
+    byModality: {
+      'X-ray': 1.5,
+      'CT without contrast': 0.25,
+      'CT with contrast': 0.25,
+      'MRI without contrast': 0,
+      'MRI with contrast': 0,
+      'Nuclear medicine': -0.5,
+      'No imaging': -1
+    },
+    citation: 'ACR Appropriateness Criteria: Acute Respiratory Illness in Immunocompetent Patients (2018)'
+  }
+} satisfies Record<string, FactorWeight>
+
+export type FactorWeightKey = keyof typeof FACTOR_WEIGHTS
+
+// Weight table a rule is evaluated against: FACTOR_WEIGHTS merged with the
+// active scoring profile's overrides
+export type WeightTable = Record<FactorWeightKey, FactorWeight>
+
+// ============================================================================
+// Rule definitions
+// ============================================================================
+
+export interface ScoringRule {
+  id: string
+  // Label shown as the SHAP factor name
+  factor: string
+  // Entry in the weight table supplying the weight and citation
+  weightKey: FactorWeightKey
+  // Fires the rule when true
+  when: (input: ClinicalInput) => boolean
+  // Multiplier applied to the weight; contribution is clamped to the entry's cap
+  count?: (input: ClinicalInput) => number
+  // Display value for the factor
+  value: string | ((input: ClinicalInput) => string)
+  // Extra template variables for topic-specific explanations
+  vars?: (input: ClinicalInput) => Record<string, string | number>
+  // Template interpolated with {value}, {count}, {age}, {duration}, {severity},
+  // {modality} and any keys returned by `vars`
+  explanation: string
+}
+
+// ============================================================================
+// Decision rule factors
+// ============================================================================
+
+function findDecisionRule(input: ClinicalInput, ruleId: DecisionRuleId): DecisionRuleResult | undefined {
+  return input.decisionRules?.find(r => r.rule === ruleId && r.applicable)
+}
+
+// Positive rules push toward imaging, intermediate results nudge, and
+// low-risk results count against imaging
+function decisionRuleCount(result: DecisionRuleResult): number {
+  if (result.imagingIndicated) return 1
+  return result.risk === 'low' ? -1 : 0.25
+}
+
+function decisionRuleFactor(ruleId: DecisionRuleId, weightKey: FactorWeightKey): ScoringRule {
+  return {
+    id: `decision-rule-${ruleId}`,
+    factor: DECISION_RULES[ruleId].name,
+    weightKey,
+    when: input => !!findDecisionRule(input, ruleId),
+    count: input => decisionRuleCount(findDecisionRule(input, ruleId)!),
+    value: input => findDecisionRule(input, ruleId)!.outcome,
+    explanation: '{outcome}: {recommendation}. Criteria met: {criteriaMet}',
+    vars: input => {
+      const result = findDecisionRule(input, ruleId)!
+      const met = getMetCriteria(result).map(c => c.label)
+      return {
+        outcome: result.outcome,
+        recommendation: result.recommendation,
+        criteriaMet: met.length > 0 ? met.join('; ') : 'none'
+      }
+    }
+  }
+}
+
+export const AIIE_RULES: ScoringRule[] = [
+  {
+    id: 'red-flags',
+    factor: 'Red Flag Symptoms',
+    weightKey: 'redFlag',
+    when: input => input.redFlags.length > 0,
+    count: input => input.redFlags.length,
+    value: input => input.redFlags.join(', '),
+    explanation: '{count} red flag(s) present increase imaging urgency'
+  },
+  {
+    id: 'no-red-flags',
+    factor: 'No Red Flags',
+    weightKey: 'noRedFlags',
+    when: input => input.redFlags.length === 0 && !input.neurologicDeficit,
+    value: 'None identified',
+    explanation: 'Without red flags, {modality} adds little over clinical management'
+  },
+  {
+    id: 'neurologic-deficit',
+    factor: 'Neurologic Deficit',
+    weightKey: 'neurologicDeficit',
+    when: input => input.neurologicDeficit,
+    value: 'Present',
+    explanation: 'Focal neurologic findings warrant urgent imaging'
+  },
+  {
+    id: 'cancer-history',
+    factor: 'Cancer History',
+    weightKey: 'cancerHistory',
+    when: input => input.cancerHistory,
+    value: 'Present',
+    explanation: 'History of malignancy requires exclusion of metastatic disease'
+  },
+  {
+    id: 'acute-onset',
+    factor: 'Acute Onset',
+    weightKey: 'acuteOnset',
+    when: input => input.duration === 'acute',
+    value: '<7 days',
+    explanation: 'Recent onset supports imaging workup'
+  },
+  {
+    id: 'chronic-duration',
+    factor: 'Chronic Duration',
+    weightKey: 'chronicDuration',
+    when: input => input.duration === 'chronic',
+    value: '>6 weeks',
+    explanation: 'Chronic conditions often managed conservatively first'
+  },
+  {
+    id: 'prior-imaging',
+    factor: 'Prior Imaging Available',
+    weightKey: 'priorNormalImaging',
+    when: input => input.priorImaging.length > 0 && !input.progressiveSymptoms,
+    value: input => input.priorImaging.join(', '),
+    explanation: 'Recent normal imaging reduces utility of repeat study'
+  },
+  {
+    id: 'pediatric',
+    factor: 'Pediatric Patient',
+    weightKey: 'pediatricAge',
+    when: input => input.age < 18,
+    value: input => `${input.age} years`,
+    explanation: 'Pediatric patients require careful radiation consideration'
+  },
+  {
+    id: 'geriatric',
+    factor: 'Geriatric Patient',
+    weightKey: 'geriatricAge',
+    when: input => input.age > 65,
+    value: input => `${input.age} years`,
+    explanation: 'Advanced age may increase suspicion for serious pathology'
+  },
+  {
+    // Overrides the prior imaging penalty above
+    id: 'progressive-symptoms',
+    factor: 'Progressive Symptoms',
+    weightKey: 'conservativeTrialFailed',
+    when: input => input.progressiveSymptoms && input.priorImaging.length > 0,
+    value: 'Worsening despite prior workup',
+    explanation: 'Progressive symptoms warrant repeat imaging even with prior studies'
+  },
+  {
+    id: 'recent-trauma',
+    factor: 'Recent Trauma',
+    weightKey: 'recentTrauma',
+    when: input => input.recentTrauma,
+    value: 'Present',
+    explanation: 'Traumatic mechanism increases likelihood of structural injury'
+  },
+  {
+    id: 'immunocompromised',
+    factor: 'Immunocompromised',
+    weightKey: 'immunocompromised',
+    when: input => input.immunocompromised,
+    value: 'Present',
+    explanation: 'Immunocompromised patients at higher risk for opportunistic infections'
+  },
+  {
+    id: 'severe-symptoms',
+    factor: 'Severe Symptoms',
+    weightKey: 'severeSymptoms',
+    when: input => input.severity === 'severe',
+    value: 'Severe',
+    explanation: 'High symptom severity increases imaging appropriateness'
+  },
+  {
+    id: 'mild-chronic-symptoms',
+    factor: 'Mild Chronic Symptoms',
+    weightKey: 'mildChronicSymptoms',
+    when: input => input.severity === 'mild' && input.duration === 'chronic',
+    value: 'Mild, chronic',
+    explanation: 'Mild chronic symptoms may be managed conservatively'
+  },
+  decisionRuleFactor('pecarn', 'pecarn'),
+  decisionRuleFactor('canadian-ct-head', 'canadianCtHead'),
+  decisionRuleFactor('ottawa-ankle', 'ottawaAnkle'),
+  decisionRuleFactor('ottawa-knee', 'ottawaKnee'),
+  decisionRuleFactor('nexus', 'nexus'),
+  decisionRuleFactor('wells-pe', 'wellsPe'),
+  decisionRuleFactor('perc', 'perc'),
+  decisionRuleFactor('heart', 'heart')
+]
+
+// ============================================================================
+// Rule evaluation helpers
+// ============================================================================
+
+export function getWeightEntry(weightKey: FactorWeightKey, weights: WeightTable = FACTOR_WEIGHTS): FactorWeight {
+  return weights[weightKey]
+}
+
+export function getModalityMultiplier(
+  weightKey: FactorWeightKey,
+  modality: AIIEModality,
+  weights: WeightTable = FACTOR_WEIGHTS
+): number {
+  return getWeightEntry(weightKey, weights).byModality?.[modality] ?? 1
+}
+
+export function getRuleContribution(
+  rule: ScoringRule,
+  input: ClinicalInput,
+  modality: AIIEModality,
+  weights: WeightTable = FACTOR_WEIGHTS
+): number {
+  const entry = getWeightEntry(rule.weightKey, weights)
+  const raw = entry.weight * (rule.count ? rule.count(input) : 1)
+  const capped = entry.cap === undefined
+    ? raw
+    : Math.sign(raw) * Math.min(Math.abs(raw), entry.cap)
+  return Math.round(capped * getModalityMultiplier(rule.weightKey, modality, weights) * 100) / 100
+}
+
+export function getRuleValue(rule: ScoringRule, input: ClinicalInput): string {
+  return typeof rule.value === 'function' ? rule.value(input) : rule.value
+}
+
+export function renderExplanation(
+  rule: ScoringRule,
+  input: ClinicalInput,
+  modality: AIIEModality
+): string {
+  const vars: Record<string, string | number> = {
+    value: getRuleValue(rule, input),
+    count: rule.count ? rule.count(input) : 1,
+    age: input.age,
+    duration: input.duration,
+    severity: input.severity,
+    modality,
+    ...(rule.vars ? rule.vars(input) : {})
+  }
+  return rule.explanation.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in vars ? String(vars[key]) : match
+  )
+}
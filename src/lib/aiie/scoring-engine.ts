@@ -1,4 +1,21 @@
+import type { CaseCategory } from '@/types/database'
 import { AIIE, getScoreCategory } from '../constants/aiie'
+import type { DecisionRuleResult } from './decision-rules'
+import { getRuleContribution, getRuleValue, getWeightEntry, renderExplanation } from './rules'
+import {
+  ScoringProfile,
+  ScoringProfileId,
+  getProfileBaseline,
+  getProfileRules,
+  getProfileWeights,
+  resolveScoringProfile
+} from './profiles'
+
+export { AIIE_RULES, FACTOR_WEIGHTS } from './rules'
+export type { ScoringRule, FactorWeight } from './rules'
+export { SCORING_PROFILES, resolveScoringProfile } from './profiles'
+export type { ScoringProfile, ScoringProfileId } from './profiles'
+export * from './decision-rules'
 
 // Clinical factors that influence AIIE scores
 export interface ClinicalInput {
@@ -8,6 +25,8 @@ export interface ClinicalInput {
   
   // Presentation
   chiefComplaint: string
+  // Selects the scoring profile; inferred from chiefComplaint when omitted
+  category?: CaseCategory
   duration: string // acute (<7 days), subacute (1-6 weeks), chronic (>6 weeks)
   severity: 'mild' | 'moderate' | 'severe'
   
@@ -25,10 +44,15 @@ export interface ClinicalInput {
   priorImaging: string[]
   labsAvailable: string[]
   physicalExamFindings: string[]
+  
+  // Evaluated clinical decision rules (PECARN, Ottawa, Wells, ...)
+  decisionRules?: DecisionRuleResult[]
 }
 
 export interface ScoringResult {
   modality: string
+  profile: ScoringProfileId
+  baselineScore: number
   finalScore: number
   category: 'appropriate' | 'uncertain' | 'inappropriate'
   categoryLabel: string
@@ -46,8 +70,20 @@ export interface ShapFactor {
   evidenceCitation: string
 }
 
-// Baseline modality scores (starting point before clinical adjustments)
-const MODALITY_BASELINES: Record<string, { baseScore: number; radiation: string; cost: string }> = {
+export type AIIEModality =
+  | 'X-ray'
+  | 'CT without contrast'
+  | 'CT with contrast'
+  | 'MRI without contrast'
+  | 'MRI with contrast'
+  | 'Ultrasound'
+  | 'Nuclear medicine'
+  | 'No imaging'
+
+// Baseline modality scores (starting point before clinical adjustments).
+// Scoring profiles override these per topic; remaining differences come
+// from the modality multipliers in FACTOR_WEIGHTS.
+const MODALITY_BASELINES: Record<AIIEModality, { baseScore: number; radiation: string; cost: string }> = {
   'X-ray': { baseScore: 5, radiation: 'low', cost: '$50-150' },
   'CT without contrast': { baseScore: 5, radiation: 'medium', cost: '$300-600' },
   'CT with contrast': { baseScore: 5, radiation: 'medium', cost: '$400-800' },
@@ -58,172 +94,33 @@ const MODALITY_BASELINES: Record<string, { baseScore: number; radiation: string;
   'No imaging': { baseScore: 5, radiation: 'none', cost: '$0' }
 }
 
-// Factor weights based on peer-reviewed literature
-const FACTOR_WEIGHTS = {
-  redFlag: { weight: 1.5, citation: 'JAMA 2019: Red flags in imaging guidelines' },
-  acuteOnset: { weight: 0.8, citation: 'Radiology 2020: Timing and imaging appropriateness' },
-  chronicDuration: { weight: -0.5, citation: 'AJR 2021: Conservative management in chronic conditions' },
-  priorNormalImaging: { weight: -1.0, citation: 'JACR 2022: Repeat imaging utility' },
-  neurologicDeficit: { weight: 2.0, citation: 'Neurology 2020: Imaging in neurologic emergencies' },
-  cancerHistory: { weight: 1.5, citation: 'JCO 2021: Imaging in oncology surveillance' },
-  ageExtreme: { weight: 0.5, citation: 'Pediatrics 2020: Age-based imaging considerations' },
-  conservativeTrialFailed: { weight: 1.0, citation: 'Spine 2019: Imaging after conservative therapy' }
-}
-
 export function calculateAIIEScore(
   input: ClinicalInput, 
-  modality: string
+  modality: string,
+  profile: ScoringProfile = resolveScoringProfile(input)
 ): ScoringResult {
-  const baseline = MODALITY_BASELINES[modality] || MODALITY_BASELINES['CT without contrast']
-  let score = baseline.baseScore
+  const modalityKey: AIIEModality = Object.hasOwn(MODALITY_BASELINES, modality)
+    ? (modality as AIIEModality)
+    : 'CT without contrast'
+  const baseline = MODALITY_BASELINES[modalityKey]
+  const baselineScore = getProfileBaseline(profile, modalityKey, baseline.baseScore)
+  const weights = getProfileWeights(profile)
+  let score = baselineScore
   const factors: ShapFactor[] = []
   
-  // Apply clinical factor adjustments
-  // 1. Red flags increase appropriateness
-  if (input.redFlags.length > 0) {
-    const contribution = Math.min(input.redFlags.length * 0.5, 2)
+  // Apply clinical factor adjustments from every rule that fires
+  for (const rule of getProfileRules(profile)) {
+    if (!rule.when(input)) continue
+    const contribution = getRuleContribution(rule, input, modalityKey, weights)
+    // A zero multiplier means the factor is irrelevant to this modality
+    if (contribution === 0) continue
     score += contribution
     factors.push({
-      factor: 'Red Flag Symptoms',
+      factor: rule.factor,
       contribution,
-      value: input.redFlags.join(', '),
-      explanation: `${input.redFlags.length} red flag(s) present increase imaging urgency`,
-      evidenceCitation: FACTOR_WEIGHTS.redFlag.citation
-    })
-  }
-  
-  // 2. Neurologic deficit
-  if (input.neurologicDeficit) {
-    score += FACTOR_WEIGHTS.neurologicDeficit.weight
-    factors.push({
-      factor: 'Neurologic Deficit',
-      contribution: FACTOR_WEIGHTS.neurologicDeficit.weight,
-      value: 'Present',
-      explanation: 'Focal neurologic findings warrant urgent imaging',
-      evidenceCitation: FACTOR_WEIGHTS.neurologicDeficit.citation
-    })
-  }
-  
-  // 3. Cancer history
-  if (input.cancerHistory) {
-    score += FACTOR_WEIGHTS.cancerHistory.weight
-    factors.push({
-      factor: 'Cancer History',
-      contribution: FACTOR_WEIGHTS.cancerHistory.weight,
-      value: 'Present',
-      explanation: 'History of malignancy requires exclusion of metastatic disease',
-      evidenceCitation: FACTOR_WEIGHTS.cancerHistory.citation
-    })
-  }
-  
-  // 4. Duration adjustment
-  if (input.duration === 'acute') {
-    score += FACTOR_WEIGHTS.acuteOnset.weight
-    factors.push({
-      factor: 'Acute Onset',
-      contribution: FACTOR_WEIGHTS.acuteOnset.weight,
-      value: '<7 days',
-      explanation: 'Recent onset supports imaging workup',
-      evidenceCitation: FACTOR_WEIGHTS.acuteOnset.citation
-    })
-  } else if (input.duration === 'chronic') {
-    score += FACTOR_WEIGHTS.chronicDuration.weight
-    factors.push({
-      factor: 'Chronic Duration',
-      contribution: FACTOR_WEIGHTS.chronicDuration.weight,
-      value: '>6 weeks',
-      explanation: 'Chronic conditions often managed conservatively first',
-      evidenceCitation: FACTOR_WEIGHTS.chronicDuration.citation
-    })
-  }
-  
-  // 5. Prior imaging
-  if (input.priorImaging.length > 0 && !input.progressiveSymptoms) {
-    score += FACTOR_WEIGHTS.priorNormalImaging.weight
-    factors.push({
-      factor: 'Prior Imaging Available',
-      contribution: FACTOR_WEIGHTS.priorNormalImaging.weight,
-      value: input.priorImaging.join(', '),
-      explanation: 'Recent normal imaging reduces utility of repeat study',
-      evidenceCitation: FACTOR_WEIGHTS.priorNormalImaging.citation
-    })
-  }
-  
-  // 6. Age extremes (pediatric <18 or geriatric >65)
-  if (input.age < 18) {
-    score += FACTOR_WEIGHTS.ageExtreme.weight
-    factors.push({
-      factor: 'Pediatric Patient',
-      contribution: FACTOR_WEIGHTS.ageExtreme.weight,
-      value: `${input.age} years`,
-      explanation: 'Pediatric patients require careful radiation consideration',
-      evidenceCitation: FACTOR_WEIGHTS.ageExtreme.citation
-    })
-  } else if (input.age > 65) {
-    score += FACTOR_WEIGHTS.ageExtreme.weight
-    factors.push({
-      factor: 'Geriatric Patient',
-      contribution: FACTOR_WEIGHTS.ageExtreme.weight,
-      value: `${input.age} years`,
-      explanation: 'Advanced age may increase suspicion for serious pathology',
-      evidenceCitation: FACTOR_WEIGHTS.ageExtreme.citation
-    })
-  }
-  
-  // 7. Progressive symptoms (overrides prior imaging penalty)
-  if (input.progressiveSymptoms && input.priorImaging.length > 0) {
-    score += FACTOR_WEIGHTS.conservativeTrialFailed.weight
-    factors.push({
-      factor: 'Progressive Symptoms',
-      contribution: FACTOR_WEIGHTS.conservativeTrialFailed.weight,
-      value: 'Worsening despite prior workup',
-      explanation: 'Progressive symptoms warrant repeat imaging even with prior studies',
-      evidenceCitation: FACTOR_WEIGHTS.conservativeTrialFailed.citation
-    })
-  }
-  
-  // 8. Recent trauma
-  if (input.recentTrauma) {
-    score += 1.2
-    factors.push({
-      factor: 'Recent Trauma',
-      contribution: 1.2,
-      value: 'Present',
-      explanation: 'Traumatic mechanism increases likelihood of structural injury',
-      evidenceCitation: 'J Trauma Acute Care Surg 2021: Imaging in trauma evaluation'
-    })
-  }
-  
-  // 9. Immunocompromised status
-  if (input.immunocompromised) {
-    score += 1.0
-    factors.push({
-      factor: 'Immunocompromised',
-      contribution: 1.0,
-      value: 'Present',
-      explanation: 'Immunocompromised patients at higher risk for opportunistic infections',
-      evidenceCitation: 'Clin Infect Dis 2020: Imaging in immunocompromised hosts'
-    })
-  }
-  
-  // 10. Severity adjustment
-  if (input.severity === 'severe') {
-    score += 0.5
-    factors.push({
-      factor: 'Severe Symptoms',
-      contribution: 0.5,
-      value: 'Severe',
-      explanation: 'High symptom severity increases imaging appropriateness',
-      evidenceCitation: 'Ann Emerg Med 2019: Symptom severity and imaging decisions'
-    })
-  } else if (input.severity === 'mild' && input.duration === 'chronic') {
-    score -= 0.5
-    factors.push({
-      factor: 'Mild Chronic Symptoms',
-      contribution: -0.5,
-      value: 'Mild, chronic',
-      explanation: 'Mild chronic symptoms may be managed conservatively',
-      evidenceCitation: 'BMJ 2020: Conservative management in chronic pain'
+      value: getRuleValue(rule, input),
+      explanation: renderExplanation(rule, input, modalityKey),
+      evidenceCitation: getWeightEntry(rule.weightKey, weights).citation
     })
   }
   
@@ -234,6 +131,8 @@ export function calculateAIIEScore(
   
   return {
     modality,
+    profile: profile.id,
+    baselineScore,
     finalScore: score,
     category: score >= 7 ? 'appropriate' : score >= 4 ? 'uncertain' : 'inappropriate',
     categoryLabel: categoryData.label,
@@ -248,7 +147,8 @@ export function rankImagingOptions(
   input: ClinicalInput,
   modalities: string[]
 ): ScoringResult[] {
+  const profile = resolveScoringProfile(input)
   return modalities
-    .map(m => calculateAIIEScore(input, m))
+    .map(m => calculateAIIEScore(input, m, profile))
     .sort((a, b) => b.finalScore - a.finalScore)
 }
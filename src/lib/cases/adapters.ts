@@ -0,0 +1,559 @@
+/**
+ * Adapters from each legacy case shape to the canonical case model.
+ * Inputs are validated against their own shape before conversion and the
+ * result is validated against the canonical schema.
+ */
+
+import { z } from 'zod'
+import { getImagingById } from '@/data/imaging-options'
+import {
+  resolveScoringProfile,
+  type AIIEModality,
+  type ClinicalInput,
+  type ShapFactor,
+} from '@/lib/aiie/scoring-engine'
+import type { ClinicalCase } from '@/lib/data/cases'
+import type { ApiCase } from '@/lib/supabase/api'
+import type { LegacyCase } from '@/types'
+import type {
+  Case,
+  CaseCategory,
+  ClinicalPearl,
+  ImagingOption,
+  SpecialtyTrack,
+  StageImagingRating,
+  VitalSigns,
+} from '@/types/database'
+import {
+  CATEGORY_BODY_REGIONS,
+  getImagingOptionForModality,
+  getRatingCategory,
+  parseCanonicalCase,
+  toAcrRating,
+  validateCaseShape,
+  type CanonicalCase,
+} from './model'
+import { caseSchema, clinicalInputSchema } from './schema'
+
+// ============================================================================
+// Legacy Shape Schemas
+// ============================================================================
+
+const vitalsRecordSchema = z.record(z.union([z.string(), z.number()]))
+
+const clinicalCaseSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  specialty: z.string(),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']),
+  patientPresentation: z.object({
+    age: z.number(),
+    sex: z.enum(['male', 'female']),
+    chiefComplaint: z.string().min(1),
+    hpi: z.string().min(1),
+    physicalExam: z.array(z.string()),
+    vitalSigns: vitalsRecordSchema.optional(),
+  }),
+  clinicalInput: clinicalInputSchema,
+  imagingOptions: z
+    .array(z.object({ modality: z.string(), finalScore: z.number() }).passthrough())
+    .min(1),
+  teachingPoints: z.array(z.string()),
+  keyPearls: z.array(z.string()),
+})
+
+const apiImagingOptionSchema = z.union([
+  z.string().min(1),
+  z
+    .object({
+      id: z.string().min(1),
+      acr_rating: z.number().optional(),
+      rating: z.number().optional(),
+      rationale: z.string().optional(),
+    })
+    .passthrough(),
+])
+
+const apiCaseSchema = z.object({
+  id: z.string().min(1),
+  slug: z.string().min(1),
+  title: z.string().min(1),
+  chief_complaint: z.string().min(1),
+  category: z.string(),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']),
+  specialties: z.array(z.string()),
+  patient_data: z
+    .object({
+      age: z.number(),
+      sex: z.string(),
+      history: z.union([z.array(z.string()), z.string()]).optional(),
+      vitals: vitalsRecordSchema.optional(),
+    })
+    .passthrough(),
+  hpi: z.string().min(1),
+  physical_exam: z.union([z.string(), z.array(z.string()), z.record(z.string())]).nullable(),
+  imaging_options: z.array(apiImagingOptionSchema).min(1),
+  correct_answer: z.string().min(1),
+  explanation: z.string(),
+  teaching_points: z.array(z.string()),
+  status: z.string(),
+  created_at: z.string(),
+})
+
+const legacyCaseSchema = z.object({
+  id: z.string().min(1),
+  slug: z.string().min(1),
+  title: z.string().min(1),
+  chiefComplaint: z.string().min(1),
+  category: z.string(),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']),
+  specialties: z.array(z.string()),
+  patientData: z.object({
+    age: z.number(),
+    sex: z.string(),
+    vitals: vitalsRecordSchema.optional(),
+  }),
+  hpi: z.string().min(1),
+  physicalExam: z.record(z.string()),
+  imagingOptions: z
+    .array(
+      z
+        .object({
+          id: z.string().min(1),
+          modality: z.string().min(1),
+          bodyPart: z.string(),
+          contrast: z.boolean(),
+          aiieScore: z.number(),
+        })
+        .passthrough()
+    )
+    .min(1),
+  correctAnswer: z.string().min(1),
+  explanation: z.string(),
+  teachingPoints: z.array(z.string()),
+})
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Timestamp for content that predates the database and carries none */
+const UNDATED = new Date(0).toISOString()
+
+const SPECIALTY_TRACKS: Record<string, SpecialtyTrack[]> = {
+  em: ['em'],
+  im: ['im'],
+  fm: ['fm'],
+  surgery: ['surgery'],
+  peds: ['peds'],
+  'emergency medicine': ['em'],
+  'internal medicine': ['im'],
+  'family medicine': ['fm'],
+  'primary care': ['fm', 'im'],
+  'general surgery': ['surgery'],
+  pediatrics: ['peds'],
+  'pediatric emergency medicine': ['em', 'peds'],
+}
+
+const CATEGORY_TERMS: [CaseCategory, RegExp][] = [
+  ['low-back-pain', /back|lumbar|spine|sciatica/],
+  ['headache', /head|seizure|neuro|syncope/],
+  ['chest-pain', /chest|breath|cough|pneumonia/],
+  ['abdominal-pain', /abdom|pelvi|appendic|flank/],
+  ['extremity-trauma', /ankle|knee|hip|wrist|extremit|fracture/],
+]
+
+function toSpecialtyTracks(specialties: string[]): SpecialtyTrack[] {
+  const tracks = specialties.flatMap((s) => SPECIALTY_TRACKS[s.toLowerCase()] ?? [])
+  return Array.from(new Set(tracks))
+}
+
+/**
+ * Case category for free text, used when a legacy case has no category
+ * the ACR path knows about
+ */
+function inferCategory(text: string): CaseCategory | undefined {
+  const lower = text.toLowerCase()
+  return CATEGORY_TERMS.find(([, pattern]) => pattern.test(lower))?.[0]
+}
+
+function toCategory(category: string, fallbackText: string): CaseCategory {
+  return category in CATEGORY_BODY_REGIONS
+    ? (category as CaseCategory)
+    : inferCategory(`${category} ${fallbackText}`) ?? (category as CaseCategory)
+}
+
+function toPatientSex(sex: string): Case['patient_sex'] {
+  return /^f/i.test(sex) ? 'female' : 'male'
+}
+
+/**
+ * Vital signs from a loosely keyed record such as
+ * { hr: 72, bp: '118/76', temp: 36.8, rr: 14, o2sat: 99 }
+ */
+function toVitalSigns(record: Record<string, string | number> | undefined): VitalSigns | null {
+  if (!record) return null
+  const read = (...keys: string[]) => {
+    const key = Object.keys(record).find((k) => keys.includes(k.toLowerCase()))
+    const value = key === undefined ? NaN : parseFloat(String(record[key]))
+    return Number.isFinite(value) ? value : null
+  }
+  const bpKey = Object.keys(record).find((k) => ['bp', 'blood_pressure', 'bloodpressure'].includes(k.toLowerCase()))
+  const [systolic, diastolic] = bpKey ? String(record[bpKey]).split('/').map((v) => parseFloat(v)) : []
+  const temperature = read('temp', 'temperature')
+
+  return {
+    heart_rate: read('hr', 'heart_rate', 'heartrate', 'pulse'),
+    blood_pressure_systolic: Number.isFinite(systolic) ? systolic : null,
+    blood_pressure_diastolic: Number.isFinite(diastolic) ? diastolic : null,
+    respiratory_rate: read('rr', 'respiratory_rate', 'respiratoryrate'),
+    temperature,
+    temperature_unit: temperature === null ? null : temperature > 45 ? 'fahrenheit' : 'celsius',
+    oxygen_saturation: read('o2sat', 'spo2', 'oxygen_saturation', 'o2'),
+  }
+}
+
+function toExamText(exam: string | string[] | Record<string, string> | null): string | null {
+  if (!exam) return null
+  if (typeof exam === 'string') return exam
+  const lines = Array.isArray(exam)
+    ? exam
+    : Object.entries(exam).map(([system, finding]) => `${system}: ${finding}`)
+  return lines.map((line) => line.replace(/\.?$/, '.')).join(' ')
+}
+
+/**
+ * AIIE modality for a free-text modality label such as "CT" or "MRI with contrast"
+ */
+export function parseAIIEModality(label: string, withContrast = false): AIIEModality | null {
+  const lower = label.toLowerCase()
+  const contrast = withContrast || (/with(?!out) contrast|\bcta\b/.test(lower))
+  if (/no imaging|^none$/.test(lower)) return 'No imaging'
+  if (/x-?ray|radiograph/.test(lower)) return 'X-ray'
+  if (/\bct\b|\bcta\b|computed/.test(lower)) return contrast ? 'CT with contrast' : 'CT without contrast'
+  if (/mri|magnetic/.test(lower)) return contrast ? 'MRI with contrast' : 'MRI without contrast'
+  if (/ultrasound|sonograph|\bus\b|echo/.test(lower)) return 'Ultrasound'
+  if (/nuclear|scintigraph|v\/q|\bnm\b/.test(lower)) return 'Nuclear medicine'
+  return null
+}
+
+/**
+ * Rating for an option scored by the AIIE engine, explained by the factor
+ * that moved the score most
+ */
+function toAIIERating(
+  option: ImagingOption,
+  result: { finalScore: number; shapFactors?: ShapFactor[]; categoryLabel?: string }
+): StageImagingRating {
+  const acrRating = toAcrRating(result.finalScore)
+  const topFactor = [...(result.shapFactors ?? [])]
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))[0]
+  return {
+    imaging_option_id: option.id,
+    acr_rating: acrRating,
+    rating_category: getRatingCategory(acrRating),
+    rationale: topFactor?.explanation ?? result.categoryLabel ?? `AIIE score ${result.finalScore}/9.`,
+  }
+}
+
+function collectImagingIds(caseData: Case, ratings: StageImagingRating[]): string[] {
+  const stageIds = (caseData.stages ?? []).flatMap((stage) => [
+    ...stage.optimal_imaging,
+    ...stage.imaging_ratings.map((r) => r.imaging_option_id),
+  ])
+  return Array.from(
+    new Set([...ratings.map((r) => r.imaging_option_id), ...caseData.optimal_imaging, ...stageIds])
+  )
+}
+
+// ============================================================================
+// Clinical Input Derivation
+// ============================================================================
+
+const NEGATED = /^(no|normal|negative|denies|without)\b/i
+
+/**
+ * Structured AIIE input derived from a case's narrative, for cases that
+ * were authored against ACR ratings only
+ */
+export function deriveClinicalInput(caseData: Case): ClinicalInput {
+  const narrative = `${caseData.chief_complaint}. ${caseData.clinical_vignette}`
+  const lowerNarrative = narrative.toLowerCase()
+  const history = caseData.patient_history.join('. ').toLowerCase()
+  const physicalExamFindings = (caseData.physical_exam ?? '')
+    .split(/(?<=\.)\s+|;\s*/)
+    .map((finding) => finding.trim().replace(/\.$/, ''))
+    .filter(Boolean)
+  const positiveFindings = physicalExamFindings
+    .filter((finding) => !NEGATED.test(finding))
+    .join('. ')
+    .toLowerCase()
+
+  const durationMatch = lowerNarrative.match(/(\d+)[- ](hour|day|week|month|year)s?/)
+  const durationDays = durationMatch
+    ? Number(durationMatch[1]) *
+      { hour: 1 / 24, day: 1, week: 7, month: 30, year: 365 }[durationMatch[2]]
+    : 0
+  const duration = durationDays > 42 ? 'chronic' : durationDays >= 7 ? 'subacute' : 'acute'
+
+  return {
+    age: caseData.patient_age,
+    sex: caseData.patient_sex,
+    chiefComplaint: caseData.chief_complaint,
+    category: caseData.category,
+    duration,
+    severity: /severe|worst|10\/10|9\/10/.test(lowerNarrative)
+      ? 'severe'
+      : /mild|[1-3]\/10/.test(lowerNarrative)
+      ? 'mild'
+      : 'moderate',
+    redFlags: [],
+    cancerHistory: /cancer|carcinoma|malignan|lymphoma|metasta/.test(history),
+    immunocompromised: /hiv|immunosuppress|transplant|chemotherapy|steroid/.test(history),
+    recentTrauma: /fall|fell|trauma|injur|collision|twist|struck/.test(lowerNarrative),
+    neurologicDeficit: /weakness|numbness|deficit|saddle anesthesia|papilledema/.test(positiveFindings),
+    progressiveSymptoms: /progressive|worsening|getting worse/.test(lowerNarrative),
+    priorImaging: [],
+    labsAvailable: (caseData.lab_results ?? []).map((lab) => lab.name),
+    physicalExamFindings,
+    decisionRules: undefined,
+  }
+}
+
+// ============================================================================
+// Adapters
+// ============================================================================
+
+/**
+ * Database case plus its imaging ratings (the shape of src/data/cases/*)
+ */
+export function fromDatabaseCase(
+  caseData: Case,
+  ratings: StageImagingRating[],
+  options: { clinicalInput?: ClinicalInput; imagingOptions?: ImagingOption[] } = {}
+): CanonicalCase {
+  validateCaseShape(caseSchema, caseData, `Case "${caseData?.id}" (database)`)
+  const imagingRatings = ratings.map(({ imaging_option_id, acr_rating, rating_category, rationale }) => ({
+    imaging_option_id,
+    acr_rating,
+    rating_category,
+    rationale,
+  }))
+  const imagingOptions = collectImagingIds(caseData, imagingRatings)
+    .map((id) => options.imagingOptions?.find((opt) => opt.id === id) ?? getImagingById(id))
+    .filter(Boolean)
+
+  return parseCanonicalCase({
+    ...caseData,
+    imaging_ratings: imagingRatings,
+    imaging_options: imagingOptions,
+    clinical_input: options.clinicalInput ?? deriveClinicalInput(caseData),
+    source: 'database',
+  })
+}
+
+/**
+ * AIIE case from src/lib/data/cases.ts.
+ * Ids are prefixed with "aiie-" so they never collide with ACR cases of the same topic.
+ */
+export function fromClinicalCase(clinicalCase: ClinicalCase): CanonicalCase {
+  validateCaseShape(clinicalCaseSchema, clinicalCase, `Case "${clinicalCase?.id}" (aiie)`)
+
+  const { patientPresentation: presentation, clinicalInput } = clinicalCase
+  const profile = resolveScoringProfile(clinicalInput)
+  const category = profile.id === 'general'
+    ? inferCategory(`${presentation.chiefComplaint} ${clinicalCase.title}`)
+    : profile.id
+  const bodyRegion = CATEGORY_BODY_REGIONS[category] ?? 'whole-body'
+
+  const scored = clinicalCase.imagingOptions.map((result) => ({
+    result,
+    option: getImagingOptionForModality(
+      (parseAIIEModality(result.modality) ?? result.modality) as AIIEModality,
+      bodyRegion
+    ),
+  }))
+  const ranked = [...scored].sort((a, b) => b.result.finalScore - a.result.finalScore)
+  const appropriate = ranked.filter(({ result }) => toAcrRating(result.finalScore) >= 7)
+  const optimal = appropriate.length > 0 ? appropriate : ranked.slice(0, 1)
+  const top = ranked[0].result
+  const id = `aiie-${clinicalCase.id}`
+
+  return parseCanonicalCase({
+    id,
+    slug: id,
+    title: clinicalCase.title,
+    chief_complaint: presentation.chiefComplaint,
+    clinical_vignette: presentation.hpi,
+    patient_age: presentation.age,
+    patient_sex: presentation.sex,
+    patient_history: [
+      ...(clinicalInput.cancerHistory ? ['History of cancer'] : []),
+      ...(clinicalInput.immunocompromised ? ['Immunocompromised'] : []),
+      ...clinicalInput.priorImaging.map((study) => `Prior imaging: ${study}`),
+    ],
+    vital_signs: toVitalSigns(presentation.vitalSigns),
+    physical_exam: toExamText(presentation.physicalExam),
+    lab_results: null,
+    category,
+    specialty_tags: toSpecialtyTracks([clinicalCase.specialty]),
+    difficulty: clinicalCase.difficulty,
+    acr_topic: profile.name,
+    optimal_imaging: optimal.map(({ option }) => option.id),
+    explanation: [
+      `${top.modality} scores ${top.finalScore}/9 (${top.categoryLabel}) for this presentation.`,
+      top.alternativeRecommendation,
+    ].filter(Boolean).join(' '),
+    teaching_points: clinicalCase.teachingPoints,
+    clinical_pearls: clinicalCase.keyPearls.map((content): ClinicalPearl => ({
+      content,
+      category: 'clinical-pearl',
+    })),
+    hints: null,
+    references: [],
+    decision_rules: null,
+    stages: null,
+    is_published: true,
+    created_at: UNDATED,
+    updated_at: UNDATED,
+    imaging_ratings: scored.map(({ option, result }) => toAIIERating(option, result)),
+    imaging_options: scored.map(({ option }) => option),
+    clinical_input: clinicalInput,
+    source: 'aiie',
+  })
+}
+
+/**
+ * Row of the 002 `cases` table as returned by src/lib/supabase/api.ts.
+ * Imaging options may be catalog ids or objects carrying their own rating;
+ * options without a rating count as inappropriate, as in scoring.
+ */
+export function fromApiCase(row: ApiCase): CanonicalCase {
+  const parsed = validateCaseShape(apiCaseSchema, row, `Case "${row?.id}" (api)`)
+  const category = toCategory(parsed.category, parsed.chief_complaint)
+  const history = parsed.patient_data.history
+
+  const imagingRatings = parsed.imaging_options.map((entry): StageImagingRating => {
+    const id = typeof entry === 'string' ? entry : entry.id
+    const authored = typeof entry === 'string' ? undefined : entry.acr_rating ?? entry.rating
+    const acrRating = authored ?? (id === parsed.correct_answer ? 9 : 1)
+    return {
+      imaging_option_id: id,
+      acr_rating: acrRating,
+      rating_category: getRatingCategory(acrRating),
+      rationale: (typeof entry === 'string' ? undefined : entry.rationale) ??
+        (authored === undefined && id !== parsed.correct_answer ? 'Not rated for this clinical scenario.' : ''),
+    }
+  })
+
+  const caseData: Case = {
+    id: parsed.id,
+    slug: parsed.slug,
+    title: parsed.title,
+    chief_complaint: parsed.chief_complaint,
+    clinical_vignette: parsed.hpi,
+    patient_age: parsed.patient_data.age,
+    patient_sex: toPatientSex(parsed.patient_data.sex),
+    patient_history: Array.isArray(history) ? history : history ? [history] : [],
+    vital_signs: toVitalSigns(parsed.patient_data.vitals),
+    physical_exam: toExamText(parsed.physical_exam),
+    lab_results: null,
+    category,
+    specialty_tags: toSpecialtyTracks(parsed.specialties),
+    difficulty: parsed.difficulty,
+    acr_topic: parsed.category,
+    optimal_imaging: [parsed.correct_answer],
+    explanation: parsed.explanation,
+    teaching_points: parsed.teaching_points,
+    clinical_pearls: null,
+    hints: null,
+    references: [],
+    is_published: parsed.status === 'published',
+    created_at: parsed.created_at,
+    updated_at: parsed.created_at,
+  }
+
+  return {
+    ...fromDatabaseCase(caseData, imagingRatings),
+    source: 'api',
+  }
+}
+
+/**
+ * Legacy camelCase case from src/types/index.ts, rated by AIIE score.
+ * Options outside the imaging catalog are matched by modality and body part.
+ */
+export function fromLegacyCase(legacy: LegacyCase): CanonicalCase {
+  const parsed = validateCaseShape(legacyCaseSchema, legacy, `Case "${legacy?.id}" (legacy)`)
+  const category = toCategory(parsed.category, parsed.chiefComplaint)
+
+  const scored = parsed.imagingOptions.map((entry) => {
+    const catalogOption = getImagingById(entry.id)
+    const modality = parseAIIEModality(entry.modality, entry.contrast)
+    const region = entry.bodyPart.toLowerCase() || CATEGORY_BODY_REGIONS[category]
+    return {
+      legacyId: entry.id,
+      modality: entry.modality,
+      option: catalogOption ?? (modality ? getImagingOptionForModality(modality, region) : undefined),
+      rating: { finalScore: entry.aiieScore, shapFactors: entry.shapFactors as ShapFactor[] },
+    }
+  })
+  const unmatched = scored.filter(({ option }) => !option).map(({ legacyId }) => legacyId)
+  if (unmatched.length > 0) {
+    throw new Error(`Case "${parsed.id}" (legacy) has imaging options with unknown modality: ${unmatched.join(', ')}`)
+  }
+
+  const correct = scored.find(
+    ({ legacyId, modality }) => legacyId === parsed.correctAnswer || modality === parsed.correctAnswer
+  )
+
+  const caseData: Case = {
+    id: parsed.id,
+    slug: parsed.slug,
+    title: parsed.title,
+    chief_complaint: parsed.chiefComplaint,
+    clinical_vignette: parsed.hpi,
+    patient_age: parsed.patientData.age,
+    patient_sex: toPatientSex(parsed.patientData.sex),
+    patient_history: [],
+    vital_signs: toVitalSigns(parsed.patientData.vitals),
+    physical_exam: toExamText(parsed.physicalExam),
+    lab_results: null,
+    category,
+    specialty_tags: toSpecialtyTracks(parsed.specialties),
+    difficulty: parsed.difficulty,
+    acr_topic: parsed.category,
+    optimal_imaging: correct ? [correct.option.id] : [],
+    explanation: parsed.explanation,
+    teaching_points: parsed.teachingPoints,
+    clinical_pearls: null,
+    hints: null,
+    references: [],
+    is_published: true,
+    created_at: UNDATED,
+    updated_at: UNDATED,
+  }
+
+  return {
+    ...fromDatabaseCase(
+      caseData,
+      scored.map(({ option, rating }) => toAIIERating(option, rating)),
+      { imagingOptions: scored.map(({ option }) => option) }
+    ),
+    source: 'legacy',
+  }
+}
+
+/**
+ * Adapt a case of any known shape, detected by its distinguishing fields
+ */
+export function toCanonicalCase(
+  value: Case | ClinicalCase | ApiCase | LegacyCase,
+  ratings: StageImagingRating[] = []
+): CanonicalCase {
+  if ('clinical_vignette' in value) return fromDatabaseCase(value, ratings)
+  if ('patientPresentation' in value) return fromClinicalCase(value)
+  if ('patient_data' in value) return fromApiCase(value)
+  if ('patientData' in value) return fromLegacyCase(value)
+  throw new Error('Unrecognized case shape')
+}
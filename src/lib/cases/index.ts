@@ -0,0 +1,6 @@
+export * from './schema'
+export * from './model'
+export * from './adapters'
+export * from './library'
+export * from './revisions'
+export * from './interchange'
@@ -0,0 +1,448 @@
+/**
+ * Case interchange format (docs/case-interchange.md): a versioned JSON
+ * document or a one-row-per-case CSV for spreadsheet authoring. Both carry a
+ * case's content and its ACR ratings; ids, timestamps and publish state stay
+ * with the database, and imported cases enter the revision workflow as drafts.
+ */
+
+import { z } from 'zod'
+import { toCsv, parseCsvRecords } from '@/lib/utils/csv'
+import type {
+  Case,
+  CaseRevisionContent,
+  ClinicalPearl,
+  ClinicalPearlCategory,
+  StageImagingRating,
+  VitalSigns,
+} from '@/types/database'
+import { getRatingCategory } from './model'
+import { toRevisionContent } from './revisions'
+import { acrCategorySchema, acrRatingSchema, caseSchema } from './schema'
+
+// ============================================================================
+// Format
+// ============================================================================
+
+export const CASE_INTERCHANGE_FORMAT = 'arka-ed.cases'
+export const CASE_INTERCHANGE_VERSION = 1
+/** Largest file the importer accepts */
+export const CASE_IMPORT_LIMIT = 250
+
+/** A case as exchanged: revision content, keyed by slug */
+export type InterchangeCase = CaseRevisionContent
+
+export interface CaseInterchangeDocument {
+  format: typeof CASE_INTERCHANGE_FORMAT
+  version: number
+  exported_at: string
+  cases: InterchangeCase[]
+}
+
+export type CaseInterchangeFileType = 'json' | 'csv'
+
+export const interchangeRatingSchema = z.object({
+  imaging_option_id: z.string().min(1),
+  acr_rating: acrRatingSchema,
+  // Derived from the rating when omitted
+  rating_category: acrCategorySchema.optional(),
+  rationale: z.string(),
+})
+
+export const interchangeCaseSchema = caseSchema
+  .omit({ id: true, is_published: true, created_at: true, updated_at: true })
+  .extend({ imaging_ratings: z.array(interchangeRatingSchema).min(1) })
+  .superRefine((c, ctx) => {
+    const rated = new Set<string>()
+    c.imaging_ratings.forEach((rating, index) => {
+      if (rated.has(rating.imaging_option_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['imaging_ratings', index, 'imaging_option_id'],
+          message: `"${rating.imaging_option_id}" is rated twice`,
+        })
+      }
+      rated.add(rating.imaging_option_id)
+      if (rating.rating_category && rating.rating_category !== getRatingCategory(rating.acr_rating)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['imaging_ratings', index, 'rating_category'],
+          message: `"${rating.rating_category}" disagrees with ACR rating ${rating.acr_rating}`,
+        })
+      }
+    })
+    c.optimal_imaging.forEach((id, index) => {
+      if (!rated.has(id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['optimal_imaging', index],
+          message: `Optimal study "${id}" has no rating`,
+        })
+      }
+    })
+  })
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Interchange form of a case and its ratings
+ */
+export function toInterchangeCase(
+  caseData: Partial<Case>,
+  imagingRatings: StageImagingRating[]
+): InterchangeCase {
+  return toRevisionContent(caseData, imagingRatings)
+}
+
+export function toCaseInterchangeJson(cases: InterchangeCase[]): string {
+  const document: CaseInterchangeDocument = {
+    format: CASE_INTERCHANGE_FORMAT,
+    version: CASE_INTERCHANGE_VERSION,
+    exported_at: new Date().toISOString(),
+    cases,
+  }
+  return JSON.stringify(document, null, 2)
+}
+
+// CSV layout. Lists are " | " separated; nested structures are JSON cells.
+const LIST_SEPARATOR = ' | '
+const VITAL_FIELDS: (keyof VitalSigns)[] = [
+  'heart_rate',
+  'blood_pressure_systolic',
+  'blood_pressure_diastolic',
+  'respiratory_rate',
+  'temperature',
+  'temperature_unit',
+  'oxygen_saturation',
+]
+const TEXT_COLUMNS = [
+  'slug',
+  'title',
+  'category',
+  'difficulty',
+  'acr_topic',
+  'patient_sex',
+  'chief_complaint',
+  'clinical_vignette',
+  'physical_exam',
+  'explanation',
+] as const
+const LIST_COLUMNS = [
+  'specialty_tags',
+  'patient_history',
+  'optimal_imaging',
+  'teaching_points',
+  'hints',
+] as const
+const JSON_COLUMNS = ['lab_results', 'references', 'decision_rules', 'stages'] as const
+
+export const CASE_CSV_COLUMNS = [
+  'slug',
+  'title',
+  'category',
+  'difficulty',
+  'specialty_tags',
+  'acr_topic',
+  'patient_age',
+  'patient_sex',
+  'chief_complaint',
+  'clinical_vignette',
+  'patient_history',
+  ...VITAL_FIELDS.map((field) => `vital_signs.${field}`),
+  'physical_exam',
+  'lab_results',
+  'optimal_imaging',
+  'explanation',
+  'teaching_points',
+  'clinical_pearls',
+  'hints',
+  'references',
+  'decision_rules',
+  'stages',
+]
+
+const RATING_PREFIX = 'rating.'
+const RATIONALE_PREFIX = 'rationale.'
+
+/**
+ * One row per case; each rated study gets a rating.<id> and rationale.<id> column
+ */
+export function toCaseInterchangeCsv(cases: InterchangeCase[]): string {
+  const optionIds = Array.from(
+    new Set(cases.flatMap((c) => c.imaging_ratings.map((r) => r.imaging_option_id)))
+  ).sort()
+  const header = [
+    ...CASE_CSV_COLUMNS,
+    ...optionIds.flatMap((id) => [`${RATING_PREFIX}${id}`, `${RATIONALE_PREFIX}${id}`]),
+  ]
+
+  const rows = cases.map((c) => {
+    const row: Record<string, unknown> = { patient_age: c.patient_age }
+    TEXT_COLUMNS.forEach((column) => (row[column] = c[column]))
+    LIST_COLUMNS.forEach((column) => (row[column] = (c[column] ?? []).join(LIST_SEPARATOR)))
+    JSON_COLUMNS.forEach((column) => {
+      const value = c[column]
+      row[column] = value && value.length > 0 ? JSON.stringify(value) : ''
+    })
+    VITAL_FIELDS.forEach((field) => (row[`vital_signs.${field}`] = c.vital_signs?.[field]))
+    row.clinical_pearls = (c.clinical_pearls ?? [])
+      .map((pearl) => `${pearl.category}: ${pearl.content}`)
+      .join(LIST_SEPARATOR)
+    c.imaging_ratings.forEach((rating) => {
+      row[`${RATING_PREFIX}${rating.imaging_option_id}`] = rating.acr_rating
+      row[`${RATIONALE_PREFIX}${rating.imaging_option_id}`] = rating.rationale
+    })
+    return row
+  })
+
+  return toCsv(header, rows)
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+export interface ParsedCaseInterchange {
+  type: CaseInterchangeFileType
+  /** Unvalidated case records, in file order */
+  records: unknown[]
+  /** File-level problems; when present no record is imported */
+  errors: string[]
+}
+
+const PEARL_CATEGORIES: ClinicalPearlCategory[] = [
+  'clinical-pearl',
+  'high-yield',
+  'common-mistake',
+  'board-favorite',
+]
+
+const splitList = (cell: string) =>
+  cell
+    .split('|')
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+const parseNumber = (cell: string) => {
+  const trimmed = cell.trim()
+  if (trimmed === '') return null
+  const value = Number(trimmed)
+  return Number.isNaN(value) ? trimmed : value
+}
+
+const parsePearl = (item: string): ClinicalPearl => {
+  const match = item.match(/^([a-z-]+):\s*(.+)$/)
+  if (match && PEARL_CATEGORIES.includes(match[1] as ClinicalPearlCategory)) {
+    return { category: match[1] as ClinicalPearlCategory, content: match[2] }
+  }
+  return { category: 'clinical-pearl', content: item }
+}
+
+/**
+ * Case record from a CSV row. Values are coerced but not validated, so
+ * schema errors point at the column the author typed.
+ */
+function fromCsvRecord(record: Record<string, string>, errors: string[], rowNumber: number): unknown {
+  const c: Record<string, unknown> = {}
+
+  TEXT_COLUMNS.forEach((column) => (c[column] = record[column]?.trim() ?? ''))
+  c.physical_exam = c.physical_exam || null
+  c.patient_age = parseNumber(record.patient_age ?? '')
+  LIST_COLUMNS.forEach((column) => (c[column] = splitList(record[column] ?? '')))
+  c.hints = (c.hints as string[]).length > 0 ? c.hints : null
+
+  JSON_COLUMNS.forEach((column) => {
+    const cell = record[column]?.trim()
+    if (!cell) return
+    try {
+      c[column] = JSON.parse(cell)
+    } catch {
+      errors.push(`Row ${rowNumber}: ${column} is not valid JSON`)
+    }
+  })
+  c.references = c.references ?? []
+  c.lab_results = c.lab_results ?? null
+
+  const pearls = splitList(record.clinical_pearls ?? '').map(parsePearl)
+  c.clinical_pearls = pearls.length > 0 ? pearls : null
+
+  const vitals = Object.fromEntries(
+    VITAL_FIELDS.map((field) => {
+      const cell = record[`vital_signs.${field}`] ?? ''
+      return [field, field === 'temperature_unit' ? cell.trim() || null : parseNumber(cell)]
+    })
+  )
+  c.vital_signs = Object.values(vitals).some((value) => value !== null) ? vitals : null
+
+  c.imaging_ratings = Object.keys(record)
+    .filter((column) => column.startsWith(RATING_PREFIX) && record[column].trim() !== '')
+    .map((column) => {
+      const id = column.slice(RATING_PREFIX.length)
+      return {
+        imaging_option_id: id,
+        acr_rating: parseNumber(record[column]),
+        rationale: record[`${RATIONALE_PREFIX}${id}`]?.trim() ?? '',
+      }
+    })
+
+  return c
+}
+
+/**
+ * Read an interchange file. JSON must be a document of a supported version;
+ * anything else is read as CSV.
+ */
+export function parseCaseInterchange(text: string): ParsedCaseInterchange {
+  const trimmed = text.trim()
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let document: any
+    try {
+      document = JSON.parse(trimmed)
+    } catch (error) {
+      return { type: 'json', records: [], errors: [`Invalid JSON: ${(error as Error).message}`] }
+    }
+    if (Array.isArray(document) || document?.format !== CASE_INTERCHANGE_FORMAT) {
+      return {
+        type: 'json',
+        records: [],
+        errors: [`Not a case interchange document (expected "format": "${CASE_INTERCHANGE_FORMAT}")`],
+      }
+    }
+    if (!Number.isInteger(document.version) || document.version > CASE_INTERCHANGE_VERSION) {
+      return {
+        type: 'json',
+        records: [],
+        errors: [`Unsupported format version ${document.version}; this build reads version ${CASE_INTERCHANGE_VERSION}`],
+      }
+    }
+    if (!Array.isArray(document.cases)) {
+      return { type: 'json', records: [], errors: ['"cases" must be an array'] }
+    }
+    return { type: 'json', records: document.cases, errors: [] }
+  }
+
+  const { header, records } = parseCsvRecords(text)
+  const missing = ['slug', 'title'].filter((column) => !header.includes(column))
+  if (missing.length > 0) {
+    return { type: 'csv', records: [], errors: [`CSV is missing column${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`] }
+  }
+  const errors: string[] = []
+  // Row 1 is the header
+  const cases = records.map((record, index) => fromCsvRecord(record, errors, index + 2))
+  return { type: 'csv', records: cases, errors }
+}
+
+// ============================================================================
+// Import Planning
+// ============================================================================
+
+/** What to do with a row whose slug already exists */
+export type CaseImportConflictStrategy = 'skip' | 'overwrite'
+
+export type CaseImportAction = 'create' | 'update' | 'skip' | 'invalid'
+
+export interface CaseImportContext {
+  /** Cases already in the target, for conflict detection */
+  existing: { id: string; slug: string }[]
+  /** Known imaging option ids; ratings for other ids are errors */
+  imagingOptionIds?: string[]
+  onConflict?: CaseImportConflictStrategy
+}
+
+export interface CaseImportRow {
+  /** 1-based position of the case in the file */
+  position: number
+  slug: string
+  title: string
+  action: CaseImportAction
+  /** Existing case with the same slug */
+  existingId: string | null
+  /** Validated content; null when invalid */
+  content: InterchangeCase | null
+  errors: string[]
+}
+
+export interface CaseImportPlan {
+  type: CaseInterchangeFileType
+  rows: CaseImportRow[]
+  /** File-level errors */
+  errors: string[]
+  counts: Record<CaseImportAction, number>
+  /** Whether applying the plan would write anything */
+  canApply: boolean
+}
+
+/**
+ * Validate a parsed file and decide what importing it would do. This is the
+ * dry run: nothing is written.
+ */
+export function planCaseImport(
+  parsed: ParsedCaseInterchange,
+  context: CaseImportContext
+): CaseImportPlan {
+  const errors = [...parsed.errors]
+  if (parsed.records.length > CASE_IMPORT_LIMIT) {
+    errors.push(`Files are limited to ${CASE_IMPORT_LIMIT} cases; this one has ${parsed.records.length}`)
+  }
+
+  const existingBySlug = new Map(context.existing.map((c) => [c.slug, c.id]))
+  const knownOptions = context.imagingOptionIds ? new Set(context.imagingOptionIds) : null
+  const seenSlugs = new Set<string>()
+
+  const rows = parsed.records.map((record, index): CaseImportRow => {
+    const raw = (record ?? {}) as Record<string, unknown>
+    const slug = typeof raw.slug === 'string' ? raw.slug : ''
+    const title = typeof raw.title === 'string' ? raw.title : ''
+    const rowErrors: string[] = []
+
+    const result = interchangeCaseSchema.safeParse(record)
+    if (!result.success) {
+      result.error.issues.forEach((issue) =>
+        rowErrors.push(`${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      )
+    }
+    if (slug && seenSlugs.has(slug)) rowErrors.push(`slug: "${slug}" appears earlier in the file`)
+    seenSlugs.add(slug)
+
+    if (knownOptions && result.success) {
+      result.data.imaging_ratings
+        .filter((rating) => !knownOptions.has(rating.imaging_option_id))
+        .forEach((rating) => rowErrors.push(`imaging_ratings: unknown imaging option "${rating.imaging_option_id}"`))
+    }
+
+    const existingId = existingBySlug.get(slug) ?? null
+    if (rowErrors.length > 0 || !result.success) {
+      return { position: index + 1, slug, title, action: 'invalid', existingId, content: null, errors: rowErrors }
+    }
+
+    const content = toRevisionContent(
+      result.data as unknown as Partial<Case>,
+      result.data.imaging_ratings.map((rating) => ({
+        imaging_option_id: rating.imaging_option_id,
+        acr_rating: rating.acr_rating,
+        rating_category: rating.rating_category ?? getRatingCategory(rating.acr_rating),
+        rationale: rating.rationale,
+      }))
+    )
+    const action: CaseImportAction = !existingId
+      ? 'create'
+      : context.onConflict === 'overwrite'
+        ? 'update'
+        : 'skip'
+    return { position: index + 1, slug, title, action, existingId, content, errors: [] }
+  })
+
+  const counts: Record<CaseImportAction, number> = { create: 0, update: 0, skip: 0, invalid: 0 }
+  rows.forEach((row) => counts[row.action]++)
+
+  return {
+    type: parsed.type,
+    rows,
+    errors,
+    counts,
+    // All-or-nothing: a spreadsheet with one bad row is fixed and re-uploaded
+    canApply: errors.length === 0 && counts.invalid === 0 && counts.create + counts.update > 0,
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Every bundled case, ACR-rated and AIIE-based, in the canonical model
+ */
+
+import { allCases, getCaseImagingRatings } from '@/data/cases'
+import { allAIIECases } from '@/lib/data/cases'
+import { fromClinicalCase, fromDatabaseCase } from './adapters'
+import type { CanonicalCase } from './model'
+
+export interface CaseLibrary {
+  cases: CanonicalCase[]
+  /** Cases that failed validation, with the reason */
+  errors: { id: string; message: string }[]
+}
+
+let library: CaseLibrary | null = null
+
+/**
+ * Adapt the bundled cases once; invalid cases are reported instead of
+ * hiding the rest of the library
+ */
+export function getCaseLibrary(): CaseLibrary {
+  if (library) return library
+
+  const cases: CanonicalCase[] = []
+  const errors: CaseLibrary['errors'] = []
+  const adapt = (id: string, convert: () => CanonicalCase) => {
+    try {
+      cases.push(convert())
+    } catch (error) {
+      errors.push({ id, message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  allCases.forEach((c) => adapt(c.id, () => fromDatabaseCase(c, getCaseImagingRatings(c.id))))
+  allAIIECases.forEach((c) => adapt(c.id, () => fromClinicalCase(c)))
+
+  library = { cases, errors }
+  return library
+}
+
+/**
+ * Get a canonical case by id or slug
+ */
+export function getCanonicalCase(idOrSlug: string): CanonicalCase | undefined {
+  return getCaseLibrary().cases.find((c) => c.id === idOrSlug || c.slug === idOrSlug)
+}
@@ -0,0 +1,266 @@
+/**
+ * Canonical case model: a database case plus everything needed to render it
+ * in CaseViewer and score it with both the ACR ratings and the AIIE engine
+ */
+
+import { z } from 'zod'
+import { getImagingById, imagingOptions as imagingCatalog } from '@/data/imaging-options'
+import {
+  calculateAIIEScore,
+  type AIIEModality,
+  type ClinicalInput,
+  type ScoringResult,
+} from '@/lib/aiie/scoring-engine'
+import { scoreImagingSelection, type SelectionScore } from '@/lib/utils/imaging-score'
+import type {
+  ACRCategory,
+  Case,
+  CaseCategory,
+  CaseImagingRating,
+  ImagingOption,
+  StageImagingRating,
+} from '@/types/database'
+import {
+  caseSchema,
+  clinicalInputSchema,
+  imagingOptionSchema,
+  stageImagingRatingSchema,
+} from './schema'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Legacy shape a canonical case was adapted from */
+export type CaseSource = 'database' | 'api' | 'aiie' | 'legacy'
+
+export interface CanonicalCase extends Case {
+  /** ACR ratings for every imaging option offered in the case */
+  imaging_ratings: StageImagingRating[]
+  /** Imaging options the ratings refer to, including any not in the catalog */
+  imaging_options: ImagingOption[]
+  /** Structured presentation for the AIIE engine */
+  clinical_input: ClinicalInput
+  source: CaseSource
+}
+
+export interface CaseViewerData {
+  caseData: Case
+  imagingOptions: ImagingOption[]
+  imagingRatings: CaseImagingRating[]
+  clinicalInput: ClinicalInput
+}
+
+export interface AIIEOptionScore {
+  imagingOptionId: string
+  result: ScoringResult
+}
+
+export interface CanonicalCaseScore {
+  /** Partial-credit score from the case's ACR ratings */
+  acr: SelectionScore
+  /** AIIE score for each selected study, in selection order */
+  aiie: AIIEOptionScore[]
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export const canonicalCaseSchema = caseSchema
+  .extend({
+    imaging_ratings: z.array(stageImagingRatingSchema).min(1),
+    imaging_options: z.array(imagingOptionSchema),
+    clinical_input: clinicalInputSchema,
+    source: z.enum(['database', 'api', 'aiie', 'legacy']),
+  })
+  .superRefine((c, ctx) => {
+    const optionIds = new Set(c.imaging_options.map((opt) => opt.id))
+    c.imaging_ratings.forEach((rating, index) => {
+      if (!optionIds.has(rating.imaging_option_id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['imaging_ratings', index, 'imaging_option_id'],
+          message: `No imaging option "${rating.imaging_option_id}"`,
+        })
+      }
+    })
+  })
+
+/**
+ * Parse a value against a case schema, throwing one error that names the
+ * case and every failing field
+ */
+export function validateCaseShape<T>(schema: z.ZodType<T>, value: unknown, label: string): T {
+  const result = schema.safeParse(value)
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ')
+    throw new Error(`${label} is invalid: ${issues}`)
+  }
+  return result.data
+}
+
+/**
+ * Validate an adapted case
+ */
+export function parseCanonicalCase(value: CanonicalCase): CanonicalCase {
+  validateCaseShape(canonicalCaseSchema, value, `Case "${value.id}" (${value.source})`)
+  return value
+}
+
+// ============================================================================
+// Ratings
+// ============================================================================
+
+/**
+ * ACR category for a 1-9 rating
+ */
+export function getRatingCategory(acrRating: number): ACRCategory {
+  if (acrRating >= 7) return 'usually-appropriate'
+  if (acrRating >= 4) return 'may-be-appropriate'
+  return 'usually-not-appropriate'
+}
+
+/**
+ * Convert an AIIE score (1-9, one decimal) to an integer ACR-style rating
+ */
+export function toAcrRating(aiieScore: number): number {
+  return Math.min(9, Math.max(1, Math.round(aiieScore)))
+}
+
+// ============================================================================
+// Modality Mapping
+// ============================================================================
+
+const NO_IMAGING = 'no-imaging'
+
+/** Catalog body region imaged for each case category */
+export const CATEGORY_BODY_REGIONS: Record<CaseCategory, string> = {
+  'low-back-pain': 'spine',
+  headache: 'head',
+  'chest-pain': 'chest',
+  'abdominal-pain': 'abdomen',
+  'extremity-trauma': 'extremity',
+}
+
+const AIIE_MODALITY_SPECS: Record<AIIEModality, Pick<ImagingOption, 'modality' | 'with_contrast'>> = {
+  'X-ray': { modality: 'xray', with_contrast: false },
+  'CT without contrast': { modality: 'ct', with_contrast: false },
+  'CT with contrast': { modality: 'ct', with_contrast: true },
+  'MRI without contrast': { modality: 'mri', with_contrast: false },
+  'MRI with contrast': { modality: 'mri', with_contrast: true },
+  'Ultrasound': { modality: 'ultrasound', with_contrast: false },
+  'Nuclear medicine': { modality: 'nuclear', with_contrast: false },
+  'No imaging': { modality: 'none' as ImagingOption['modality'], with_contrast: false },
+}
+
+/**
+ * AIIE modality an imaging option is scored as
+ */
+export function getAIIEModality(
+  option: Pick<ImagingOption, 'id' | 'modality' | 'with_contrast'>
+): AIIEModality {
+  switch (option.modality as string) {
+    case 'none':
+      return 'No imaging'
+    case 'ct':
+    case 'pet':
+      return option.with_contrast ? 'CT with contrast' : 'CT without contrast'
+    case 'mri':
+      return option.with_contrast ? 'MRI with contrast' : 'MRI without contrast'
+    case 'ultrasound':
+      return 'Ultrasound'
+    case 'nuclear':
+      return 'Nuclear medicine'
+    default:
+      return option.id === NO_IMAGING ? 'No imaging' : 'X-ray'
+  }
+}
+
+/**
+ * Catalog option for an AIIE modality in a body region.
+ * Modalities the catalog lacks for that region are synthesized from the
+ * same modality elsewhere so the case can still be rendered and scored.
+ */
+export function getImagingOptionForModality(
+  modality: AIIEModality,
+  bodyRegion: string
+): ImagingOption {
+  if (modality === 'No imaging') return getImagingById(NO_IMAGING)
+
+  const spec = AIIE_MODALITY_SPECS[modality]
+  const sameModality = imagingCatalog.filter(
+    (opt) => opt.modality === spec.modality && opt.with_contrast === spec.with_contrast
+  )
+  // Catalog spine studies are lumbar or cervical; only low back pain maps to the spine
+  const match = sameModality.find(
+    (opt) => opt.body_region === bodyRegion && !(bodyRegion === 'spine' && opt.id.includes('cervical'))
+  )
+  if (match) return match
+
+  const template = sameModality[0]
+  const regionLabel = bodyRegion.charAt(0).toUpperCase() + bodyRegion.slice(1)
+  return {
+    ...template,
+    id: `${spec.modality}-${bodyRegion}${spec.with_contrast ? '-c' : ''}`,
+    name: `${modality} ${regionLabel}`,
+    short_name: `${modality} ${regionLabel}`,
+    body_region: bodyRegion,
+    description: `${modality} of the ${bodyRegion}.`,
+    common_indications: [],
+  }
+}
+
+// ============================================================================
+// Consumers
+// ============================================================================
+
+/**
+ * Props for CaseViewer
+ */
+export function toCaseViewerData(canonical: CanonicalCase): CaseViewerData {
+  const { imaging_ratings, imaging_options, clinical_input, source, ...caseData } = canonical
+  return {
+    caseData,
+    imagingOptions: imaging_options,
+    clinicalInput: clinical_input,
+    imagingRatings: imaging_ratings.map((rating) => ({
+      ...rating,
+      id: `${canonical.id}:${rating.imaging_option_id}`,
+      case_id: canonical.id,
+      acr_reference: canonical.acr_topic,
+      created_at: canonical.created_at,
+      updated_at: canonical.updated_at,
+    })),
+  }
+}
+
+/**
+ * Score a selection against the ACR ratings and with the AIIE engine
+ */
+export function scoreCanonicalCase(
+  canonical: CanonicalCase,
+  selectedImaging: string[],
+  options: { hintsUsed?: number } = {}
+): CanonicalCaseScore {
+  const acr = scoreImagingSelection({
+    selectedImaging,
+    ratings: canonical.imaging_ratings,
+    optimalImaging: canonical.optimal_imaging,
+    imagingOptions: canonical.imaging_options,
+    hintsUsed: options.hintsUsed,
+  })
+
+  const aiie = selectedImaging.flatMap((id) => {
+    const option = canonical.imaging_options.find((opt) => opt.id === id) ?? getImagingById(id)
+    if (!option) return []
+    return [{
+      imagingOptionId: id,
+      result: calculateAIIEScore(canonical.clinical_input, getAIIEModality(option)),
+    }]
+  })
+
+  return { acr, aiie }
+}
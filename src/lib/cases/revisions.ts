@@ -0,0 +1,188 @@
+/**
+ * Case revision workflow: draft -> in review -> approved -> published -> retired.
+ * The database enforces the same transitions (migration 005); these helpers
+ * drive the editor UI and compute the per-revision diff.
+ */
+
+import type {
+  Case,
+  CaseFieldChange,
+  CaseRevision,
+  CaseRevisionContent,
+  CaseRevisionStatus,
+  StageImagingRating,
+} from '@/types/database'
+
+// ============================================================================
+// State Machine
+// ============================================================================
+
+export const CASE_REVISION_TRANSITIONS: Record<CaseRevisionStatus, CaseRevisionStatus[]> = {
+  draft: ['in_review'],
+  in_review: ['draft', 'approved'],
+  approved: ['draft', 'published'],
+  published: ['retired'],
+  retired: [],
+}
+
+export const CASE_REVISION_STATUS_LABELS: Record<CaseRevisionStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  approved: 'Approved',
+  published: 'Published',
+  retired: 'Retired',
+}
+
+export const CASE_REVISION_STATUS_VARIANTS: Record<
+  CaseRevisionStatus,
+  'default' | 'info' | 'warning' | 'success' | 'danger'
+> = {
+  draft: 'default',
+  in_review: 'warning',
+  approved: 'info',
+  published: 'success',
+  retired: 'danger',
+}
+
+/** Button label for moving a revision into each status */
+export const CASE_REVISION_ACTION_LABELS: Record<CaseRevisionStatus, string> = {
+  draft: 'Return to Draft',
+  in_review: 'Submit for Review',
+  approved: 'Approve',
+  published: 'Publish',
+  retired: 'Retire',
+}
+
+/**
+ * Whether an actor may move a revision to a status. Authors cannot approve
+ * their own revisions, so every published case has a second sign-off.
+ */
+export function canTransitionRevision(
+  revision: Pick<CaseRevision, 'status' | 'author_id'>,
+  to: CaseRevisionStatus,
+  actorId: string
+): { allowed: boolean; reason?: string } {
+  if (!CASE_REVISION_TRANSITIONS[revision.status].includes(to)) {
+    return {
+      allowed: false,
+      reason: `${CASE_REVISION_STATUS_LABELS[revision.status]} revisions cannot move to ${CASE_REVISION_STATUS_LABELS[to]}`,
+    }
+  }
+  if (to === 'approved' && revision.author_id === actorId) {
+    return { allowed: false, reason: 'Another editor must approve your revision' }
+  }
+  return { allowed: true }
+}
+
+/**
+ * Transitions an actor may take on a revision
+ */
+export function getAvailableTransitions(
+  revision: Pick<CaseRevision, 'status' | 'author_id'>,
+  actorId: string
+): CaseRevisionStatus[] {
+  return CASE_REVISION_TRANSITIONS[revision.status].filter(
+    (to) => canTransitionRevision(revision, to, actorId).allowed
+  )
+}
+
+// ============================================================================
+// Revision History
+// ============================================================================
+
+/**
+ * Revisions newest first
+ */
+export function sortRevisions<T extends CaseRevision>(revisions: T[]): T[] {
+  return [...revisions].sort((a, b) => b.revision_number - a.revision_number)
+}
+
+/**
+ * The revision the editor should write to: the newest one, if it is still a draft
+ */
+export function getOpenDraft(revisions: CaseRevision[]): CaseRevision | null {
+  const latest = sortRevisions(revisions)[0]
+  return latest?.status === 'draft' ? latest : null
+}
+
+export function getPublishedRevision(revisions: CaseRevision[]): CaseRevision | null {
+  return revisions.find((r) => r.status === 'published') ?? null
+}
+
+// ============================================================================
+// Content and Diffs
+// ============================================================================
+
+const NON_CONTENT_FIELDS = ['id', 'is_published', 'published_revision_id', 'created_at', 'updated_at']
+
+/**
+ * Snapshot of a case and its ratings as stored on a revision
+ */
+export function toRevisionContent(
+  caseData: Partial<Case>,
+  imagingRatings: StageImagingRating[]
+): CaseRevisionContent {
+  const content = { ...caseData } as Record<string, unknown>
+  NON_CONTENT_FIELDS.forEach((field) => delete content[field])
+  return {
+    ...(content as Omit<CaseRevisionContent, 'imaging_ratings'>),
+    imaging_ratings: imagingRatings.map(({ imaging_option_id, acr_rating, rating_category, rationale }) => ({
+      imaging_option_id,
+      acr_rating,
+      rating_category,
+      rationale,
+    })),
+  }
+}
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+/**
+ * Field-level changes between two revisions. Ratings are compared per
+ * imaging option so reviewers see which study's rating moved.
+ */
+export function diffCaseRevisionContent(
+  previous: CaseRevisionContent | null,
+  next: CaseRevisionContent
+): CaseFieldChange[] {
+  const before = (previous ?? {}) as Record<string, unknown>
+  const after = next as unknown as Record<string, unknown>
+  const changes: CaseFieldChange[] = []
+
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)])
+  fields.delete('imaging_ratings')
+  Array.from(fields)
+    .sort()
+    .forEach((field) => {
+      if (!isEqual(before[field], after[field])) {
+        changes.push({ field, before: before[field], after: after[field] })
+      }
+    })
+
+  const byOption = (ratings: StageImagingRating[] | undefined) =>
+    new Map((ratings ?? []).map((r) => [r.imaging_option_id, r]))
+  const oldRatings = byOption(previous?.imaging_ratings)
+  const newRatings = byOption(next.imaging_ratings)
+  const optionIds = new Set([...Array.from(oldRatings.keys()), ...Array.from(newRatings.keys())])
+  Array.from(optionIds)
+    .sort()
+    .forEach((id) => {
+      const was = oldRatings.get(id)
+      const now = newRatings.get(id)
+      if (!isEqual(was, now)) {
+        changes.push({ field: `imaging_ratings.${id}`, before: was, after: now })
+      }
+    })
+
+  return changes
+}
+
+/**
+ * Short display form of a changed value
+ */
+export function formatRevisionValue(value: unknown, maxLength = 120): string {
+  if (value === undefined) return '—'
+  if (value === null) return 'none'
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text
+}
@@ -0,0 +1,199 @@
+/**
+ * Zod schemas for case content in the shape of src/types/database.ts
+ */
+
+import { z } from 'zod'
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+export const specialtyTrackSchema = z.enum(['em', 'im', 'fm', 'surgery', 'peds'])
+
+export const caseCategorySchema = z.enum([
+  'low-back-pain',
+  'headache',
+  'chest-pain',
+  'abdominal-pain',
+  'extremity-trauma',
+])
+
+export const difficultySchema = z.enum(['beginner', 'intermediate', 'advanced'])
+
+export const modalitySchema = z.enum([
+  'xray',
+  'ct',
+  'mri',
+  'ultrasound',
+  'nuclear',
+  'fluoroscopy',
+  'mammography',
+  'pet',
+  'none',
+])
+
+export const acrCategorySchema = z.enum([
+  'usually-appropriate',
+  'may-be-appropriate',
+  'usually-not-appropriate',
+])
+
+export const patientSexSchema = z.enum(['male', 'female'])
+
+// ============================================================================
+// Supporting Schemas
+// ============================================================================
+
+export const vitalSignsSchema = z.object({
+  heart_rate: z.number().positive().nullable(),
+  blood_pressure_systolic: z.number().positive().nullable(),
+  blood_pressure_diastolic: z.number().positive().nullable(),
+  respiratory_rate: z.number().positive().nullable(),
+  temperature: z.number().nullable(),
+  temperature_unit: z.enum(['celsius', 'fahrenheit']).nullable(),
+  oxygen_saturation: z.number().min(0).max(100).nullable(),
+})
+
+export const labResultSchema = z.object({
+  name: z.string().min(1),
+  value: z.union([z.string(), z.number()]),
+  unit: z.string(),
+  reference_range: z.string(),
+  is_abnormal: z.boolean(),
+})
+
+export const clinicalPearlSchema = z.object({
+  content: z.string().min(1),
+  category: z.enum(['clinical-pearl', 'high-yield', 'common-mistake', 'board-favorite']),
+})
+
+export const referenceSchema = z.object({
+  title: z.string().min(1),
+  source: z.string(),
+  year: z.number().int(),
+  url: z.string().nullable().optional(),
+})
+
+export const decisionRuleInputSchema = z.object({
+  rule: z.enum([
+    'pecarn',
+    'canadian-ct-head',
+    'ottawa-ankle',
+    'ottawa-knee',
+    'nexus',
+    'wells-pe',
+    'perc',
+    'heart',
+  ]),
+  input: z.record(z.unknown()),
+})
+
+// ============================================================================
+// Imaging
+// ============================================================================
+
+export const acrRatingSchema = z.number().int().min(1).max(9)
+
+export const imagingOptionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  short_name: z.string().min(1),
+  modality: modalitySchema,
+  body_region: z.string(),
+  with_contrast: z.boolean(),
+  typical_cost_usd: z.number().min(0),
+  radiation_msv: z.number().min(0),
+  description: z.string(),
+  common_indications: z.array(z.string()),
+  contraindications: z.array(z.string()),
+  duration: z.string(),
+  is_active: z.boolean(),
+  // The bundled catalog carries no timestamps
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+})
+
+export const stageImagingRatingSchema = z.object({
+  imaging_option_id: z.string().min(1),
+  acr_rating: acrRatingSchema,
+  rating_category: acrCategorySchema,
+  rationale: z.string(),
+})
+
+export const caseImagingRatingSchema = stageImagingRatingSchema.extend({
+  id: z.string(),
+  case_id: z.string().min(1),
+  acr_reference: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+// ============================================================================
+// Cases
+// ============================================================================
+
+export const caseStageSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  time_offset: z.string().nullable(),
+  clinical_vignette: z.string().min(1),
+  vital_signs: vitalSignsSchema.nullable(),
+  physical_exam: z.string().nullable(),
+  lab_results: z.array(labResultSchema).nullable(),
+  optimal_imaging: z.array(z.string()),
+  imaging_ratings: z.array(stageImagingRatingSchema),
+  imaging_results: z.record(z.string()),
+  outcome: z.string().nullable(),
+  explanation: z.string(),
+})
+
+export const caseSchema = z.object({
+  id: z.string().min(1),
+  slug: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug must be kebab-case'),
+  title: z.string().min(1),
+  chief_complaint: z.string().min(1),
+  clinical_vignette: z.string().min(1),
+  patient_age: z.number().min(0).max(120),
+  patient_sex: patientSexSchema,
+  patient_history: z.array(z.string()),
+  vital_signs: vitalSignsSchema.nullable(),
+  physical_exam: z.string().nullable(),
+  lab_results: z.array(labResultSchema).nullable(),
+  category: caseCategorySchema,
+  specialty_tags: z.array(specialtyTrackSchema),
+  difficulty: difficultySchema,
+  acr_topic: z.string(),
+  optimal_imaging: z.array(z.string()),
+  explanation: z.string(),
+  teaching_points: z.array(z.string()),
+  clinical_pearls: z.array(clinicalPearlSchema).nullable(),
+  hints: z.array(z.string()).nullable(),
+  references: z.array(referenceSchema),
+  decision_rules: z.array(decisionRuleInputSchema).nullable().optional(),
+  stages: z.array(caseStageSchema).nullable().optional(),
+  is_published: z.boolean(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+// ============================================================================
+// AIIE
+// ============================================================================
+
+export const clinicalInputSchema = z.object({
+  age: z.number().min(0).max(120),
+  sex: patientSexSchema,
+  chiefComplaint: z.string().min(1),
+  category: caseCategorySchema.optional(),
+  duration: z.string(),
+  severity: z.enum(['mild', 'moderate', 'severe']),
+  redFlags: z.array(z.string()),
+  cancerHistory: z.boolean(),
+  immunocompromised: z.boolean(),
+  recentTrauma: z.boolean(),
+  neurologicDeficit: z.boolean(),
+  progressiveSymptoms: z.boolean(),
+  priorImaging: z.array(z.string()),
+  labsAvailable: z.array(z.string()),
+  physicalExamFindings: z.array(z.string()),
+}).passthrough()
@@ -0,0 +1,40 @@
+/**
+ * Specialty certificate eligibility: every curriculum module of the track
+ * complete and the track assessment passed
+ */
+
+import {
+  calculateModuleProgress,
+  type SpecialtyTrackConfig,
+} from '@/data/specialty-tracks'
+
+export interface CertificateEligibility {
+  eligible: boolean
+  modulesComplete: number
+  modulesTotal: number
+  /** Titles of modules with cases left */
+  missingModules: string[]
+  assessmentPassed: boolean
+}
+
+/**
+ * Check a learner against a track, given the curriculum case ids they have
+ * completed and whether they have passed the track assessment
+ */
+export function getCertificateEligibility(
+  track: SpecialtyTrackConfig,
+  completedCaseIds: string[],
+  assessmentPassed: boolean
+): CertificateEligibility {
+  const missingModules = track.curriculum
+    .filter((module) => !calculateModuleProgress(module, completedCaseIds).isComplete)
+    .map((module) => module.title)
+
+  return {
+    eligible: missingModules.length === 0 && assessmentPassed,
+    modulesComplete: track.curriculum.length - missingModules.length,
+    modulesTotal: track.curriculum.length,
+    missingModules,
+    assessmentPassed,
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Certificate PDF rendering. A single landscape page drawn with the
+ * standard Helvetica fonts (see src/lib/pdf/writer.ts).
+ */
+
+import { drawText, textWidth, toWinAnsi, writePdf, type FontKey } from '@/lib/pdf/writer'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CertificatePdfInput {
+  certificateId: string
+  recipientName: string
+  certificateName: string
+  trackName: string
+  issuedAt: string
+  verificationCode: string
+  verifyUrl: string
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PAGE_WIDTH = 792
+const PAGE_HEIGHT = 612
+const MAX_TEXT_WIDTH = 640
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Text drawn centred on the page, shrunk to fit the printable width
+ */
+function centeredText(text: string, font: FontKey, size: number, y: number, gray = 0.15): string {
+  const encoded = toWinAnsi(text)
+  let fontSize = size
+  while (fontSize > 8 && textWidth(encoded, font, fontSize) > MAX_TEXT_WIDTH) fontSize -= 1
+  const x = (PAGE_WIDTH - textWidth(encoded, font, fontSize)) / 2
+  return drawText(encoded, font, fontSize, x, y, gray)
+}
+
+function formatIssueDate(issuedAt: string): string {
+  return new Date(issuedAt).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render a certificate as PDF bytes
+ */
+export function renderCertificatePdf(input: CertificatePdfInput): Uint8Array {
+  const content = [
+    // Double border in amber
+    '0.85 0.6 0.15 RG 3 w 36 36 720 540 re S',
+    '1 w 46 46 700 520 re S',
+    centeredText('ARKA-ED', 'F2', 16, 510, 0.1),
+    centeredText('CERTIFICATE OF COMPLETION', 'F1', 12, 486, 0.4),
+    centeredText('This certifies that', 'F1', 14, 430, 0.3),
+    centeredText(input.recipientName, 'F2', 32, 385),
+    centeredText(
+      `has completed the ${input.trackName} track and passed its assessment, earning the`,
+      'F1',
+      13,
+      340,
+      0.3
+    ),
+    centeredText(input.certificateName, 'F2', 20, 305),
+    centeredText(`Issued ${formatIssueDate(input.issuedAt)}`, 'F1', 12, 255, 0.3),
+    centeredText(`Certificate ID: ${input.certificateId}`, 'F1', 9, 112, 0.4),
+    centeredText(`Verification code: ${input.verificationCode}`, 'F1', 9, 98, 0.4),
+    centeredText(`Verify at ${input.verifyUrl}`, 'F1', 9, 84, 0.4),
+  ].join('\n')
+
+  return writePdf({
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+    pages: [content],
+    title: input.certificateName,
+  })
+}
@@ -0,0 +1,67 @@
+/**
+ * Certificate signatures. Each certificate carries an HMAC-SHA256 over its
+ * public fields, keyed with CERTIFICATE_SIGNING_SECRET, so /verify can tell
+ * an issued certificate from a row edited outside the issuing route.
+ * Server only.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { CertificateVerification } from '@/types/database'
+
+export type SignedCertificateFields = Pick<
+  CertificateVerification,
+  'id' | 'track' | 'certificate_name' | 'recipient_name' | 'issued_at'
+>
+
+/** Characters of the signature printed on the certificate */
+const VERIFICATION_CODE_LENGTH = 16
+
+function getSigningSecret(): string {
+  const secret = process.env.CERTIFICATE_SIGNING_SECRET
+  if (!secret) {
+    throw new Error('CERTIFICATE_SIGNING_SECRET is not set')
+  }
+  return secret
+}
+
+/**
+ * Canonical text that is signed. Timestamps are normalised so the database's
+ * formatting does not change the signature.
+ */
+function getSignedPayload(certificate: SignedCertificateFields): string {
+  return [
+    certificate.id,
+    certificate.track,
+    certificate.certificate_name,
+    certificate.recipient_name,
+    new Date(certificate.issued_at).toISOString(),
+  ].join('\n')
+}
+
+export function signCertificate(certificate: SignedCertificateFields): string {
+  return createHmac('sha256', getSigningSecret())
+    .update(getSignedPayload(certificate))
+    .digest('hex')
+}
+
+/**
+ * Whether a certificate's stored signature matches its fields
+ */
+export function verifyCertificateSignature(
+  certificate: SignedCertificateFields & { signature: string }
+): boolean {
+  const expected = Buffer.from(signCertificate(certificate), 'hex')
+  const actual = Buffer.from(certificate.signature, 'hex')
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/**
+ * Short form of the signature printed on the certificate, for matching a
+ * paper copy against /verify
+ */
+export function getVerificationCode(signature: string): string {
+  return signature
+    .slice(0, VERIFICATION_CODE_LENGTH)
+    .toUpperCase()
+    .replace(/(.{4})(?=.)/g, '$1-')
+}
@@ -0,0 +1,317 @@
+/**
+ * Content linter for the bundled cases, imaging catalog, curricula and
+ * achievements. These files are untyped, so this is what catches a dangling
+ * id or a mislabelled rating before it reaches a learner.
+ */
+
+import { z } from 'zod'
+import { ACHIEVEMENTS } from '@/data/achievements'
+import { allCases } from '@/data/cases'
+import { abdominalPainImagingRatings } from '@/data/cases/abdominal-pain'
+import { chestPainImagingRatings } from '@/data/cases/chest-pain'
+import { extremityTraumaImagingRatings } from '@/data/cases/extremity-trauma'
+import { headacheImagingRatings } from '@/data/cases/headache'
+import { lowBackPainImagingRatings } from '@/data/cases/low-back-pain'
+import { imagingOptions } from '@/data/imaging-options'
+import { SPECIALTY_TRACKS } from '@/data/specialty-tracks'
+import { getRatingCategory } from '@/lib/cases/model'
+import type { AchievementDefinition } from '@/data/achievements'
+import type { SpecialtyTrackConfig } from '@/data/specialty-tracks'
+import type { Case, ImagingOption, StageImagingRating } from '@/types/database'
+import {
+  achievementSchema,
+  caseSchema,
+  imagingOptionSchema,
+  specialtyTrackConfigSchema,
+  stageImagingRatingSchema,
+} from './schemas'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ContentLintRule =
+  | 'schema'
+  | 'duplicate-id'
+  | 'duplicate-slug'
+  | 'dangling-imaging-id'
+  | 'missing-case'
+  | 'missing-module'
+  | 'missing-ratings'
+  | 'orphan-ratings'
+  | 'rating-range'
+  | 'rating-category'
+  | 'optimal-rating'
+
+export type ContentLintSeverity = 'error' | 'warning'
+
+export interface ContentLintIssue {
+  severity: ContentLintSeverity
+  rule: ContentLintRule
+  /** Content file the issue is in, relative to src/data */
+  file: string
+  /** Dotted path to the offending value */
+  path: string
+  message: string
+}
+
+export interface ContentBundle {
+  cases: Case[]
+  /** Ratings keyed by case id, as exported by each src/data/cases file */
+  imagingRatings: Record<string, StageImagingRating[]>
+  imagingOptions: ImagingOption[]
+  tracks: SpecialtyTrackConfig[]
+  achievements: AchievementDefinition[]
+}
+
+export interface ContentLintReport {
+  issues: ContentLintIssue[]
+  errorCount: number
+  warningCount: number
+}
+
+// ============================================================================
+// Bundled Content
+// ============================================================================
+
+const CASES_FILE = 'cases/*.ts'
+const IMAGING_FILE = 'imaging-options.ts'
+const TRACKS_FILE = 'specialty-tracks.ts'
+const ACHIEVEMENTS_FILE = 'achievements.ts'
+
+/**
+ * The content shipped in src/data
+ */
+export function getBundledContent(): ContentBundle {
+  return {
+    cases: allCases,
+    // Rating literals are widened to string in the untyped data files; the linter checks them
+    imagingRatings: {
+      ...headacheImagingRatings,
+      ...lowBackPainImagingRatings,
+      ...chestPainImagingRatings,
+      ...abdominalPainImagingRatings,
+      ...extremityTraumaImagingRatings,
+    } as Record<string, StageImagingRating[]>,
+    imagingOptions,
+    tracks: Object.values(SPECIALTY_TRACKS),
+    achievements: ACHIEVEMENTS,
+  }
+}
+
+// ============================================================================
+// Linter
+// ============================================================================
+
+/**
+ * Lint a content bundle. Errors break rendering, scoring or completion of a
+ * curriculum; warnings are content that loads but reads inconsistently.
+ */
+export function lintContent(content: ContentBundle = getBundledContent()): ContentLintReport {
+  const issues: ContentLintIssue[] = []
+  const report = (
+    severity: ContentLintSeverity,
+    rule: ContentLintRule,
+    file: string,
+    path: string,
+    message: string
+  ) => issues.push({ severity, rule, file, path, message })
+
+  const checkSchema = (schema: z.ZodTypeAny, value: unknown, file: string, path: string) => {
+    const result = schema.safeParse(value)
+    if (result.success) return
+    for (const issue of result.error.issues) {
+      report('error', 'schema', file, [path, ...issue.path].join('.'), issue.message)
+    }
+  }
+
+  const checkDuplicates = (
+    values: string[],
+    rule: ContentLintRule,
+    file: string,
+    path: (index: number) => string,
+    label: string
+  ) => {
+    const seen = new Set<string>()
+    values.forEach((value, index) => {
+      if (seen.has(value)) report('error', rule, file, path(index), `Duplicate ${label} "${value}"`)
+      seen.add(value)
+    })
+  }
+
+  // Imaging catalog
+  content.imagingOptions.forEach((option, index) =>
+    checkSchema(imagingOptionSchema, option, IMAGING_FILE, `imagingOptions.${index}`)
+  )
+  checkDuplicates(
+    content.imagingOptions.map((opt) => opt.id),
+    'duplicate-id',
+    IMAGING_FILE,
+    (index) => `imagingOptions.${index}.id`,
+    'imaging option id'
+  )
+  const imagingIds = new Set(content.imagingOptions.map((opt) => opt.id))
+
+  const checkImagingId = (id: string, path: string) => {
+    if (!imagingIds.has(id)) {
+      report('error', 'dangling-imaging-id', CASES_FILE, path, `Unknown imaging option "${id}"`)
+    }
+  }
+
+  const checkRatings = (
+    ratings: StageImagingRating[],
+    path: string,
+    optimalImaging: string[]
+  ) => {
+    ratings.forEach((rating, index) => {
+      const ratingPath = `${path}.${index}`
+      checkSchema(
+        stageImagingRatingSchema.omit({ acr_rating: true }),
+        rating,
+        CASES_FILE,
+        ratingPath
+      )
+      checkImagingId(rating.imaging_option_id, `${ratingPath}.imaging_option_id`)
+
+      if (!Number.isInteger(rating.acr_rating) || rating.acr_rating < 1 || rating.acr_rating > 9) {
+        report(
+          'error',
+          'rating-range',
+          CASES_FILE,
+          `${ratingPath}.acr_rating`,
+          `ACR rating ${rating.acr_rating} is outside 1-9`
+        )
+        return
+      }
+      const expected = getRatingCategory(rating.acr_rating)
+      if (rating.rating_category !== expected) {
+        report(
+          'error',
+          'rating-category',
+          CASES_FILE,
+          `${ratingPath}.rating_category`,
+          `"${rating.rating_category}" disagrees with ACR rating ${rating.acr_rating} (expected "${expected}")`
+        )
+      }
+      if (optimalImaging.includes(rating.imaging_option_id) && rating.acr_rating < 7) {
+        report(
+          'warning',
+          'optimal-rating',
+          CASES_FILE,
+          `${ratingPath}.acr_rating`,
+          `Optimal study "${rating.imaging_option_id}" is rated ${rating.acr_rating}/9`
+        )
+      }
+    })
+  }
+
+  // Cases and ratings
+  content.cases.forEach((caseData, index) => {
+    const path = `cases.${caseData.id ?? index}`
+    checkSchema(caseSchema, caseData, CASES_FILE, path)
+
+    caseData.optimal_imaging?.forEach((id, i) => checkImagingId(id, `${path}.optimal_imaging.${i}`))
+
+    const ratings = content.imagingRatings[caseData.id]
+    if (!ratings || ratings.length === 0) {
+      report('error', 'missing-ratings', CASES_FILE, path, 'Case has no imaging ratings')
+    } else {
+      checkRatings(ratings, `imagingRatings.${caseData.id}`, caseData.optimal_imaging ?? [])
+    }
+
+    caseData.stages?.forEach((stage, s) => {
+      const stagePath = `${path}.stages.${s}`
+      stage.optimal_imaging.forEach((id, i) => checkImagingId(id, `${stagePath}.optimal_imaging.${i}`))
+      Object.keys(stage.imaging_results).forEach((id) =>
+        checkImagingId(id, `${stagePath}.imaging_results.${id}`)
+      )
+      checkRatings(stage.imaging_ratings, `${stagePath}.imaging_ratings`, stage.optimal_imaging)
+    })
+  })
+  checkDuplicates(
+    content.cases.map((c) => c.id),
+    'duplicate-id',
+    CASES_FILE,
+    (index) => `cases.${index}.id`,
+    'case id'
+  )
+  checkDuplicates(
+    content.cases.map((c) => c.slug),
+    'duplicate-slug',
+    CASES_FILE,
+    (index) => `cases.${index}.slug`,
+    'case slug'
+  )
+
+  const caseIds = new Set(content.cases.map((c) => c.id))
+  Object.keys(content.imagingRatings)
+    .filter((id) => !caseIds.has(id))
+    .forEach((id) =>
+      report('error', 'orphan-ratings', CASES_FILE, `imagingRatings.${id}`, `Ratings for unknown case "${id}"`)
+    )
+
+  // Curricula
+  const moduleIds = content.tracks.flatMap((track) => track.curriculum.map((m) => m.id))
+  content.tracks.forEach((track) => {
+    const path = `SPECIALTY_TRACKS.${track.id}`
+    checkSchema(specialtyTrackConfigSchema, track, TRACKS_FILE, path)
+
+    track.curriculum.forEach((module, m) => {
+      const modulePath = `${path}.curriculum.${m}`
+      const missing = module.caseIds.filter((id) => !caseIds.has(id))
+      if (missing.length > 0) {
+        // A module can never be completed, nor its track certified, while a case is missing
+        report(
+          'error',
+          'missing-case',
+          TRACKS_FILE,
+          `${modulePath}.caseIds`,
+          `Module "${module.id}" references ${missing.length} missing case${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`
+        )
+      }
+      if (module.unlockRequirement?.type === 'module' && !moduleIds.includes(String(module.unlockRequirement.value))) {
+        report(
+          'error',
+          'missing-module',
+          TRACKS_FILE,
+          `${modulePath}.unlockRequirement`,
+          `Module "${module.id}" unlocks after unknown module "${module.unlockRequirement.value}"`
+        )
+      }
+    })
+  })
+  checkDuplicates(moduleIds, 'duplicate-id', TRACKS_FILE, (index) => `curriculum.${index}`, 'module id')
+  checkDuplicates(
+    content.tracks.map((t) => t.slug),
+    'duplicate-slug',
+    TRACKS_FILE,
+    (index) => `SPECIALTY_TRACKS.${content.tracks[index].id}.slug`,
+    'track slug'
+  )
+
+  // Achievements
+  content.achievements.forEach((achievement, index) =>
+    checkSchema(achievementSchema, achievement, ACHIEVEMENTS_FILE, `ACHIEVEMENTS.${achievement.slug ?? index}`)
+  )
+  checkDuplicates(
+    content.achievements.map((a) => a.slug),
+    'duplicate-slug',
+    ACHIEVEMENTS_FILE,
+    (index) => `ACHIEVEMENTS.${index}.slug`,
+    'achievement slug'
+  )
+
+  return {
+    issues,
+    errorCount: issues.filter((i) => i.severity === 'error').length,
+    warningCount: issues.filter((i) => i.severity === 'warning').length,
+  }
+}
+
+/**
+ * One line per issue, e.g.
+ * "error  cases/*.ts  cases.x.optimal_imaging.0  Unknown imaging option "y"  (dangling-imaging-id)"
+ */
+export function formatContentLintIssue(issue: ContentLintIssue): string {
+  return `${issue.severity.padEnd(7)} ${issue.file}  ${issue.path}  ${issue.message}  (${issue.rule})`
+}
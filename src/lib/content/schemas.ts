@@ -0,0 +1,74 @@
+/**
+ * Zod schemas for the bundled content in src/data.
+ * Case and imaging schemas live with the case model in @/lib/cases/schema.
+ */
+
+import { z } from 'zod'
+import { specialtyTrackSchema } from '@/lib/cases/schema'
+import { achievementCriteriaSchema } from '@/lib/achievements/criteria'
+
+export {
+  caseSchema,
+  caseStageSchema,
+  imagingOptionSchema,
+  stageImagingRatingSchema,
+} from '@/lib/cases/schema'
+
+// ============================================================================
+// Curricula
+// ============================================================================
+
+export const curriculumModuleSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string(),
+  caseIds: z.array(z.string().min(1)).min(1),
+  unlockRequirement: z
+    .union([
+      z.object({ type: z.literal('module'), value: z.string().min(1) }),
+      z.object({ type: z.literal('cases'), value: z.number().int().positive() }),
+      z.object({ type: z.null(), value: z.null() }),
+    ])
+    .nullable(),
+  estimatedMinutes: z.number().int().positive(),
+})
+
+export const trackResourceSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  type: z.enum(['acr-topic', 'guideline', 'reading', 'video']),
+  url: z.string().url().optional(),
+  description: z.string().optional(),
+})
+
+export const specialtyTrackConfigSchema = z.object({
+  id: specialtyTrackSchema,
+  name: z.string().min(1),
+  slug: z.string().min(1),
+  shortName: z.string().min(1),
+  color: z.enum(['rose', 'blue', 'emerald', 'violet', 'teal']),
+  icon: z.enum(['Siren', 'Heart', 'Users', 'Scissors', 'Baby']),
+  description: z.string(),
+  longDescription: z.string(),
+  curriculum: z.array(curriculumModuleSchema).min(1),
+  assessmentId: z.string().min(1),
+  certificateName: z.string().min(1),
+  prerequisites: z.array(z.string()),
+  resources: z.array(trackResourceSchema),
+})
+
+// ============================================================================
+// Achievements
+// ============================================================================
+
+export const achievementSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug must be kebab-case'),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  icon: z.string().min(1),
+  category: z.enum(['progress', 'mastery', 'streak', 'special']),
+  criteria: achievementCriteriaSchema,
+  points: z.number().int().positive(),
+  isSecret: z.boolean().optional(),
+  confettiOnUnlock: z.boolean().optional(),
+})
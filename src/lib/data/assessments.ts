@@ -10,7 +10,21 @@ import type {
   SpecialtyTrack,
   DifficultyLevel,
   Case,
+  CaseDifficultyStats,
 } from "@/types/database";
+import {
+  calibrateCaseRatings,
+  recommendNextCases,
+  type AbilityAttempt,
+} from "@/lib/utils/adaptive-difficulty";
+import {
+  assembleForm,
+  createBlueprint,
+  getFormRating,
+  type AssembledForm,
+  type AssessmentBlueprint,
+} from "@/lib/utils/form-assembly";
+import type { FormAssemblyContext } from "@/lib/supabase/assessment-sittings";
 
 // ============================================================================
 // Types
@@ -30,6 +44,7 @@ export interface Assessment {
   difficulty?: DifficultyLevel[];
   passingScore: number;
   caseIds?: string[]; // For custom assessments
+  blueprint?: AssessmentBlueprint; // How forms are assembled, see form-assembly
 }
 
 export interface AssessmentAnswer {
@@ -39,6 +54,7 @@ export interface AssessmentAnswer {
   correct: boolean;
   timeSpent: number; // seconds
   acrRating?: number;
+  score?: number; // 0-100 partial credit from scoreImagingSelection
 }
 
 export interface AssessmentAttempt {
@@ -62,7 +78,7 @@ export interface AssessmentResult {
   passed: boolean;
   timeUsed: number;
   timeLimit: number;
-  percentile?: number;
+  percentile?: number; // 0-100 among peers, from get_peer_comparison; absent for suppressed cohorts
   categoryBreakdown: CategoryBreakdown[];
   difficultyBreakdown: DifficultyBreakdown[];
   missedQuestions: MissedQuestion[];
@@ -101,6 +117,7 @@ export interface CaseRecommendation {
   category: CaseCategory;
   difficulty: DifficultyLevel;
   reason: string;
+  expectedScore?: number; // 0-100, from the adaptive learner model
 }
 
 // ============================================================================
@@ -115,8 +132,19 @@ export const QUICK_QUIZ: Assessment = {
   questionCount: 10,
   timeLimit: 15,
   passingScore: 70,
+  blueprint: createBlueprint({
+    caseCount: 10,
+    difficultyMix: { beginner: 30, intermediate: 50, advanced: 20 },
+    minNoImaging: 2,
+  }),
 };
 
+const SPECIALTY_BLUEPRINT = createBlueprint({
+  caseCount: 20,
+  difficultyMix: { beginner: 25, intermediate: 50, advanced: 25 },
+  minNoImaging: 3,
+});
+
 export const SPECIALTY_ASSESSMENTS: Record<SpecialtyTrack, Assessment> = {
   em: {
     id: "specialty-em",
@@ -127,6 +155,7 @@ export const SPECIALTY_ASSESSMENTS: Record<SpecialtyTrack, Assessment> = {
     timeLimit: 30,
     specialty: "em",
     passingScore: 75,
+    blueprint: SPECIALTY_BLUEPRINT,
   },
   im: {
     id: "specialty-im",
@@ -137,6 +166,7 @@ export const SPECIALTY_ASSESSMENTS: Record<SpecialtyTrack, Assessment> = {
     timeLimit: 30,
     specialty: "im",
     passingScore: 75,
+    blueprint: SPECIALTY_BLUEPRINT,
   },
   fm: {
     id: "specialty-fm",
@@ -147,6 +177,7 @@ export const SPECIALTY_ASSESSMENTS: Record<SpecialtyTrack, Assessment> = {
     timeLimit: 30,
     specialty: "fm",
     passingScore: 75,
+    blueprint: SPECIALTY_BLUEPRINT,
   },
   surgery: {
     id: "specialty-surgery",
@@ -157,6 +188,7 @@ export const SPECIALTY_ASSESSMENTS: Record<SpecialtyTrack, Assessment> = {
     timeLimit: 30,
     specialty: "surgery",
     passingScore: 75,
+    blueprint: SPECIALTY_BLUEPRINT,
   },
   peds: {
     id: "specialty-peds",
@@ -167,6 +199,7 @@ export const SPECIALTY_ASSESSMENTS: Record<SpecialtyTrack, Assessment> = {
     timeLimit: 30,
     specialty: "peds",
     passingScore: 75,
+    blueprint: SPECIALTY_BLUEPRINT,
   },
 };
 
@@ -178,8 +211,54 @@ export const FULL_EXAM: Assessment = {
   questionCount: 50,
   timeLimit: 60,
   passingScore: 70,
+  blueprint: createBlueprint({
+    caseCount: 50,
+    difficultyMix: { beginner: 20, intermediate: 50, advanced: 30 },
+    minNoImaging: 6,
+  }),
 };
 
+/**
+ * Get a built-in assessment by its id (e.g. "quick-quiz")
+ */
+export function getBuiltInAssessment(id: string): Assessment | null {
+  if (id === QUICK_QUIZ.id) return QUICK_QUIZ;
+  if (id === FULL_EXAM.id) return FULL_EXAM;
+  return Object.values(SPECIALTY_ASSESSMENTS).find((a) => a.id === id) ?? null;
+}
+
+/**
+ * Assemble a form from the assessment's blueprint, seeded by learner and
+ * attempt so the page and the sittings route draw the same cases. Re-takes
+ * leave out recently seen cases and are balanced to the difficulty of the
+ * first sitting.
+ */
+export function assembleAssessmentForm(
+  assessment: Assessment,
+  context: FormAssemblyContext
+): AssembledForm {
+  const { userId, cases: pool, caseStats, seen, previousForms } = context;
+  const blueprint =
+    assessment.blueprint ??
+    createBlueprint({
+      caseCount: assessment.questionCount,
+      categories: assessment.categories,
+    });
+  const caseRatings = calibrateCaseRatings(pool, caseStats);
+
+  return assembleForm(pool, blueprint, {
+    seed: userId
+      ? `${assessment.id}:${userId}:${previousForms.length}`
+      : `${assessment.id}:guest:${crypto.randomUUID()}`,
+    seen,
+    caseRatings,
+    targetRating:
+      previousForms.length > 0
+        ? getFormRating(previousForms[0], pool, caseRatings)
+        : undefined,
+  });
+}
+
 // ============================================================================
 // Assessment Rules
 // ============================================================================
@@ -198,13 +277,18 @@ export const ASSESSMENT_RULES = {
 
 /**
  * Calculate score from answers
+ * Uses partial credit when answers carry a score, otherwise percent correct
  */
 export function calculateScore(
   answers: AssessmentAnswer[],
   totalQuestions: number
 ): number {
-  const correctCount = answers.filter((a) => a.correct).length;
-  return Math.round((correctCount / totalQuestions) * 100);
+  if (totalQuestions === 0) return 0;
+  const earned = answers.reduce(
+    (sum, a) => sum + (a.score ?? (a.correct ? 100 : 0)),
+    0
+  );
+  return Math.round(earned / totalQuestions);
 }
 
 /**
@@ -354,47 +438,33 @@ export function identifyWeakAreas(
 }
 
 /**
- * Generate recommendations based on missed questions
+ * Recommend next cases from the assessment answers and the learner's history.
+ * Cases just answered count as recently seen, so they are not recommended.
  */
 export function generateRecommendations(
-  missedQuestions: MissedQuestion[],
-  allCases: Case[]
+  answers: AssessmentAnswer[],
+  allCases: Case[],
+  options: {
+    history?: AbilityAttempt[];
+    caseStats?: CaseDifficultyStats[];
+    completedAt?: Date;
+    limit?: number;
+  } = {}
 ): CaseRecommendation[] {
-  // Group by category
-  const categoryCounts = new Map<CaseCategory, number>();
-  missedQuestions.forEach((q) => {
-    categoryCounts.set(q.category, (categoryCounts.get(q.category) || 0) + 1);
-  });
+  const { history = [], caseStats = [], completedAt = new Date(), limit = 3 } = options;
 
-  // Find most common missed category
-  let maxCount = 0;
-  let mostCommonCategory: CaseCategory | null = null;
-  categoryCounts.forEach((count, category) => {
-    if (count > maxCount) {
-      maxCount = count;
-      mostCommonCategory = category;
-    }
-  });
-
-  // Get cases in that category
-  const recommendations: CaseRecommendation[] = [];
-  if (mostCommonCategory) {
-    const relevantCases = allCases
-      .filter((c) => c.category === mostCommonCategory)
-      .slice(0, 3);
-
-    relevantCases.forEach((c) => {
-      recommendations.push({
-        caseId: c.id,
-        title: c.title,
-        category: c.category,
-        difficulty: c.difficulty,
-        reason: `Practice more ${mostCommonCategory.replace("-", " ")} cases`,
-      });
-    });
-  }
+  const answeredAt = completedAt.toISOString();
+  const assessmentAttempts: AbilityAttempt[] = answers.map((answer) => ({
+    case_id: answer.caseId,
+    score: answer.score ?? (answer.correct ? 100 : 0),
+    created_at: answeredAt,
+  }));
 
-  return recommendations;
+  return recommendNextCases(allCases, calibrateCaseRatings(allCases, caseStats), {
+    attempts: [...history, ...assessmentAttempts],
+    limit,
+    now: completedAt,
+  });
 }
 
 /**
@@ -1,4 +1,4 @@
-import { ClinicalInput, ScoringResult, calculateAIIEScore, rankImagingOptions } from '@/lib/aiie/scoring-engine'
+import { ClinicalInput, ScoringResult, calculateAIIEScore, evaluatePecarn, rankImagingOptions } from '@/lib/aiie/scoring-engine'
 
 export interface ClinicalCase {
   id: string
@@ -710,6 +710,18 @@ export const case9_ChestPainPneumonia: ClinicalCase = {
 // PEDIATRIC CASES
 // ============================================================================
 
+// 8-year-old, GCS 15, fall of ~4 feet (not a severe mechanism), single emesis
+const case10Pecarn = evaluatePecarn({
+  ageYears: 8,
+  gcs: 15,
+  alteredMentalStatus: false,
+  basilarSkullFractureSigns: false,
+  lossOfConsciousnessSeconds: 0,
+  vomiting: true,
+  severeMechanism: false,
+  severeHeadache: false
+})
+
 export const case10_PediatricHeadTrauma: ClinicalCase = {
   id: 'peds-head-trauma',
   title: 'Pediatric Head Trauma',
@@ -751,7 +763,8 @@ export const case10_PediatricHeadTrauma: ClinicalCase = {
     progressiveSymptoms: false,
     priorImaging: [],
     labsAvailable: [],
-    physicalExamFindings: ['GCS 15', 'Normal neurologic exam', 'Vomiting']
+    physicalExamFindings: ['GCS 15', 'Normal neurologic exam', 'Vomiting'],
+    decisionRules: [case10Pecarn]
   },
   imagingOptions: rankImagingOptions(
     {
@@ -768,7 +781,8 @@ export const case10_PediatricHeadTrauma: ClinicalCase = {
       progressiveSymptoms: false,
       priorImaging: [],
       labsAvailable: [],
-      physicalExamFindings: ['GCS 15', 'Normal neurologic exam', 'Vomiting']
+      physicalExamFindings: ['GCS 15', 'Normal neurologic exam', 'Vomiting'],
+      decisionRules: [case10Pecarn]
     },
     ['CT without contrast', 'MRI without contrast', 'X-ray', 'No imaging']
   ),
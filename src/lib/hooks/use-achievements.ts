@@ -8,40 +8,30 @@ import {
   type AchievementSlug,
   type AchievementDefinition,
   type UserAchievementStatus,
-  getAchievement,
-  shouldUnlockAchievement,
-  getAchievementProgress,
 } from "@/data/achievements";
-import type { CaseCategory } from "@/types/database";
+import { useAuth } from "@/context/AuthContext";
+import { IS_SUPABASE_CONFIGURED } from "@/lib/supabase/client";
+import {
+  getAchievementProgress,
+  getAchievements,
+  getEarnedAchievements,
+  subscribeToAchievementUnlocks,
+  toAchievementDefinition,
+  type EarnedAchievement,
+} from "@/lib/supabase/achievements";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export interface UserStats {
-  casesCompleted: number;
-  perfectScores: number;
-  categoryAccuracy: Record<CaseCategory, { correct: number; total: number }>;
-  categoriesCompleted: CaseCategory[];
-  fastestCaseTime: number | null;
-  currentStreak: number;
-  assessmentsPassed: number;
-  perfectAssessments: number;
-  feedbackSubmitted: number;
-  weekendCases: number;
-  nightCases: number;
-}
-
 export interface AchievementUnlock {
   achievement: AchievementDefinition;
   unlockedAt: string;
 }
 
 export interface UseAchievementsOptions {
-  /** User's earned achievements */
+  /** Earned achievements to show when Supabase is not configured */
   earnedAchievements?: Array<{ slug: AchievementSlug; earnedAt: string }>;
-  /** User's current stats */
-  userStats?: Partial<UserStats>;
   /** Callback when achievement is unlocked */
   onAchievementUnlock?: (achievement: AchievementDefinition) => void;
   /** Whether to show confetti on unlock */
@@ -51,12 +41,16 @@ export interface UseAchievementsOptions {
 export interface UseAchievementsReturn {
   /** All achievements with user status */
   achievements: UserAchievementStatus[];
+  /** Definitions for every achievement, including ones added by admins */
+  definitions: AchievementDefinition[];
   /** Earned achievements */
   earnedAchievements: AchievementSlug[];
   /** Total points earned */
   totalPoints: number;
-  /** Check for new achievements */
-  checkAchievements: (stats: Partial<UserStats>) => AchievementUnlock[];
+  /** Whether earned achievements and progress are still loading */
+  isLoading: boolean;
+  /** Reload earned achievements and progress from the server */
+  refresh: () => Promise<void>;
   /** Get single achievement status */
   getAchievementStatus: (slug: AchievementSlug) => UserAchievementStatus | undefined;
   /** Recently unlocked achievements */
@@ -65,176 +59,100 @@ export interface UseAchievementsReturn {
   clearRecentUnlocks: () => void;
 }
 
-// ============================================================================
-// Default Stats
-// ============================================================================
-
-const DEFAULT_STATS: UserStats = {
-  casesCompleted: 0,
-  perfectScores: 0,
-  categoryAccuracy: {
-    "low-back-pain": { correct: 0, total: 0 },
-    headache: { correct: 0, total: 0 },
-    "chest-pain": { correct: 0, total: 0 },
-    "abdominal-pain": { correct: 0, total: 0 },
-    "extremity-trauma": { correct: 0, total: 0 },
-  },
-  categoriesCompleted: [],
-  fastestCaseTime: null,
-  currentStreak: 0,
-  assessmentsPassed: 0,
-  perfectAssessments: 0,
-  feedbackSubmitted: 0,
-  weekendCases: 0,
-  nightCases: 0,
-};
+type ProgressBySlug = Map<AchievementSlug, { progress: number; total: number }>;
 
 // ============================================================================
 // Hook
 // ============================================================================
 
 /**
- * useAchievements - Manages achievement checking and unlocking.
+ * useAchievements - Earned achievements and progress for the signed-in user.
+ * Achievements are awarded by the database from each achievement's criteria
+ * (migrations 013 and 014); this hook reads them, shows the progress the
+ * database reports, and reacts to unlocks pushed over Realtime.
  */
 export function useAchievements(
   options: UseAchievementsOptions = {}
 ): UseAchievementsReturn {
   const {
     earnedAchievements: initialEarned = [],
-    userStats: initialStats = {},
     onAchievementUnlock,
     enableConfetti = true,
   } = options;
 
   // State
+  const [definitions, setDefinitions] = React.useState<AchievementDefinition[]>(ACHIEVEMENTS);
   const [earnedSlugs, setEarnedSlugs] = React.useState<Set<AchievementSlug>>(
     () => new Set(initialEarned.map((a) => a.slug))
   );
   const [earnedDates, setEarnedDates] = React.useState<Map<AchievementSlug, string>>(
     () => new Map(initialEarned.map((a) => [a.slug, a.earnedAt]))
   );
-  const [stats, setStats] = React.useState<UserStats>({
-    ...DEFAULT_STATS,
-    ...initialStats,
-  });
+  const [progressBySlug, setProgressBySlug] = React.useState<ProgressBySlug>(() => new Map());
   const [recentUnlocks, setRecentUnlocks] = React.useState<AchievementUnlock[]>([]);
+  const [isLoading, setIsLoading] = React.useState(IS_SUPABASE_CONFIGURED);
+
+  const loadProgress = React.useCallback(async () => {
+    const rows = await getAchievementProgress();
+    setProgressBySlug(
+      new Map(rows.map((row) => [row.slug, { progress: row.progress, total: row.total }]))
+    );
+  }, []);
 
   /**
-   * Calculate achievement progress based on stats
+   * Load definitions, earned achievements and progress from the server
    */
-  const calculateProgress = React.useCallback(
-    (achievement: AchievementDefinition): { progress: number; total: number } => {
-      switch (achievement.requirementType) {
-        case "cases_completed":
-          return {
-            progress: stats.casesCompleted,
-            total: achievement.requirementValue,
-          };
-
-        case "perfect_scores":
-          return {
-            progress: stats.perfectScores,
-            total: achievement.requirementValue,
-          };
-
-        case "category_accuracy":
-          // Find best category accuracy
-          let bestAccuracy = 0;
-          Object.entries(stats.categoryAccuracy).forEach(([_, data]) => {
-            if (data.total >= (achievement.requirementMeta?.minCases || 5)) {
-              const accuracy = Math.round((data.correct / data.total) * 100);
-              bestAccuracy = Math.max(bestAccuracy, accuracy);
-            }
-          });
-          return {
-            progress: bestAccuracy,
-            total: achievement.requirementValue,
-          };
-
-        case "categories_completed":
-          return {
-            progress: stats.categoriesCompleted.length,
-            total: achievement.requirementValue,
-          };
-
-        case "case_time":
-          // For time-based, show as complete or not
-          if (
-            stats.fastestCaseTime !== null &&
-            stats.fastestCaseTime <= achievement.requirementValue
-          ) {
-            return { progress: 1, total: 1 };
-          }
-          return { progress: 0, total: 1 };
-
-        case "streak_days":
-          return {
-            progress: stats.currentStreak,
-            total: achievement.requirementValue,
-          };
-
-        case "assessments_passed":
-          const value = achievement.requirementMeta?.perfectScore
-            ? stats.perfectAssessments
-            : stats.assessmentsPassed;
-          return {
-            progress: value,
-            total: achievement.requirementValue,
-          };
-
-        case "feedback_submitted":
-          return {
-            progress: stats.feedbackSubmitted,
-            total: achievement.requirementValue,
-          };
-
-        case "special":
-          // Special achievements have custom logic
-          if (achievement.slug === "night-owl") {
-            return { progress: stats.nightCases > 0 ? 1 : 0, total: 1 };
-          }
-          if (achievement.slug === "weekend-warrior") {
-            return {
-              progress: stats.weekendCases,
-              total: achievement.requirementValue,
-            };
-          }
-          return { progress: 0, total: 1 };
+  const refresh = React.useCallback(async () => {
+    if (!IS_SUPABASE_CONFIGURED) return;
+    try {
+      const [rows, earned] = await Promise.all([
+        getAchievements(),
+        getEarnedAchievements(),
+        loadProgress(),
+      ]);
+      setDefinitions(rows.map(toAchievementDefinition));
+      setEarnedSlugs(new Set(earned.map((a) => a.slug)));
+      setEarnedDates(new Map(earned.map((a) => [a.slug, a.earnedAt])));
+    } catch {
+      // Keep whatever is already shown
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadProgress]);
 
-        default:
-          return { progress: 0, total: 1 };
-      }
-    },
-    [stats]
-  );
+  React.useEffect(() => {
+    refresh();
+  }, [refresh]);
 
   /**
    * Get all achievements with status
    */
   const achievements = React.useMemo((): UserAchievementStatus[] => {
-    return ACHIEVEMENTS.map((achievement) => {
+    return definitions.map((achievement) => {
       const isEarned = earnedSlugs.has(achievement.slug);
-      const { progress, total } = calculateProgress(achievement);
+      const { progress, total } = progressBySlug.get(achievement.slug) ?? {
+        progress: isEarned ? 1 : 0,
+        total: 1,
+      };
 
       return {
         slug: achievement.slug,
         isEarned,
         earnedAt: earnedDates.get(achievement.slug),
-        progress,
+        progress: isEarned ? Math.max(progress, total) : progress,
         total,
       };
     });
-  }, [earnedSlugs, earnedDates, calculateProgress]);
+  }, [definitions, earnedSlugs, earnedDates, progressBySlug]);
 
   /**
    * Calculate total points
    */
   const totalPoints = React.useMemo(() => {
-    return Array.from(earnedSlugs).reduce((total, slug) => {
-      const achievement = getAchievement(slug);
-      return total + (achievement?.points || 0);
-    }, 0);
-  }, [earnedSlugs]);
+    return definitions
+      .filter((achievement) => earnedSlugs.has(achievement.slug))
+      .reduce((total, achievement) => total + achievement.points, 0);
+  }, [definitions, earnedSlugs]);
 
   /**
    * Trigger confetti
@@ -251,99 +169,32 @@ export function useAchievements(
   }, [enableConfetti]);
 
   /**
-   * Check and unlock achievements
+   * Record an unlock pushed by the server
    */
-  const checkAchievements = React.useCallback(
-    (newStats: Partial<UserStats>): AchievementUnlock[] => {
-      const mergedStats = { ...stats, ...newStats };
-      setStats(mergedStats);
-
-      const unlocked: AchievementUnlock[] = [];
-
-      ACHIEVEMENTS.forEach((achievement) => {
-        // Skip if already earned
-        if (earnedSlugs.has(achievement.slug)) return;
-
-        const { progress, total } = calculateProgress(achievement);
-
-        // Check if should unlock based on merged stats
-        let shouldUnlock = false;
-
-        switch (achievement.requirementType) {
-          case "cases_completed":
-            shouldUnlock = mergedStats.casesCompleted >= achievement.requirementValue;
-            break;
-          case "perfect_scores":
-            shouldUnlock = mergedStats.perfectScores >= achievement.requirementValue;
-            break;
-          case "category_accuracy":
-            Object.entries(mergedStats.categoryAccuracy).forEach(([_, data]) => {
-              if (data.total >= (achievement.requirementMeta?.minCases || 5)) {
-                const accuracy = Math.round((data.correct / data.total) * 100);
-                if (accuracy >= achievement.requirementValue) {
-                  shouldUnlock = true;
-                }
-              }
-            });
-            break;
-          case "categories_completed":
-            shouldUnlock =
-              mergedStats.categoriesCompleted.length >= achievement.requirementValue;
-            break;
-          case "case_time":
-            shouldUnlock =
-              mergedStats.fastestCaseTime !== null &&
-              mergedStats.fastestCaseTime <= achievement.requirementValue;
-            break;
-          case "streak_days":
-            shouldUnlock = mergedStats.currentStreak >= achievement.requirementValue;
-            break;
-          case "assessments_passed":
-            const value = achievement.requirementMeta?.perfectScore
-              ? mergedStats.perfectAssessments
-              : mergedStats.assessmentsPassed;
-            shouldUnlock = value >= achievement.requirementValue;
-            break;
-          case "feedback_submitted":
-            shouldUnlock =
-              mergedStats.feedbackSubmitted >= achievement.requirementValue;
-            break;
-          case "special":
-            if (achievement.slug === "night-owl") {
-              shouldUnlock = mergedStats.nightCases > 0;
-            } else if (achievement.slug === "weekend-warrior") {
-              shouldUnlock = mergedStats.weekendCases >= achievement.requirementValue;
-            }
-            break;
-        }
-
-        if (shouldUnlock) {
-          const now = new Date().toISOString();
-          unlocked.push({ achievement, unlockedAt: now });
-
-          // Update state
-          setEarnedSlugs((prev) => new Set([...prev, achievement.slug]));
-          setEarnedDates((prev) => new Map([...prev, [achievement.slug, now]]));
-
-          // Trigger confetti if enabled for this achievement
-          if (achievement.confettiOnUnlock) {
-            triggerConfetti();
-          }
-
-          // Callback
-          onAchievementUnlock?.(achievement);
-        }
-      });
-
-      if (unlocked.length > 0) {
-        setRecentUnlocks((prev) => [...unlocked, ...prev]);
+  const handleUnlock = React.useCallback(
+    (unlock: EarnedAchievement) => {
+      const achievement = unlock.definition;
+
+      setEarnedSlugs((prev) => new Set([...prev, unlock.slug]));
+      setEarnedDates((prev) => new Map([...prev, [unlock.slug, unlock.earnedAt]]));
+      setRecentUnlocks((prev) => [
+        { achievement, unlockedAt: unlock.earnedAt },
+        ...prev,
+      ]);
+
+      if (achievement.confettiOnUnlock) {
+        triggerConfetti();
       }
+      onAchievementUnlock?.(achievement);
 
-      return unlocked;
+      // The unlock was triggered by new activity, so progress has moved too
+      loadProgress().catch(() => {});
     },
-    [stats, earnedSlugs, calculateProgress, triggerConfetti, onAchievementUnlock]
+    [triggerConfetti, onAchievementUnlock, loadProgress]
   );
 
+  useAchievementUnlocks(handleUnlock);
+
   /**
    * Get single achievement status
    */
@@ -363,9 +214,11 @@ export function useAchievements(
 
   return {
     achievements,
+    definitions,
     earnedAchievements: Array.from(earnedSlugs),
     totalPoints,
-    checkAchievements,
+    isLoading,
+    refresh,
     getAchievementStatus,
     recentUnlocks,
     clearRecentUnlocks,
@@ -373,67 +226,24 @@ export function useAchievements(
 }
 
 // ============================================================================
-// Achievement Checker for Case Completion
+// Unlock Subscription
 // ============================================================================
 
-export interface CaseCompletionData {
-  isCorrect: boolean;
-  score: number;
-  timeSpent: number;
-  category: CaseCategory;
-}
-
 /**
- * Process case completion and return stats updates
+ * useAchievementUnlocks - Calls onUnlock for each achievement the server
+ * awards the signed-in user while the component is mounted.
  */
-export function processCaseCompletion(
-  data: CaseCompletionData,
-  currentStats: Partial<UserStats>
-): Partial<UserStats> {
-  const stats = { ...DEFAULT_STATS, ...currentStats };
-  const updates: Partial<UserStats> = {};
-
-  // Increment cases completed
-  updates.casesCompleted = stats.casesCompleted + 1;
-
-  // Check for perfect score
-  if (data.score === 100) {
-    updates.perfectScores = stats.perfectScores + 1;
-  }
-
-  // Update category accuracy
-  const categoryData = stats.categoryAccuracy[data.category] || { correct: 0, total: 0 };
-  updates.categoryAccuracy = {
-    ...stats.categoryAccuracy,
-    [data.category]: {
-      correct: categoryData.correct + (data.isCorrect ? 1 : 0),
-      total: categoryData.total + 1,
-    },
-  };
-
-  // Update categories completed
-  if (!stats.categoriesCompleted.includes(data.category)) {
-    updates.categoriesCompleted = [...stats.categoriesCompleted, data.category];
-  }
-
-  // Update fastest time if correct
-  if (data.isCorrect) {
-    if (stats.fastestCaseTime === null || data.timeSpent < stats.fastestCaseTime) {
-      updates.fastestCaseTime = data.timeSpent;
-    }
-  }
-
-  // Check for night owl (after midnight, before 5am)
-  const hour = new Date().getHours();
-  if (hour >= 0 && hour < 5) {
-    updates.nightCases = stats.nightCases + 1;
-  }
-
-  // Check for weekend
-  const day = new Date().getDay();
-  if (day === 0 || day === 6) {
-    updates.weekendCases = stats.weekendCases + 1;
-  }
-
-  return updates;
+export function useAchievementUnlocks(
+  onUnlock: (achievement: EarnedAchievement) => void
+): void {
+  const { user } = useAuth();
+  const onUnlockRef = React.useRef(onUnlock);
+  onUnlockRef.current = onUnlock;
+
+  React.useEffect(() => {
+    if (!IS_SUPABASE_CONFIGURED || !user) return;
+    return subscribeToAchievementUnlocks(user.id, (achievement) =>
+      onUnlockRef.current(achievement)
+    );
+  }, [user?.id]);
 }
@@ -0,0 +1,127 @@
+"use client";
+
+import * as React from "react";
+import { getBrowserSessionId } from "@/lib/supabase/assessment-sittings";
+import { logIntegrityEvents, type IntegrityEventInput } from "@/lib/supabase/integrity";
+import { isFlaggedIntegrityEvent } from "@/lib/utils/integrity";
+import type { IntegrityEventType } from "@/types/database";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UseIntegrityMonitorOptions {
+  /** Sitting the events belong to; nothing is recorded without one */
+  sittingId: string | null;
+  enabled: boolean;
+  caseIndex: number;
+}
+
+export interface UseIntegrityMonitorReturn {
+  /** Flagged events this session, e.g. to warn the learner */
+  flaggedCount: number;
+  isFullscreen: boolean;
+  requestFullscreen: () => void;
+}
+
+const FLUSH_INTERVAL_MS = 5000;
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/**
+ * Record tab switches, focus changes, copy/paste, fullscreen exits and
+ * back navigation during a proctored sitting. Events are batched and sent
+ * every few seconds, and straight away when the tab is hidden.
+ */
+export function useIntegrityMonitor({
+  sittingId,
+  enabled,
+  caseIndex,
+}: UseIntegrityMonitorOptions): UseIntegrityMonitorReturn {
+  const [flaggedCount, setFlaggedCount] = React.useState(0);
+  const [isFullscreen, setIsFullscreen] = React.useState(false);
+  const queueRef = React.useRef<IntegrityEventInput[]>([]);
+  const caseIndexRef = React.useRef(caseIndex);
+  caseIndexRef.current = caseIndex;
+
+  const active = enabled && !!sittingId;
+
+  React.useEffect(() => {
+    if (!active) return;
+    const sessionId = getBrowserSessionId();
+
+    const flush = () => {
+      const batch = queueRef.current;
+      if (batch.length === 0) return;
+      queueRef.current = [];
+      logIntegrityEvents(sittingId, sessionId, batch).catch(() => {
+        // Keep the events for the next flush
+        queueRef.current = [...batch, ...queueRef.current];
+      });
+    };
+
+    const record = (eventType: IntegrityEventType, detail?: Record<string, any>) => {
+      queueRef.current.push({
+        event_type: eventType,
+        case_index: caseIndexRef.current,
+        detail,
+      });
+      if (isFlaggedIntegrityEvent(eventType)) setFlaggedCount((n) => n + 1);
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === "hidden") {
+        record("visibility_hidden");
+        flush();
+      } else {
+        record("visibility_visible");
+      }
+    };
+    const handleBlur = () => record("window_blur");
+    const handleFocus = () => record("window_focus");
+    const handleCopy = () =>
+      record("copy", { length: window.getSelection()?.toString().length ?? 0 });
+    const handlePaste = (e: ClipboardEvent) =>
+      record("paste", { length: e.clipboardData?.getData("text").length ?? 0 });
+    const handleFullscreen = () => {
+      const fullscreen = !!document.fullscreenElement;
+      setIsFullscreen(fullscreen);
+      record(fullscreen ? "fullscreen_enter" : "fullscreen_exit");
+    };
+    // Hold the page on the current case: undo the back step and log it
+    const handlePopState = () => {
+      history.pushState(null, "", location.href);
+      record("back_navigation");
+    };
+
+    history.pushState(null, "", location.href);
+    document.addEventListener("visibilitychange", handleVisibility);
+    window.addEventListener("blur", handleBlur);
+    window.addEventListener("focus", handleFocus);
+    document.addEventListener("copy", handleCopy);
+    document.addEventListener("paste", handlePaste);
+    document.addEventListener("fullscreenchange", handleFullscreen);
+    window.addEventListener("popstate", handlePopState);
+    const interval = setInterval(flush, FLUSH_INTERVAL_MS);
+
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibility);
+      window.removeEventListener("blur", handleBlur);
+      window.removeEventListener("focus", handleFocus);
+      document.removeEventListener("copy", handleCopy);
+      document.removeEventListener("paste", handlePaste);
+      document.removeEventListener("fullscreenchange", handleFullscreen);
+      window.removeEventListener("popstate", handlePopState);
+      clearInterval(interval);
+      flush();
+    };
+  }, [active, sittingId]);
+
+  const requestFullscreen = React.useCallback(() => {
+    document.documentElement.requestFullscreen?.().catch(() => {});
+  }, []);
+
+  return { flaggedCount, isFullscreen, requestFullscreen };
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import * as React from "react";
+import { IS_SUPABASE_CONFIGURED } from "@/lib/supabase/client";
+import { getCohortProfile, getPeerComparison } from "@/lib/supabase/benchmarks";
+import {
+  describeCohort,
+  getCohortFilter,
+  type CohortDimension,
+  type PeerComparison,
+} from "@/lib/utils/percentiles";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UsePeerBenchmarkReturn {
+  /** Null until loaded, and in demo mode */
+  comparison: PeerComparison | null;
+  /** e.g. "PGY-2 residents at Mercy General" */
+  cohortLabel: string;
+  dimensions: CohortDimension[];
+  /** Dimensions the learner's profile has values for */
+  availableDimensions: CohortDimension[];
+  toggleDimension: (dimension: CohortDimension) => void;
+  loading: boolean;
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/**
+ * Percentile of the signed-in learner's first sitting among peers who
+ * completed the same assessment
+ */
+export function usePeerBenchmark(assessmentId: string | null): UsePeerBenchmarkReturn {
+  const [profile, setProfile] = React.useState(null);
+  const [dimensions, setDimensions] = React.useState<CohortDimension[]>([]);
+  const [comparison, setComparison] = React.useState<PeerComparison | null>(null);
+  const [loading, setLoading] = React.useState(IS_SUPABASE_CONFIGURED);
+
+  React.useEffect(() => {
+    if (!IS_SUPABASE_CONFIGURED) return;
+    getCohortProfile()
+      .then(setProfile)
+      .catch(() => setProfile(null));
+  }, []);
+
+  const filter = React.useMemo(() => getCohortFilter(profile, dimensions), [profile, dimensions]);
+
+  React.useEffect(() => {
+    if (!IS_SUPABASE_CONFIGURED || !assessmentId) return;
+    let cancelled = false;
+    setLoading(true);
+    getPeerComparison(assessmentId, dimensions)
+      .then((result) => !cancelled && setComparison(result))
+      .catch(() => !cancelled && setComparison(null))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [assessmentId, dimensions]);
+
+  const availableDimensions = React.useMemo<CohortDimension[]>(() => {
+    if (!profile) return [];
+    return [
+      profile.training_year != null && "trainingYear",
+      "role",
+      profile.specialty_track && "specialtyTrack",
+      profile.institution && "institution",
+    ].filter((dimension): dimension is CohortDimension => Boolean(dimension));
+  }, [profile]);
+
+  const toggleDimension = React.useCallback((dimension: CohortDimension) => {
+    setDimensions((prev) =>
+      prev.includes(dimension) ? prev.filter((d) => d !== dimension) : [...prev, dimension]
+    );
+  }, []);
+
+  return {
+    comparison,
+    cohortLabel: describeCohort(filter),
+    dimensions,
+    availableDimensions,
+    toggleDimension,
+    loading,
+  };
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import * as React from "react";
+import { IS_SUPABASE_CONFIGURED } from "@/lib/supabase/client";
+import { getRadiationHistory } from "@/lib/supabase/api";
+import {
+  summarizeLearnerRadiation,
+  type LearnerRadiationSummary,
+} from "@/lib/utils/radiation";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UseRadiationSummaryReturn {
+  /** Dose of the learner's choices against optimal choices */
+  summary: LearnerRadiationSummary;
+  loading: boolean;
+  error: string | null;
+}
+
+type RadiationHistory = Awaited<ReturnType<typeof getRadiationHistory>>;
+
+const EMPTY_HISTORY: RadiationHistory = { attempts: [], cases: [], doses: {} };
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/**
+ * Radiation stewardship summary for the signed-in learner, from their
+ * recorded case attempts. Demo mode has no attempts to summarize.
+ */
+export function useRadiationSummary(): UseRadiationSummaryReturn {
+  const [history, setHistory] = React.useState<RadiationHistory>(EMPTY_HISTORY);
+  const [loading, setLoading] = React.useState(IS_SUPABASE_CONFIGURED);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!IS_SUPABASE_CONFIGURED) return;
+    let cancelled = false;
+
+    getRadiationHistory()
+      .then((data) => !cancelled && setHistory(data))
+      .catch((err) => !cancelled && setError(err?.message || "Could not load your radiation summary"))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const summary = React.useMemo(
+    () =>
+      summarizeLearnerRadiation(history.attempts, history.cases, (ids) =>
+        ids.reduce((total, id) => total + (history.doses[id] ?? 0), 0)
+      ),
+    [history]
+  );
+
+  return { summary, loading, error };
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import * as React from "react";
+import { allCases } from "@/data/cases";
+import { IS_SUPABASE_CONFIGURED } from "@/lib/supabase/client";
+import { getRecommendationContext } from "@/lib/supabase/api";
+import {
+  calibrateCaseRatings,
+  estimateLearnerAbility,
+  recommendNextCases,
+  type LearnerModel,
+  type NextCaseRecommendation,
+} from "@/lib/utils/adaptive-difficulty";
+import type { CaseCategory } from "@/types/database";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UseRecommendationsOptions {
+  limit?: number;
+  /** Only recommend cases in this category */
+  category?: CaseCategory;
+}
+
+export interface UseRecommendationsReturn {
+  recommendations: NextCaseRecommendation[];
+  /** Per-category ability estimates, weakest first */
+  model: LearnerModel | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/**
+ * Adaptive next-case recommendations for the signed-in learner
+ */
+export function useRecommendations({
+  limit = 3,
+  category,
+}: UseRecommendationsOptions = {}): UseRecommendationsReturn {
+  const [context, setContext] = React.useState(null);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    // Demo mode has no attempt history; bundled cases use authored difficulty
+    const load = IS_SUPABASE_CONFIGURED
+      ? getRecommendationContext()
+      : Promise.resolve({ cases: allCases, caseStats: [], attempts: [] });
+
+    load
+      .then((data) => !cancelled && setContext(data))
+      .catch((err) => !cancelled && setError(err?.message || "Could not load recommendations"))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return React.useMemo(() => {
+    if (!context) return { recommendations: [], model: null, loading, error };
+    const caseRatings = calibrateCaseRatings(context.cases, context.caseStats);
+    return {
+      recommendations: recommendNextCases(context.cases, caseRatings, {
+        attempts: context.attempts,
+        limit,
+        category,
+      }),
+      model: estimateLearnerAbility(context.attempts, context.cases, caseRatings),
+      loading,
+      error,
+    };
+  }, [context, limit, category, loading, error]);
+}
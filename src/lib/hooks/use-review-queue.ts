@@ -0,0 +1,142 @@
+"use client";
+
+import * as React from "react";
+import { allCases } from "@/data/cases";
+import { IS_SUPABASE_CONFIGURED } from "@/lib/supabase/client";
+import { getReviewHistory, isCaseBookmarked, setCaseBookmark } from "@/lib/supabase/api";
+import {
+  buildReviewSchedule,
+  getCategoryRetention,
+  getDueReviews,
+  type CaseReviewState,
+  type CategoryRetention,
+  type ReviewAttempt,
+  type ReviewQueueItem,
+} from "@/lib/utils/spaced-repetition";
+import type { Case } from "@/types/database";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UseReviewQueueReturn {
+  /** Due cases, most overdue first */
+  dueReviews: ReviewQueueItem[];
+  /** Schedule for every attempted or bookmarked case */
+  schedule: CaseReviewState[];
+  /** Retention by category, for CompetencyRadar */
+  retention: CategoryRetention[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+// ============================================================================
+// Study List Storage
+// ============================================================================
+
+// Demo mode keeps the study list in the browser
+const STUDY_LIST_KEY = "arka-ed-study-list";
+const STUDY_LIST_EVENT = "arka-ed-study-list-change";
+
+function readLocalStudyList(): string[] {
+  if (typeof window === "undefined") return [];
+  try {
+    return JSON.parse(localStorage.getItem(STUDY_LIST_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalStudyList(caseIds: string[]) {
+  localStorage.setItem(STUDY_LIST_KEY, JSON.stringify(caseIds));
+  window.dispatchEvent(new Event(STUDY_LIST_EVENT));
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Spaced-repetition review queue for the signed-in learner
+ */
+export function useReviewQueue(): UseReviewQueueReturn {
+  const [history, setHistory] = React.useState<{
+    attempts: ReviewAttempt[];
+    bookmarkedCaseIds: string[];
+    cases: Pick<Case, "id" | "title" | "category">[];
+  }>({ attempts: [], bookmarkedCaseIds: [], cases: [] });
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const refresh = React.useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setHistory(
+        IS_SUPABASE_CONFIGURED
+          ? await getReviewHistory()
+          : { attempts: [], bookmarkedCaseIds: readLocalStudyList(), cases: allCases }
+      );
+    } catch (err) {
+      setError(err?.message || "Could not load your review queue");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    refresh();
+    if (IS_SUPABASE_CONFIGURED) return;
+    window.addEventListener(STUDY_LIST_EVENT, refresh);
+    return () => window.removeEventListener(STUDY_LIST_EVENT, refresh);
+  }, [refresh]);
+
+  return React.useMemo(() => {
+    const now = new Date();
+    const schedule = buildReviewSchedule(history.attempts, history.bookmarkedCaseIds, now);
+    return {
+      schedule,
+      dueReviews: getDueReviews(schedule, history.cases, now),
+      retention: getCategoryRetention(schedule, history.cases),
+      loading,
+      error,
+      refresh,
+    };
+  }, [history, loading, error, refresh]);
+}
+
+/**
+ * Study-list toggle for one case
+ */
+export function useCaseBookmark(caseId: string) {
+  const [isBookmarked, setIsBookmarked] = React.useState(false);
+
+  React.useEffect(() => {
+    if (IS_SUPABASE_CONFIGURED) {
+      isCaseBookmarked(caseId)
+        .then(setIsBookmarked)
+        .catch(() => setIsBookmarked(false));
+    } else {
+      setIsBookmarked(readLocalStudyList().includes(caseId));
+    }
+  }, [caseId]);
+
+  const toggleBookmark = React.useCallback(async () => {
+    const next = !isBookmarked;
+    setIsBookmarked(next);
+    try {
+      if (IS_SUPABASE_CONFIGURED) {
+        await setCaseBookmark(caseId, next);
+      } else {
+        const list = readLocalStudyList().filter((id) => id !== caseId);
+        writeLocalStudyList(next ? [...list, caseId] : list);
+      }
+    } catch (err) {
+      console.error("Bookmark failed:", err);
+      setIsBookmarked(!next);
+    }
+  }, [caseId, isBookmarked]);
+
+  return { isBookmarked, toggleBookmark };
+}
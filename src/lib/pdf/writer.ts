@@ -0,0 +1,132 @@
+/**
+ * Minimal PDF 1.4 writer for documents rendered on the server. Pages are
+ * content streams drawn with the standard Helvetica fonts, so no fonts or
+ * rendering library need to ship with the server. Text is WinAnsi
+ * (Latin-1); characters outside it print as "?".
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** F1 is Helvetica, F2 is Helvetica-Bold */
+export type FontKey = 'F1' | 'F2'
+
+export interface PdfDocumentInput {
+  width: number
+  height: number
+  /** One content stream per page */
+  pages: string[]
+  title: string
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Glyph widths (1/1000 em) for characters 32-126, from the standard AFMs */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+]
+const FONT_WIDTHS: Record<FontKey, number[]> = {
+  F1: HELVETICA_WIDTHS,
+  F2: HELVETICA_BOLD_WIDTHS,
+}
+/** Width used for Latin-1 letters beyond ASCII */
+const DEFAULT_GLYPH_WIDTH = 556
+
+// ============================================================================
+// Text
+// ============================================================================
+
+export function toWinAnsi(text: string): string {
+  return Array.from(text)
+    .map((ch) => (ch.charCodeAt(0) <= 0xff ? ch : '?'))
+    .join('')
+}
+
+export function textWidth(text: string, font: FontKey, size: number): number {
+  const widths = FONT_WIDTHS[font]
+  let units = 0
+  for (const ch of text) {
+    const code = ch.charCodeAt(0)
+    units += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_GLYPH_WIDTH
+  }
+  return (units * size) / 1000
+}
+
+export function escapePdfText(text: string): string {
+  return text.replace(/[\\()]/g, (ch) => `\\${ch}`)
+}
+
+/**
+ * Text drawn with its baseline starting at (x, y)
+ */
+export function drawText(
+  text: string,
+  font: FontKey,
+  size: number,
+  x: number,
+  y: number,
+  gray = 0.15
+): string {
+  const encoded = toWinAnsi(text)
+  return `BT ${gray} g /${font} ${size} Tf ${x.toFixed(2)} ${y} Td (${escapePdfText(encoded)}) Tj ET`
+}
+
+// ============================================================================
+// Document
+// ============================================================================
+
+/**
+ * Assemble pages into PDF bytes
+ */
+export function writePdf({ width, height, pages, title }: PdfDocumentInput): Uint8Array {
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content
+  // stream for each page
+  const pageObjectId = (index: number) => 6 + index * 2
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObjectId(i)} 0 R`).join(' ')}] ` +
+      `/Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${escapePdfText(toWinAnsi(title))}) /Producer (ARKA-ED) >>`,
+  ]
+  pages.forEach((content, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectId(i) + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    )
+  })
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length)
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`
+  })
+
+  const xrefOffset = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\n`
+  pdf += `startxref\n${xrefOffset}\n%%EOF\n`
+
+  return Uint8Array.from(pdf, (ch) => ch.charCodeAt(0))
+}
@@ -0,0 +1,127 @@
+/**
+ * Report builders. Each report runs one database function over the
+ * reporting period (migration 016) and shapes its rows under the report's
+ * columns. Called from the report route handlers with the signed-in admin's
+ * Supabase client; the functions refuse anyone else.
+ */
+
+import type { createClient } from '@/lib/supabase/server'
+import type { AnalyticsPeriod } from '@/lib/supabase/analytics'
+import type { ReportId, ReportRow } from './definitions'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+const CATEGORY_LABELS: Record<string, string> = {
+  'low-back-pain': 'Low Back Pain',
+  headache: 'Headache',
+  'chest-pain': 'Chest Pain',
+  'abdominal-pain': 'Abdominal Pain',
+  'extremity-trauma': 'Extremity Trauma',
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value)
+}
+
+function toMinutes(seconds: unknown): number | null {
+  return seconds === null || seconds === undefined
+    ? null
+    : Math.round((Number(seconds) / 60) * 10) / 10
+}
+
+function toDate(timestamp: string | null): string | null {
+  return timestamp ? timestamp.slice(0, 10) : null
+}
+
+async function runReport(
+  supabase: ServerClient,
+  fn: string,
+  args: Record<string, unknown>
+): Promise<any[]> {
+  const { data, error } = await supabase.rpc(fn as never, args as any as never)
+
+  if (error) {
+    console.error(`Error running ${fn}:`, error)
+    throw error
+  }
+
+  return (data || []) as any[]
+}
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+const BUILDERS: Record<
+  ReportId,
+  (supabase: ServerClient, args: { p_start: string; p_end: string }) => Promise<ReportRow[]>
+> = {
+  'user-progress': async (supabase, args) =>
+    (await runReport(supabase, 'get_user_progress_report', args)).map((row) => ({
+      name: row.full_name,
+      email: row.email,
+      role: row.role,
+      institution: row.institution,
+      attempts: row.attempts,
+      cases_attempted: row.cases_attempted,
+      accuracy: toNumber(row.accuracy),
+      avg_score: toNumber(row.avg_score),
+      time_minutes: toMinutes(row.time_spent_seconds),
+      assessments_completed: row.assessments_completed,
+      assessments_passed: row.assessments_passed,
+      last_active: toDate(row.last_active_at),
+    })),
+
+  'assessment-results': async (supabase, args) =>
+    (await runReport(supabase, 'get_assessment_results_report', args)).map((row) => ({
+      assessment: row.assessment_title,
+      name: row.full_name,
+      email: row.email,
+      institution: row.institution,
+      sitting: row.sitting,
+      score: row.score,
+      passing_score: row.passing_score,
+      passed: row.passed === null ? null : row.passed ? 'Yes' : 'No',
+      duration_minutes: toMinutes(row.duration_seconds),
+      completed: toDate(row.completed_at),
+    })),
+
+  'category-performance': async (supabase, args) =>
+    (await runReport(supabase, 'get_category_performance_report', args)).map((row) => ({
+      category: CATEGORY_LABELS[row.category] ?? row.category,
+      cases_attempted: row.cases_attempted,
+      learners: row.learners,
+      attempts: row.attempts,
+      accuracy: toNumber(row.accuracy),
+      avg_score: toNumber(row.avg_score),
+      avg_minutes: toMinutes(row.avg_time_seconds),
+      avg_hints: toNumber(row.avg_hints),
+    })),
+
+  'institutional-benchmarks': async (supabase, args) =>
+    (await runReport(supabase, 'get_institution_benchmarks', args)).map((row) => ({
+      institution: row.institution ?? 'All institutions',
+      learners: row.learner_count,
+      mean_score: toNumber(row.mean_score),
+      median_score: toNumber(row.median_score),
+      pass_rate: toNumber(row.pass_rate),
+    })),
+}
+
+/**
+ * Build a report's rows for the period
+ */
+export function buildReport(
+  supabase: ServerClient,
+  reportId: ReportId,
+  period: AnalyticsPeriod
+): Promise<ReportRow[]> {
+  return BUILDERS[reportId](supabase, {
+    p_start: period.start.toISOString(),
+    p_end: period.end.toISOString(),
+  })
+}
@@ -0,0 +1,141 @@
+/**
+ * Admin report definitions shared by /admin/reports and the report route
+ * handlers: each report's columns, the date ranges it can cover, and the
+ * file names downloads are saved under.
+ */
+
+import type { AnalyticsRange } from '@/lib/supabase/analytics'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReportId =
+  | 'user-progress'
+  | 'assessment-results'
+  | 'category-performance'
+  | 'institutional-benchmarks'
+
+export type ReportFormat = 'csv' | 'pdf'
+
+export type ReportRange = AnalyticsRange
+
+export type ReportCategory = 'user' | 'assessment' | 'performance' | 'institutional'
+
+/** A cell as stored in a report snapshot: numbers stay numbers for spreadsheets */
+export type ReportValue = string | number | boolean | null
+
+export type ReportRow = Record<string, ReportValue>
+
+export interface ReportColumn {
+  key: string
+  label: string
+  /** Relative width in the PDF table */
+  width: number
+  align?: 'left' | 'right'
+}
+
+export interface ReportDefinition {
+  id: ReportId
+  name: string
+  category: ReportCategory
+  columns: ReportColumn[]
+}
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+export const REPORTS: Record<ReportId, ReportDefinition> = {
+  'user-progress': {
+    id: 'user-progress',
+    name: 'User Progress Summary',
+    category: 'user',
+    columns: [
+      { key: 'name', label: 'Name', width: 3 },
+      { key: 'email', label: 'Email', width: 4 },
+      { key: 'role', label: 'Role', width: 1.5 },
+      { key: 'institution', label: 'Institution', width: 3 },
+      { key: 'attempts', label: 'Attempts', width: 1.3, align: 'right' },
+      { key: 'cases_attempted', label: 'Cases', width: 1.1, align: 'right' },
+      { key: 'accuracy', label: 'Accuracy (%)', width: 1.6, align: 'right' },
+      { key: 'avg_score', label: 'Avg Score', width: 1.4, align: 'right' },
+      { key: 'time_minutes', label: 'Minutes', width: 1.3, align: 'right' },
+      { key: 'assessments_completed', label: 'Assessments', width: 1.7, align: 'right' },
+      { key: 'assessments_passed', label: 'Passed', width: 1.1, align: 'right' },
+      { key: 'last_active', label: 'Last Active', width: 1.8 },
+    ],
+  },
+  'assessment-results': {
+    id: 'assessment-results',
+    name: 'Assessment Results by User',
+    category: 'assessment',
+    columns: [
+      { key: 'assessment', label: 'Assessment', width: 4 },
+      { key: 'name', label: 'Name', width: 3 },
+      { key: 'email', label: 'Email', width: 4 },
+      { key: 'institution', label: 'Institution', width: 3 },
+      { key: 'sitting', label: 'Sitting', width: 1.1, align: 'right' },
+      { key: 'score', label: 'Score (%)', width: 1.4, align: 'right' },
+      { key: 'passing_score', label: 'Pass Mark', width: 1.4, align: 'right' },
+      { key: 'passed', label: 'Passed', width: 1.1 },
+      { key: 'duration_minutes', label: 'Minutes', width: 1.3, align: 'right' },
+      { key: 'completed', label: 'Completed', width: 1.8 },
+    ],
+  },
+  'category-performance': {
+    id: 'category-performance',
+    name: 'Category Performance',
+    category: 'performance',
+    columns: [
+      { key: 'category', label: 'Category', width: 3 },
+      { key: 'cases_attempted', label: 'Cases', width: 1.2, align: 'right' },
+      { key: 'learners', label: 'Learners', width: 1.4, align: 'right' },
+      { key: 'attempts', label: 'Attempts', width: 1.4, align: 'right' },
+      { key: 'accuracy', label: 'Accuracy (%)', width: 1.8, align: 'right' },
+      { key: 'avg_score', label: 'Avg Score', width: 1.6, align: 'right' },
+      { key: 'avg_minutes', label: 'Avg Minutes', width: 1.8, align: 'right' },
+      { key: 'avg_hints', label: 'Avg Hints', width: 1.6, align: 'right' },
+    ],
+  },
+  'institutional-benchmarks': {
+    id: 'institutional-benchmarks',
+    name: 'Institutional Benchmarks',
+    category: 'institutional',
+    columns: [
+      { key: 'institution', label: 'Institution', width: 4 },
+      { key: 'learners', label: 'Learners', width: 1.4, align: 'right' },
+      { key: 'mean_score', label: 'Mean Score', width: 1.6, align: 'right' },
+      { key: 'median_score', label: 'Median Score', width: 1.8, align: 'right' },
+      { key: 'pass_rate', label: 'Pass Rate (%)', width: 1.8, align: 'right' },
+    ],
+  },
+}
+
+export const REPORT_RANGES: ReportRange[] = ['week', 'month', 'quarter', 'year']
+
+export const REPORT_RANGE_LABELS: Record<ReportRange, string> = {
+  week: 'Last Week',
+  month: 'Last Month',
+  quarter: 'Last Quarter',
+  year: 'Last Year',
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isReportId(value: string): value is ReportId {
+  return value in REPORTS
+}
+
+export function isReportRange(value: string): value is ReportRange {
+  return (REPORT_RANGES as string[]).includes(value)
+}
+
+/**
+ * File name for a download, e.g. user-progress-2026-10-19.csv
+ */
+export function getReportFileName(reportId: ReportId, format: ReportFormat, generatedAt: string): string {
+  return `${reportId}-${generatedAt.slice(0, 10)}.${format}`
+}
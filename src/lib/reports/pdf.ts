@@ -0,0 +1,156 @@
+/**
+ * Report PDF rendering: a landscape table split across as many pages as it
+ * needs, with the title and column headings repeated on each page and a
+ * page count in the footer. Drawn with src/lib/pdf/writer.ts.
+ */
+
+import { drawText, textWidth, toWinAnsi, writePdf, type FontKey } from '@/lib/pdf/writer'
+import type { ReportColumn, ReportRow, ReportValue } from './definitions'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReportPdfInput {
+  title: string
+  /** Shown under the title, e.g. the reporting period */
+  subtitle: string
+  columns: ReportColumn[]
+  rows: ReportRow[]
+  generatedAt: string
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const PAGE_WIDTH = 792
+const PAGE_HEIGHT = 612
+const MARGIN = 36
+const TABLE_WIDTH = PAGE_WIDTH - MARGIN * 2
+const TABLE_TOP = PAGE_HEIGHT - 96
+const TABLE_BOTTOM = MARGIN + 24
+const ROW_HEIGHT = 15
+const CELL_PADDING = 4
+const FONT_SIZE = 8
+const ROWS_PER_PAGE = Math.floor((TABLE_TOP - TABLE_BOTTOM) / ROW_HEIGHT) - 1
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatCell(value: ReportValue): string {
+  if (value === null || value === undefined || value === '') return '-'
+  if (typeof value === 'number') return value.toLocaleString('en-US')
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return value
+}
+
+/**
+ * Text cut with an ellipsis to fit a width
+ */
+function fitText(text: string, font: FontKey, size: number, maxWidth: number): string {
+  const encoded = toWinAnsi(text)
+  if (textWidth(encoded, font, size) <= maxWidth) return encoded
+  let end = encoded.length
+  while (end > 0 && textWidth(`${encoded.slice(0, end)}...`, font, size) > maxWidth) end -= 1
+  return `${encoded.slice(0, end)}...`
+}
+
+function cellText(
+  text: string,
+  column: ReportColumn,
+  font: FontKey,
+  x: number,
+  width: number,
+  y: number,
+  gray: number
+): string {
+  const fitted = fitText(text, font, FONT_SIZE, width - CELL_PADDING * 2)
+  const textX =
+    column.align === 'right'
+      ? x + width - CELL_PADDING - textWidth(fitted, font, FONT_SIZE)
+      : x + CELL_PADDING
+  return drawText(fitted, font, FONT_SIZE, textX, y, gray)
+}
+
+function formatGeneratedAt(generatedAt: string): string {
+  return new Date(generatedAt).toLocaleString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'UTC',
+    timeZoneName: 'short',
+  })
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render a report as PDF bytes
+ */
+export function renderReportPdf(input: ReportPdfInput): Uint8Array {
+  const totalWeight = input.columns.reduce((sum, column) => sum + column.width, 0)
+  const widths = input.columns.map((column) => (column.width / totalWeight) * TABLE_WIDTH)
+  const lefts = widths.map((_, i) => MARGIN + widths.slice(0, i).reduce((sum, w) => sum + w, 0))
+
+  const chunks: ReportRow[][] = []
+  for (let i = 0; i < input.rows.length; i += ROWS_PER_PAGE) {
+    chunks.push(input.rows.slice(i, i + ROWS_PER_PAGE))
+  }
+  if (chunks.length === 0) chunks.push([])
+
+  const pages = chunks.map((rows, pageIndex) => {
+    const parts = [
+      drawText(input.title, 'F2', 16, MARGIN, PAGE_HEIGHT - MARGIN - 16, 0.1),
+      drawText(input.subtitle, 'F1', 10, MARGIN, PAGE_HEIGHT - MARGIN - 34, 0.35),
+      // Heading band
+      `0.9 g ${MARGIN} ${TABLE_TOP - ROW_HEIGHT} ${TABLE_WIDTH} ${ROW_HEIGHT} re f`,
+    ]
+
+    const headingY = TABLE_TOP - ROW_HEIGHT + 5
+    input.columns.forEach((column, i) => {
+      parts.push(cellText(column.label, column, 'F2', lefts[i], widths[i], headingY, 0.15))
+    })
+
+    rows.forEach((row, rowIndex) => {
+      const top = TABLE_TOP - ROW_HEIGHT * (rowIndex + 2)
+      if (rowIndex % 2 === 1) {
+        parts.push(`0.97 g ${MARGIN} ${top} ${TABLE_WIDTH} ${ROW_HEIGHT} re f`)
+      }
+      input.columns.forEach((column, i) => {
+        parts.push(
+          cellText(formatCell(row[column.key]), column, 'F1', lefts[i], widths[i], top + 5, 0.2)
+        )
+      })
+    })
+
+    if (input.rows.length === 0) {
+      const emptyY = TABLE_TOP - ROW_HEIGHT * 2 + 4
+      parts.push(drawText('No data for this period', 'F1', 10, MARGIN + CELL_PADDING, emptyY, 0.4))
+    }
+
+    const footer = `Generated ${formatGeneratedAt(input.generatedAt)}`
+    const pageLabel = `Page ${pageIndex + 1} of ${chunks.length}`
+    parts.push(
+      `0.8 G 0.5 w ${MARGIN} ${TABLE_BOTTOM - 8} m ${PAGE_WIDTH - MARGIN} ${TABLE_BOTTOM - 8} l S`,
+      drawText(footer, 'F1', 8, MARGIN, MARGIN, 0.4),
+      drawText(
+        pageLabel,
+        'F1',
+        8,
+        PAGE_WIDTH - MARGIN - textWidth(pageLabel, 'F1', 8),
+        MARGIN,
+        0.4
+      )
+    )
+
+    return parts.join('\n')
+  })
+
+  return writePdf({ width: PAGE_WIDTH, height: PAGE_HEIGHT, pages, title: input.title })
+}
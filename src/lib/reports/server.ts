@@ -0,0 +1,80 @@
+/**
+ * Report downloads from the route handlers: a report snapshot rendered as a
+ * CSV stream or a PDF.
+ */
+
+import { NextResponse } from 'next/server'
+import { toCsvStream } from '@/lib/utils/csv'
+import { renderReportPdf } from './pdf'
+import {
+  REPORTS,
+  REPORT_RANGE_LABELS,
+  getReportFileName,
+  isReportRange,
+  type ReportFormat,
+  type ReportId,
+  type ReportRow,
+} from './definitions'
+
+export interface ReportFile {
+  reportId: ReportId
+  format: ReportFormat
+  dateRange: string
+  periodStart: string
+  periodEnd: string
+  generatedAt: string
+  rows: ReportRow[]
+  /** History entry the file was recorded as, if it was */
+  entryId?: string
+}
+
+function formatPeriodDate(timestamp: string): string {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+/**
+ * A report as a download: CSV is streamed a chunk of rows at a time, PDF is
+ * rendered as a paginated table
+ */
+export function reportResponse(file: ReportFile): NextResponse {
+  const report = REPORTS[file.reportId]
+  const fileName = getReportFileName(file.reportId, file.format, file.generatedAt)
+  const headers: Record<string, string> = {
+    'Content-Disposition': `attachment; filename="${fileName}"`,
+    'Cache-Control': 'private, no-store',
+  }
+  if (file.entryId) headers['X-Report-Entry'] = file.entryId
+
+  if (file.format === 'csv') {
+    const body = toCsvStream(
+      report.columns.map((column) => column.key),
+      file.rows,
+      report.columns.map((column) => column.label)
+    )
+    return new NextResponse(body, {
+      headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' },
+    })
+  }
+
+  const rangeLabel = isReportRange(file.dateRange)
+    ? REPORT_RANGE_LABELS[file.dateRange]
+    : file.dateRange
+  const pdf = renderReportPdf({
+    title: report.name,
+    subtitle: `${rangeLabel}: ${formatPeriodDate(file.periodStart)} to ${formatPeriodDate(
+      file.periodEnd
+    )} (${file.rows.length} ${file.rows.length === 1 ? 'row' : 'rows'})`,
+    columns: report.columns,
+    rows: file.rows,
+    generatedAt: file.generatedAt,
+  })
+
+  return new NextResponse(Buffer.from(pdf), {
+    headers: { ...headers, 'Content-Type': 'application/pdf' },
+  })
+}
@@ -0,0 +1,200 @@
+/**
+ * Achievement API Helpers
+ * Client-side functions for achievements (migrations 013 and 014).
+ * Achievements are awarded by the database when attempts and assessments are
+ * written, according to each achievement's criteria; the client reads them,
+ * listens for new unlocks, and admins edit the definitions.
+ */
+
+import { createClient } from './client'
+import {
+  getAchievement,
+  type AchievementDefinition,
+  type AchievementSlug,
+} from '@/data/achievements'
+import type {
+  Achievement,
+  AchievementCategory,
+  AchievementProgress,
+  UserAchievement,
+} from '@/types/database'
+
+export interface EarnedAchievement {
+  slug: AchievementSlug
+  earnedAt: string
+  metadata: Record<string, any> | null
+  definition: AchievementDefinition
+}
+
+export type AchievementInput = Pick<
+  Achievement,
+  'slug' | 'name' | 'description' | 'icon' | 'category' | 'criteria' | 'points' | 'is_active'
+>
+
+// The app groups achievements more coarsely than the database enum
+// (progress, mastery, streak, special)
+const CATEGORY_GROUPS: Record<AchievementCategory, string> = {
+  completion: 'progress',
+  accuracy: 'mastery',
+  speed: 'mastery',
+  specialty: 'mastery',
+  streak: 'streak',
+  milestone: 'special',
+}
+
+/**
+ * Definition for an achievement row. Bundled definitions are preferred so
+ * their secret and confetti flags apply; admin-defined ones are built from
+ * the row.
+ */
+export function toAchievementDefinition(row: Achievement): AchievementDefinition {
+  return (
+    getAchievement(row.slug as AchievementSlug) ?? {
+      slug: row.slug as AchievementSlug,
+      name: row.name,
+      description: row.description,
+      icon: row.icon,
+      category: CATEGORY_GROUPS[row.category],
+      criteria: row.criteria,
+      points: row.points,
+    } as AchievementDefinition
+  )
+}
+
+/**
+ * Get achievement definitions, ordered by name. Learners see active ones;
+ * admins see all.
+ */
+export async function getAchievements(): Promise<Achievement[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('achievements')
+    .select('*')
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching achievements:', error)
+    throw error
+  }
+
+  return data ?? []
+}
+
+/**
+ * Get the signed-in learner's earned achievements, newest first
+ */
+export async function getEarnedAchievements(): Promise<EarnedAchievement[]> {
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return []
+
+  const { data, error } = await supabase
+    .from('user_achievements')
+    .select('achieved_at, metadata, achievements(*)')
+    .eq('user_id', user.id)
+    .order('achieved_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching achievements:', error)
+    throw error
+  }
+
+  return ((data || []) as any[])
+    .filter((row) => row.achievements)
+    .map((row) => ({
+      slug: row.achievements.slug,
+      earnedAt: row.achieved_at,
+      metadata: row.metadata,
+      definition: toAchievementDefinition(row.achievements),
+    }))
+}
+
+/**
+ * Get the signed-in learner's progress toward every active achievement,
+ * evaluated by the database from the achievement's criteria
+ */
+export async function getAchievementProgress(): Promise<AchievementProgress[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('get_achievement_progress')
+
+  if (error) {
+    console.error('Error fetching achievement progress:', error)
+    throw error
+  }
+
+  return data ?? []
+}
+
+/**
+ * Create or update an achievement definition (admins only). Criteria
+ * should be validated with achievementCriteriaSchema first.
+ */
+export async function saveAchievement(
+  achievement: AchievementInput,
+  achievementId?: string
+): Promise<Achievement> {
+  const supabase = createClient()
+
+  const query = achievementId
+    ? supabase
+        .from('achievements')
+        .update({ ...achievement, updated_at: new Date().toISOString() })
+        .eq('id', achievementId)
+    : supabase.from('achievements').insert(achievement)
+
+  const { data, error } = await query.select().single()
+
+  if (error) {
+    console.error('Error saving achievement:', error)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Listen for achievements awarded to a learner. Returns an unsubscribe
+ * function.
+ */
+export function subscribeToAchievementUnlocks(
+  userId: string,
+  onUnlock: (achievement: EarnedAchievement) => void
+): () => void {
+  const supabase = createClient()
+  // Realtime rows carry the achievement id; resolve definitions once up front
+  const definitions = getAchievements()
+    .then((rows) => new Map(rows.map((row) => [row.id, toAchievementDefinition(row)])))
+    .catch(() => new Map<string, AchievementDefinition>())
+
+  // Each subscriber gets its own channel so unsubscribing one leaves the rest
+  const channel = supabase
+    .channel(`achievement-unlocks:${userId}:${Math.random().toString(36).slice(2)}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'user_achievements',
+        filter: `user_id=eq.${userId}`,
+      },
+      async (payload) => {
+        const row = payload.new as UserAchievement
+        const definition = (await definitions).get(row.achievement_id)
+        if (!definition) return
+        onUnlock({
+          slug: definition.slug,
+          earnedAt: row.achieved_at,
+          metadata: row.metadata,
+          definition,
+        })
+      }
+    )
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
@@ -1,5 +1,10 @@
 // @ts-nocheck
 import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import type { createClient as createServerClient } from "@/lib/supabase/server";
+import type { AdminAuditAction } from "@/types/database";
+
+type ServerClient = Awaited<ReturnType<typeof createServerClient>>;
 
 export function createAdminClient() {
   return createClient(
@@ -12,4 +17,58 @@ export function createAdminClient() {
       },
     }
   );
-}
\ No newline at end of file
+}
+
+/**
+ * The signed-in user's id if they are an admin, otherwise the response to
+ * send instead. Admin route handlers call this before anything else.
+ */
+export async function requireAdmin(
+  supabase: ServerClient
+): Promise<{ userId: string } | { response: NextResponse }> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return { response: NextResponse.json({ error: "Not signed in" }, { status: 401 }) };
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role, deactivated_at")
+    .eq("id", user.id)
+    .maybeSingle();
+  if (profile?.role !== "admin" || profile.deactivated_at) {
+    return { response: NextResponse.json({ error: "Admins only" }, { status: 403 }) };
+  }
+
+  return { userId: user.id };
+}
+
+/**
+ * Record an admin action on a user account in the audit log (migration 017).
+ * The action has already happened by now, so a failure to record it is
+ * logged rather than thrown.
+ */
+export async function recordAdminAction(
+  admin: ReturnType<typeof createAdminClient>,
+  entry: {
+    actorId: string;
+    action: AdminAuditAction;
+    targetUserId: string | null;
+    targetEmail: string;
+    details?: Record<string, unknown>;
+  }
+): Promise<void> {
+  const { error } = await admin.from("admin_audit_log").insert({
+    actor_id: entry.actorId,
+    action: entry.action,
+    target_user_id: entry.targetUserId,
+    target_email: entry.targetEmail,
+    details: entry.details ?? {},
+  });
+
+  if (error) {
+    console.error("Error recording admin action:", error);
+  }
+}
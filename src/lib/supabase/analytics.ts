@@ -0,0 +1,311 @@
+/**
+ * Admin Analytics API Helpers
+ * Client-side functions for the platform metrics behind the admin dashboard
+ * and analytics page (migration 015). Metrics are computed in the database
+ * and are available to admins only.
+ */
+
+import { createClient } from './client'
+import type {
+  AnalyticsActivity,
+  AnalyticsBreakdown,
+  AnalyticsBucket,
+  AnalyticsCase,
+  AnalyticsOverview,
+  RecentActivity,
+  RetentionCohort,
+} from '@/types/database'
+
+export type AnalyticsRange = 'week' | 'month' | 'quarter' | 'year'
+
+export interface AnalyticsPeriod {
+  start: Date
+  end: Date
+  /** Chart granularity: weekly for a year, otherwise daily */
+  bucket: 'day' | 'week'
+}
+
+export interface PlatformAnalytics {
+  period: AnalyticsPeriod
+  overview: AnalyticsOverview
+  activity: AnalyticsActivity[]
+  breakdown: AnalyticsBreakdown[]
+  popularCases: AnalyticsCase[]
+  hardestCases: AnalyticsCase[]
+  scoreDistribution: AnalyticsBucket[]
+  retention: RetentionCohort[]
+  streakDistribution: AnalyticsBucket[]
+}
+
+/** Fewest attempts for a case to be ranked among the hardest; keep in sync with get_analytics_cases() */
+export const HARDEST_CASE_MIN_ATTEMPTS = 10
+
+const RANGE_DAYS: Record<AnalyticsRange, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
+}
+
+/**
+ * The reporting period for a date range, ending now
+ */
+export function getAnalyticsPeriod(range: AnalyticsRange, now: Date = new Date()): AnalyticsPeriod {
+  return {
+    start: new Date(now.getTime() - RANGE_DAYS[range] * 24 * 60 * 60 * 1000),
+    end: now,
+    bucket: range === 'year' ? 'week' : 'day',
+  }
+}
+
+/**
+ * Percent change from the previous period, rounded to one decimal. Null
+ * when there is nothing to compare against.
+ */
+export function percentChange(current: number | null, previous: number | null): number | null {
+  if (current === null || previous === null || previous === 0) return null
+  return Math.round(((current - previous) / previous) * 1000) / 10
+}
+
+/**
+ * Retention by weeks since signup across all cohorts, as a percent of the
+ * learners whose cohort has reached that week
+ */
+export function summarizeRetention(
+  cohorts: RetentionCohort[]
+): Array<{ weekOffset: number; retained: number; learners: number }> {
+  const byOffset = new Map<number, { retained: number; learners: number }>()
+  for (const row of cohorts) {
+    const totals = byOffset.get(row.week_offset) ?? { retained: 0, learners: 0 }
+    totals.retained += row.retained
+    totals.learners += row.cohort_size
+    byOffset.set(row.week_offset, totals)
+  }
+
+  return Array.from(byOffset.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([weekOffset, totals]) => ({
+      weekOffset,
+      retained: totals.learners
+        ? Math.round((totals.retained / totals.learners) * 1000) / 10
+        : 0,
+      learners: totals.learners,
+    }))
+}
+
+function periodArgs(period: AnalyticsPeriod) {
+  return {
+    p_start: period.start.toISOString(),
+    p_end: period.end.toISOString(),
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value)
+}
+
+/**
+ * Get headline numbers for the period and the period before it
+ */
+export async function getAnalyticsOverview(period: AnalyticsPeriod): Promise<AnalyticsOverview> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc(
+    'get_analytics_overview',
+    periodArgs(period)
+  )
+
+  if (error) {
+    console.error('Error fetching analytics overview:', error)
+    throw error
+  }
+
+  // The function always returns one row
+  const row: Partial<AnalyticsOverview> = data?.[0] ?? {}
+  return {
+    ...row,
+    accuracy: toNumber(row.accuracy),
+    previous_accuracy: toNumber(row.previous_accuracy),
+    avg_time_seconds: toNumber(row.avg_time_seconds),
+    total_time_seconds: Number(row.total_time_seconds ?? 0),
+  } as AnalyticsOverview
+}
+
+/**
+ * Get active users, attempts and registrations per day or week
+ */
+export async function getAnalyticsActivity(period: AnalyticsPeriod): Promise<AnalyticsActivity[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('get_analytics_activity', {
+    ...periodArgs(period),
+    p_bucket: period.bucket,
+  })
+
+  if (error) {
+    console.error('Error fetching analytics activity:', error)
+    throw error
+  }
+
+  return data ?? []
+}
+
+/**
+ * Get attempts, accuracy and average time by case category and difficulty
+ */
+export async function getAnalyticsBreakdown(period: AnalyticsPeriod): Promise<AnalyticsBreakdown[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc(
+    'get_analytics_breakdown',
+    periodArgs(period)
+  )
+
+  if (error) {
+    console.error('Error fetching analytics breakdown:', error)
+    throw error
+  }
+
+  return (data ?? []).map((row) => ({
+    ...row,
+    accuracy: Number(row.accuracy),
+    avg_time_seconds: Number(row.avg_time_seconds),
+  }))
+}
+
+/**
+ * Get the most attempted cases and the hardest cases (lowest accuracy among
+ * cases with at least minAttempts attempts)
+ */
+export async function getAnalyticsCases(
+  period: AnalyticsPeriod,
+  { minAttempts = HARDEST_CASE_MIN_ATTEMPTS, limit = 5 }: { minAttempts?: number; limit?: number } = {}
+): Promise<{ popular: AnalyticsCase[]; hardest: AnalyticsCase[] }> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('get_analytics_cases', {
+    ...periodArgs(period),
+    p_min_attempts: minAttempts,
+    p_limit: limit,
+  })
+
+  if (error) {
+    console.error('Error fetching case analytics:', error)
+    throw error
+  }
+
+  const rows: AnalyticsCase[] = (data ?? []).map((row) => ({
+    ...row,
+    accuracy: Number(row.accuracy),
+    avg_score: Number(row.avg_score),
+  }))
+  return {
+    popular: rows.filter((row) => row.ranking === 'popular'),
+    hardest: rows.filter((row) => row.ranking === 'hardest'),
+  }
+}
+
+/**
+ * Get learners bucketed by their mean case score in the period
+ */
+export async function getLearnerScoreDistribution(period: AnalyticsPeriod): Promise<AnalyticsBucket[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc(
+    'get_analytics_score_distribution',
+    periodArgs(period)
+  )
+
+  if (error) {
+    console.error('Error fetching score distribution:', error)
+    throw error
+  }
+
+  return data ?? []
+}
+
+/**
+ * Get weekly retention cohorts for learners who signed up in the period
+ */
+export async function getRetentionCohorts(period: AnalyticsPeriod): Promise<RetentionCohort[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc(
+    'get_retention_cohorts',
+    periodArgs(period)
+  )
+
+  if (error) {
+    console.error('Error fetching retention cohorts:', error)
+    throw error
+  }
+
+  return data ?? []
+}
+
+/**
+ * Get learners bucketed by their longest daily streak in the period
+ */
+export async function getStreakDistribution(period: AnalyticsPeriod): Promise<AnalyticsBucket[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc(
+    'get_streak_distribution',
+    periodArgs(period)
+  )
+
+  if (error) {
+    console.error('Error fetching streak distribution:', error)
+    throw error
+  }
+
+  return data ?? []
+}
+
+/**
+ * Get the latest registrations, case attempts and passed assessments
+ */
+export async function getRecentActivity(limit: number = 10): Promise<RecentActivity[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('get_recent_activity', {
+    p_limit: limit,
+  })
+
+  if (error) {
+    console.error('Error fetching recent activity:', error)
+    throw error
+  }
+
+  return data ?? []
+}
+
+/**
+ * Get every metric on the analytics page for a date range
+ */
+export async function getPlatformAnalytics(range: AnalyticsRange): Promise<PlatformAnalytics> {
+  const period = getAnalyticsPeriod(range)
+
+  const [overview, activity, breakdown, cases, scoreDistribution, retention, streakDistribution] =
+    await Promise.all([
+      getAnalyticsOverview(period),
+      getAnalyticsActivity(period),
+      getAnalyticsBreakdown(period),
+      getAnalyticsCases(period),
+      getLearnerScoreDistribution(period),
+      getRetentionCohorts(period),
+      getStreakDistribution(period),
+    ])
+
+  return {
+    period,
+    overview,
+    activity,
+    breakdown,
+    popularCases: cases.popular,
+    hardestCases: cases.hardest,
+    scoreDistribution,
+    retention,
+    streakDistribution,
+  }
+}
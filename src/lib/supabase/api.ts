@@ -4,10 +4,15 @@
  */
 
 import { createClient } from './client'
+import type { Case } from '@/types/database'
 
 // Note: These types may need to be updated to match your actual Database type
-// If your Database type uses different table names, adjust accordingly
-type Case = {
+// If your Database type uses different table names, adjust accordingly.
+// Queries typed with them below read columns Database does not describe,
+// so they go through an untyped client.
+
+// Row shape of the 002 cases table; convert with fromApiCase in @/lib/cases
+export type ApiCase = {
   id: string
   slug: string
   title: string
@@ -84,7 +89,7 @@ export async function getCases(filters?: {
   difficulty?: string
   specialty?: string
 }) {
-  const supabase = createClient()
+  const supabase: any = createClient()
   
   let query = supabase
     .from('cases')
@@ -116,8 +121,8 @@ export async function getCases(filters?: {
 /**
  * Get a single case by slug
  */
-export async function getCase(slug: string): Promise<Case | null> {
-  const supabase = createClient()
+export async function getCase(slug: string): Promise<ApiCase | null> {
+  const supabase: any = createClient()
   
   const { data, error } = await supabase
     .from('cases')
@@ -139,15 +144,35 @@ export async function getCase(slug: string): Promise<Case | null> {
 }
 
 /**
- * Submit a case attempt
+ * Start the database's clock on a case for the signed-in learner. The next
+ * attempt at the case is timed from the first start since the last attempt.
+ */
+export async function startCaseAttempt(caseId: string) {
+  const supabase = createClient()
+
+  const { error } = await supabase.rpc('start_case_attempt', { p_case_id: caseId })
+
+  if (error) {
+    console.error('Error starting case attempt:', error)
+    throw error
+  }
+}
+
+/**
+ * Submit a case attempt. Pass the revision the learner was shown; when
+ * omitted the database pins the attempt to the currently published revision.
+ * The database stamps the time, times the attempt from startCaseAttempt()
+ * and rescores the selection (migration 013), replacing the time, score and
+ * correctness sent here.
  */
 export async function submitCaseAttempt(
   caseId: string,
-  selectedOption: string,
+  selectedImaging: string[],
   score: number,
   timeTaken: number,
   hintsUsed: number = 0,
-  mode: 'learning' | 'assessment' = 'learning'
+  mode: 'learning' | 'assessment' = 'learning',
+  caseRevisionId: string | null = null
 ) {
   const supabase = createClient()
   
@@ -162,7 +187,8 @@ export async function submitCaseAttempt(
     .insert({
       user_id: user.id,
       case_id: caseId,
-      selected_imaging: Array.isArray(selectedOption) ? selectedOption : [selectedOption],
+      // "No imaging" is stored as an empty selection
+      selected_imaging: selectedImaging.filter((id) => id !== 'no-imaging'),
       score,
       time_spent_seconds: timeTaken,
       hints_used: hintsUsed,
@@ -171,6 +197,7 @@ export async function submitCaseAttempt(
       feedback_viewed: false,
       assessment_id: null,
       acr_rating_received: null,
+      case_revision_id: caseRevisionId,
     } as any)
     .select()
     .single()
@@ -232,7 +259,7 @@ export async function getUserProgress(userId?: string) {
   // Get category breakdown
   const categoryBreakdown: Record<string, { attempted: number; correct: number }> = {}
   attempts?.forEach((attempt: any) => {
-    const caseData = attempt.cases as Case
+    const caseData = attempt.cases as ApiCase
     if (caseData?.category) {
       if (!categoryBreakdown[caseData.category]) {
         categoryBreakdown[caseData.category] = { attempted: 0, correct: 0 }
@@ -255,6 +282,177 @@ export async function getUserProgress(userId?: string) {
   }
 }
 
+/**
+ * Get what the spaced-repetition queue is built from: the user's attempts,
+ * bookmarked case ids, and the title and category of every case involved
+ */
+export async function getReviewHistory() {
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    throw new Error('User must be authenticated')
+  }
+
+  const [attemptsResult, bookmarksResult] = await Promise.all([
+    supabase
+      .from('user_case_attempts')
+      .select('case_id, score, time_spent_seconds, created_at, cases (id, title, category)')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('user_case_bookmarks')
+      .select('case_id, cases (id, title, category)')
+      .eq('user_id', user.id),
+  ])
+
+  const error = attemptsResult.error || bookmarksResult.error
+  if (error) {
+    console.error('Error fetching review history:', error)
+    throw error
+  }
+
+  const attempts = (attemptsResult.data || []) as any[]
+  const bookmarks = (bookmarksResult.data || []) as any[]
+  const cases = new Map<string, Pick<Case, 'id' | 'title' | 'category'>>()
+  ;[...attempts, ...bookmarks].forEach((row) => row.cases && cases.set(row.case_id, row.cases))
+
+  return {
+    attempts: attempts.map(({ cases: _case, ...attempt }) => attempt),
+    bookmarkedCaseIds: bookmarks.map((b) => b.case_id as string),
+    cases: Array.from(cases.values()),
+  }
+}
+
+/**
+ * Get what the learner's radiation summary is built from: the user's
+ * attempts, the patient age and optimal imaging of every case involved, and
+ * the dose of each imaging option
+ */
+export async function getRadiationHistory() {
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    throw new Error('User must be authenticated')
+  }
+
+  const [attemptsResult, optionsResult] = await Promise.all([
+    supabase
+      .from('user_case_attempts')
+      .select('case_id, selected_imaging, cases (id, patient_age, optimal_imaging)')
+      .eq('user_id', user.id),
+    supabase.from('imaging_options').select('id, radiation_msv'),
+  ])
+
+  const error = attemptsResult.error || optionsResult.error
+  if (error) {
+    console.error('Error fetching radiation history:', error)
+    throw error
+  }
+
+  const attempts = (attemptsResult.data || []) as any[]
+  const cases = new Map<string, { id: string; patient_age: number; optimal_imaging: string[] }>()
+  attempts.forEach((row) => row.cases && cases.set(row.case_id, row.cases))
+
+  return {
+    attempts: attempts.map(({ cases: _case, ...attempt }) => attempt),
+    cases: Array.from(cases.values()),
+    doses: Object.fromEntries(
+      ((optionsResult.data || []) as any[]).map((o) => [o.id, Number(o.radiation_msv)])
+    ) as Record<string, number>,
+  }
+}
+
+/**
+ * Check whether a case is on the user's study list
+ */
+export async function isCaseBookmarked(caseId: string) {
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return false
+
+  const { data, error } = await supabase
+    .from('user_case_bookmarks')
+    .select('case_id')
+    .eq('user_id', user.id)
+    .eq('case_id', caseId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching bookmark:', error)
+    throw error
+  }
+
+  return !!data
+}
+
+/**
+ * Add a case to, or remove it from, the user's study list
+ */
+export async function setCaseBookmark(caseId: string, bookmarked: boolean) {
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    throw new Error('User must be authenticated')
+  }
+
+  const { error } = bookmarked
+    ? await supabase
+        .from('user_case_bookmarks')
+        .upsert({ user_id: user.id, case_id: caseId })
+    : await supabase
+        .from('user_case_bookmarks')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('case_id', caseId)
+
+  if (error) {
+    console.error('Error updating bookmark:', error)
+    throw error
+  }
+}
+
+/**
+ * Get what next-case recommendations are built from: published cases, their
+ * difficulty calibration across all learners, and the user's own attempts
+ */
+export async function getRecommendationContext() {
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const [casesResult, statsResult, attemptsResult] = await Promise.all([
+    supabase
+      .from('cases')
+      .select('id, title, category, difficulty')
+      .eq('is_published', true),
+    supabase
+      .from('case_difficulty_stats')
+      .select('case_id, learner_count, mean_score'),
+    user
+      ? supabase
+          .from('user_case_attempts')
+          .select('case_id, score, created_at')
+          .eq('user_id', user.id)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+
+  const error = casesResult.error || statsResult.error || attemptsResult.error
+  if (error) {
+    console.error('Error fetching recommendation context:', error)
+    throw error
+  }
+
+  return {
+    cases: (casesResult.data || []) as any[],
+    caseStats: (statsResult.data || []) as any[],
+    attempts: (attemptsResult.data || []) as any[],
+  }
+}
+
 /**
  * Get all active assessments
  */
@@ -262,7 +460,7 @@ export async function getAssessments(filters?: {
   type?: string
   category?: string
 }) {
-  const supabase = createClient()
+  const supabase: any = createClient()
   
   let query = supabase
     .from('assessments')
@@ -291,7 +489,7 @@ export async function getAssessments(filters?: {
  * Get a single assessment by ID
  */
 export async function getAssessment(assessmentId: string): Promise<Assessment | null> {
-  const supabase = createClient()
+  const supabase: any = createClient()
   
   const { data, error } = await supabase
     .from('assessments')
@@ -345,12 +543,11 @@ export async function startAssessmentAttempt(assessmentId: string) {
 }
 
 /**
- * Submit an assessment attempt
+ * Submit an assessment attempt; the database scores it from the answers
  */
 export async function submitAssessmentAttempt(
   attemptId: string,
   answers: Record<string, any>,
-  score: number,
   timeUsed: number
 ) {
   const supabase = createClient()
@@ -366,8 +563,6 @@ export async function submitAssessmentAttempt(
       completed_at: new Date().toISOString(),
       status: 'completed',
       answers,
-      score,
-      passed: score >= 70,
       time_remaining_seconds: null,
     } as any as never)
     .eq('id', attemptId)
@@ -435,7 +630,7 @@ export async function getUserAchievements() {
     .from('user_achievements')
     .select('*')
     .eq('user_id', user.id)
-    .order('earned_at', { ascending: false })
+    .order('achieved_at', { ascending: false })
 
   if (error) {
     console.error('Error fetching achievements:', error)
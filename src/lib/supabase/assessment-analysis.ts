@@ -0,0 +1,141 @@
+/**
+ * Assessment Analysis API Helpers
+ * Client-side functions that load assessment sittings for admin statistics
+ */
+
+import { createClient } from './client'
+import {
+  analyzeAssessment,
+  type AssessmentAnalysis,
+  type AssessmentSitting,
+} from '@/lib/utils/psychometrics'
+import type { Assessment, AssessmentAnswer, UserAssessment } from '@/types/database'
+
+export interface AssessmentWithStats extends Assessment {
+  total_attempts: number
+  average_score: number
+  completion_rate: number
+}
+
+export interface AssessmentItemAnalyses {
+  /** Analysis by assessment id */
+  analyses: Record<string, AssessmentAnalysis>
+  caseTitles: Record<string, string>
+  imagingNames: Record<string, string>
+}
+
+/**
+ * Get every assessment with attempt count, mean score and completion rate
+ */
+export async function getAssessmentsWithStats(): Promise<AssessmentWithStats[]> {
+  const supabase = createClient()
+
+  const [assessmentsResult, sittingsResult] = await Promise.all([
+    supabase.from('assessments').select('*').order('created_at', { ascending: false }),
+    supabase.from('user_assessments').select('assessment_id, status, score').neq('status', 'not_started'),
+  ])
+
+  const error = assessmentsResult.error || sittingsResult.error
+  if (error) {
+    console.error('Error fetching assessments:', error)
+    throw error
+  }
+
+  const sittings = (sittingsResult.data || []) as Pick<UserAssessment, 'assessment_id' | 'status' | 'score'>[]
+
+  return ((assessmentsResult.data || []) as Assessment[]).map((assessment) => {
+    const started = sittings.filter((s) => s.assessment_id === assessment.id)
+    const completed = started.filter((s) => s.status === 'completed')
+    const scores = completed.map((s) => s.score ?? 0)
+    return {
+      ...assessment,
+      total_attempts: started.length,
+      average_score: scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0,
+      completion_rate: started.length > 0 ? Math.round((completed.length / started.length) * 100) : 0,
+    }
+  })
+}
+
+/**
+ * Run item analysis on the completed sittings of each assessment. Partial
+ * credit comes from the case attempts recorded during the sitting; answers
+ * without one score 100 or 0 by correctness.
+ */
+export async function getAssessmentItemAnalyses(
+  assessments: Pick<Assessment, 'id' | 'case_ids'>[]
+): Promise<AssessmentItemAnalyses> {
+  const supabase = createClient()
+  const assessmentIds = assessments.map((a) => a.id)
+  const caseIds = Array.from(new Set(assessments.flatMap((a) => a.case_ids)))
+
+  if (assessmentIds.length === 0) {
+    return { analyses: {}, caseTitles: {}, imagingNames: {} }
+  }
+
+  const [sittingsResult, attemptsResult, casesResult, imagingResult] = await Promise.all([
+    supabase
+      .from('user_assessments')
+      .select('id, user_id, assessment_id, answers, completed_at')
+      .in('assessment_id', assessmentIds)
+      .eq('status', 'completed'),
+    supabase
+      .from('user_case_attempts')
+      .select('user_id, assessment_id, case_id, score, created_at')
+      .in('assessment_id', assessmentIds)
+      .order('created_at', { ascending: true }),
+    supabase.from('cases').select('id, title, optimal_imaging').in('id', caseIds),
+    supabase.from('imaging_options').select('id, name, short_name'),
+  ])
+
+  const error = sittingsResult.error || attemptsResult.error || casesResult.error || imagingResult.error
+  if (error) {
+    console.error('Error fetching assessment item data:', error)
+    throw error
+  }
+
+  const cases = (casesResult.data || []) as any[]
+  const optimalImaging = new Map<string, string[]>(cases.map((c) => [c.id, c.optimal_imaging || []]))
+
+  // Attempts by learner, assessment and case, oldest first
+  const attemptsByKey = new Map<string, any[]>()
+  ;((attemptsResult.data || []) as any[]).forEach((attempt) => {
+    const key = `${attempt.user_id}:${attempt.assessment_id}:${attempt.case_id}`
+    attemptsByKey.set(key, [...(attemptsByKey.get(key) ?? []), attempt])
+  })
+
+  const sittings = (sittingsResult.data || []) as Pick<
+    UserAssessment,
+    'id' | 'user_id' | 'assessment_id' | 'answers' | 'completed_at'
+  >[]
+
+  const analyses: Record<string, AssessmentAnalysis> = {}
+  assessments.forEach((assessment) => {
+    const assessmentSittings: AssessmentSitting[] = sittings
+      .filter((s) => s.assessment_id === assessment.id)
+      .map((s) => ({
+        id: s.id,
+        userId: s.user_id,
+        responses: ((s.answers || []) as AssessmentAnswer[]).map((answer) => {
+          // Latest attempt at this case recorded by the time the sitting ended
+          const attempt = (attemptsByKey.get(`${s.user_id}:${assessment.id}:${answer.case_id}`) ?? [])
+            .filter((a) => !s.completed_at || a.created_at <= s.completed_at)
+            .pop()
+          return {
+            caseId: answer.case_id,
+            correct: answer.is_correct,
+            score: attempt?.score ?? (answer.is_correct ? 100 : 0),
+            selectedImaging: answer.selected_imaging || [],
+          }
+        }),
+      }))
+    analyses[assessment.id] = analyzeAssessment(assessment.case_ids, assessmentSittings, optimalImaging)
+  })
+
+  return {
+    analyses,
+    caseTitles: Object.fromEntries(cases.map((c) => [c.id, c.title])),
+    imagingNames: Object.fromEntries(
+      ((imagingResult.data || []) as any[]).map((o) => [o.id, o.short_name || o.name])
+    ),
+  }
+}
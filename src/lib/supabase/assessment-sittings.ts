@@ -0,0 +1,295 @@
+/**
+ * Assessment Sitting API Helpers
+ * Client-side functions for resumable assessments (migration 010). The
+ * database fixes the deadline, drops late answers and scores completed
+ * sittings; these helpers only save what the learner did.
+ */
+
+import { createClient } from './client'
+import type { SeenCase } from '@/lib/utils/form-assembly'
+import type {
+  AssessmentAnswer,
+  Case,
+  CaseDifficultyStats,
+  SpecialtyTrack,
+  UserAssessment,
+} from '@/types/database'
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+/** What a new form is assembled from, see getFormAssemblyContext */
+export interface FormAssemblyContext {
+  userId: string | null
+  cases: Case[]
+  caseStats: CaseDifficultyStats[]
+  seen: SeenCase[]
+  previousForms: string[][]
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const SESSION_STORAGE_KEY = 'arka-ed-assessment-session'
+
+/**
+ * Id of this browser tab, kept across reloads and sent with every write.
+ * Proctored sittings accept writes only from the session that holds them
+ * (migration 011).
+ */
+export function getBrowserSessionId(): string {
+  let sessionId = sessionStorage.getItem(SESSION_STORAGE_KEY)
+  if (!sessionId) {
+    sessionId = crypto.randomUUID()
+    sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId)
+  }
+  return sessionId
+}
+
+/**
+ * Resolve a built-in assessment slug (e.g. "quick-quiz") or UUID to the
+ * assessments row id
+ */
+export async function resolveAssessmentId(
+  assessmentId: string,
+  supabase: SupabaseClient = createClient()
+): Promise<string | null> {
+  if (UUID_PATTERN.test(assessmentId)) return assessmentId
+
+  const { data, error } = await supabase
+    .from('assessments')
+    .select('id')
+    .eq('slug', assessmentId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error resolving assessment:', error)
+    throw error
+  }
+
+  return data?.id ?? null
+}
+
+/**
+ * Whether sittings of an assessment are proctored (migration 011)
+ */
+export async function isAssessmentProctored(assessmentId: string): Promise<boolean> {
+  const id = await resolveAssessmentId(assessmentId)
+  if (!id) return false
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('assessments')
+    .select('is_proctored')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching assessment settings:', error)
+    throw error
+  }
+
+  return !!data?.is_proctored
+}
+
+async function getLatestSitting(
+  assessmentId: string,
+  status: UserAssessment['status']
+): Promise<UserAssessment | null> {
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const id = await resolveAssessmentId(assessmentId)
+  if (!id) return null
+
+  const { data, error } = await supabase
+    .from('user_assessments')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('assessment_id', id)
+    .eq('status', status)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching assessment sitting:', error)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Get the signed-in learner's unfinished sitting, if any, to resume
+ */
+export async function getActiveSitting(assessmentId: string): Promise<UserAssessment | null> {
+  return getLatestSitting(assessmentId, 'in_progress')
+}
+
+/**
+ * Get the signed-in learner's most recent completed sitting
+ */
+export async function getLatestCompletedSitting(assessmentId: string): Promise<UserAssessment | null> {
+  return getLatestSitting(assessmentId, 'completed')
+}
+
+/**
+ * Get what a new form is assembled from: the published case pool, its
+ * difficulty calibration, the cases the signed-in learner has seen (case
+ * attempts and earlier sittings) and the forms of those earlier sittings,
+ * oldest first. The sittings route passes its server client.
+ */
+export async function getFormAssemblyContext(
+  assessmentId: string,
+  specialty?: SpecialtyTrack,
+  supabase: SupabaseClient = createClient()
+): Promise<FormAssemblyContext> {
+  const { data: { user } } = await supabase.auth.getUser()
+  const id = user ? await resolveAssessmentId(assessmentId, supabase) : null
+
+  let casesQuery = supabase.from('cases').select('*').eq('is_published', true)
+  if (specialty) {
+    casesQuery = casesQuery.contains('specialty_tags', [specialty])
+  }
+
+  const [casesResult, statsResult, attemptsResult, sittingsResult] = await Promise.all([
+    casesQuery,
+    supabase
+      .from('case_difficulty_stats')
+      .select('case_id, learner_count, mean_score'),
+    user
+      ? supabase
+          .from('user_case_attempts')
+          .select('case_id, created_at')
+          .eq('user_id', user.id)
+      : Promise.resolve({ data: [], error: null }),
+    user && id
+      ? supabase
+          .from('user_assessments')
+          .select('case_ids, started_at')
+          .eq('user_id', user.id)
+          .eq('assessment_id', id)
+          .order('started_at', { ascending: true })
+      : Promise.resolve({ data: [], error: null }),
+  ])
+
+  const error = casesResult.error || statsResult.error || attemptsResult.error || sittingsResult.error
+  if (error) {
+    console.error('Error fetching form assembly context:', error)
+    throw error
+  }
+
+  const sittings = (sittingsResult.data ?? []).filter((s) => s.case_ids?.length > 0)
+  return {
+    userId: user?.id ?? null,
+    cases: casesResult.data ?? [],
+    caseStats: statsResult.data ?? [],
+    seen: [
+      ...(attemptsResult.data ?? []),
+      ...sittings.flatMap((s) =>
+        s.case_ids.map((caseId) => ({ case_id: caseId, created_at: s.started_at }))
+      ),
+    ],
+    previousForms: sittings.map((s) => s.case_ids),
+  }
+}
+
+/**
+ * Start a sitting of a built-in assessment. The sittings route assembles
+ * the form, the same one getFormAssemblyContext and assembleAssessmentForm
+ * draw here, and the database sets started_at and the deadline.
+ */
+export async function startSitting(assessmentId: string): Promise<UserAssessment> {
+  const response = await fetch('/api/assessments/sittings', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ assessmentId, sessionId: getBrowserSessionId() }),
+  })
+  const body = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    console.error('Error starting assessment sitting:', body.error)
+    throw new Error(body.error || 'The assessment could not be started')
+  }
+
+  return body.sitting as UserAssessment
+}
+
+/**
+ * Save answers so far and the case to resume at. Returns the sitting, which
+ * comes back completed if the deadline had already passed.
+ */
+export async function saveSittingAnswers(
+  sittingId: string,
+  answers: AssessmentAnswer[],
+  currentCaseIndex: number
+): Promise<UserAssessment> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('save_assessment_sitting', {
+    p_user_assessment_id: sittingId,
+    p_session_id: getBrowserSessionId(),
+    p_answers: answers,
+    p_current_case_index: currentCaseIndex,
+  })
+
+  if (error) {
+    console.error('Error saving assessment answers:', error)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Complete a sitting with its final answers. The database computes the score.
+ */
+export async function completeSitting(
+  sittingId: string,
+  answers: AssessmentAnswer[]
+): Promise<UserAssessment> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('save_assessment_sitting', {
+    p_user_assessment_id: sittingId,
+    p_session_id: getBrowserSessionId(),
+    p_answers: answers,
+    p_complete: true,
+  })
+
+  if (error) {
+    console.error('Error completing assessment sitting:', error)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Move a proctored sitting to this browser session, locking out the one
+ * that held it. The database logs the takeover for faculty review.
+ */
+export async function claimSitting(sittingId: string): Promise<UserAssessment> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('claim_assessment_session', {
+    p_user_assessment_id: sittingId,
+    p_session_id: getBrowserSessionId(),
+  })
+
+  if (error) {
+    console.error('Error claiming assessment session:', error)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Seconds left before a sitting's deadline, by the local clock
+ */
+export function getSecondsRemaining(sitting: Pick<UserAssessment, 'deadline_at'>, now = Date.now()): number | null {
+  if (!sitting.deadline_at) return null
+  return Math.max(0, Math.ceil((new Date(sitting.deadline_at).getTime() - now) / 1000))
+}
@@ -0,0 +1,93 @@
+/**
+ * Peer Benchmark API Helpers
+ * Client-side functions for percentile ranks and institutional benchmarks.
+ * Cohort suppression and percentiles are computed in the database functions.
+ */
+
+import { createClient } from './client'
+import { resolveAssessmentId } from './assessment-sittings'
+import type { CohortDimension, PeerComparison } from '@/lib/utils/percentiles'
+import type { InstitutionBenchmark, Profile } from '@/types/database'
+
+/**
+ * Get the signed-in user's cohort attributes
+ */
+export async function getCohortProfile(): Promise<Pick<
+  Profile,
+  'training_year' | 'role' | 'specialty_track' | 'institution'
+> | null> {
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('training_year, role, specialty_track, institution')
+    .eq('id', user.id)
+    .single()
+
+  if (error) {
+    console.error('Error fetching cohort profile:', error)
+    throw error
+  }
+
+  return data as any
+}
+
+/**
+ * Get the signed-in user's percentile on an assessment among peers who share
+ * the chosen dimensions of their profile
+ */
+export async function getPeerComparison(
+  assessmentId: string,
+  dimensions: CohortDimension[] = []
+): Promise<PeerComparison> {
+  const supabase = createClient()
+  const id = (await resolveAssessmentId(assessmentId)) ?? assessmentId
+
+  const { data, error } = await supabase.rpc('get_peer_comparison', {
+    p_assessment_id: id,
+    p_same_training_year: dimensions.includes('trainingYear'),
+    p_same_role: dimensions.includes('role'),
+    p_same_specialty_track: dimensions.includes('specialtyTrack'),
+    p_same_institution: dimensions.includes('institution'),
+  })
+
+  if (error) {
+    console.error('Error fetching peer comparison:', error)
+    throw error
+  }
+
+  const row = ((data || []) as any[])[0]
+  return {
+    cohortSize: row?.cohort_size ?? null,
+    suppressed: row?.suppressed ?? true,
+    percentile: row?.percentile ?? null,
+    median: row?.median == null ? null : Number(row.median),
+  }
+}
+
+/**
+ * Get per-institution results and the system-wide row (admins only)
+ */
+export async function getInstitutionBenchmarks(assessmentId?: string): Promise<InstitutionBenchmark[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('get_institution_benchmarks', {
+    p_assessment_id: assessmentId ?? null,
+  })
+
+  if (error) {
+    console.error('Error fetching institution benchmarks:', error)
+    throw error
+  }
+
+  return ((data || []) as any[]).map((row) => ({
+    institution: row.institution,
+    learner_count: row.learner_count,
+    mean_score: Number(row.mean_score),
+    median_score: Number(row.median_score),
+    pass_rate: Number(row.pass_rate),
+  }))
+}
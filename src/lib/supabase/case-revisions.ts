@@ -0,0 +1,199 @@
+/**
+ * Case Revision API Helpers
+ * Client-side functions for the case revision workflow (migration 005)
+ */
+
+import { createClient } from './client'
+import { diffCaseRevisionContent, getOpenDraft, sortRevisions } from '@/lib/cases/revisions'
+import type {
+  CaseRevision,
+  CaseRevisionComment,
+  CaseRevisionContent,
+  CaseRevisionStatus,
+} from '@/types/database'
+
+export type CaseRevisionWithComments = CaseRevision & {
+  comments: CaseRevisionComment[]
+}
+
+async function requireUserId(supabase: ReturnType<typeof createClient>) {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    throw new Error('User must be authenticated')
+  }
+  return user.id
+}
+
+/**
+ * Get every revision of a case with its review comments, newest first
+ */
+export async function getCaseRevisions(caseId: string): Promise<CaseRevisionWithComments[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('case_revisions')
+    .select('*, comments:case_revision_comments(*)')
+    .eq('case_id', caseId)
+    .order('revision_number', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching case revisions:', error)
+    throw error
+  }
+
+  return ((data || []) as any[]).map((revision) => ({
+    ...revision,
+    comments: [...(revision.comments || [])].sort((a, b) =>
+      a.created_at.localeCompare(b.created_at)
+    ),
+  }))
+}
+
+/**
+ * Save the editor's content as a draft. Updates the open draft when there is
+ * one, otherwise starts the next revision. The diff is always against the
+ * revision before the draft.
+ */
+export async function saveDraftRevision(
+  caseId: string,
+  content: CaseRevisionContent,
+  changeSummary: string | null = null
+): Promise<CaseRevision> {
+  const supabase = createClient()
+  const userId = await requireUserId(supabase)
+
+  const revisions = sortRevisions(await getCaseRevisions(caseId))
+  const draft = getOpenDraft(revisions)
+  const previous = revisions.find((r) => r.id !== draft?.id) ?? null
+  const diff = diffCaseRevisionContent(previous?.content ?? null, content)
+
+  const query = draft
+    ? supabase
+        .from('case_revisions')
+        .update({ content, diff, change_summary: changeSummary })
+        .eq('id', draft.id)
+    : supabase
+        .from('case_revisions')
+        .insert({
+          case_id: caseId,
+          revision_number: (revisions[0]?.revision_number ?? 0) + 1,
+          content,
+          diff,
+          change_summary: changeSummary,
+          author_id: userId,
+        } as any)
+
+  const { data, error } = await query.select().single()
+
+  if (error) {
+    console.error('Error saving draft revision:', error)
+    throw error
+  }
+
+  return data as CaseRevision
+}
+
+/**
+ * Create an unpublished case with its first draft revision. The case row only
+ * goes live when a reviewed revision is published.
+ */
+export async function createCaseWithDraft(
+  content: CaseRevisionContent,
+  changeSummary: string | null = null
+): Promise<string> {
+  const supabase = createClient()
+  const { imaging_ratings, ...casePayload } = content
+
+  const { data, error } = await supabase
+    .from('cases')
+    .insert({ ...casePayload, is_published: false } as any)
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('Error creating case:', error)
+    throw error
+  }
+
+  const caseId = (data as any).id as string
+  await saveDraftRevision(caseId, content, changeSummary)
+  return caseId
+}
+
+/**
+ * Add a reviewer comment to a revision
+ */
+export async function addRevisionComment(
+  revisionId: string,
+  body: string
+): Promise<CaseRevisionComment> {
+  const supabase = createClient()
+  const userId = await requireUserId(supabase)
+
+  const { data, error } = await supabase
+    .from('case_revision_comments')
+    .insert({ revision_id: revisionId, author_id: userId, body: body.trim() } as any)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error adding revision comment:', error)
+    throw error
+  }
+
+  return data as CaseRevisionComment
+}
+
+/**
+ * Move a revision through the workflow, optionally leaving a comment with it.
+ * The database rejects invalid transitions and self-approval.
+ */
+export async function transitionCaseRevision(
+  revisionId: string,
+  status: CaseRevisionStatus,
+  comment?: string
+): Promise<CaseRevision> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('case_revisions')
+    .update({ status })
+    .eq('id', revisionId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating revision status:', error)
+    throw error
+  }
+
+  if (comment?.trim()) {
+    await addRevisionComment(revisionId, comment)
+  }
+
+  return data as CaseRevision
+}
+
+/**
+ * Get the revision an attempt was pinned to, so a review shows the case as
+ * the learner saw it
+ */
+export async function getAttemptRevision(attemptId: string): Promise<CaseRevision | null> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('user_case_attempts')
+    .select('revision:case_revisions(*)')
+    .eq('id', attemptId)
+    .single()
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null
+    }
+    console.error('Error fetching attempt revision:', error)
+    throw error
+  }
+
+  return ((data as any)?.revision as CaseRevision) ?? null
+}
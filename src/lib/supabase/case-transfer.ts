@@ -0,0 +1,98 @@
+/**
+ * Case Import/Export API Helpers
+ * Client-side functions that move interchange files in and out of the cases table
+ */
+
+import { createClient } from './client'
+import { createCaseWithDraft, saveDraftRevision } from './case-revisions'
+import { toInterchangeCase, type CaseImportPlan, type InterchangeCase } from '@/lib/cases/interchange'
+
+export interface CaseImportResult {
+  slug: string
+  caseId: string | null
+  error: string | null
+}
+
+/**
+ * Get cases with their imaging ratings in interchange form, ordered by slug
+ */
+export async function getCasesForExport(caseIds?: string[]): Promise<InterchangeCase[]> {
+  const supabase = createClient()
+
+  let query = supabase
+    .from('cases')
+    .select('*, case_imaging_ratings(imaging_option_id, acr_rating, rating_category, rationale)')
+    .order('slug')
+
+  if (caseIds && caseIds.length > 0) {
+    query = query.in('id', caseIds)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching cases for export:', error)
+    throw error
+  }
+
+  return ((data || []) as any[]).map(({ case_imaging_ratings, ...caseData }) =>
+    toInterchangeCase(caseData, case_imaging_ratings || [])
+  )
+}
+
+/**
+ * Get what an import is checked against: existing slugs and the imaging catalog
+ */
+export async function getCaseImportContext() {
+  const supabase = createClient()
+
+  const [cases, options] = await Promise.all([
+    supabase.from('cases').select('id, slug'),
+    supabase.from('imaging_options').select('id'),
+  ])
+
+  if (cases.error || options.error) {
+    console.error('Error fetching import context:', cases.error || options.error)
+    throw cases.error || options.error
+  }
+
+  return {
+    existing: (cases.data || []) as { id: string; slug: string }[],
+    imagingOptionIds: ((options.data || []) as { id: string }[]).map((opt) => opt.id),
+  }
+}
+
+/**
+ * Apply a dry-run plan. New slugs become unpublished cases and conflicting
+ * slugs being overwritten get a new draft revision; either way the content
+ * goes through review before learners see it. Rows are written one at a
+ * time so a failure is reported against its row.
+ */
+export async function importCases(plan: CaseImportPlan, fileName: string): Promise<CaseImportResult[]> {
+  if (!plan.canApply) {
+    throw new Error('Import has errors; fix the file and run the dry run again')
+  }
+
+  const results: CaseImportResult[] = []
+  const summary = `Imported from ${fileName}`
+
+  for (const row of plan.rows) {
+    if (!row.content || (row.action !== 'create' && row.action !== 'update')) continue
+
+    try {
+      const caseId = row.action === 'create'
+        ? await createCaseWithDraft(row.content, summary)
+        : (await saveDraftRevision(row.existingId!, row.content, summary)).case_id
+      results.push({ slug: row.slug, caseId, error: null })
+    } catch (error) {
+      console.error(`Error importing case ${row.slug}:`, error)
+      results.push({
+        slug: row.slug,
+        caseId: row.existingId,
+        error: error instanceof Error ? error.message : (error as any)?.message || String(error),
+      })
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,109 @@
+/**
+ * Certificate API Helpers
+ * Client-side functions for specialty certificates (migration 012).
+ * Issuing goes through /api/certificates, which checks eligibility and
+ * signs the certificate; admins revoke here.
+ */
+
+import { createClient } from './client'
+import type { CertificateEligibility } from '@/lib/certificates/eligibility'
+import type { Certificate, SpecialtyTrack } from '@/types/database'
+
+export interface CertificateWithHolder extends Certificate {
+  holderEmail: string | null
+}
+
+/**
+ * Get the signed-in learner's valid certificate for a track, if any
+ */
+export async function getMyCertificate(track: SpecialtyTrack): Promise<Certificate | null> {
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data, error } = await supabase
+    .from('certificates')
+    .select('*')
+    .eq('user_id', user.id)
+    .eq('track', track)
+    .is('revoked_at', null)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching certificate:', error)
+    throw error
+  }
+
+  return data as any
+}
+
+/**
+ * Issue the signed-in learner's certificate for a track. If the track is
+ * unfinished no certificate comes back, only what is still missing.
+ */
+export async function issueCertificate(track: SpecialtyTrack): Promise<{
+  certificate: Certificate | null
+  eligibility?: CertificateEligibility
+}> {
+  const response = await fetch('/api/certificates', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ track }),
+  })
+  const body = await response.json().catch(() => ({}))
+
+  if (response.status === 403 && body.eligibility) {
+    return { certificate: null, eligibility: body.eligibility }
+  }
+  if (!response.ok) {
+    console.error('Error issuing certificate:', body.error)
+    throw new Error(body.error || 'Could not issue certificate')
+  }
+
+  return { certificate: body.certificate }
+}
+
+/**
+ * Get every certificate, newest first, with the holder's email (admins only)
+ */
+export async function getCertificates(): Promise<CertificateWithHolder[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('certificates')
+    .select('*, profiles!certificates_user_id_fkey(email)')
+    .order('issued_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching certificates:', error)
+    throw error
+  }
+
+  return ((data || []) as any[]).map(({ profiles, ...certificate }) => ({
+    ...certificate,
+    holderEmail: profiles?.email ?? null,
+  }))
+}
+
+/**
+ * Revoke a certificate. The database stamps who revoked it and when, and
+ * /verify reports it as revoked from then on.
+ */
+export async function revokeCertificate(certificateId: string, reason: string): Promise<Certificate> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('certificates')
+    .update({ revoked_at: new Date().toISOString(), revocation_reason: reason })
+    .eq('id', certificateId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error revoking certificate:', error)
+    throw error
+  }
+
+  return data as any
+}
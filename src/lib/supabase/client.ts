@@ -1,4 +1,5 @@
 import { createBrowserClient } from '@supabase/ssr'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
 
 /** Whether Supabase env vars are set. When false, app runs in demo-only mode. */
@@ -13,7 +14,7 @@ export const IS_SUPABASE_CONFIGURED = !!(
  * This client uses browser cookies for session management.
  * Only call when IS_SUPABASE_CONFIGURED is true.
  *
- * @returns {ReturnType<typeof createBrowserClient<Database>>} A Supabase client instance
+ * @returns {SupabaseClient<Database>} A Supabase client instance
  *
  * @example
  * ```tsx
@@ -32,8 +33,10 @@ export function createClient() {
       'Supabase is not configured. Set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY.'
     )
   }
+  // @supabase/ssr 0.1 passes its type parameters in supabase-js's old order,
+  // which leaves every table typed as never; restate the client's type
   return createBrowserClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  )
+  ) as unknown as SupabaseClient<Database>
 }
@@ -0,0 +1,121 @@
+/**
+ * Integrity Event API Helpers
+ * Client-side functions that log proctored-sitting events and load them
+ * for faculty review (migration 011)
+ */
+
+import { createClient } from './client'
+import { summarizeIntegrityEvents, type IntegritySummary } from '@/lib/utils/integrity'
+import type { AssessmentIntegrityEvent, IntegrityEventType, UserAssessment } from '@/types/database'
+
+export interface IntegrityEventInput {
+  event_type: IntegrityEventType
+  case_index: number | null
+  detail?: Record<string, any>
+}
+
+export interface ProctoredSittingReview {
+  sitting: UserAssessment
+  learnerName: string
+  learnerEmail: string | null
+  events: AssessmentIntegrityEvent[]
+  summary: IntegritySummary
+}
+
+/**
+ * Append integrity events to one of the signed-in learner's sittings. The
+ * database times them as they arrive, in the order given.
+ */
+export async function logIntegrityEvents(
+  sittingId: string,
+  sessionId: string,
+  events: IntegrityEventInput[]
+): Promise<void> {
+  if (events.length === 0) return
+  const supabase = createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    throw new Error('User must be authenticated')
+  }
+
+  const { error } = await supabase.from('assessment_integrity_events').insert(
+    events.map((event) => ({
+      user_assessment_id: sittingId,
+      user_id: user.id,
+      session_id: sessionId,
+      detail: {},
+      ...event,
+    }))
+  )
+
+  if (error) {
+    console.error('Error logging integrity events:', error)
+    throw error
+  }
+}
+
+/**
+ * Get every proctored sitting of an assessment with its event timeline,
+ * most recent first (admins only)
+ */
+export async function getProctoredSittingReviews(assessmentId: string): Promise<ProctoredSittingReview[]> {
+  const supabase = createClient()
+
+  const { data: sittings, error: sittingsError } = await supabase
+    .from('user_assessments')
+    .select('*, profiles(full_name, email)')
+    .eq('assessment_id', assessmentId)
+    .eq('is_proctored', true)
+    .order('started_at', { ascending: false })
+
+  if (sittingsError) {
+    console.error('Error fetching proctored sittings:', sittingsError)
+    throw sittingsError
+  }
+
+  const rows = (sittings || []) as any[]
+  if (rows.length === 0) return []
+
+  const { data: events, error: eventsError } = await supabase
+    .from('assessment_integrity_events')
+    .select('*')
+    .in('user_assessment_id', rows.map((s) => s.id))
+    .order('occurred_at', { ascending: true })
+
+  if (eventsError) {
+    console.error('Error fetching integrity events:', eventsError)
+    throw eventsError
+  }
+
+  return rows.map(({ profiles, ...sitting }) => {
+    const sittingEvents = (events ?? []).filter(
+      (e) => e.user_assessment_id === sitting.id
+    )
+    return {
+      sitting,
+      learnerName: profiles?.full_name || 'Unknown learner',
+      learnerEmail: profiles?.email ?? null,
+      events: sittingEvents,
+      summary: summarizeIntegrityEvents(sittingEvents, sitting.completed_at),
+    }
+  })
+}
+
+/**
+ * Turn proctoring on or off for an assessment. Sittings already started
+ * keep the mode they began with.
+ */
+export async function setAssessmentProctored(assessmentId: string, isProctored: boolean): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('assessments')
+    .update({ is_proctored: isProctored })
+    .eq('id', assessmentId)
+
+  if (error) {
+    console.error('Error updating assessment proctoring:', error)
+    throw error
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Report API Helpers
+ * Client-side functions for admin reports (migration 016). Reports are
+ * built and rendered by /api/reports/[reportId], which records each one in
+ * the report history; past reports download again from
+ * /api/reports/history/[entryId].
+ */
+
+import { createClient } from './client'
+import type { ReportFormat, ReportId, ReportRange } from '@/lib/reports/definitions'
+import type { GeneratedReport } from '@/types/database'
+
+export type GeneratedReportEntry = Omit<GeneratedReport, 'rows'> & {
+  generatedByName: string | null
+}
+
+export interface ReportDownload {
+  blob: Blob
+  fileName: string
+  /** History entry the report was recorded as, if it was */
+  entryId: string | null
+}
+
+/**
+ * Get the most recently generated reports, without their rows (admins only)
+ */
+export async function getGeneratedReports(limit = 50): Promise<GeneratedReportEntry[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('generated_reports')
+    .select(
+      'id, report_id, format, date_range, period_start, period_end, row_count, generated_by, created_at, profiles(full_name)'
+    )
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error fetching generated reports:', error)
+    throw error
+  }
+
+  return ((data || []) as any[]).map(({ profiles, ...entry }) => ({
+    ...entry,
+    generatedByName: profiles?.full_name ?? null,
+  }))
+}
+
+/**
+ * Generate a report for the date range and get the file to download
+ */
+export async function generateReport(
+  reportId: ReportId,
+  format: ReportFormat,
+  range: ReportRange
+): Promise<ReportDownload> {
+  const response = await fetch(`/api/reports/${reportId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ format, range }),
+  })
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}))
+    console.error('Error generating report:', body.error)
+    throw new Error(body.error || 'Could not generate report')
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || ''
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `${reportId}.${format}`
+
+  return {
+    blob: await response.blob(),
+    fileName,
+    entryId: response.headers.get('X-Report-Entry'),
+  }
+}
+
+/**
+ * URL that downloads a past report again, in either format
+ */
+export function getReportHistoryUrl(entryId: string, format: ReportFormat): string {
+  return `/api/reports/history/${entryId}?format=${format}`
+}
@@ -1,5 +1,6 @@
 // @ts-nocheck
 import { createServerClient } from "@supabase/ssr";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { cookies } from "next/headers";
 import type { Database } from "@/types/database";
 
@@ -7,7 +8,7 @@ import type { Database } from "@/types/database";
  * Creates a server-side Supabase client for use in Server Components and Server Actions.
  * This client uses Next.js cookies() for session management.
  * 
- * @returns {Promise<ReturnType<typeof createServerClient<Database>>>} A Supabase client instance
+ * @returns {Promise<SupabaseClient<Database>>} A Supabase client instance
  * 
  * @example
  * ```tsx
@@ -23,6 +24,8 @@ import type { Database } from "@/types/database";
 export async function createClient() {
   const cookieStore = await cookies();
 
+  // Typed as in client.ts: @supabase/ssr 0.1 passes its type parameters in
+  // supabase-js's old order
   return createServerClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
@@ -42,7 +45,7 @@ export async function createClient() {
         },
       },
     }
-  );
+  ) as unknown as SupabaseClient<Database>;
 }
 
 /**
@@ -0,0 +1,155 @@
+/**
+ * User Management API Helpers
+ * Client-side functions for /admin/users (migration 017). Listing, invites,
+ * role changes, deactivation and password resets go through
+ * /api/admin/users, which acts with the service role and records each
+ * action in the audit log; admins read the audit log here.
+ */
+
+import { createClient } from './client'
+import type { InviteResult } from '@/lib/users/management'
+import type {
+  AdminAuditEntry,
+  AdminUser,
+  AdminUserSummary,
+  Profile,
+  UserRole,
+} from '@/types/database'
+
+export interface UserSearchFilters {
+  search: string
+  role: UserRole | 'all'
+  institution: string
+}
+
+export type ManagedUser = Omit<AdminUser, 'total_count'>
+
+export interface UserPage {
+  users: ManagedUser[]
+  total: number
+  page: number
+  perPage: number
+  summary: AdminUserSummary | null
+}
+
+export interface AuditLogEntry extends AdminAuditEntry {
+  actorName: string | null
+}
+
+function toSearchParams(filters: UserSearchFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.search.trim()) params.set('search', filters.search.trim())
+  if (filters.role !== 'all') params.set('role', filters.role)
+  if (filters.institution.trim()) params.set('institution', filters.institution.trim())
+  return params
+}
+
+async function adminRequest<T>(url: string, init: RequestInit, failure: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  })
+  const body = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    console.error(`Error calling ${url}:`, body.error)
+    throw new Error(body.error || failure)
+  }
+
+  return body as T
+}
+
+/**
+ * Get a page of users matching the filters, with their case activity, and
+ * the figures across all users
+ */
+export async function searchUsers(filters: UserSearchFilters, page = 1): Promise<UserPage> {
+  const params = toSearchParams(filters)
+  params.set('page', String(page))
+  return adminRequest<UserPage>(`/api/admin/users?${params}`, {}, 'Could not load users')
+}
+
+/**
+ * URL that downloads every user matching the filters as CSV
+ */
+export function getUserExportUrl(filters: UserSearchFilters): string {
+  const params = toSearchParams(filters)
+  params.set('format', 'csv')
+  return `/api/admin/users?${params}`
+}
+
+/**
+ * Invite users by email with a role and institution assigned up front
+ */
+export async function inviteUsers(
+  emails: string[],
+  role: UserRole,
+  institution: string | null
+): Promise<InviteResult[]> {
+  const { results } = await adminRequest<{ results: InviteResult[] }>(
+    '/api/admin/users/invite',
+    { method: 'POST', body: JSON.stringify({ emails, role, institution }) },
+    'Could not send invitations'
+  )
+  return results
+}
+
+type AccountFields = Pick<Profile, 'id' | 'email' | 'role' | 'deactivated_at'>
+
+/**
+ * Change a user's role
+ */
+export async function changeUserRole(userId: string, role: UserRole): Promise<AccountFields> {
+  const { user } = await adminRequest<{ user: AccountFields }>(
+    `/api/admin/users/${userId}`,
+    { method: 'PATCH', body: JSON.stringify({ role }) },
+    'Could not change role'
+  )
+  return user
+}
+
+/**
+ * Deactivate a user's account, or reactivate it
+ */
+export async function setUserActive(userId: string, active: boolean): Promise<AccountFields> {
+  const { user } = await adminRequest<{ user: AccountFields }>(
+    `/api/admin/users/${userId}`,
+    { method: 'PATCH', body: JSON.stringify({ active }) },
+    'Could not update account'
+  )
+  return user
+}
+
+/**
+ * Email a user a password reset link
+ */
+export async function sendPasswordReset(userId: string): Promise<void> {
+  await adminRequest(
+    `/api/admin/users/${userId}/password-reset`,
+    { method: 'POST' },
+    'Could not send password reset'
+  )
+}
+
+/**
+ * Get the most recent admin actions, with the acting admin's name
+ */
+export async function getAuditLog(limit = 20): Promise<AuditLogEntry[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('admin_audit_log')
+    .select('*, profiles!admin_audit_log_actor_id_fkey(full_name)')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error fetching audit log:', error)
+    throw error
+  }
+
+  return ((data || []) as any[]).map(({ profiles, ...entry }) => ({
+    ...entry,
+    actorName: profiles?.full_name ?? null,
+  }))
+}
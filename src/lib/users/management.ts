@@ -0,0 +1,77 @@
+/**
+ * User management shared by /admin/users and the admin user route handlers:
+ * roles, parsing the invitation list, and the columns of the user export.
+ */
+
+import type { AdminUser, UserRole } from '@/types/database'
+
+export const USER_ROLES: UserRole[] = ['student', 'resident', 'attending', 'admin']
+
+/** Most addresses accepted in one invitation request */
+export const MAX_INVITES = 50
+
+/** Page size of the admin user list */
+export const USERS_PER_PAGE = 10
+
+export interface InviteResult {
+  email: string
+  /** exists: the address already has an account */
+  status: 'invited' | 'exists' | 'failed'
+  error?: string
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value)
+}
+
+/**
+ * Split a pasted list of addresses (newlines, commas or semicolons) into
+ * distinct, lower-cased valid addresses and the entries that are not
+ */
+export function parseInviteEmails(text: string): { valid: string[]; invalid: string[] } {
+  const entries = text
+    .split(/[\s,;]+/)
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+
+  const valid = new Set<string>()
+  const invalid = new Set<string>()
+  for (const entry of entries) {
+    if (EMAIL_PATTERN.test(entry)) valid.add(entry)
+    else invalid.add(entry)
+  }
+
+  return { valid: Array.from(valid), invalid: Array.from(invalid) }
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+export const USER_EXPORT_COLUMNS = [
+  'name',
+  'email',
+  'role',
+  'institution',
+  'cases_completed',
+  'accuracy',
+  'last_active',
+  'status',
+  'joined',
+]
+
+export function toUserExportRow(user: AdminUser): Record<string, unknown> {
+  return {
+    name: user.full_name,
+    email: user.email,
+    role: user.role,
+    institution: user.institution,
+    cases_completed: user.cases_completed,
+    accuracy: user.accuracy === null ? null : Number(user.accuracy),
+    last_active: user.last_active ? user.last_active.slice(0, 10) : null,
+    status: user.deactivated_at ? 'deactivated' : 'active',
+    joined: user.created_at.slice(0, 10),
+  }
+}
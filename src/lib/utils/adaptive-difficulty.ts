@@ -0,0 +1,236 @@
+/**
+ * Adaptive difficulty on an Elo scale. Case difficulty is calibrated from
+ * everyone's first attempts (a Rasch-style logit of the mean score, shrunk
+ * toward the authored difficulty); per-category learner ability is an Elo
+ * rating replayed from the learner's own attempts against those cases.
+ */
+
+import type {
+  Case,
+  CaseCategory,
+  CaseDifficultyStats,
+  DifficultyLevel,
+  UserCaseAttempt,
+} from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AbilityAttempt = Pick<UserCaseAttempt, 'case_id' | 'score' | 'created_at'>
+
+export type RecommendableCase = Pick<Case, 'id' | 'title' | 'category' | 'difficulty'>
+
+export interface CategoryAbility {
+  category: CaseCategory
+  /** Elo rating; 1500 is the average learner */
+  rating: number
+  attempts: number
+}
+
+export interface LearnerModel {
+  /** Rating across all categories, used for categories with no attempts */
+  overall: number
+  categories: CategoryAbility[]
+}
+
+export interface NextCaseRecommendation {
+  caseId: string
+  title: string
+  category: CaseCategory
+  difficulty: DifficultyLevel
+  reason: string
+  /** Calibrated case difficulty on the Elo scale */
+  caseRating: number
+  /** Predicted score for this learner, 0-100 */
+  expectedScore: number
+}
+
+export interface RecommendOptions {
+  /** The learner's own attempts, any order */
+  attempts?: AbilityAttempt[]
+  limit?: number
+  /** Restrict to one category, e.g. on a filtered case list */
+  category?: CaseCategory
+  now?: Date
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+export const BASE_RATING = 1500
+/** Elo points per tenfold change in odds */
+const RATING_SCALE = 400
+
+/** Authored difficulty, used until enough learners have attempted a case */
+export const DIFFICULTY_PRIOR_RATINGS: Record<DifficultyLevel, number> = {
+  beginner: 1350,
+  intermediate: 1500,
+  advanced: 1650,
+}
+
+/** Learners' worth of evidence the authored difficulty counts as */
+const PRIOR_LEARNERS = 10
+
+/** Ability updates start large and settle as attempts accumulate */
+const K_INITIAL = 64
+const K_MIN = 16
+
+/** Recommend cases this far above current ability */
+export const TARGET_STRETCH = 50
+/** Cases attempted this recently are not recommended */
+export const RECENT_DAYS = 7
+/** A case whose latest score is at least this is mastered */
+export const MASTERY_SCORE = 90
+
+// ============================================================================
+// Model
+// ============================================================================
+
+/**
+ * Probability-style expected score (0-1) for a learner against a case
+ */
+export function getExpectedScore(ability: number, caseRating: number): number {
+  return 1 / (1 + Math.pow(10, (caseRating - ability) / RATING_SCALE))
+}
+
+/**
+ * Calibrate each case's Elo difficulty from the authored level and the mean
+ * first-attempt score of everyone who has tried it
+ */
+export function calibrateCaseRatings(
+  cases: Pick<Case, 'id' | 'difficulty'>[],
+  stats: CaseDifficultyStats[] = []
+): Map<string, number> {
+  const statsByCase = new Map(stats.map((s) => [s.case_id, s]))
+
+  return new Map(
+    cases.map((c) => {
+      const prior = DIFFICULTY_PRIOR_RATINGS[c.difficulty] ?? BASE_RATING
+      const stat = statsByCase.get(c.id)
+      if (!stat || stat.learner_count === 0) return [c.id, prior]
+
+      // Rating at which an average learner expects the observed mean score
+      const p = Math.min(0.95, Math.max(0.05, stat.mean_score / 100))
+      const observed = BASE_RATING + RATING_SCALE * Math.log10((1 - p) / p)
+      const n = stat.learner_count
+      return [c.id, Math.round((prior * PRIOR_LEARNERS + observed * n) / (PRIOR_LEARNERS + n))]
+    })
+  )
+}
+
+function getKFactor(attempts: number): number {
+  return Math.max(K_MIN, K_INITIAL / (1 + attempts / 5))
+}
+
+/**
+ * Replay a learner's attempts into per-category and overall Elo ratings
+ */
+export function estimateLearnerAbility(
+  attempts: AbilityAttempt[],
+  cases: Pick<Case, 'id' | 'category'>[],
+  caseRatings: Map<string, number>
+): LearnerModel {
+  const categoryById = new Map(cases.map((c) => [c.id, c.category]))
+  const abilities = new Map<CaseCategory, CategoryAbility>()
+  let overall = BASE_RATING
+  let overallAttempts = 0
+
+  ;[...attempts]
+    .filter((a) => categoryById.has(a.case_id) && caseRatings.has(a.case_id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach((attempt) => {
+      const category = categoryById.get(attempt.case_id)!
+      const caseRating = caseRatings.get(attempt.case_id)!
+      const outcome = Math.min(100, Math.max(0, attempt.score)) / 100
+
+      const ability = abilities.get(category) ?? { category, rating: overall, attempts: 0 }
+      ability.rating += getKFactor(ability.attempts) * (outcome - getExpectedScore(ability.rating, caseRating))
+      ability.attempts += 1
+      abilities.set(category, ability)
+
+      overall += getKFactor(overallAttempts) * (outcome - getExpectedScore(overall, caseRating))
+      overallAttempts += 1
+    })
+
+  return {
+    overall: Math.round(overall),
+    categories: Array.from(abilities.values())
+      .map((a) => ({ ...a, rating: Math.round(a.rating) }))
+      .sort((a, b) => a.rating - b.rating),
+  }
+}
+
+// ============================================================================
+// Recommendations
+// ============================================================================
+
+function formatCategory(category: CaseCategory): string {
+  return category.replace(/-/g, ' ')
+}
+
+/**
+ * Pick the next cases to practice: weakest categories first, difficulty just
+ * above current ability, skipping mastered and recently attempted cases
+ */
+export function recommendNextCases(
+  cases: RecommendableCase[],
+  caseRatings: Map<string, number>,
+  options: RecommendOptions = {}
+): NextCaseRecommendation[] {
+  const { attempts = [], limit = 3, category, now = new Date() } = options
+  const model = estimateLearnerAbility(attempts, cases, caseRatings)
+  const abilityByCategory = new Map(model.categories.map((a) => [a.category, a]))
+  const weakest = model.categories[0]?.category
+
+  const latest = new Map<string, AbilityAttempt>()
+  attempts.forEach((a) => {
+    const prev = latest.get(a.case_id)
+    if (!prev || a.created_at > prev.created_at) latest.set(a.case_id, a)
+  })
+  const isExcluded = (caseId: string) => {
+    const last = latest.get(caseId)
+    if (!last) return false
+    return (
+      last.score >= MASTERY_SCORE ||
+      now.getTime() - new Date(last.created_at).getTime() < RECENT_DAYS * DAY_MS
+    )
+  }
+
+  return cases
+    .filter((c) => (!category || c.category === category) && !isExcluded(c.id))
+    .map((c) => {
+      const caseRating = caseRatings.get(c.id) ?? DIFFICULTY_PRIOR_RATINGS[c.difficulty]
+      const ability = abilityByCategory.get(c.category)
+      const rating = ability?.rating ?? model.overall
+      // Both terms are Elo points: weaker categories and closer stretch rank
+      // higher. Untried categories rank as average until there is evidence.
+      const weakness = ability?.rating ?? BASE_RATING
+      const priority = -weakness - Math.abs(caseRating - (rating + TARGET_STRETCH))
+
+      const area = !ability
+        ? `Start ${formatCategory(c.category)}: no attempts yet`
+        : c.category === weakest
+          ? `Your weakest area: ${formatCategory(c.category)}`
+          : `Strengthen ${formatCategory(c.category)}`
+      const level = caseRating > rating ? 'a step above your level' : 'at your level'
+
+      return {
+        priority,
+        recommendation: {
+          caseId: c.id,
+          title: c.title,
+          category: c.category,
+          difficulty: c.difficulty,
+          reason: `${area}, ${level}`,
+          caseRating,
+          expectedScore: Math.round(getExpectedScore(rating, caseRating) * 100),
+        },
+      }
+    })
+    .sort((a, b) => b.priority - a.priority)
+    .slice(0, limit)
+    .map(({ recommendation }) => recommendation)
+}
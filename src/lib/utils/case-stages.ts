@@ -0,0 +1,201 @@
+/**
+ * Longitudinal case utilities: stage resolution, per-stage scoring, and
+ * pathway scoring across a sequence of imaging decisions
+ */
+
+import { scoreImagingSelection, type SelectionScore } from '@/lib/utils/imaging-score'
+import { buildRadiationLedger, type RadiationLedger } from '@/lib/utils/radiation'
+import type {
+  Case,
+  CaseImagingRating,
+  CaseStage,
+  ImagingOption,
+  StageAttemptResult,
+  StageImagingRating,
+} from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StageScore {
+  stageId: string
+  stageIndex: number
+  selectedImaging: string[]
+  acrRating: number | null
+  optimalAcrRating: number
+  rating: StageImagingRating | null
+  score: number // 0-100
+  isCorrect: boolean
+  breakdown: SelectionScore
+  findings: string[]
+}
+
+export interface PathwayScore {
+  stages: StageScore[]
+  score: number // 0-100, mean of stage scores
+  isCorrect: boolean // every stage correct
+  stagesCorrect: number
+  radiation: RadiationLedger
+}
+
+// ============================================================================
+// Stage Resolution
+// ============================================================================
+
+/**
+ * Get the ordered stages of a case.
+ * Single-snapshot cases become a one-stage pathway built from the case itself.
+ */
+export function getCaseStages(
+  caseData: Case,
+  imagingRatings: Pick<CaseImagingRating, keyof StageImagingRating>[] = []
+): CaseStage[] {
+  if (caseData.stages && caseData.stages.length > 0) return caseData.stages
+
+  return [
+    {
+      id: 'initial',
+      title: 'Presentation',
+      time_offset: null,
+      clinical_vignette: caseData.clinical_vignette,
+      vital_signs: caseData.vital_signs,
+      physical_exam: caseData.physical_exam,
+      lab_results: caseData.lab_results,
+      optimal_imaging: caseData.optimal_imaging,
+      imaging_ratings: imagingRatings.map((r) => ({
+        imaging_option_id: r.imaging_option_id,
+        acr_rating: r.acr_rating,
+        rating_category: r.rating_category,
+        rationale: r.rationale,
+      })),
+      imaging_results: {},
+      outcome: null,
+      explanation: caseData.explanation,
+    },
+  ]
+}
+
+/**
+ * View of the case as of a stage.
+ * Vitals, exam, and labs carry forward from earlier stages when a stage leaves them null.
+ */
+export function applyStage(caseData: Case, stages: CaseStage[], stageIndex: number): Case {
+  let { vital_signs, physical_exam, lab_results } = caseData
+
+  for (const stage of stages.slice(0, stageIndex + 1)) {
+    vital_signs = stage.vital_signs ?? vital_signs
+    physical_exam = stage.physical_exam ?? physical_exam
+    lab_results = stage.lab_results ?? lab_results
+  }
+
+  const stage = stages[stageIndex]
+  return {
+    ...caseData,
+    clinical_vignette: stage.clinical_vignette,
+    vital_signs,
+    physical_exam,
+    lab_results,
+    optimal_imaging: stage.optimal_imaging,
+    explanation: stage.explanation,
+  }
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Results revealed for the studies the learner ordered at a stage
+ */
+export function getStageFindings(stage: CaseStage, selectedImaging: string[]): string[] {
+  return selectedImaging
+    .map((id) => stage.imaging_results[id])
+    .filter((finding): finding is string => !!finding)
+}
+
+/**
+ * Score one stage with the shared partial-credit model
+ */
+export function scoreStage(
+  stage: CaseStage,
+  stageIndex: number,
+  selectedImaging: string[],
+  options: { hintsUsed?: number; imagingOptions?: ImagingOption[] } = {}
+): StageScore {
+  const breakdown = scoreImagingSelection({
+    selectedImaging,
+    ratings: stage.imaging_ratings,
+    optimalImaging: stage.optimal_imaging,
+    imagingOptions: options.imagingOptions,
+    hintsUsed: options.hintsUsed,
+  })
+
+  return {
+    stageId: stage.id,
+    stageIndex,
+    selectedImaging,
+    acrRating: breakdown.acrRating,
+    optimalAcrRating: breakdown.optimalAcrRating,
+    rating: breakdown.primary,
+    score: breakdown.score,
+    isCorrect: breakdown.isCorrect,
+    breakdown,
+    findings: getStageFindings(stage, selectedImaging),
+  }
+}
+
+/**
+ * Combine stage scores into a pathway score, including the cumulative dose
+ * the learner's orders delivered to the patient.
+ */
+export function scorePathway(
+  caseData: Case,
+  stages: CaseStage[],
+  stageScores: StageScore[]
+): PathwayScore {
+  const scored = stageScores.filter(Boolean)
+  const stagesCorrect = scored.filter((s) => s.isCorrect).length
+  const score = scored.length > 0
+    ? Math.round(scored.reduce((sum, s) => sum + s.score, 0) / scored.length)
+    : 0
+
+  return {
+    stages: scored,
+    score,
+    isCorrect: scored.length === stages.length && stagesCorrect === stages.length,
+    stagesCorrect,
+    radiation: buildStageRadiationLedger(caseData, stages, scored),
+  }
+}
+
+/**
+ * Cumulative dose the learner's orders have delivered to the patient so far
+ */
+export function buildStageRadiationLedger(
+  caseData: Case,
+  stages: CaseStage[],
+  stageScores: StageScore[]
+): RadiationLedger {
+  return buildRadiationLedger(
+    caseData.patient_age,
+    stageScores.filter(Boolean).map((s) => ({
+      caseId: caseData.id,
+      label: stages[s.stageIndex]?.title,
+      imagingIds: s.selectedImaging,
+    }))
+  )
+}
+
+/**
+ * Convert stage scores to the attempt record shape
+ */
+export function toStageAttemptResults(stageScores: StageScore[]): StageAttemptResult[] {
+  return stageScores.filter(Boolean).map((s) => ({
+    stage_id: s.stageId,
+    selected_imaging: s.selectedImaging,
+    acr_rating: s.acrRating,
+    score: s.score,
+    is_correct: s.isCorrect,
+  }))
+}
@@ -0,0 +1,140 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing for spreadsheet import/export
+ */
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * Quote a cell when it contains a delimiter, quote or line break. Text that
+ * a spreadsheet would run as a formula is prefixed with ' so it shows as
+ * text; numbers are written as they are.
+ */
+export function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  let text = String(value)
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Undo the formula guard toCsvCell() adds, for files this app wrote
+ */
+export function fromCsvCell(text: string): string {
+  return text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text
+}
+
+/**
+ * Serialize rows under a header. Missing keys become empty cells.
+ */
+export function toCsv(header: string[], rows: Record<string, unknown>[]): string {
+  const lines = [header.map(toCsvCell).join(',')]
+  rows.forEach((row) => lines.push(header.map((column) => toCsvCell(row[column])).join(',')))
+  return lines.join('\r\n') + '\r\n'
+}
+
+/**
+ * Serialize rows as a UTF-8 byte stream, a chunk of rows at a time, for
+ * large downloads. Cells are read from each row by key; the header row shows
+ * the labels, which default to the keys. Starts with a byte order mark so
+ * spreadsheet apps read non-ASCII names correctly.
+ */
+export function toCsvStream(
+  header: string[],
+  rows: Record<string, unknown>[],
+  labels: string[] = header,
+  rowsPerChunk = 500
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let next = 0
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode('\ufeff' + labels.map(toCsvCell).join(',') + '\r\n'))
+    },
+    pull(controller) {
+      const chunk = rows.slice(next, next + rowsPerChunk)
+      next += rowsPerChunk
+      if (chunk.length === 0) {
+        controller.close()
+        return
+      }
+      controller.enqueue(
+        encoder.encode(
+          chunk.map((row) => header.map((column) => toCsvCell(row[column])).join(',') + '\r\n').join('')
+        )
+      )
+    },
+  })
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells with embedded
+ * commas, quotes and line breaks, and skips blank lines.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.length > 1 || row[0] !== '') rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow()
+
+  return rows
+}
+
+/**
+ * Parse CSV text into records keyed by the header row, undoing the formula
+ * guard on each value
+ */
+export function parseCsvRecords(text: string): { header: string[]; records: Record<string, string>[] } {
+  const [header = [], ...rows] = parseCsv(text)
+  const columns = header.map((column) => column.trim())
+  return {
+    header: columns,
+    records: rows.map((cells) =>
+      Object.fromEntries(columns.map((column, index) => [column, fromCsvCell(cells[index] ?? '')]))
+    ),
+  }
+}
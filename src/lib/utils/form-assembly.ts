@@ -0,0 +1,398 @@
+/**
+ * Blueprint-driven assessment form assembly. A blueprint fixes how many
+ * cases come from each category, the difficulty mix, a minimum number of
+ * cases where no imaging is the right call, and how long a case stays off
+ * a learner's forms after they have seen it. Forms are drawn with a seeded
+ * generator, so the same learner, attempt and pool always get the same
+ * cases, and re-take forms can be matched to an earlier form's difficulty.
+ */
+
+import { BASE_RATING, DIFFICULTY_PRIOR_RATINGS } from '@/lib/utils/adaptive-difficulty'
+import type { Case, CaseCategory, DifficultyLevel, UserCaseAttempt } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BlueprintCase = Pick<Case, 'id' | 'category' | 'difficulty' | 'optimal_imaging'>
+
+/** A case the learner saw and when, from attempts or earlier sittings */
+export type SeenCase = Pick<UserCaseAttempt, 'case_id' | 'created_at'>
+
+export interface AssessmentBlueprint {
+  /** Exact number of cases from each category; the form length is the sum */
+  categoryCounts: Partial<Record<CaseCategory, number>>
+  /** Relative weight of each difficulty, e.g. 30/50/20 */
+  difficultyMix: Record<DifficultyLevel, number>
+  /** At least this many cases whose correct answer is no imaging */
+  minNoImaging: number
+  /** Cases the learner saw this recently are left out while the pool allows */
+  excludeSeenWithinDays: number
+}
+
+export interface BlueprintShortfall {
+  constraint: 'category' | 'difficulty' | 'no-imaging' | 'unseen'
+  /** Category or difficulty the shortfall is in */
+  key?: string
+  required: number
+  assembled: number
+}
+
+export interface AssembledForm {
+  caseIds: string[]
+  /** Mean calibrated case difficulty on the Elo scale */
+  meanRating: number
+  /** Constraints the pool could not meet; empty when the blueprint was met */
+  shortfalls: BlueprintShortfall[]
+}
+
+export interface AssembleFormOptions {
+  /** Same seed, pool and history give the same form */
+  seed: string
+  seen?: SeenCase[]
+  /** From calibrateCaseRatings; authored difficulty is used otherwise */
+  caseRatings?: Map<string, number>
+  /** Swap like-for-like cases until the form's mean rating is this close */
+  targetRating?: number
+  /** Cases that must not be drawn, e.g. those on sibling forms */
+  exclude?: Set<string>
+  now?: Date
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NO_IMAGING = 'no-imaging'
+
+/** Cases stay off a learner's forms this long after they have seen them */
+export const SEEN_EXCLUSION_DAYS = 30
+
+const BLUEPRINT_CATEGORIES: CaseCategory[] = [
+  'low-back-pain',
+  'headache',
+  'chest-pain',
+  'abdominal-pain',
+  'extremity-trauma',
+]
+
+const DIFFICULTIES: DifficultyLevel[] = ['beginner', 'intermediate', 'advanced']
+
+const EVEN_DIFFICULTY_MIX: Record<DifficultyLevel, number> = {
+  beginner: 1,
+  intermediate: 1,
+  advanced: 1,
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Deterministic generator in [0, 1) from a string seed (FNV-1a hash
+ * feeding mulberry32)
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = 2166136261
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619)
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function seededShuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+/**
+ * Split a total across weights, rounding so the parts add up to the total
+ * (largest remainder)
+ */
+function apportion<K extends string>(total: number, weights: Record<K, number>): Record<K, number> {
+  const keys = Object.keys(weights) as K[]
+  const weightSum = keys.reduce((sum, k) => sum + Math.max(0, weights[k]), 0)
+  const exact = keys.map((k) => (weightSum > 0 ? (total * Math.max(0, weights[k])) / weightSum : 0))
+  const parts = exact.map(Math.floor)
+
+  let left = total - parts.reduce((sum, n) => sum + n, 0)
+  const byRemainder = keys
+    .map((_, i) => i)
+    .sort((a, b) => exact[b] - parts[b] - (exact[a] - parts[a]) || a - b)
+  for (const i of byRemainder) {
+    if (left <= 0 || weightSum === 0) break
+    parts[i]++
+    left--
+  }
+
+  return Object.fromEntries(keys.map((k, i) => [k, parts[i]])) as Record<K, number>
+}
+
+/**
+ * Whether ordering no imaging is the correct answer. Older cases mark this
+ * with an empty optimal list.
+ */
+export function isNoImagingCase(c: Pick<Case, 'optimal_imaging'>): boolean {
+  return c.optimal_imaging.length === 0 || c.optimal_imaging.includes(NO_IMAGING)
+}
+
+function getCaseRating(c: BlueprintCase, caseRatings?: Map<string, number>): number {
+  return caseRatings?.get(c.id) ?? DIFFICULTY_PRIOR_RATINGS[c.difficulty] ?? BASE_RATING
+}
+
+/**
+ * Mean calibrated difficulty of a form, e.g. of a learner's first sitting
+ * so a re-take can be matched to it
+ */
+export function getFormRating(
+  caseIds: string[],
+  pool: BlueprintCase[],
+  caseRatings?: Map<string, number>
+): number {
+  const byId = new Map(pool.map((c) => [c.id, c]))
+  const ratings = caseIds
+    .map((id) => byId.get(id))
+    .filter(Boolean)
+    .map((c) => getCaseRating(c as BlueprintCase, caseRatings))
+  if (ratings.length === 0) return BASE_RATING
+  return Math.round(ratings.reduce((sum, r) => sum + r, 0) / ratings.length)
+}
+
+/**
+ * Number of cases on forms built from a blueprint
+ */
+export function getBlueprintLength(blueprint: AssessmentBlueprint): number {
+  return Object.values(blueprint.categoryCounts).reduce((sum, n) => sum + (n ?? 0), 0)
+}
+
+/**
+ * Blueprint spreading a form evenly across categories
+ */
+export function createBlueprint({
+  caseCount,
+  categories = BLUEPRINT_CATEGORIES,
+  difficultyMix = EVEN_DIFFICULTY_MIX,
+  minNoImaging = 0,
+  excludeSeenWithinDays = SEEN_EXCLUSION_DAYS,
+}: {
+  caseCount: number
+  categories?: CaseCategory[]
+  difficultyMix?: Record<DifficultyLevel, number>
+  minNoImaging?: number
+  excludeSeenWithinDays?: number
+}): AssessmentBlueprint {
+  const weights = Object.fromEntries(categories.map((c) => [c, 1])) as Record<CaseCategory, number>
+  return {
+    categoryCounts: apportion(caseCount, weights),
+    difficultyMix,
+    minNoImaging,
+    excludeSeenWithinDays,
+  }
+}
+
+// ============================================================================
+// Assembly
+// ============================================================================
+
+/**
+ * Assemble one form from a case pool. Each category gets exactly its count,
+ * spread across difficulties toward the blueprint mix; no-imaging cases are
+ * then swapped in like-for-like up to the minimum, and with a target rating
+ * cases are swapped for others of the same category and difficulty until
+ * the form is as close to it as the pool allows. Recently seen cases are
+ * used only when a category would otherwise run short, oldest first.
+ */
+export function assembleForm(
+  pool: BlueprintCase[],
+  blueprint: AssessmentBlueprint,
+  options: AssembleFormOptions
+): AssembledForm {
+  const { seed, seen = [], caseRatings, targetRating, exclude, now = new Date() } = options
+  const random = createSeededRandom(seed)
+
+  const cutoff = now.getTime() - blueprint.excludeSeenWithinDays * DAY_MS
+  const lastSeen = new Map<string, number>()
+  for (const s of seen) {
+    const at = new Date(s.created_at).getTime()
+    if (at >= cutoff && at > (lastSeen.get(s.case_id) ?? -Infinity)) lastSeen.set(s.case_id, at)
+  }
+
+  // Sort first so the input order never changes the form
+  const eligible = seededShuffle(
+    [...pool].filter((c) => !exclude?.has(c.id)).sort((a, b) => a.id.localeCompare(b.id)),
+    random
+  )
+  const fresh = eligible.filter((c) => !lastSeen.has(c.id))
+  const stale = eligible
+    .filter((c) => lastSeen.has(c.id))
+    .sort((a, b) => lastSeen.get(a.id)! - lastSeen.get(b.id)!)
+
+  const total = getBlueprintLength(blueprint)
+  const difficultyTargets = apportion(total, blueprint.difficultyMix)
+  const difficultyLeft = { ...difficultyTargets }
+  const shortfalls: BlueprintShortfall[] = []
+  const selected: BlueprintCase[] = []
+  let staleUsed = 0
+  let slotsLeft = total
+
+  // Scarcest categories first, so they get first pick of difficulties
+  const categories = (Object.entries(blueprint.categoryCounts) as [CaseCategory, number][])
+    .filter(([, count]) => count > 0)
+    .sort(
+      ([a, countA], [b, countB]) =>
+        fresh.filter((c) => c.category === a).length / countA -
+          fresh.filter((c) => c.category === b).length / countB || a.localeCompare(b)
+    )
+
+  for (const [category, count] of categories) {
+    const candidates = fresh.filter((c) => c.category === category)
+    const picked: Record<DifficultyLevel, number> = { beginner: 0, intermediate: 0, advanced: 0 }
+    let taken = 0
+
+    while (taken < count) {
+      // The difficulty furthest behind both the form's and this category's share
+      const available = DIFFICULTIES.filter((d) => candidates.some((c) => c.difficulty === d))
+      if (available.length === 0) break
+      const difficulty = available.reduce((best, d) => {
+        const need = (k: DifficultyLevel) => difficultyLeft[k] / Math.max(1, slotsLeft) - picked[k] / count
+        return need(d) > need(best) ? d : best
+      })
+
+      const index = candidates.findIndex((c) => c.difficulty === difficulty)
+      selected.push(candidates.splice(index, 1)[0])
+      picked[difficulty]++
+      difficultyLeft[difficulty]--
+      slotsLeft--
+      taken++
+    }
+
+    for (const c of stale.filter((s) => s.category === category)) {
+      if (taken >= count) break
+      selected.push(c)
+      difficultyLeft[c.difficulty]--
+      slotsLeft--
+      staleUsed++
+      taken++
+    }
+
+    if (taken < count) {
+      shortfalls.push({ constraint: 'category', key: category, required: count, assembled: taken })
+    }
+  }
+
+  const selectedIds = new Set(selected.map((c) => c.id))
+  const unused = () => fresh.filter((c) => !selectedIds.has(c.id))
+  const swap = (out: BlueprintCase, into: BlueprintCase) => {
+    selected[selected.indexOf(out)] = into
+    selectedIds.delete(out.id)
+    selectedIds.add(into.id)
+  }
+
+  // Swap in no-imaging cases: same difficulty first, then same category only
+  let noImagingCount = selected.filter(isNoImagingCase).length
+  for (const sameDifficulty of [true, false]) {
+    for (const candidate of unused().filter(isNoImagingCase)) {
+      if (noImagingCount >= blueprint.minNoImaging) break
+      const out = selected.find(
+        (c) =>
+          !isNoImagingCase(c) &&
+          c.category === candidate.category &&
+          (!sameDifficulty || c.difficulty === candidate.difficulty)
+      )
+      if (!out) continue
+      swap(out, candidate)
+      noImagingCount++
+    }
+  }
+  if (noImagingCount < blueprint.minNoImaging) {
+    shortfalls.push({
+      constraint: 'no-imaging',
+      required: blueprint.minNoImaging,
+      assembled: noImagingCount,
+    })
+  }
+
+  // Bring the mean rating to the target with like-for-like swaps
+  if (targetRating != null && selected.length > 0) {
+    const ratingSum = () => selected.reduce((sum, c) => sum + getCaseRating(c, caseRatings), 0)
+    for (let round = 0; round < selected.length * 2; round++) {
+      const gap = ratingSum() / selected.length - targetRating
+      let best: { out: BlueprintCase; into: BlueprintCase; gap: number } | null = null
+
+      for (const out of selected) {
+        for (const into of unused()) {
+          if (
+            into.category !== out.category ||
+            into.difficulty !== out.difficulty ||
+            isNoImagingCase(into) !== isNoImagingCase(out)
+          ) {
+            continue
+          }
+          const newGap =
+            gap + (getCaseRating(into, caseRatings) - getCaseRating(out, caseRatings)) / selected.length
+          if (Math.abs(newGap) < Math.abs(best?.gap ?? gap)) best = { out, into, gap: newGap }
+        }
+      }
+
+      if (!best) break
+      swap(best.out, best.into)
+    }
+  }
+
+  const counts = { beginner: 0, intermediate: 0, advanced: 0 }
+  for (const c of selected) counts[c.difficulty]++
+  for (const d of DIFFICULTIES) {
+    if (counts[d] < difficultyTargets[d]) {
+      shortfalls.push({ constraint: 'difficulty', key: d, required: difficultyTargets[d], assembled: counts[d] })
+    }
+  }
+  if (staleUsed > 0) {
+    shortfalls.push({ constraint: 'unseen', required: total, assembled: selected.length - staleUsed })
+  }
+
+  const caseIds = seededShuffle(selected, random).map((c) => c.id)
+  return {
+    caseIds,
+    meanRating: getFormRating(caseIds, selected, caseRatings),
+    shortfalls,
+  }
+}
+
+/**
+ * Assemble parallel forms for re-takes: no case appears on two forms while
+ * the pool allows, and every form after the first is balanced to the first
+ * form's mean difficulty (or to targetRating when given)
+ */
+export function assembleParallelForms(
+  pool: BlueprintCase[],
+  blueprint: AssessmentBlueprint,
+  count: number,
+  options: AssembleFormOptions
+): AssembledForm[] {
+  const used = new Set(options.exclude)
+  const forms: AssembledForm[] = []
+
+  for (let i = 0; i < count; i++) {
+    const form = assembleForm(pool, blueprint, {
+      ...options,
+      seed: `${options.seed}:${i}`,
+      exclude: used,
+      targetRating: options.targetRating ?? forms[0]?.meanRating,
+    })
+    form.caseIds.forEach((id) => used.add(id))
+    forms.push(form)
+  }
+
+  return forms
+}
@@ -0,0 +1,196 @@
+/**
+ * Partial-credit scoring for an imaging selection.
+ * Shared by the practice case viewer and timed assessments so both score identically.
+ */
+
+import { getImagingById } from '@/data/imaging-options'
+import type { ImagingOption, StageImagingRating } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ScoreDeductionKind =
+  | 'redundant'
+  | 'inappropriate'
+  | 'radiation'
+  | 'cost'
+  | 'contradictory'
+  | 'hints'
+
+export interface ScoreDeduction {
+  kind: ScoreDeductionKind
+  imagingOptionId?: string
+  points: number
+  reason: string
+}
+
+export interface SelectionScore {
+  selectedImaging: string[]
+  /** Best-rated study in the selection; the one the learner gets credit for */
+  primary: StageImagingRating | null
+  acrRating: number | null
+  optimalAcrRating: number
+  baseScore: number
+  deductions: ScoreDeduction[]
+  totalDeduction: number
+  score: number // 0-100
+  isCorrect: boolean
+}
+
+export interface SelectionScoreInput {
+  selectedImaging: string[]
+  ratings: StageImagingRating[]
+  optimalImaging: string[]
+  /** Catalog used for radiation and cost; falls back to the bundled imaging options */
+  imagingOptions?: Pick<ImagingOption, 'id' | 'short_name' | 'radiation_msv' | 'typical_cost_usd'>[]
+  hintsUsed?: number
+}
+
+// ============================================================================
+// Penalties
+// ============================================================================
+
+export const SCORING_PENALTIES = {
+  /** Any study beyond the primary one */
+  additionalStudy: 5,
+  /** Per ACR point an add-on falls below 9 */
+  perRatingPoint: 1.5,
+  /** Per mSv of effective dose an add-on delivers */
+  perMsv: 1,
+  maxRadiation: 10,
+  /** Per $500 an add-on costs */
+  per500Usd: 1,
+  maxCost: 5,
+  /** Ordering studies while also selecting no imaging */
+  contradictory: 10,
+  perHint: 5,
+} as const
+
+const NO_IMAGING = 'no-imaging'
+const UNRATED_ACR = 1
+
+function roundPoints(points: number): number {
+  return Math.round(points * 10) / 10
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Score a selection: credit for the best-rated study, minus deductions for
+ * every add-on in proportion to its rating, radiation, and cost.
+ */
+export function scoreImagingSelection({
+  selectedImaging,
+  ratings,
+  optimalImaging,
+  imagingOptions = [],
+  hintsUsed = 0,
+}: SelectionScoreInput): SelectionScore {
+  const ratingFor = (id: string): StageImagingRating => {
+    const rating = ratings.find((r) => r.imaging_option_id === id)
+    if (rating) return rating
+    // Older cases mark "no imaging" as optimal with an empty optimal list
+    const noImagingOptimal =
+      id === NO_IMAGING && (optimalImaging.length === 0 || optimalImaging.includes(NO_IMAGING))
+    return {
+      imaging_option_id: id,
+      acr_rating: noImagingOptimal ? 9 : UNRATED_ACR,
+      rating_category: noImagingOptimal ? 'usually-appropriate' : 'usually-not-appropriate',
+      rationale: noImagingOptimal ? '' : 'Not rated for this clinical scenario.',
+    }
+  }
+  const optionFor = (id: string) =>
+    imagingOptions.find((opt) => opt.id === id) ?? getImagingById(id)
+  const labelFor = (id: string) => optionFor(id)?.short_name ?? id
+
+  const deductions: ScoreDeduction[] = []
+  const studies = selectedImaging.filter((id) => id !== NO_IMAGING)
+  const choseNoImaging = selectedImaging.includes(NO_IMAGING)
+
+  if (choseNoImaging && studies.length > 0) {
+    deductions.push({
+      kind: 'contradictory',
+      imagingOptionId: NO_IMAGING,
+      points: SCORING_PENALTIES.contradictory,
+      reason: 'Selected "no imaging" while also ordering studies',
+    })
+  }
+
+  // Credit goes to the best-rated choice; everything else is an add-on
+  const candidates = studies.length > 0 ? studies : selectedImaging
+  const ranked = candidates
+    .map(ratingFor)
+    .sort((a, b) => b.acr_rating - a.acr_rating)
+  const primary = ranked[0] ?? null
+  const acrRating = primary?.acr_rating ?? null
+
+  for (const addOn of ranked.slice(1)) {
+    const id = addOn.imaging_option_id
+    const label = labelFor(id)
+    const ratingPoints =
+      SCORING_PENALTIES.additionalStudy + (9 - addOn.acr_rating) * SCORING_PENALTIES.perRatingPoint
+    deductions.push({
+      kind: addOn.acr_rating >= 7 ? 'redundant' : 'inappropriate',
+      imagingOptionId: id,
+      points: roundPoints(ratingPoints),
+      reason: addOn.acr_rating >= 7
+        ? `${label} is redundant alongside ${labelFor(primary.imaging_option_id)}`
+        : `${label} is rated ${addOn.acr_rating}/9 for this scenario`,
+    })
+
+    const option = optionFor(id)
+    if (option && option.radiation_msv > 0) {
+      deductions.push({
+        kind: 'radiation',
+        imagingOptionId: id,
+        points: roundPoints(
+          Math.min(option.radiation_msv * SCORING_PENALTIES.perMsv, SCORING_PENALTIES.maxRadiation)
+        ),
+        reason: `${label} adds ${option.radiation_msv} mSv`,
+      })
+    }
+    if (option && option.typical_cost_usd > 0) {
+      deductions.push({
+        kind: 'cost',
+        imagingOptionId: id,
+        points: roundPoints(
+          Math.min((option.typical_cost_usd / 500) * SCORING_PENALTIES.per500Usd, SCORING_PENALTIES.maxCost)
+        ),
+        reason: `${label} adds $${option.typical_cost_usd.toLocaleString()}`,
+      })
+    }
+  }
+
+  if (hintsUsed > 0) {
+    deductions.push({
+      kind: 'hints',
+      points: hintsUsed * SCORING_PENALTIES.perHint,
+      reason: `${hintsUsed} hint${hintsUsed === 1 ? '' : 's'} used`,
+    })
+  }
+
+  const optimalRatings = ratings.filter((r) => optimalImaging.includes(r.imaging_option_id))
+  const optimalAcrRating = optimalRatings.length > 0
+    ? Math.max(...optimalRatings.map((r) => r.acr_rating))
+    : 9
+
+  const baseScore = acrRating ? Math.round((acrRating / 9) * 100) : 0
+  const totalDeduction = roundPoints(deductions.reduce((sum, d) => sum + d.points, 0))
+
+  return {
+    selectedImaging,
+    primary,
+    acrRating,
+    optimalAcrRating,
+    baseScore,
+    deductions,
+    totalDeduction,
+    score: Math.max(0, Math.min(100, Math.round(baseScore - totalDeduction))),
+    isCorrect:
+      (acrRating ?? 0) >= 7 &&
+      !deductions.some((d) => d.kind === 'inappropriate' || d.kind === 'contradictory'),
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Integrity events for proctored assessments: labels and the per-sitting
+ * summary faculty see before opening the timeline.
+ */
+
+import type { AssessmentIntegrityEvent, IntegrityEventType } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IntegritySummary {
+  counts: Partial<Record<IntegrityEventType, number>>
+  /** Events that suggest the learner left the assessment or used outside material */
+  flaggedCount: number
+  /** Total time hidden or unfocused, in seconds */
+  secondsAway: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const INTEGRITY_EVENT_LABELS: Record<IntegrityEventType, string> = {
+  visibility_hidden: 'Left the tab',
+  visibility_visible: 'Returned to the tab',
+  window_blur: 'Window lost focus',
+  window_focus: 'Window regained focus',
+  copy: 'Copied text',
+  paste: 'Pasted text',
+  fullscreen_enter: 'Entered fullscreen',
+  fullscreen_exit: 'Exited fullscreen',
+  back_navigation: 'Tried to go back',
+  session_takeover: 'Resumed in a new session',
+}
+
+export const FLAGGED_INTEGRITY_EVENTS: IntegrityEventType[] = [
+  'visibility_hidden',
+  'window_blur',
+  'copy',
+  'paste',
+  'fullscreen_exit',
+  'back_navigation',
+  'session_takeover',
+]
+
+const LEAVE_EVENTS: IntegrityEventType[] = ['visibility_hidden', 'window_blur']
+const RETURN_EVENTS: IntegrityEventType[] = ['visibility_visible', 'window_focus']
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+export function isFlaggedIntegrityEvent(type: IntegrityEventType): boolean {
+  return FLAGGED_INTEGRITY_EVENTS.includes(type)
+}
+
+/**
+ * Count events and the time spent away from the assessment. An absence runs
+ * from the first leave event to the next return; one still open at the end
+ * runs to endAt when given.
+ */
+export function summarizeIntegrityEvents(
+  events: Pick<AssessmentIntegrityEvent, 'event_type' | 'occurred_at'>[],
+  endAt?: string | null
+): IntegritySummary {
+  const sorted = [...events].sort((a, b) => a.occurred_at.localeCompare(b.occurred_at))
+  const counts: Partial<Record<IntegrityEventType, number>> = {}
+  let flaggedCount = 0
+  let awaySince: number | null = null
+  let msAway = 0
+
+  for (const event of sorted) {
+    counts[event.event_type] = (counts[event.event_type] ?? 0) + 1
+    if (isFlaggedIntegrityEvent(event.event_type)) flaggedCount++
+
+    const at = new Date(event.occurred_at).getTime()
+    if (LEAVE_EVENTS.includes(event.event_type) && awaySince === null) {
+      awaySince = at
+    } else if (RETURN_EVENTS.includes(event.event_type) && awaySince !== null) {
+      msAway += Math.max(0, at - awaySince)
+      awaySince = null
+    }
+  }
+
+  if (awaySince !== null && endAt) {
+    msAway += Math.max(0, new Date(endAt).getTime() - awaySince)
+  }
+
+  return { counts, flaggedCount, secondsAway: Math.round(msAway / 1000) }
+}
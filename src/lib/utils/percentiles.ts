@@ -0,0 +1,81 @@
+/**
+ * Peer cohorts for assessment results. The database places the learner in
+ * the cohort and returns only aggregates; cohorts smaller than the
+ * k-anonymity threshold are suppressed there and never shown.
+ */
+
+import type { Profile, SpecialtyTrack, UserRole } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CohortDimension = 'trainingYear' | 'role' | 'specialtyTrack' | 'institution'
+
+/** Peers to compare against; unset dimensions include everyone */
+export interface CohortFilter {
+  trainingYear?: number | null
+  role?: UserRole | null
+  specialtyTrack?: SpecialtyTrack | null
+  institution?: string | null
+}
+
+export interface PeerComparison {
+  /** Null when suppressed */
+  cohortSize: number | null
+  suppressed: boolean
+  /**
+   * Percent of the cohort scoring below the learner's first sitting, counting
+   * ties as half; null when suppressed or the learner has no completed sitting
+   */
+  percentile: number | null
+  median: number | null
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Minimum learners in any cohort that is shown; matches cohort_min_size() */
+export const K_ANONYMITY = 10
+
+export const COHORT_DIMENSIONS: CohortDimension[] = ['trainingYear', 'role', 'specialtyTrack', 'institution']
+
+export const COHORT_DIMENSION_LABELS: Record<CohortDimension, string> = {
+  trainingYear: 'Training year',
+  role: 'Role',
+  specialtyTrack: 'Specialty track',
+  institution: 'Institution',
+}
+
+// ============================================================================
+// Cohorts
+// ============================================================================
+
+/**
+ * Narrow a cohort to peers who share the chosen dimensions with a profile
+ */
+export function getCohortFilter(
+  profile: Pick<Profile, 'training_year' | 'role' | 'specialty_track' | 'institution'> | null,
+  dimensions: CohortDimension[]
+): CohortFilter {
+  if (!profile) return {}
+  const filter: CohortFilter = {}
+  if (dimensions.includes('trainingYear') && profile.training_year != null) filter.trainingYear = profile.training_year
+  if (dimensions.includes('role')) filter.role = profile.role
+  if (dimensions.includes('specialtyTrack') && profile.specialty_track) filter.specialtyTrack = profile.specialty_track
+  if (dimensions.includes('institution') && profile.institution) filter.institution = profile.institution
+  return filter
+}
+
+/**
+ * Describe a cohort, e.g. "PGY-2 residents at Mercy General"
+ */
+export function describeCohort(filter: CohortFilter): string {
+  const parts: string[] = []
+  if (filter.trainingYear != null) parts.push(`PGY-${filter.trainingYear}`)
+  if (filter.specialtyTrack) parts.push(filter.specialtyTrack.toUpperCase())
+  parts.push(filter.role ? `${filter.role}s` : 'learners')
+  if (filter.institution) parts.push(`at ${filter.institution}`)
+  return parts.join(' ')
+}
@@ -0,0 +1,238 @@
+/**
+ * Classical test theory item analysis for assessments: item difficulty
+ * (p-value), corrected point-biserial discrimination, distractor analysis by
+ * upper and lower scorers, and KR-20 / Cronbach's alpha reliability.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ItemResponse {
+  caseId: string
+  correct: boolean
+  /** Partial credit, 0-100 */
+  score: number
+  selectedImaging: string[]
+}
+
+/** One learner's completed sitting of an assessment */
+export interface AssessmentSitting {
+  id: string
+  userId: string
+  responses: ItemResponse[]
+}
+
+export type ItemFlag =
+  | 'negative-discrimination'
+  | 'poor-discrimination'
+  | 'too-easy'
+  | 'too-hard'
+  | 'misleading-distractor'
+  | 'low-sample'
+
+export interface DistractorAnalysis {
+  imagingOptionId: string
+  /** Sittings that selected this option */
+  count: number
+  /** Share of all sittings, 0-1 */
+  share: number
+  /** Selections by the top and bottom 27% of scorers */
+  upperCount: number
+  lowerCount: number
+}
+
+export interface ItemAnalysis {
+  caseId: string
+  respondents: number
+  /** Proportion answering correctly, 0-1; higher is easier */
+  pValue: number
+  /** Mean partial-credit score, 0-100 */
+  meanScore: number
+  /** Correlation of the item with the rest of the test; null when undefined */
+  pointBiserial: number | null
+  /** p-value in the top 27% minus p-value in the bottom 27% */
+  discriminationIndex: number
+  /** Non-optimal studies chosen, most popular first */
+  distractors: DistractorAnalysis[]
+  flags: ItemFlag[]
+}
+
+export interface AssessmentAnalysis {
+  respondents: number
+  /** Mean percent of items answered correctly, 0-100 */
+  meanScore: number
+  /** Reliability of correct/incorrect scoring; null when undefined */
+  kr20: number | null
+  /** Reliability of partial-credit scoring; null when undefined */
+  alpha: number | null
+  items: ItemAnalysis[]
+  /** Items flagged as poor or negative discriminators */
+  flaggedCount: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Below this many sittings, statistics are provisional */
+export const MIN_RESPONDENTS = 30
+/** Point-biserial below this is a poor discriminator */
+export const MIN_POINT_BISERIAL = 0.2
+export const EASY_P_VALUE = 0.9
+export const HARD_P_VALUE = 0.2
+/** Share of sittings in each of the upper and lower scoring groups */
+const EXTREME_GROUP_SHARE = 0.27
+/** Reliability expected before results are used for high-stakes decisions */
+export const HIGH_STAKES_RELIABILITY = 0.8
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  'negative-discrimination': 'Negative discrimination',
+  'poor-discrimination': 'Poor discrimination',
+  'too-easy': 'Too easy',
+  'too-hard': 'Too hard',
+  'misleading-distractor': 'Distractor draws top scorers',
+  'low-sample': 'Provisional',
+}
+
+export const ITEM_FLAG_DESCRIPTIONS: Record<ItemFlag, string> = {
+  'negative-discrimination': 'Weaker learners do better on this item than stronger ones. Check the key.',
+  'poor-discrimination': `Point-biserial below ${MIN_POINT_BISERIAL}: the item barely separates stronger from weaker learners.`,
+  'too-easy': `More than ${EASY_P_VALUE * 100}% answer correctly.`,
+  'too-hard': `Fewer than ${HARD_P_VALUE * 100}% answer correctly.`,
+  'misleading-distractor': 'A wrong study is chosen more by top scorers than bottom scorers.',
+  'low-sample': `Fewer than ${MIN_RESPONDENTS} sittings; statistics may change.`,
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+/** Population variance */
+function variance(values: number[]): number {
+  const m = mean(values)
+  return mean(values.map((v) => (v - m) ** 2))
+}
+
+function correlation(xs: number[], ys: number[]): number | null {
+  const mx = mean(xs)
+  const my = mean(ys)
+  let cov = 0
+  let vx = 0
+  let vy = 0
+  xs.forEach((x, i) => {
+    cov += (x - mx) * (ys[i] - my)
+    vx += (x - mx) ** 2
+    vy += (ys[i] - my) ** 2
+  })
+  if (vx === 0 || vy === 0) return null
+  return cov / Math.sqrt(vx * vy)
+}
+
+/**
+ * Internal-consistency reliability from an item score matrix (rows are
+ * sittings). With 0/1 scores this is KR-20; otherwise Cronbach's alpha.
+ */
+export function getReliability(matrix: number[][]): number | null {
+  const k = matrix[0]?.length ?? 0
+  if (matrix.length < 2 || k < 2) return null
+
+  const totalVariance = variance(matrix.map((row) => row.reduce((sum, v) => sum + v, 0)))
+  if (totalVariance === 0) return null
+
+  const itemVariance = Array.from({ length: k }, (_, i) => variance(matrix.map((row) => row[i])))
+    .reduce((sum, v) => sum + v, 0)
+  return (k / (k - 1)) * (1 - itemVariance / totalVariance)
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/**
+ * Analyze every item of an assessment from completed sittings. Items a
+ * sitting left unanswered score zero. `optimalImaging` is each case's key;
+ * any other study selected counts toward distractor analysis.
+ */
+export function analyzeAssessment(
+  caseIds: string[],
+  sittings: AssessmentSitting[],
+  optimalImaging: Map<string, string[]>
+): AssessmentAnalysis {
+  const n = sittings.length
+  const responses = sittings.map((sitting) => {
+    const byCase = new Map(sitting.responses.map((r) => [r.caseId, r]))
+    return caseIds.map((caseId) => byCase.get(caseId) ?? null)
+  })
+  const correct = responses.map((row) => row.map((r) => (r?.correct ? 1 : 0)))
+  const credit = responses.map((row) => row.map((r) => (r ? r.score / 100 : 0)))
+  const totals = correct.map((row) => row.reduce((sum, v) => sum + v, 0))
+
+  // Upper and lower groups by total score
+  const groupSize = Math.max(1, Math.round(n * EXTREME_GROUP_SHARE))
+  const ranked = totals.map((total, index) => ({ total, index })).sort((a, b) => b.total - a.total)
+  const upper = new Set(ranked.slice(0, groupSize).map((r) => r.index))
+  const lower = new Set(ranked.slice(-groupSize).map((r) => r.index))
+
+  const items = caseIds.map((caseId, i): ItemAnalysis => {
+    const itemCorrect = correct.map((row) => row[i])
+    const rest = totals.map((total, s) => total - itemCorrect[s])
+    const pValue = mean(itemCorrect)
+    const pointBiserial = n >= 2 ? correlation(itemCorrect, rest) : null
+    const groupP = (group: Set<number>) =>
+      mean(Array.from(group).map((s) => itemCorrect[s]))
+    const discriminationIndex = n >= 2 ? groupP(upper) - groupP(lower) : 0
+
+    const key = new Set(optimalImaging.get(caseId) ?? [])
+    const distractorCounts = new Map<string, DistractorAnalysis>()
+    responses.forEach((row, s) => {
+      row[i]?.selectedImaging
+        .filter((id) => !key.has(id))
+        .forEach((id) => {
+          const d = distractorCounts.get(id) ??
+            { imagingOptionId: id, count: 0, share: 0, upperCount: 0, lowerCount: 0 }
+          d.count += 1
+          if (upper.has(s)) d.upperCount += 1
+          if (lower.has(s)) d.lowerCount += 1
+          distractorCounts.set(id, d)
+        })
+    })
+    const distractors = Array.from(distractorCounts.values())
+      .map((d) => ({ ...d, share: d.count / n }))
+      .sort((a, b) => b.count - a.count)
+
+    const flags: ItemFlag[] = []
+    if (pointBiserial !== null && pointBiserial < 0) flags.push('negative-discrimination')
+    else if (pointBiserial !== null && pointBiserial < MIN_POINT_BISERIAL) flags.push('poor-discrimination')
+    if (n > 0 && pValue > EASY_P_VALUE) flags.push('too-easy')
+    if (n > 0 && pValue < HARD_P_VALUE) flags.push('too-hard')
+    if (n >= 2 && distractors.some((d) => d.upperCount > d.lowerCount)) flags.push('misleading-distractor')
+    if (n < MIN_RESPONDENTS) flags.push('low-sample')
+
+    return {
+      caseId,
+      respondents: n,
+      pValue,
+      meanScore: mean(credit.map((row) => row[i])) * 100,
+      pointBiserial,
+      discriminationIndex,
+      distractors,
+      flags,
+    }
+  })
+
+  return {
+    respondents: n,
+    meanScore: caseIds.length > 0 ? mean(totals) / caseIds.length * 100 : 0,
+    kr20: getReliability(correct),
+    alpha: getReliability(credit),
+    items,
+    flaggedCount: items.filter((item) =>
+      item.flags.includes('negative-discrimination') || item.flags.includes('poor-discrimination')
+    ).length,
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Cumulative radiation utilities: a virtual patient ledger for case series and
+ * longitudinal cases, and a per-learner comparison against optimal choices
+ */
+
+import {
+  calculateTotalRadiation,
+  getAgeDoseWeight,
+  getBackgroundRadiationEquivalent,
+  getRadiationEquivalent,
+} from '@/data/imaging-options'
+import type { Case, UserCaseAttempt } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RadiationOrder {
+  caseId: string
+  label?: string
+  imagingIds: string[]
+  orderedAt?: string // ISO timestamp
+}
+
+export interface RadiationLedgerEntry extends RadiationOrder {
+  doseMsv: number
+  weightedDoseMsv: number
+  cumulativeMsv: number
+  cumulativeWeightedMsv: number
+  repeatedImagingIds: string[]
+}
+
+export interface RadiationLedger {
+  patientAge: number
+  ageWeight: number
+  entries: RadiationLedgerEntry[]
+  totalMsv: number
+  weightedTotalMsv: number
+  chestXrayEquivalent: string
+  backgroundEquivalent: string
+}
+
+export interface CaseRadiationComparison {
+  caseId: string
+  selectedMsv: number
+  optimalMsv: number
+  excessMsv: number
+}
+
+export interface LearnerRadiationSummary {
+  casesCounted: number
+  /** Age-weighted totals across all counted attempts */
+  selectedMsv: number
+  optimalMsv: number
+  excessMsv: number
+  casesWithExcess: number
+  cases: CaseRadiationComparison[]
+  selectedEquivalent: string
+  optimalEquivalent: string
+  excessBackgroundEquivalent: string
+}
+
+type RadiationCase = Pick<Case, 'id' | 'patient_age' | 'optimal_imaging'>
+type RadiationAttempt = Pick<UserCaseAttempt, 'case_id' | 'selected_imaging'>
+
+/** Total effective dose (mSv) of a set of imaging option ids */
+export type DoseLookup = (imagingIds: string[]) => number
+
+function roundDose(mSv: number): number {
+  return Math.round(mSv * 100) / 100
+}
+
+// ============================================================================
+// Patient Ledger
+// ============================================================================
+
+/**
+ * Build the cumulative dose ledger for one virtual patient.
+ * Orders are applied in sequence; imaging repeated from an earlier order is flagged.
+ */
+export function buildRadiationLedger(
+  patientAge: number,
+  orders: RadiationOrder[]
+): RadiationLedger {
+  const ageWeight = getAgeDoseWeight(patientAge)
+  const previouslyOrdered = new Set<string>()
+  let cumulativeMsv = 0
+  let cumulativeWeightedMsv = 0
+
+  const entries = orders.map((order) => {
+    const doseMsv = roundDose(calculateTotalRadiation(order.imagingIds))
+    const weightedDoseMsv = roundDose(doseMsv * ageWeight)
+    cumulativeMsv = roundDose(cumulativeMsv + doseMsv)
+    cumulativeWeightedMsv = roundDose(cumulativeWeightedMsv + weightedDoseMsv)
+
+    const repeatedImagingIds = order.imagingIds.filter((id) => previouslyOrdered.has(id))
+    order.imagingIds.forEach((id) => previouslyOrdered.add(id))
+
+    return {
+      ...order,
+      doseMsv,
+      weightedDoseMsv,
+      cumulativeMsv,
+      cumulativeWeightedMsv,
+      repeatedImagingIds,
+    }
+  })
+
+  return {
+    patientAge,
+    ageWeight,
+    entries,
+    totalMsv: cumulativeMsv,
+    weightedTotalMsv: cumulativeWeightedMsv,
+    chestXrayEquivalent: getRadiationEquivalent(cumulativeWeightedMsv),
+    backgroundEquivalent: getBackgroundRadiationEquivalent(cumulativeWeightedMsv),
+  }
+}
+
+// ============================================================================
+// Learner Summary
+// ============================================================================
+
+/**
+ * Lowest age-weighted dose among a case's optimal imaging choices
+ */
+export function getOptimalRadiation(
+  caseData: RadiationCase,
+  getDose: DoseLookup = calculateTotalRadiation
+): number {
+  const weight = getAgeDoseWeight(caseData.patient_age)
+  if (caseData.optimal_imaging.length === 0) return 0
+  return roundDose(
+    Math.min(...caseData.optimal_imaging.map((id) => getDose([id]))) * weight
+  )
+}
+
+/**
+ * Compare the radiation a learner's choices would have delivered against optimal choices.
+ * Attempts for unknown cases are skipped. Doses come from the bundled catalog
+ * unless `getDose` resolves them, e.g. for database imaging option ids.
+ */
+export function summarizeLearnerRadiation(
+  attempts: RadiationAttempt[],
+  cases: RadiationCase[],
+  getDose: DoseLookup = calculateTotalRadiation
+): LearnerRadiationSummary {
+  const casesById = new Map(cases.map((c) => [c.id, c]))
+  const comparisons: CaseRadiationComparison[] = []
+
+  for (const attempt of attempts) {
+    const caseData = casesById.get(attempt.case_id)
+    if (!caseData) continue
+
+    const selectedMsv = roundDose(
+      getDose(attempt.selected_imaging) * getAgeDoseWeight(caseData.patient_age)
+    )
+    const optimalMsv = getOptimalRadiation(caseData, getDose)
+    comparisons.push({
+      caseId: caseData.id,
+      selectedMsv,
+      optimalMsv,
+      excessMsv: roundDose(Math.max(0, selectedMsv - optimalMsv)),
+    })
+  }
+
+  const selectedMsv = roundDose(comparisons.reduce((sum, c) => sum + c.selectedMsv, 0))
+  const optimalMsv = roundDose(comparisons.reduce((sum, c) => sum + c.optimalMsv, 0))
+  const excessMsv = roundDose(comparisons.reduce((sum, c) => sum + c.excessMsv, 0))
+
+  return {
+    casesCounted: comparisons.length,
+    selectedMsv,
+    optimalMsv,
+    excessMsv,
+    casesWithExcess: comparisons.filter((c) => c.excessMsv > 0).length,
+    cases: comparisons,
+    selectedEquivalent: getRadiationEquivalent(selectedMsv),
+    optimalEquivalent: getRadiationEquivalent(optimalMsv),
+    excessBackgroundEquivalent: getBackgroundRadiationEquivalent(excessMsv),
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * SM-2 spaced repetition over case attempt history. Each case's schedule is
+ * replayed from its attempts, so there is no scheduler state to keep in sync:
+ * missed, low-scoring and bookmarked cases come back at expanding intervals.
+ */
+
+import type { Case, CaseCategory, UserCaseAttempt } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReviewAttempt = Pick<
+  UserCaseAttempt,
+  'case_id' | 'score' | 'time_spent_seconds' | 'created_at'
+>
+
+export type ReviewReason = 'missed' | 'bookmarked'
+
+export interface CaseReviewState {
+  caseId: string
+  /** SM-2 easiness factor, >= 1.3 */
+  easiness: number
+  /** Consecutive successful recalls */
+  repetitions: number
+  /** Days from the last attempt to the next review */
+  intervalDays: number
+  lastAttemptAt: string | null // ISO timestamp
+  dueAt: string // ISO timestamp
+  /** Quality (0-5) of the most recent attempt */
+  lastQuality: number | null
+  attempts: number
+  /** Estimated probability of recalling the case now, 0-1 */
+  retention: number
+  /** Why the case is in the review queue; empty when it is not */
+  reasons: ReviewReason[]
+}
+
+export interface ReviewQueueItem extends CaseReviewState {
+  title: string
+  category: CaseCategory
+  /** Days past due; negative when not yet due */
+  overdueDays: number
+}
+
+export interface CategoryRetention {
+  category: CaseCategory
+  /** Mean retention of attempted cases, 0-100 */
+  retention: number
+  casesTracked: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+export const INITIAL_EASINESS = 2.5
+export const MIN_EASINESS = 1.3
+/** Quality below this is a failed recall and resets the interval */
+export const PASSING_QUALITY = 3
+/** Correct answers slower than this count as a hard recall */
+export const SLOW_ATTEMPT_SECONDS = 300
+/** Retention at the moment a review falls due */
+const RETENTION_AT_DUE = 0.9
+
+// ============================================================================
+// SM-2
+// ============================================================================
+
+/**
+ * Map an attempt to SM-2 response quality (0-5). Score sets the grade; a
+ * correct but slow answer is graded down a step, though never below passing.
+ */
+export function getReviewQuality(attempt: Pick<ReviewAttempt, 'score' | 'time_spent_seconds'>): number {
+  const { score } = attempt
+  const quality = score >= 90 ? 5 : score >= 80 ? 4 : score >= 70 ? 3 : score >= 50 ? 2 : score >= 30 ? 1 : 0
+  if (quality >= PASSING_QUALITY && attempt.time_spent_seconds > SLOW_ATTEMPT_SECONDS) {
+    return Math.max(PASSING_QUALITY, quality - 1)
+  }
+  return quality
+}
+
+/**
+ * Apply one graded recall to a schedule
+ */
+export function applyReview(
+  state: Pick<CaseReviewState, 'easiness' | 'repetitions' | 'intervalDays'>,
+  quality: number
+): Pick<CaseReviewState, 'easiness' | 'repetitions' | 'intervalDays'> {
+  const easiness = Math.max(
+    MIN_EASINESS,
+    state.easiness + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  )
+
+  if (quality < PASSING_QUALITY) {
+    return { easiness, repetitions: 0, intervalDays: 1 }
+  }
+
+  const repetitions = state.repetitions + 1
+  const intervalDays =
+    repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(state.intervalDays * easiness)
+  return { easiness, repetitions, intervalDays }
+}
+
+/**
+ * Estimated recall probability, decaying so it reaches 90% when the review is due
+ */
+export function getRetention(elapsedDays: number, intervalDays: number): number {
+  if (elapsedDays <= 0) return 1
+  return Math.pow(RETENTION_AT_DUE, elapsedDays / Math.max(intervalDays, 1))
+}
+
+// ============================================================================
+// Schedules
+// ============================================================================
+
+/**
+ * Replay every case's attempts into a review schedule. Cases enter the review
+ * queue once any attempt fails recall, or when bookmarked; a bookmarked case
+ * with no attempts is due immediately.
+ */
+export function buildReviewSchedule(
+  attempts: ReviewAttempt[],
+  bookmarkedCaseIds: string[] = [],
+  now: Date = new Date()
+): CaseReviewState[] {
+  const byCase = new Map<string, ReviewAttempt[]>()
+  attempts.forEach((attempt) => {
+    const list = byCase.get(attempt.case_id) ?? []
+    list.push(attempt)
+    byCase.set(attempt.case_id, list)
+  })
+  bookmarkedCaseIds.forEach((id) => byCase.set(id, byCase.get(id) ?? []))
+  const bookmarked = new Set(bookmarkedCaseIds)
+
+  return Array.from(byCase.entries()).map(([caseId, caseAttempts]) => {
+    const ordered = [...caseAttempts].sort((a, b) => a.created_at.localeCompare(b.created_at))
+    let schedule = { easiness: INITIAL_EASINESS, repetitions: 0, intervalDays: 0 }
+    let lastQuality: number | null = null
+    let missed = false
+
+    ordered.forEach((attempt) => {
+      lastQuality = getReviewQuality(attempt)
+      if (lastQuality < PASSING_QUALITY) missed = true
+      schedule = applyReview(schedule, lastQuality)
+    })
+
+    const last = ordered[ordered.length - 1]
+    const lastAttemptAt = last?.created_at ?? null
+    const dueAt = last
+      ? new Date(new Date(last.created_at).getTime() + schedule.intervalDays * DAY_MS)
+      : now
+    const elapsedDays = last ? (now.getTime() - new Date(last.created_at).getTime()) / DAY_MS : 0
+
+    const reasons: ReviewReason[] = []
+    if (missed) reasons.push('missed')
+    if (bookmarked.has(caseId)) reasons.push('bookmarked')
+
+    return {
+      caseId,
+      ...schedule,
+      lastAttemptAt,
+      dueAt: dueAt.toISOString(),
+      lastQuality,
+      attempts: ordered.length,
+      retention: last ? getRetention(elapsedDays, schedule.intervalDays) : 0,
+      reasons,
+    }
+  })
+}
+
+/**
+ * Queued cases that are due by `now`, most overdue first
+ */
+export function getDueReviews(
+  schedule: CaseReviewState[],
+  cases: Pick<Case, 'id' | 'title' | 'category'>[],
+  now: Date = new Date()
+): ReviewQueueItem[] {
+  const caseById = new Map(cases.map((c) => [c.id, c]))
+  return schedule
+    .filter((state) => state.reasons.length > 0 && caseById.has(state.caseId))
+    .map((state) => ({
+      ...state,
+      title: caseById.get(state.caseId)!.title,
+      category: caseById.get(state.caseId)!.category,
+      overdueDays: Math.floor((now.getTime() - new Date(state.dueAt).getTime()) / DAY_MS),
+    }))
+    .filter((item) => new Date(item.dueAt).getTime() <= now.getTime())
+    .sort((a, b) => b.overdueDays - a.overdueDays || a.retention - b.retention)
+}
+
+/**
+ * Mean retention per category across every attempted case
+ */
+export function getCategoryRetention(
+  schedule: CaseReviewState[],
+  cases: Pick<Case, 'id' | 'category'>[]
+): CategoryRetention[] {
+  const categoryById = new Map(cases.map((c) => [c.id, c.category]))
+  const totals = new Map<CaseCategory, { sum: number; count: number }>()
+
+  schedule
+    .filter((state) => state.attempts > 0 && categoryById.has(state.caseId))
+    .forEach((state) => {
+      const category = categoryById.get(state.caseId)!
+      const total = totals.get(category) ?? { sum: 0, count: 0 }
+      total.sum += state.retention
+      total.count += 1
+      totals.set(category, total)
+    })
+
+  return Array.from(totals.entries()).map(([category, { sum, count }]) => ({
+    category,
+    retention: Math.round((sum / count) * 100),
+    casesTracked: count,
+  }))
+}
@@ -22,6 +22,7 @@ const ROUTE_CONFIG = {
     "/contact",
     "/terms",
     "/privacy",
+    "/verify",
   ],
 
   /**
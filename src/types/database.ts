@@ -3,6 +3,9 @@
  * Includes all tables, views, functions, and enums for Supabase integration.
  */
 
+import type { AchievementCriteria } from "@/lib/achievements/criteria";
+import type { DecisionRuleInput } from "@/lib/aiie/decision-rules";
+
 // ============================================================================
 // ENUMS
 // ============================================================================
@@ -43,6 +46,18 @@ export type ClinicalPearlCategory =
   | "high-yield"
   | "common-mistake"
   | "board-favorite";
+export type CaseRevisionStatus = "draft" | "in_review" | "approved" | "published" | "retired";
+export type IntegrityEventType =
+  | "visibility_hidden"
+  | "visibility_visible"
+  | "window_blur"
+  | "window_focus"
+  | "copy"
+  | "paste"
+  | "fullscreen_enter"
+  | "fullscreen_exit"
+  | "back_navigation"
+  | "session_takeover";
 export type PatientSex = "male" | "female";
 export type TemperatureUnit = "celsius" | "fahrenheit";
 
@@ -87,6 +102,7 @@ export interface AssessmentAnswer {
   is_correct: boolean;
   time_spent_seconds: number;
   hints_used: number;
+  score?: number; // 0-100 partial credit; rescored by the database on every save
 }
 
 export interface CategoryProgress {
@@ -119,6 +135,7 @@ export interface Profile {
   streak_count: number;
   last_activity_date: string | null; // ISO date string
   onboarding_completed: boolean;
+  deactivated_at: string | null; // ISO timestamp, set while the account is deactivated
   created_at: string; // ISO timestamp
   updated_at: string; // ISO timestamp
 }
@@ -145,11 +162,34 @@ export interface Case {
   clinical_pearls: ClinicalPearl[] | null;
   hints: string[] | null;
   references: Reference[];
+  decision_rules?: DecisionRuleInput[] | null; // JSONB, structured inputs for the rule worksheet
+  stages?: CaseStage[] | null; // JSONB, ordered decision points for longitudinal cases
   is_published: boolean;
+  published_revision_id?: string | null; // UUID, references case_revisions
   created_at: string; // ISO timestamp
   updated_at: string; // ISO timestamp
 }
 
+export type StageImagingRating = Pick<
+  CaseImagingRating,
+  "imaging_option_id" | "acr_rating" | "rating_category" | "rationale"
+>;
+
+export interface CaseStage {
+  id: string;
+  title: string; // e.g. "Initial visit", "6-week follow-up"
+  time_offset: string | null; // e.g. "6 weeks later"
+  clinical_vignette: string; // New history for this stage
+  vital_signs: VitalSigns | null; // null keeps the previous stage's values
+  physical_exam: string | null; // null keeps the previous stage's exam
+  lab_results: LabResult[] | null; // null keeps the previous stage's labs
+  optimal_imaging: string[]; // imaging_option IDs
+  imaging_ratings: StageImagingRating[];
+  imaging_results: Record<string, string>; // imaging_option ID -> result revealed after the decision
+  outcome: string | null; // Clinical course revealed before the next stage
+  explanation: string;
+}
+
 export interface ImagingOption {
   id: string; // UUID
   name: string;
@@ -193,11 +233,76 @@ export interface UserCaseAttempt {
   assessment_id: string | null; // UUID, references assessments
   hints_used: number;
   feedback_viewed: boolean;
+  stage_results?: StageAttemptResult[] | null; // JSONB, one entry per stage of a longitudinal case
+  case_revision_id?: string | null; // UUID, references case_revisions; the revision the learner saw
+  started_at?: string | null; // ISO timestamp, set by the database; null when the attempt was not timed by it
+  created_at: string; // ISO timestamp
+}
+
+export interface UserCaseBookmark {
+  user_id: string; // UUID, references profiles
+  case_id: string; // UUID, references cases
+  created_at: string; // ISO timestamp
+}
+
+/** Every learner's first attempt at a published case, aggregated (view) */
+export interface CaseDifficultyStats {
+  case_id: string; // UUID, references cases
+  learner_count: number;
+  mean_score: number; // 0-100
+}
+
+export interface StageAttemptResult {
+  stage_id: string;
+  selected_imaging: string[]; // imaging_option IDs
+  acr_rating: number | null; // 1-9
+  score: number; // 0-100
+  is_correct: boolean;
+}
+
+// Editable case fields snapshotted by each revision
+export type CaseRevisionContent = Omit<
+  Case,
+  "id" | "is_published" | "published_revision_id" | "created_at" | "updated_at"
+> & {
+  imaging_ratings: StageImagingRating[];
+};
+
+export interface CaseFieldChange {
+  field: string; // Case field, or "imaging_ratings.<imaging_option_id>"
+  before: unknown; // undefined when added
+  after: unknown; // undefined when removed
+}
+
+export interface CaseRevision {
+  id: string; // UUID
+  case_id: string; // UUID, references cases
+  revision_number: number; // 1-based, per case
+  status: CaseRevisionStatus;
+  content: CaseRevisionContent; // JSONB
+  diff: CaseFieldChange[]; // JSONB, changes from the previous revision
+  change_summary: string | null;
+  author_id: string; // UUID, references profiles
+  approver_id: string | null; // UUID, references profiles
+  submitted_at: string | null; // ISO timestamp
+  approved_at: string | null; // ISO timestamp
+  published_at: string | null; // ISO timestamp
+  retired_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+  updated_at: string; // ISO timestamp
+}
+
+export interface CaseRevisionComment {
+  id: string; // UUID
+  revision_id: string; // UUID, references case_revisions
+  author_id: string; // UUID, references profiles
+  body: string;
   created_at: string; // ISO timestamp
 }
 
 export interface Assessment {
   id: string; // UUID
+  slug: string | null; // Built-in assessments, e.g. "quick-quiz"
   title: string;
   description: string;
   case_ids: string[]; // UUID[] of case IDs
@@ -207,6 +312,7 @@ export interface Assessment {
   difficulty: DifficultyLevel | null;
   is_published: boolean;
   is_custom: boolean;
+  is_proctored: boolean;
   created_by: string | null; // UUID, references profiles
   created_at: string; // ISO timestamp
   updated_at: string; // ISO timestamp
@@ -222,12 +328,56 @@ export interface UserAssessment {
   passed: boolean | null;
   started_at: string | null; // ISO timestamp
   completed_at: string | null; // ISO timestamp
-  time_remaining_seconds: number | null;
+  time_remaining_seconds: number | null; // As of the last save
   answers: AssessmentAnswer[]; // JSONB
+  case_ids: string[]; // UUID[], cases drawn for this sitting in order
+  deadline_at: string | null; // ISO timestamp, set by the database from started_at
+  is_proctored: boolean; // Copied from the assessment at start
+  session_id: string | null; // UUID of the browser session holding a proctored sitting
   created_at: string; // ISO timestamp
   updated_at: string; // ISO timestamp
 }
 
+export interface AssessmentIntegrityEvent {
+  id: string; // UUID
+  user_assessment_id: string; // UUID, references user_assessments
+  user_id: string; // UUID, references profiles
+  event_type: IntegrityEventType;
+  case_index: number | null;
+  session_id: string | null; // UUID
+  detail: Record<string, any>; // JSONB
+  occurred_at: string; // ISO timestamp, set by the database on insert
+  created_at: string; // ISO timestamp
+}
+
+export interface Certificate {
+  id: string; // UUID, printed on the certificate and used by /verify
+  user_id: string; // UUID, references profiles
+  track: SpecialtyTrack;
+  certificate_name: string;
+  recipient_name: string; // As printed, fixed at issue
+  user_assessment_id: string | null; // UUID, the passing sitting
+  issued_at: string; // ISO timestamp
+  signature: string; // Hex HMAC-SHA256 of the signed fields
+  revoked_at: string | null; // ISO timestamp
+  revoked_by: string | null; // UUID, references profiles
+  revocation_reason: string | null;
+  created_at: string; // ISO timestamp
+}
+
+/** What /verify can see of a certificate (verify_certificate) */
+export type CertificateVerification = Pick<
+  Certificate,
+  | "id"
+  | "track"
+  | "certificate_name"
+  | "recipient_name"
+  | "issued_at"
+  | "signature"
+  | "revoked_at"
+  | "revocation_reason"
+>;
+
 export interface Achievement {
   id: string; // UUID
   slug: string;
@@ -235,8 +385,8 @@ export interface Achievement {
   description: string;
   icon: string; // emoji or icon identifier
   category: AchievementCategory;
-  requirement_type: string; // e.g., "cases_completed", "streak_days"
-  requirement_value: number;
+  criteria: AchievementCriteria; // JSONB
+  points: number;
   is_active: boolean;
   created_at: string; // ISO timestamp
   updated_at: string; // ISO timestamp
@@ -250,6 +400,193 @@ export interface UserAchievement {
   metadata: Record<string, any> | null; // JSONB
 }
 
+/** Row of get_achievement_progress(), in the units of the achievement's criteria */
+export interface AchievementProgress {
+  achievement_id: string;
+  slug: string;
+  progress: number;
+  total: number;
+}
+
+/** Row of get_institution_benchmarks(); institution is null for the system-wide row */
+export interface InstitutionBenchmark {
+  institution: string | null;
+  learner_count: number;
+  mean_score: number; // 0-100
+  median_score: number; // 0-100
+  pass_rate: number; // 0-100
+}
+
+/** Row of get_analytics_overview(); previous_* cover the equally long period before */
+export interface AnalyticsOverview {
+  total_users: number;
+  new_users: number;
+  previous_new_users: number;
+  active_users: number;
+  previous_active_users: number;
+  daily_active_users: number;
+  weekly_active_users: number;
+  monthly_active_users: number;
+  attempts: number;
+  previous_attempts: number;
+  accuracy: number | null; // 0-100
+  previous_accuracy: number | null; // 0-100
+  avg_time_seconds: number | null;
+  total_time_seconds: number;
+  assessments_completed: number;
+  assessments_in_progress: number;
+  assessments_not_started: number;
+  assessments_abandoned: number;
+}
+
+/** Row of get_analytics_activity(), one per UTC day or week */
+export interface AnalyticsActivity {
+  bucket: string; // ISO date, start of the day or week
+  active_users: number;
+  weekly_active_users: number;
+  attempts: number;
+  registrations: number;
+}
+
+/** Row of get_analytics_breakdown() */
+export interface AnalyticsBreakdown {
+  dimension: "category" | "difficulty";
+  value: string; // CaseCategory or DifficultyLevel
+  attempts: number;
+  accuracy: number; // 0-100
+  avg_time_seconds: number;
+}
+
+/** Row of get_analytics_cases() */
+export interface AnalyticsCase {
+  ranking: "popular" | "hardest";
+  case_id: string; // UUID
+  title: string;
+  category: CaseCategory;
+  attempts: number;
+  accuracy: number; // 0-100
+  avg_score: number; // 0-100
+}
+
+/** Row of get_retention_cohorts(); week_offset 0 is the signup week */
+export interface RetentionCohort {
+  cohort_week: string; // ISO date, Monday of the signup week
+  cohort_size: number;
+  week_offset: number;
+  retained: number;
+}
+
+/** Row of get_analytics_score_distribution() and get_streak_distribution() */
+export interface AnalyticsBucket {
+  bucket: string;
+  learners: number;
+  streak_days?: number; // streak distribution only: total days in the bucket
+}
+
+/** Row of get_recent_activity() */
+export interface RecentActivity {
+  activity_type: "registration" | "case_completion" | "assessment_pass";
+  occurred_at: string; // ISO timestamp
+  user_name: string;
+  detail: string; // role, case title or assessment title
+  score: number | null;
+}
+
+/** A report generated on /admin/reports, with a snapshot of its rows */
+export interface GeneratedReport {
+  id: string; // UUID
+  report_id: "user-progress" | "assessment-results" | "category-performance" | "institutional-benchmarks";
+  format: "csv" | "pdf";
+  date_range: string; // week, month, quarter or year
+  period_start: string; // ISO timestamp
+  period_end: string; // ISO timestamp
+  row_count: number;
+  rows: Record<string, string | number | boolean | null>[]; // JSONB, keyed by report column
+  generated_by: string | null; // UUID, references profiles
+  created_at: string; // ISO timestamp
+}
+
+/** Row of get_user_progress_report() */
+export interface UserProgressReportRow {
+  user_id: string; // UUID
+  full_name: string;
+  email: string;
+  role: UserRole;
+  institution: string | null;
+  training_year: number | null;
+  attempts: number;
+  cases_attempted: number;
+  accuracy: number | null; // 0-100
+  avg_score: number | null; // 0-100
+  time_spent_seconds: number;
+  assessments_completed: number;
+  assessments_passed: number;
+  last_active_at: string | null; // ISO timestamp
+}
+
+/** Row of get_assessment_results_report(), one per completed sitting */
+export interface AssessmentResultsReportRow {
+  user_assessment_id: string; // UUID
+  full_name: string;
+  email: string;
+  institution: string | null;
+  assessment_title: string;
+  sitting: number; // 1 for the learner's first completed sitting
+  score: number | null; // 0-100
+  passing_score: number; // 0-100
+  passed: boolean | null;
+  started_at: string | null; // ISO timestamp
+  completed_at: string; // ISO timestamp
+  duration_seconds: number | null;
+}
+
+/** Row of get_category_performance_report() */
+export interface CategoryPerformanceReportRow {
+  category: CaseCategory;
+  cases_attempted: number;
+  learners: number;
+  attempts: number;
+  accuracy: number; // 0-100
+  avg_score: number; // 0-100
+  avg_time_seconds: number;
+  avg_hints: number;
+}
+
+export type AdminAuditAction =
+  | "invite"
+  | "role_change"
+  | "deactivate"
+  | "reactivate"
+  | "password_reset";
+
+/** An admin action on a user account, written by the admin route handlers */
+export interface AdminAuditEntry {
+  id: string; // UUID
+  actor_id: string | null; // UUID, references profiles
+  action: AdminAuditAction;
+  target_user_id: string | null; // UUID, references profiles
+  target_email: string;
+  details: Record<string, unknown>; // JSONB, e.g. { from, to } for a role change
+  created_at: string; // ISO timestamp
+}
+
+/** Row of search_admin_users() */
+export interface AdminUser extends Profile {
+  cases_completed: number; // distinct cases attempted
+  accuracy: number | null; // 0-100, null without attempts
+  last_active: string | null; // ISO timestamp
+  total_count: number; // matching users across all pages
+}
+
+/** Row of get_admin_user_summary() */
+export interface AdminUserSummary {
+  total_users: number;
+  active_today: number; // attempted a case in the last 24 hours
+  avg_accuracy: number | null; // 0-100
+  institutions: number;
+  deactivated: number;
+}
+
 export interface UserProgress {
   user_id: string; // UUID
   total_cases_attempted: number;
@@ -266,7 +603,7 @@ export interface UserProgress {
 // SUPABASE DATABASE TYPE
 // ============================================================================
 
-export interface Database {
+interface DatabaseDefinition {
   public: {
     Tables: {
       profiles: {
@@ -313,6 +650,37 @@ export interface Database {
           updated_at?: string;
         };
       };
+      case_revisions: {
+        Row: CaseRevision;
+        Insert: Omit<
+          CaseRevision,
+          | "id"
+          | "status"
+          | "approver_id"
+          | "submitted_at"
+          | "approved_at"
+          | "published_at"
+          | "retired_at"
+          | "created_at"
+          | "updated_at"
+        > & {
+          id?: string;
+          status?: CaseRevisionStatus;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<Omit<CaseRevision, "id" | "case_id" | "revision_number" | "created_at">> & {
+          updated_at?: string;
+        };
+      };
+      case_revision_comments: {
+        Row: CaseRevisionComment;
+        Insert: Omit<CaseRevisionComment, "id" | "created_at"> & {
+          id?: string;
+          created_at?: string;
+        };
+        Update: Partial<Pick<CaseRevisionComment, "body">>;
+      };
       user_case_attempts: {
         Row: UserCaseAttempt;
         Insert: Omit<UserCaseAttempt, "id" | "created_at"> & {
@@ -323,6 +691,13 @@ export interface Database {
           created_at?: string;
         };
       };
+      user_case_bookmarks: {
+        Row: UserCaseBookmark;
+        Insert: Omit<UserCaseBookmark, "created_at"> & {
+          created_at?: string;
+        };
+        Update: never;
+      };
       assessments: {
         Row: Assessment;
         Insert: Omit<Assessment, "id" | "created_at" | "updated_at"> & {
@@ -345,6 +720,25 @@ export interface Database {
           updated_at?: string;
         };
       };
+      assessment_integrity_events: {
+        Row: AssessmentIntegrityEvent;
+        Insert: Omit<AssessmentIntegrityEvent, "id" | "created_at" | "detail" | "occurred_at"> & {
+          id?: string;
+          detail?: Record<string, any>;
+        };
+        Update: never;
+      };
+      certificates: {
+        Row: Certificate;
+        Insert: Omit<
+          Certificate,
+          "issued_at" | "revoked_at" | "revoked_by" | "revocation_reason" | "created_at"
+        > & {
+          issued_at?: string;
+          created_at?: string;
+        };
+        Update: Partial<Pick<Certificate, "revoked_at" | "revocation_reason">>;
+      };
       achievements: {
         Row: Achievement;
         Insert: Omit<Achievement, "id" | "created_at" | "updated_at"> & {
@@ -363,11 +757,31 @@ export interface Database {
         };
         Update: Partial<Omit<UserAchievement, "id">>;
       };
+      generated_reports: {
+        Row: GeneratedReport;
+        Insert: Omit<GeneratedReport, "id" | "created_at"> & {
+          id?: string;
+          created_at?: string;
+        };
+        Update: never;
+      };
+      admin_audit_log: {
+        Row: AdminAuditEntry;
+        Insert: Omit<AdminAuditEntry, "id" | "created_at" | "details"> & {
+          id?: string;
+          details?: Record<string, unknown>;
+          created_at?: string;
+        };
+        Update: never;
+      };
     };
     Views: {
       user_progress: {
         Row: UserProgress;
       };
+      case_difficulty_stats: {
+        Row: CaseDifficultyStats;
+      };
     };
     Functions: {
       calculate_user_progress: {
@@ -376,6 +790,156 @@ export interface Database {
         };
         Returns: UserProgress;
       };
+      get_peer_comparison: {
+        Args: {
+          p_assessment_id: string;
+          p_same_training_year?: boolean;
+          p_same_role?: boolean;
+          p_same_specialty_track?: boolean;
+          p_same_institution?: boolean;
+        };
+        Returns: {
+          cohort_size: number | null;
+          suppressed: boolean;
+          percentile: number | null;
+          median: number | null;
+        }[];
+      };
+      claim_assessment_session: {
+        Args: {
+          p_user_assessment_id: string;
+          p_session_id: string;
+        };
+        Returns: UserAssessment;
+      };
+      save_assessment_sitting: {
+        Args: {
+          p_user_assessment_id: string;
+          p_session_id: string;
+          p_answers: AssessmentAnswer[];
+          p_current_case_index?: number | null;
+          p_complete?: boolean;
+        };
+        Returns: UserAssessment;
+      };
+      get_institution_benchmarks: {
+        Args: {
+          p_assessment_id?: string | null;
+          p_start?: string | null;
+          p_end?: string | null;
+        };
+        Returns: InstitutionBenchmark[];
+      };
+      verify_certificate: {
+        Args: {
+          p_certificate_id: string;
+        };
+        Returns: CertificateVerification[];
+      };
+      start_case_attempt: {
+        Args: {
+          p_case_id: string;
+        };
+        Returns: string;
+      };
+      get_achievement_progress: {
+        Args: Record<string, never>;
+        Returns: AchievementProgress[];
+      };
+      get_analytics_overview: {
+        Args: {
+          p_start: string;
+          p_end: string;
+        };
+        Returns: AnalyticsOverview[];
+      };
+      get_analytics_activity: {
+        Args: {
+          p_start: string;
+          p_end: string;
+          p_bucket?: "day" | "week";
+        };
+        Returns: AnalyticsActivity[];
+      };
+      get_analytics_breakdown: {
+        Args: {
+          p_start: string;
+          p_end: string;
+        };
+        Returns: AnalyticsBreakdown[];
+      };
+      get_analytics_cases: {
+        Args: {
+          p_start: string;
+          p_end: string;
+          p_min_attempts?: number;
+          p_limit?: number;
+        };
+        Returns: AnalyticsCase[];
+      };
+      get_analytics_score_distribution: {
+        Args: {
+          p_start: string;
+          p_end: string;
+        };
+        Returns: AnalyticsBucket[];
+      };
+      get_retention_cohorts: {
+        Args: {
+          p_start: string;
+          p_end: string;
+          p_weeks?: number;
+        };
+        Returns: RetentionCohort[];
+      };
+      get_streak_distribution: {
+        Args: {
+          p_start: string;
+          p_end: string;
+        };
+        Returns: AnalyticsBucket[];
+      };
+      get_recent_activity: {
+        Args: {
+          p_limit?: number;
+        };
+        Returns: RecentActivity[];
+      };
+      get_user_progress_report: {
+        Args: {
+          p_start: string;
+          p_end: string;
+        };
+        Returns: UserProgressReportRow[];
+      };
+      get_assessment_results_report: {
+        Args: {
+          p_start: string;
+          p_end: string;
+        };
+        Returns: AssessmentResultsReportRow[];
+      };
+      get_category_performance_report: {
+        Args: {
+          p_start: string;
+          p_end: string;
+        };
+        Returns: CategoryPerformanceReportRow[];
+      };
+      search_admin_users: {
+        Args: {
+          p_search?: string | null;
+          p_role?: UserRole | null;
+          p_institution?: string | null;
+          p_limit?: number;
+          p_offset?: number;
+        };
+        Returns: AdminUser[];
+      };
+      get_admin_user_summary: {
+        Args: Record<string, never>;
+        Returns: AdminUserSummary[];
+      };
     };
     Enums: {
       user_role: UserRole;
@@ -388,8 +952,39 @@ export interface Database {
       assessment_status: AssessmentStatus;
       achievement_category: AchievementCategory;
       clinical_pearl_category: ClinicalPearlCategory;
+      case_revision_status: CaseRevisionStatus;
+      integrity_event_type: IntegrityEventType;
       patient_sex: PatientSex;
       temperature_unit: TemperatureUnit;
     };
   };
-}
\ No newline at end of file
+}
+
+// supabase-js checks each row type against Record<string, unknown>, which
+// interfaces do not satisfy, and expects every table and view to list its
+// relationships. Database is the definition above in that shape.
+type Plain<T> = { [K in keyof T]: T[K] };
+
+type PublicSchema = DatabaseDefinition["public"];
+
+export type Database = {
+  public: {
+    Tables: {
+      [T in keyof PublicSchema["Tables"]]: {
+        Row: Plain<PublicSchema["Tables"][T]["Row"]>;
+        Insert: Plain<PublicSchema["Tables"][T]["Insert"]>;
+        Update: Plain<PublicSchema["Tables"][T]["Update"]>;
+        Relationships: [];
+      };
+    };
+    Views: {
+      [V in keyof PublicSchema["Views"]]: {
+        Row: Plain<PublicSchema["Views"][V]["Row"]>;
+        Relationships: [];
+      };
+    };
+    Functions: PublicSchema["Functions"];
+    Enums: PublicSchema["Enums"];
+    CompositeTypes: Record<string, never>;
+  };
+};
@@ -4,7 +4,7 @@ export * from "./database";
 // Re-export only non-conflicting types from other modules
 // These files have duplicate types - only export unique types
 
-// From cases.ts - PatientInfo (ImagingOption conflicts with AIIE types below)
+// From cases.ts - PatientInfo (ImagingOption conflicts with database.ts)
 export type { PatientInfo } from "./cases";
 
 // From assessments.ts - Question, AssessmentResult, Answer (Assessment conflicts with database.ts)
@@ -25,7 +25,8 @@ export interface User {
   onboardingComplete: boolean
 }
 
-export interface Case {
+// Legacy camelCase case shape; convert with fromLegacyCase in @/lib/cases
+export interface LegacyCase {
   id: string
   slug: string
   title: string
@@ -40,13 +41,13 @@ export interface Case {
   }
   hpi: string
   physicalExam: Record<string, string>
-  imagingOptions: ImagingOption[]
+  imagingOptions: LegacyImagingOption[]
   correctAnswer: string
   explanation: string
   teachingPoints: string[]
 }
 
-export interface ImagingOption {
+export interface LegacyImagingOption {
   id: string
   modality: string
   bodyPart: string
@@ -0,0 +1,11 @@
+-- ============================================================================
+-- ARKA-ED Case Decision Rules
+-- ============================================================================
+-- Stores structured inputs for validated clinical decision rules (PECARN,
+-- Canadian CT Head, Ottawa, NEXUS, Wells, PERC, HEART) on each case so the
+-- rule worksheet and AIIE factors can be computed after submission.
+-- Shape: [{ "rule": "ottawa-ankle", "input": { ... } }]
+-- ============================================================================
+
+ALTER TABLE cases
+  ADD COLUMN IF NOT EXISTS decision_rules JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,17 @@
+-- ============================================================================
+-- ARKA-ED Longitudinal Cases
+-- ============================================================================
+-- Cases may be split into ordered stages, each with its own vignette update,
+-- imaging ratings, revealed results, and outcome. Attempts record a score per
+-- stage alongside the pathway score.
+-- Stage shape: see CaseStage in src/types/database.ts
+-- ============================================================================
+
+ALTER TABLE cases
+  ADD COLUMN IF NOT EXISTS stages JSONB;
+
+ALTER TABLE user_case_attempts
+  ADD COLUMN IF NOT EXISTS stage_results JSONB;
+
+COMMENT ON COLUMN cases.stages IS 'Ordered decision points; NULL for single-snapshot cases';
+COMMENT ON COLUMN user_case_attempts.stage_results IS 'Per-stage selections and scores; score column holds the pathway score';
@@ -0,0 +1,288 @@
+-- ============================================================================
+-- ARKA-ED Case Revisions
+-- ============================================================================
+-- Every edit to a case is a revision that moves through
+--   draft -> in_review -> approved -> published -> retired
+-- (in_review and approved can be sent back to draft). Revisions store a full
+-- content snapshot, a field-level diff against the previous revision, the
+-- author and approver, and reviewer comments. Publishing a revision copies
+-- its content onto the cases row; attempts are pinned to the revision the
+-- learner saw.
+-- Content shape: see CaseRevisionContent in src/types/database.ts
+-- ============================================================================
+
+CREATE TYPE case_revision_status AS ENUM (
+  'draft',
+  'in_review',
+  'approved',
+  'published',
+  'retired'
+);
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE case_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL CHECK (revision_number > 0),
+  status case_revision_status NOT NULL DEFAULT 'draft',
+  content JSONB NOT NULL,
+  diff JSONB NOT NULL DEFAULT '[]',
+  change_summary TEXT,
+  author_id UUID NOT NULL REFERENCES profiles(id),
+  approver_id UUID REFERENCES profiles(id),
+  submitted_at TIMESTAMPTZ,
+  approved_at TIMESTAMPTZ,
+  published_at TIMESTAMPTZ,
+  retired_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(case_id, revision_number),
+  CHECK (approver_id IS NULL OR approver_id <> author_id)
+);
+
+CREATE TABLE case_revision_comments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  revision_id UUID NOT NULL REFERENCES case_revisions(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES profiles(id),
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE cases
+  ADD COLUMN IF NOT EXISTS published_revision_id UUID REFERENCES case_revisions(id) ON DELETE SET NULL;
+
+ALTER TABLE user_case_attempts
+  ADD COLUMN IF NOT EXISTS case_revision_id UUID REFERENCES case_revisions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN cases.published_revision_id IS 'Revision whose content the case row currently mirrors';
+COMMENT ON COLUMN user_case_attempts.case_revision_id IS 'Revision the learner saw; defaults to the published revision at insert';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX idx_case_revisions_case_id ON case_revisions(case_id, revision_number DESC);
+CREATE INDEX idx_case_revisions_status ON case_revisions(status);
+CREATE UNIQUE INDEX idx_case_revisions_one_published
+  ON case_revisions(case_id) WHERE status = 'published';
+CREATE INDEX idx_case_revision_comments_revision_id ON case_revision_comments(revision_id, created_at);
+CREATE INDEX idx_user_case_attempts_case_revision_id ON user_case_attempts(case_revision_id);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- New revisions always start as unreviewed drafts by the caller
+CREATE OR REPLACE FUNCTION prepare_case_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.status = 'draft';
+  NEW.author_id = COALESCE(auth.uid(), NEW.author_id);
+  NEW.approver_id = NULL;
+  NEW.submitted_at = NULL;
+  NEW.approved_at = NULL;
+  NEW.published_at = NULL;
+  NEW.retired_at = NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Enforce the revision state machine and stamp who/when on each transition
+CREATE OR REPLACE FUNCTION enforce_case_revision_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Authorship is fixed and the approver is only stamped by the approve
+  -- transition below
+  NEW.author_id = OLD.author_id;
+  NEW.approver_id = OLD.approver_id;
+
+  IF NEW.content IS DISTINCT FROM OLD.content AND OLD.status <> 'draft' THEN
+    RAISE EXCEPTION 'Revision % is %; only drafts can be edited', OLD.revision_number, OLD.status;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'draft' AND NEW.status = 'in_review') OR
+    (OLD.status = 'in_review' AND NEW.status IN ('draft', 'approved')) OR
+    (OLD.status = 'approved' AND NEW.status IN ('draft', 'published')) OR
+    (OLD.status = 'published' AND NEW.status = 'retired')
+  ) THEN
+    RAISE EXCEPTION 'Cannot move revision from % to %', OLD.status, NEW.status;
+  END IF;
+
+  CASE NEW.status
+    WHEN 'draft' THEN
+      NEW.submitted_at = NULL;
+      NEW.approved_at = NULL;
+      NEW.approver_id = NULL;
+    WHEN 'in_review' THEN
+      NEW.submitted_at = NOW();
+    WHEN 'approved' THEN
+      IF auth.uid() IS NOT NULL AND auth.uid() = OLD.author_id THEN
+        RAISE EXCEPTION 'Authors cannot approve their own revision';
+      END IF;
+      NEW.approver_id = auth.uid();
+      NEW.approved_at = NOW();
+    WHEN 'published' THEN
+      -- Retire the live revision first so the one-published index never
+      -- sees two
+      UPDATE case_revisions
+        SET status = 'retired'
+        WHERE case_id = NEW.case_id AND status = 'published' AND id <> NEW.id;
+      NEW.published_at = NOW();
+    WHEN 'retired' THEN
+      NEW.retired_at = NOW();
+  END CASE;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Mirror a published revision onto the case row and its imaging ratings
+CREATE OR REPLACE FUNCTION apply_case_revision_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  c cases%ROWTYPE;
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'published' THEN
+    c := jsonb_populate_record(NULL::cases, NEW.content);
+
+    UPDATE cases SET
+      slug = c.slug,
+      title = c.title,
+      chief_complaint = c.chief_complaint,
+      clinical_vignette = c.clinical_vignette,
+      patient_age = c.patient_age,
+      patient_sex = c.patient_sex,
+      patient_history = c.patient_history,
+      vital_signs = c.vital_signs,
+      physical_exam = c.physical_exam,
+      lab_results = c.lab_results,
+      category = c.category,
+      specialty_tags = c.specialty_tags,
+      difficulty = c.difficulty,
+      acr_topic = c.acr_topic,
+      optimal_imaging = c.optimal_imaging,
+      explanation = c.explanation,
+      teaching_points = c.teaching_points,
+      clinical_pearls = c.clinical_pearls,
+      hints = c.hints,
+      references = c.references,
+      decision_rules = COALESCE(c.decision_rules, '[]'),
+      stages = c.stages,
+      is_published = true,
+      published_revision_id = NEW.id
+    WHERE id = NEW.case_id;
+
+    DELETE FROM case_imaging_ratings WHERE case_id = NEW.case_id;
+    INSERT INTO case_imaging_ratings (case_id, imaging_option_id, acr_rating, rating_category, rationale, acr_reference)
+    SELECT NEW.case_id, r.imaging_option_id, r.acr_rating, r.rating_category, r.rationale, c.acr_topic
+    FROM jsonb_to_recordset(NEW.content->'imaging_ratings') AS r(
+      imaging_option_id UUID,
+      acr_rating INTEGER,
+      rating_category acr_category,
+      rationale TEXT
+    );
+  ELSIF NEW.status = 'retired' THEN
+    -- Retiring without a replacement takes the case offline
+    UPDATE cases SET is_published = false
+      WHERE id = NEW.case_id AND published_revision_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Pin attempts to the revision that was live when they were recorded
+CREATE OR REPLACE FUNCTION pin_attempt_case_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.case_revision_id IS NULL THEN
+    SELECT published_revision_id INTO NEW.case_revision_id
+      FROM cases WHERE id = NEW.case_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_case_revisions_updated_at
+  BEFORE UPDATE ON case_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER prepare_case_revision
+  BEFORE INSERT ON case_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_case_revision();
+
+CREATE TRIGGER enforce_case_revision_transition
+  BEFORE UPDATE ON case_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_case_revision_transition();
+
+CREATE TRIGGER apply_case_revision_status
+  AFTER UPDATE OF status ON case_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_case_revision_status();
+
+CREATE TRIGGER pin_attempt_case_revision
+  BEFORE INSERT ON user_case_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION pin_attempt_case_revision();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+ALTER TABLE case_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE case_revision_comments ENABLE ROW LEVEL SECURITY;
+
+-- Learners can load the revision an attempt is pinned to
+CREATE POLICY "Anyone can view published and retired revisions"
+  ON case_revisions FOR SELECT
+  USING (status IN ('published', 'retired'));
+
+CREATE POLICY "Admins can manage case revisions"
+  ON case_revisions FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can view revision comments"
+  ON case_revision_comments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can comment as themselves"
+  ON case_revision_comments FOR INSERT
+  WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
@@ -0,0 +1,29 @@
+-- ============================================================================
+-- ARKA-ED Case Bookmarks
+-- ============================================================================
+-- Cases a learner saved to their study list. Bookmarked cases join the
+-- spaced-repetition review queue alongside missed and low-scoring cases;
+-- the schedule itself is replayed from user_case_attempts and not stored.
+-- See src/lib/utils/spaced-repetition.ts
+-- ============================================================================
+
+CREATE TABLE user_case_bookmarks (
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, case_id)
+);
+
+-- Review queue reads a learner's attempts in order
+CREATE INDEX IF NOT EXISTS idx_user_case_attempts_user_case_created
+  ON user_case_attempts(user_id, case_id, created_at);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+ALTER TABLE user_case_bookmarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own bookmarks"
+  ON user_case_bookmarks FOR ALL
+  USING (auth.uid() = user_id);
@@ -0,0 +1,39 @@
+-- ============================================================================
+-- ARKA-ED Case Difficulty Calibration
+-- ============================================================================
+-- Aggregates every learner's first attempt at each published case, so case
+-- difficulty can be calibrated from everyone's results without exposing
+-- other learners' attempts. Repeat attempts are left out because practice
+-- inflates them. Cases with fewer learners than the k-anonymity threshold
+-- are left out, so one learner's score cannot be read off a small cohort.
+-- See src/lib/utils/adaptive-difficulty.ts
+-- ============================================================================
+
+-- k-anonymity threshold; keep in sync with K_ANONYMITY in percentiles.ts
+CREATE OR REPLACE FUNCTION cohort_min_size()
+RETURNS INTEGER AS $$
+  SELECT 10
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Views run with the owner's privileges, so learners see the aggregate even
+-- though RLS limits user_case_attempts to their own rows
+CREATE VIEW case_difficulty_stats AS
+WITH first_attempts AS (
+  SELECT DISTINCT ON (user_id, case_id)
+    user_id,
+    case_id,
+    score
+  FROM user_case_attempts
+  ORDER BY user_id, case_id, created_at
+)
+SELECT
+  fa.case_id,
+  COUNT(*)::INTEGER AS learner_count,
+  ROUND(AVG(fa.score), 2)::NUMERIC AS mean_score
+FROM first_attempts fa
+JOIN cases c ON c.id = fa.case_id
+WHERE c.is_published = true
+GROUP BY fa.case_id
+HAVING COUNT(*) >= cohort_min_size();
+
+GRANT SELECT ON case_difficulty_stats TO authenticated;
@@ -0,0 +1,32 @@
+-- ============================================================================
+-- ARKA-ED Assessment Item Analysis
+-- ============================================================================
+-- Item analysis (p-values, point-biserial discrimination, distractors and
+-- KR-20 reliability) is computed in the admin panel from every learner's
+-- completed sittings, so admins need to read all sittings and the case
+-- attempts recorded during them. See src/lib/utils/psychometrics.ts
+-- ============================================================================
+
+CREATE POLICY "Admins can view all assessment sittings"
+  ON user_assessments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can view all case attempts"
+  ON user_case_attempts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Item analysis reads the attempts recorded during each assessment
+CREATE INDEX IF NOT EXISTS idx_user_assessments_assessment_status
+  ON user_assessments(assessment_id, status);
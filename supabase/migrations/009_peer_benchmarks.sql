@@ -0,0 +1,146 @@
+-- ============================================================================
+-- ARKA-ED Peer Benchmarks
+-- ============================================================================
+-- Percentile ranks and institutional benchmarks from completed assessment
+-- sittings the database scored (those with a drawn form; older sittings
+-- carry only the client's score). Each learner counts once, by their first
+-- completed sitting, so retakes do not skew the distribution. Cohorts with
+-- fewer learners than the k-anonymity threshold are suppressed here, in the
+-- database, and learners receive only aggregates and their own percentile,
+-- never the scores behind them. See src/lib/utils/percentiles.ts
+-- ============================================================================
+
+-- The caller's standing among peers who completed an assessment, optionally
+-- narrowed to peers who share the caller's own training year, role,
+-- specialty track or institution. The caller is placed by their first
+-- completed sitting, the one counted in the distribution. Only the cohort
+-- size, the caller's percentile and the median leave the database, never
+-- individual scores, so overlapping cohorts cannot be subtracted to expose
+-- one learner. Suppressed cohorts return only the flag.
+CREATE OR REPLACE FUNCTION get_peer_comparison(
+  p_assessment_id TEXT,
+  p_same_training_year BOOLEAN DEFAULT FALSE,
+  p_same_role BOOLEAN DEFAULT FALSE,
+  p_same_specialty_track BOOLEAN DEFAULT FALSE,
+  p_same_institution BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  cohort_size INTEGER,
+  suppressed BOOLEAN,
+  percentile INTEGER,
+  median NUMERIC
+) AS $$
+  WITH me AS (
+    SELECT p.training_year, p.role, p.specialty_track, p.institution
+    FROM profiles p
+    WHERE p.id = auth.uid()
+  ),
+  first_sittings AS (
+    SELECT DISTINCT ON (ua.user_id)
+      ua.user_id,
+      ua.score
+    FROM user_assessments ua
+    WHERE ua.assessment_id::TEXT = p_assessment_id
+      AND ua.status = 'completed'
+      AND ua.score IS NOT NULL
+      AND cardinality(ua.case_ids) > 0
+    ORDER BY ua.user_id, ua.completed_at
+  ),
+  own AS (
+    SELECT fs.score FROM first_sittings fs WHERE fs.user_id = auth.uid()
+  ),
+  cohort AS (
+    SELECT fs.score
+    FROM first_sittings fs
+    JOIN profiles p ON p.id = fs.user_id
+    CROSS JOIN me
+    WHERE (NOT p_same_training_year OR p.training_year = me.training_year)
+      AND (NOT p_same_role OR p.role = me.role)
+      AND (NOT p_same_specialty_track OR p.specialty_track = me.specialty_track)
+      AND (NOT p_same_institution OR lower(p.institution) = lower(me.institution))
+  ),
+  stats AS (
+    SELECT
+      COUNT(*) AS learners,
+      -- Mid-rank: ties count as half
+      COUNT(*) FILTER (WHERE c.score < (SELECT o.score FROM own o))
+        + COUNT(*) FILTER (WHERE c.score = (SELECT o.score FROM own o)) / 2.0 AS rank,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY c.score) AS median_score
+    FROM cohort c
+  )
+  SELECT
+    CASE WHEN s.learners >= cohort_min_size() THEN s.learners::INTEGER END,
+    s.learners < cohort_min_size(),
+    CASE WHEN s.learners >= cohort_min_size() AND EXISTS (SELECT 1 FROM own)
+      THEN ROUND(100.0 * s.rank / s.learners)::INTEGER END,
+    CASE WHEN s.learners >= cohort_min_size() THEN s.median_score::NUMERIC END
+  FROM stats s;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Per-institution results against the system-wide row (institution NULL).
+-- Admins only; institutions below the threshold are left out.
+CREATE OR REPLACE FUNCTION get_institution_benchmarks(
+  p_assessment_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  institution TEXT,
+  learner_count INTEGER,
+  mean_score NUMERIC,
+  median_score NUMERIC,
+  pass_rate NUMERIC
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view institutional benchmarks';
+  END IF;
+
+  RETURN QUERY
+  WITH first_sittings AS (
+    SELECT DISTINCT ON (ua.user_id, ua.assessment_id)
+      ua.user_id,
+      ua.score,
+      ua.passed
+    FROM user_assessments ua
+    WHERE (p_assessment_id IS NULL OR ua.assessment_id::TEXT = p_assessment_id)
+      AND ua.status = 'completed'
+      AND ua.score IS NOT NULL
+      AND cardinality(ua.case_ids) > 0
+    ORDER BY ua.user_id, ua.assessment_id, ua.completed_at
+  ),
+  scored AS (
+    SELECT NULLIF(trim(p.institution), '') AS institution, fs.user_id, fs.score, fs.passed
+    FROM first_sittings fs
+    JOIN profiles p ON p.id = fs.user_id
+  ),
+  grouped AS (
+    SELECT
+      s.institution,
+      COUNT(DISTINCT s.user_id)::INTEGER AS learners,
+      ROUND(AVG(s.score), 1) AS mean,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY s.score)::NUMERIC AS median,
+      ROUND(100.0 * AVG(CASE WHEN s.passed THEN 1 ELSE 0 END), 1) AS pass_rate
+    FROM scored s
+    WHERE s.institution IS NOT NULL
+    GROUP BY s.institution
+    UNION ALL
+    SELECT
+      NULL,
+      COUNT(DISTINCT s.user_id)::INTEGER,
+      ROUND(AVG(s.score), 1),
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY s.score)::NUMERIC,
+      ROUND(100.0 * AVG(CASE WHEN s.passed THEN 1 ELSE 0 END), 1)
+    FROM scored s
+  )
+  SELECT g.institution, g.learners, g.mean, g.median, g.pass_rate
+  FROM grouped g
+  WHERE g.learners >= cohort_min_size()
+  ORDER BY g.institution NULLS FIRST;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_peer_comparison TO authenticated;
+GRANT EXECUTE ON FUNCTION get_institution_benchmarks TO authenticated;
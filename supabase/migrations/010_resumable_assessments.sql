@@ -0,0 +1,318 @@
+-- ============================================================================
+-- ARKA-ED Resumable Assessments
+-- ============================================================================
+-- Assessment sittings are saved answer by answer and can be resumed after a
+-- reload. The deadline is fixed by the database from started_at when the
+-- sitting is created; clients only display it. Writes that arrive after the
+-- deadline are dropped and the sitting is completed with the answers saved
+-- in time, and sittings whose learner never came back are completed every
+-- minute by pg_cron. Answers to cases already left behind are final. Each
+-- saved answer is scored here from the case's imaging ratings, whatever
+-- score the client sent, and so is the sitting.
+-- See src/lib/supabase/assessment-sittings.ts
+-- ============================================================================
+
+-- Built-in assessments (quick quiz, specialty, full exam) are addressed by
+-- slug from the client so sittings can reference them
+ALTER TABLE assessments
+  ADD COLUMN IF NOT EXISTS slug TEXT UNIQUE;
+
+INSERT INTO assessments (slug, title, description, time_limit_minutes, passing_score, specialty_track, is_published)
+VALUES
+  ('quick-quiz', 'Quick Quiz', 'Random selection across all categories. Good for daily practice.', 15, 70, NULL, true),
+  ('specialty-em', 'Emergency Medicine Assessment', 'Comprehensive Emergency Medicine imaging scenarios covering trauma, chest pain, abdominal pain, and more.', 30, 75, 'em', true),
+  ('specialty-im', 'Internal Medicine Assessment', 'Internal Medicine imaging appropriateness across multiple organ systems.', 30, 75, 'im', true),
+  ('specialty-fm', 'Family Medicine Assessment', 'Primary care imaging scenarios for common presentations.', 30, 75, 'fm', true),
+  ('specialty-surgery', 'Surgery Assessment', 'Surgical imaging scenarios including pre-operative and post-operative evaluations.', 30, 75, 'surgery', true),
+  ('specialty-peds', 'Pediatric Assessment', 'Pediatric imaging appropriateness with radiation safety considerations.', 30, 75, 'peds', true),
+  ('full-exam', 'Full Exam', 'Simulates board-style questioning with all categories weighted appropriately.', 60, 70, NULL, true)
+ON CONFLICT (slug) DO NOTHING;
+
+-- The cases drawn for a sitting, in order, and its deadline
+ALTER TABLE user_assessments
+  ADD COLUMN IF NOT EXISTS case_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS deadline_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_user_assessments_in_progress_deadline
+  ON user_assessments(deadline_at) WHERE status = 'in_progress';
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Answers sent just before the deadline may still be in flight when it passes
+CREATE OR REPLACE FUNCTION assessment_deadline_grace()
+RETURNS INTERVAL AS $$
+  SELECT INTERVAL '10 seconds'
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Score an imaging selection for a case the way scoreImagingSelection does
+-- (src/lib/utils/imaging-score.ts): credit for the best-rated study, minus
+-- deductions for every add-on by its rating, radiation and cost, for
+-- ordering studies alongside "no imaging", and for hints. Unrated studies
+-- count as ACR 1.
+CREATE OR REPLACE FUNCTION score_imaging_selection(
+  p_case_id UUID,
+  p_selected TEXT[],
+  p_hints_used INTEGER DEFAULT 0
+)
+RETURNS TABLE (score INTEGER, is_correct BOOLEAN, acr_rating INTEGER) AS $$
+DECLARE
+  v_optimal UUID[];
+  v_studies TEXT[];
+  v_candidates TEXT[];
+  v_primary_acr INTEGER;
+  v_deduction NUMERIC := 0;
+  v_penalized BOOLEAN := FALSE;
+  v_study RECORD;
+BEGIN
+  SELECT c.optimal_imaging INTO v_optimal FROM cases c WHERE c.id = p_case_id;
+
+  p_selected = COALESCE(p_selected, '{}');
+  v_studies = array_remove(p_selected, 'no-imaging');
+  IF 'no-imaging' = ANY(p_selected) AND cardinality(v_studies) > 0 THEN
+    v_deduction = v_deduction + 10;
+    v_penalized = TRUE;
+  END IF;
+
+  -- Credit goes to the best-rated choice, the earliest on a tie; everything
+  -- else is an add-on
+  v_candidates = CASE WHEN cardinality(v_studies) > 0 THEN v_studies ELSE p_selected END;
+  FOR v_study IN
+    SELECT
+      COALESCE(
+        cir.acr_rating,
+        -- Older cases mark "no imaging" as optimal with an empty optimal list
+        CASE WHEN s.option_id = 'no-imaging' AND cardinality(v_optimal) = 0 THEN 9 ELSE 1 END
+      ) AS acr,
+      COALESCE(io.radiation_msv, 0) AS radiation_msv,
+      COALESCE(io.typical_cost_usd, 0) AS cost_usd
+    FROM unnest(v_candidates) WITH ORDINALITY AS s(option_id, draw_order)
+    LEFT JOIN case_imaging_ratings cir
+      ON cir.case_id = p_case_id AND cir.imaging_option_id::TEXT = s.option_id
+    LEFT JOIN imaging_options io ON io.id::TEXT = s.option_id
+    ORDER BY 1 DESC, s.draw_order
+  LOOP
+    IF v_primary_acr IS NULL THEN
+      v_primary_acr = v_study.acr;
+      CONTINUE;
+    END IF;
+
+    v_deduction = v_deduction + ROUND(5 + (9 - v_study.acr) * 1.5, 1);
+    v_penalized = v_penalized OR v_study.acr < 7;
+    IF v_study.radiation_msv > 0 THEN
+      v_deduction = v_deduction + ROUND(LEAST(v_study.radiation_msv, 10), 1);
+    END IF;
+    IF v_study.cost_usd > 0 THEN
+      v_deduction = v_deduction + ROUND(LEAST(v_study.cost_usd / 500.0, 5), 1);
+    END IF;
+  END LOOP;
+
+  v_deduction = v_deduction + GREATEST(COALESCE(p_hints_used, 0), 0) * 5;
+
+  score = GREATEST(0, LEAST(100, ROUND(
+    COALESCE(ROUND(v_primary_acr / 9.0 * 100), 0) - ROUND(v_deduction, 1)
+  )))::INTEGER;
+  is_correct = COALESCE(v_primary_acr, 0) >= 7 AND NOT v_penalized;
+  acr_rating = v_primary_acr;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- A sitting's answers, one per drawn case in draw order (the first answer
+-- sent for each), with score, is_correct and acr_rating_received set by
+-- score_imaging_selection(). Answers to cases outside the sitting are dropped.
+CREATE OR REPLACE FUNCTION score_assessment_answers(p_case_ids UUID[], p_answers JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      a.answer || jsonb_build_object(
+        'score', s.score,
+        'is_correct', s.is_correct,
+        'acr_rating_received', s.acr_rating
+      )
+      ORDER BY a.draw_order
+    ),
+    '[]'::JSONB
+  )
+  FROM (
+    SELECT DISTINCT ON (c.draw_order) c.case_id, c.draw_order, ans.value AS answer
+    FROM unnest(p_case_ids) WITH ORDINALITY AS c(case_id, draw_order)
+    JOIN jsonb_array_elements(COALESCE(p_answers, '[]'::JSONB)) WITH ORDINALITY AS ans(value, idx)
+      ON ans.value ->> 'case_id' = c.case_id::TEXT
+    ORDER BY c.draw_order, ans.idx
+  ) a
+  CROSS JOIN LATERAL score_imaging_selection(
+    a.case_id,
+    ARRAY(SELECT jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(a.answer -> 'selected_imaging') = 'array'
+        THEN a.answer -> 'selected_imaging' ELSE '[]'::JSONB END
+    )),
+    CASE WHEN jsonb_typeof(a.answer -> 'hints_used') = 'number'
+      THEN (a.answer ->> 'hints_used')::NUMERIC::INTEGER ELSE 0 END
+  ) s
+$$ LANGUAGE sql STABLE;
+
+-- Sittings are created in progress, with the clock started on the server
+-- and nothing answered or scored, whatever the client sent
+CREATE OR REPLACE FUNCTION set_assessment_deadline()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_limit INTEGER;
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'in_progress' THEN
+    RAISE EXCEPTION 'Assessment sittings must be created in progress';
+  END IF;
+
+  SELECT time_limit_minutes INTO v_limit FROM assessments WHERE id = NEW.assessment_id;
+
+  NEW.started_at = NOW();
+  NEW.completed_at = NULL;
+  NEW.score = NULL;
+  NEW.passed = NULL;
+  NEW.current_case_index = 0;
+  NEW.answers = '[]'::JSONB;
+  NEW.deadline_at = CASE WHEN v_limit IS NULL THEN NULL ELSE NEW.started_at + make_interval(mins => v_limit) END;
+  NEW.time_remaining_seconds = v_limit * 60;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keep the clock and case order fixed, drop late answers, score saved
+-- answers, finish overdue sittings and score completed ones. Score, passed
+-- and the deadline are never written by clients.
+CREATE OR REPLACE FUNCTION enforce_assessment_deadline()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_passing_score INTEGER;
+  v_total INTEGER;
+  v_overdue BOOLEAN;
+BEGIN
+  IF OLD.status = 'completed' THEN
+    RAISE EXCEPTION 'Assessment sitting % is already completed', OLD.id;
+  END IF;
+
+  IF NEW.score IS DISTINCT FROM OLD.score
+    OR NEW.passed IS DISTINCT FROM OLD.passed
+    OR NEW.deadline_at IS DISTINCT FROM OLD.deadline_at THEN
+    RAISE EXCEPTION 'Score, passed and deadline of assessment sitting % are set by the database', OLD.id;
+  END IF;
+
+  NEW.user_id = OLD.user_id;
+  NEW.assessment_id = OLD.assessment_id;
+  NEW.started_at = OLD.started_at;
+  NEW.deadline_at = OLD.deadline_at;
+  NEW.case_ids = OLD.case_ids;
+  -- No back navigation
+  NEW.current_case_index = GREATEST(OLD.current_case_index, NEW.current_case_index);
+
+  v_overdue = OLD.deadline_at IS NOT NULL AND NOW() > OLD.deadline_at + assessment_deadline_grace();
+  IF v_overdue THEN
+    NEW.answers = OLD.answers;
+    NEW.status = 'completed';
+  END IF;
+  NEW.answers = score_assessment_answers(OLD.case_ids, NEW.answers);
+
+  -- Answers to cases before the one the learner is on are final
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(OLD.answers) AS o
+    WHERE array_position(OLD.case_ids, (o ->> 'case_id')::UUID) <= OLD.current_case_index
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(NEW.answers) AS n
+        WHERE n ->> 'case_id' = o ->> 'case_id'
+          AND n -> 'selected_imaging' IS NOT DISTINCT FROM o -> 'selected_imaging'
+          AND n -> 'hints_used' IS NOT DISTINCT FROM o -> 'hints_used'
+      )
+  ) THEN
+    RAISE EXCEPTION 'Answers to earlier cases cannot be changed';
+  END IF;
+
+  IF NEW.status <> 'completed' THEN
+    NEW.score = NULL;
+    NEW.passed = NULL;
+    NEW.time_remaining_seconds = CASE
+      WHEN OLD.deadline_at IS NULL THEN NULL
+      ELSE GREATEST(0, EXTRACT(EPOCH FROM OLD.deadline_at - NOW()))::INTEGER
+    END;
+    RETURN NEW;
+  END IF;
+
+  -- Unanswered cases count as zero
+  SELECT passing_score INTO v_passing_score FROM assessments WHERE id = OLD.assessment_id;
+  v_total = GREATEST(COALESCE(array_length(OLD.case_ids, 1), 0), 1);
+
+  SELECT ROUND(COALESCE(SUM((a ->> 'score')::NUMERIC), 0) / v_total)::INTEGER
+    INTO NEW.score
+    FROM jsonb_array_elements(NEW.answers) AS a;
+
+  NEW.passed = NEW.score >= v_passing_score;
+  NEW.completed_at = CASE WHEN v_overdue THEN OLD.deadline_at ELSE NOW() END;
+  NEW.time_remaining_seconds = CASE
+    WHEN OLD.deadline_at IS NULL THEN NULL
+    ELSE GREATEST(0, EXTRACT(EPOCH FROM OLD.deadline_at - NEW.completed_at))::INTEGER
+  END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Complete every overdue sitting, including ones whose learner never came
+-- back. Run every minute by the job scheduled below.
+CREATE OR REPLACE FUNCTION complete_overdue_assessments()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE user_assessments
+    SET status = 'completed'
+    WHERE status = 'in_progress'
+      AND deadline_at IS NOT NULL
+      AND NOW() > deadline_at + assessment_deadline_grace();
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER set_assessment_deadline
+  BEFORE INSERT ON user_assessments
+  FOR EACH ROW
+  EXECUTE FUNCTION set_assessment_deadline();
+
+CREATE TRIGGER enforce_assessment_deadline
+  BEFORE UPDATE ON user_assessments
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_assessment_deadline();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Sittings are created by the sittings route with the service role, which
+-- assembles the form itself (src/app/api/assessments/sittings/route.ts), so
+-- learners cannot pick their own cases. They still save their own answers.
+DROP POLICY IF EXISTS "Users can manage own assessments" ON user_assessments;
+
+CREATE POLICY "Users can view own assessments"
+  ON user_assessments FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own assessments"
+  ON user_assessments FOR UPDATE
+  USING (auth.uid() = user_id);
+
+REVOKE EXECUTE ON FUNCTION complete_overdue_assessments FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- SCHEDULED JOBS
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'complete-overdue-assessments',
+  '* * * * *',
+  'SELECT public.complete_overdue_assessments()'
+);
@@ -0,0 +1,256 @@
+-- ============================================================================
+-- ARKA-ED Proctored Assessments
+-- ============================================================================
+-- Assessments can be marked proctored. A proctored sitting records integrity
+-- events (tab switches, window blur, copy/paste, fullscreen exits) for
+-- faculty review and is bound to one browser session at a time, and a
+-- learner may only have one proctored sitting in progress. Learners write sittings through save_assessment_sitting(),
+-- which carries the browser session every write is checked against.
+-- See src/lib/utils/integrity.ts
+-- ============================================================================
+
+CREATE TYPE integrity_event_type AS ENUM (
+  'visibility_hidden',
+  'visibility_visible',
+  'window_blur',
+  'window_focus',
+  'copy',
+  'paste',
+  'fullscreen_enter',
+  'fullscreen_exit',
+  'back_navigation',
+  'session_takeover'
+);
+
+ALTER TABLE assessments
+  ADD COLUMN IF NOT EXISTS is_proctored BOOLEAN NOT NULL DEFAULT false;
+
+-- Copied from the assessment when the sitting starts so later changes to
+-- the assessment do not change the rules mid-sitting
+ALTER TABLE user_assessments
+  ADD COLUMN IF NOT EXISTS is_proctored BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS session_id UUID;
+
+CREATE TABLE assessment_integrity_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_assessment_id UUID NOT NULL REFERENCES user_assessments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  event_type integrity_event_type NOT NULL,
+  case_index INTEGER CHECK (case_index IS NULL OR case_index >= 0),
+  session_id UUID,
+  detail JSONB NOT NULL DEFAULT '{}',
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_assessment_integrity_events_sitting
+  ON assessment_integrity_events(user_assessment_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_user_assessments_proctored_in_progress
+  ON user_assessments(user_id) WHERE status = 'in_progress' AND is_proctored;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Copy the proctoring flag and allow one proctored sitting in progress
+CREATE OR REPLACE FUNCTION start_proctored_sitting()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT is_proctored INTO NEW.is_proctored FROM assessments WHERE id = NEW.assessment_id;
+  NEW.is_proctored = COALESCE(NEW.is_proctored, false);
+
+  IF NEW.is_proctored AND NEW.status = 'in_progress' AND EXISTS (
+    SELECT 1 FROM user_assessments
+    WHERE user_id = NEW.user_id
+      AND status = 'in_progress'
+      AND (is_proctored OR assessment_id = NEW.assessment_id)
+  ) THEN
+    RAISE EXCEPTION 'Finish the assessment already in progress before starting a proctored one';
+  END IF;
+
+  IF NEW.is_proctored AND NEW.session_id IS NULL THEN
+    RAISE EXCEPTION 'Proctored sittings must be started from a browser session';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Integrity events are timed by the server as they arrive, whatever the
+-- client sent. The clock advances within a batch, so events keep the order
+-- they were recorded in.
+CREATE OR REPLACE FUNCTION stamp_integrity_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.occurred_at = clock_timestamp();
+  NEW.created_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reject learner writes that do not come from the session holding the
+-- sitting. The session is set by save_assessment_sitting() and only moved by
+-- claim_assessment_session(); writes with no learner behind them (the
+-- service role, complete_overdue_assessments()) are not bound to one.
+CREATE OR REPLACE FUNCTION enforce_proctored_sitting()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_claiming BOOLEAN := current_setting('arka_ed.claiming_session', true) IS NOT DISTINCT FROM 'on';
+BEGIN
+  NEW.is_proctored = OLD.is_proctored;
+  IF NOT v_claiming THEN
+    NEW.session_id = OLD.session_id;
+  END IF;
+  IF NOT OLD.is_proctored THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT v_claiming
+    AND auth.uid() IS NOT NULL
+    AND current_setting('arka_ed.sitting_session', true) IS DISTINCT FROM OLD.session_id::TEXT THEN
+    RAISE EXCEPTION 'This assessment is open in another session';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move a proctored sitting to a new browser session, e.g. after the
+-- learner's browser crashed. The old session is locked out and the
+-- takeover is logged for review.
+CREATE OR REPLACE FUNCTION claim_assessment_session(
+  p_user_assessment_id UUID,
+  p_session_id UUID
+)
+RETURNS user_assessments AS $$
+DECLARE
+  v_sitting user_assessments;
+  v_previous_session UUID;
+BEGIN
+  SELECT * INTO v_sitting FROM user_assessments
+    WHERE id = p_user_assessment_id AND user_id = auth.uid() AND status = 'in_progress';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No assessment in progress to resume';
+  END IF;
+
+  IF v_sitting.session_id IS DISTINCT FROM p_session_id THEN
+    v_previous_session = v_sitting.session_id;
+    PERFORM set_config('arka_ed.claiming_session', 'on', true);
+    UPDATE user_assessments SET session_id = p_session_id
+      WHERE id = p_user_assessment_id
+      RETURNING * INTO v_sitting;
+    PERFORM set_config('arka_ed.claiming_session', 'off', true);
+
+    INSERT INTO assessment_integrity_events
+      (user_assessment_id, user_id, event_type, case_index, session_id, detail)
+    VALUES (
+      p_user_assessment_id, auth.uid(), 'session_takeover', v_sitting.current_case_index,
+      p_session_id, jsonb_build_object('previous_session_id', v_previous_session)
+    );
+  END IF;
+
+  RETURN v_sitting;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Save a sitting's answers and the case to resume at, or complete it, from
+-- the given browser session. Proctored sittings only accept the session
+-- holding them. Returns the sitting, which comes back completed if the
+-- deadline had already passed.
+CREATE OR REPLACE FUNCTION save_assessment_sitting(
+  p_user_assessment_id UUID,
+  p_session_id UUID,
+  p_answers JSONB,
+  p_current_case_index INTEGER DEFAULT NULL,
+  p_complete BOOLEAN DEFAULT false
+)
+RETURNS user_assessments AS $$
+DECLARE
+  v_sitting user_assessments;
+BEGIN
+  PERFORM set_config('arka_ed.sitting_session', COALESCE(p_session_id::TEXT, ''), true);
+  UPDATE user_assessments SET
+      answers = p_answers,
+      current_case_index = COALESCE(p_current_case_index, current_case_index),
+      status = CASE WHEN p_complete THEN 'completed'::assessment_status ELSE status END
+    WHERE id = p_user_assessment_id AND user_id = auth.uid()
+    RETURNING * INTO v_sitting;
+  PERFORM set_config('arka_ed.sitting_session', '', true);
+
+  IF v_sitting.id IS NULL THEN
+    RAISE EXCEPTION 'No assessment in progress to save';
+  END IF;
+
+  RETURN v_sitting;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER start_proctored_sitting
+  BEFORE INSERT ON user_assessments
+  FOR EACH ROW
+  EXECUTE FUNCTION start_proctored_sitting();
+
+CREATE TRIGGER enforce_proctored_sitting
+  BEFORE UPDATE ON user_assessments
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_proctored_sitting();
+
+CREATE TRIGGER stamp_integrity_event
+  BEFORE INSERT ON assessment_integrity_events
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_integrity_event();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+ALTER TABLE assessment_integrity_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are append-only: learners add them to their own sittings
+CREATE POLICY "Users can log integrity events on own sittings"
+  ON assessment_integrity_events FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM user_assessments
+      WHERE user_assessments.id = user_assessment_id
+      AND user_assessments.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view own integrity events"
+  ON assessment_integrity_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view integrity events"
+  ON assessment_integrity_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Faculty reviewing a sitting need to see whose it is. A policy on profiles
+-- cannot query profiles directly without recursing, hence is_admin().
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Admins can view all profiles"
+  ON profiles FOR SELECT
+  USING (is_admin());
+
+GRANT EXECUTE ON FUNCTION claim_assessment_session TO authenticated;
+GRANT EXECUTE ON FUNCTION save_assessment_sitting TO authenticated;
+GRANT EXECUTE ON FUNCTION is_admin TO authenticated;
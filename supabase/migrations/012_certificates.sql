@@ -0,0 +1,113 @@
+-- ============================================================================
+-- ARKA-ED Specialty Certificates
+-- ============================================================================
+-- A certificate is issued when a learner has completed every curriculum
+-- module of a specialty track and passed its assessment. The server signs
+-- each certificate (HMAC over its public fields) and inserts it with the
+-- service role; learners cannot write certificates. Anyone can verify a
+-- certificate by id, and admins can revoke one.
+-- See src/lib/certificates/signature.ts
+-- ============================================================================
+
+CREATE TABLE certificates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  track specialty_track NOT NULL,
+  certificate_name TEXT NOT NULL,
+  recipient_name TEXT NOT NULL,
+  user_assessment_id UUID REFERENCES user_assessments(id) ON DELETE SET NULL,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  signature TEXT NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  revocation_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_certificates_user_id ON certificates(user_id);
+CREATE INDEX idx_certificates_revoked ON certificates(revoked_at) WHERE revoked_at IS NOT NULL;
+-- One valid certificate per learner and track; a revoked one can be re-earned
+CREATE UNIQUE INDEX idx_certificates_active_track
+  ON certificates(user_id, track) WHERE revoked_at IS NULL;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Only revocation may change a certificate, once, stamped with who and when
+CREATE OR REPLACE FUNCTION protect_certificate()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Certificate has already been revoked';
+  END IF;
+
+  NEW.user_id = OLD.user_id;
+  NEW.track = OLD.track;
+  NEW.certificate_name = OLD.certificate_name;
+  NEW.recipient_name = OLD.recipient_name;
+  NEW.user_assessment_id = OLD.user_assessment_id;
+  NEW.issued_at = OLD.issued_at;
+  NEW.signature = OLD.signature;
+
+  IF NEW.revoked_at IS NOT NULL THEN
+    NEW.revoked_at = NOW();
+    NEW.revoked_by = auth.uid();
+  ELSE
+    NEW.revoked_by = NULL;
+    NEW.revocation_reason = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Public lookup for /verify: the signed fields and revocation status of
+-- one certificate, without exposing the table to anonymous listing
+CREATE OR REPLACE FUNCTION verify_certificate(p_certificate_id UUID)
+RETURNS TABLE (
+  id UUID,
+  track specialty_track,
+  certificate_name TEXT,
+  recipient_name TEXT,
+  issued_at TIMESTAMPTZ,
+  signature TEXT,
+  revoked_at TIMESTAMPTZ,
+  revocation_reason TEXT
+) AS $$
+  SELECT c.id, c.track, c.certificate_name, c.recipient_name, c.issued_at,
+         c.signature, c.revoked_at, c.revocation_reason
+  FROM certificates c
+  WHERE c.id = p_certificate_id
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER protect_certificate
+  BEFORE UPDATE ON certificates
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_certificate();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+ALTER TABLE certificates ENABLE ROW LEVEL SECURITY;
+
+-- No insert policy: certificates are issued by the server with the service role
+CREATE POLICY "Users can view own certificates"
+  ON certificates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all certificates"
+  ON certificates FOR SELECT
+  USING (is_admin());
+
+CREATE POLICY "Admins can revoke certificates"
+  ON certificates FOR UPDATE
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+GRANT EXECUTE ON FUNCTION verify_certificate TO anon, authenticated;
@@ -0,0 +1,351 @@
+-- ============================================================================
+-- ARKA-ED Server-side Achievements
+-- ============================================================================
+-- Achievements are evaluated in the database, never in the browser. Inserting
+-- a case attempt or completing an assessment runs evaluate_achievements(),
+-- which computes the learner's stats from their own rows and awards anything
+-- newly earned. Those rows are stamped and scored here: an attempt's time,
+-- score and correctness are set on insert and attempts cannot be edited,
+-- and only sittings scored by migration 010 count. An attempt's duration is
+-- measured from when the learner opened the case (start_case_attempt()),
+-- and only attempts timed that way count toward time-based achievements. Learners can no longer
+-- insert user_achievements themselves; new unlocks reach the client
+-- through Supabase Realtime.
+-- See src/lib/supabase/achievements.ts
+-- ============================================================================
+
+ALTER TABLE achievements
+  ADD COLUMN requirement_meta JSONB NOT NULL DEFAULT '{}',
+  ADD COLUMN points INTEGER NOT NULL DEFAULT 0 CHECK (points >= 0);
+
+-- Definitions mirror src/data/achievements.ts. The app's progress/mastery/
+-- special categories map onto the achievement_category enum.
+INSERT INTO achievements (
+  slug, name, description, icon, category,
+  requirement_type, requirement_value, requirement_meta, points
+) VALUES
+  ('first-case', 'First Steps', 'Complete your first case', '👣', 'completion', 'cases_completed', 1, '{}', 10),
+  ('ten-cases', 'Getting Started', 'Complete 10 cases', '📚', 'completion', 'cases_completed', 10, '{}', 25),
+  ('twenty-five-cases', 'Dedicated Learner', 'Complete 25 cases', '🎓', 'completion', 'cases_completed', 25, '{}', 50),
+  ('fifty-cases', 'Halfway Hero', 'Complete 50 cases', '⭐', 'completion', 'cases_completed', 50, '{}', 100),
+  ('hundred-cases', 'Century Club', 'Complete 100 cases', '💯', 'completion', 'cases_completed', 100, '{}', 250),
+  ('perfect-score', 'Perfectionist', 'Get 100% on a case', '🎯', 'accuracy', 'perfect_scores', 1, '{}', 25),
+  ('three-perfects', 'Triple Perfect', 'Get 100% on 3 different cases', '✨', 'accuracy', 'perfect_scores', 3, '{}', 75),
+  ('category-expert', 'Category Expert', 'Achieve 90%+ accuracy in any category (min 5 cases)', '🏆', 'accuracy', 'category_accuracy', 90, '{"minCases": 5}', 100),
+  ('all-categories', 'Well Rounded', 'Complete at least one case in every category', '🌟', 'accuracy', 'categories_completed', 5, '{}', 75),
+  ('speedster', 'Speedster', 'Complete a case correctly in under 2 minutes', '⚡', 'accuracy', 'case_time', 120, '{"mustBeCorrect": true}', 50),
+  ('lightning-fast', 'Lightning Fast', 'Complete a case correctly in under 1 minute', '🚀', 'accuracy', 'case_time', 60, '{"mustBeCorrect": true}', 100),
+  ('three-day-streak', 'Streak Starter', 'Maintain a 3-day study streak', '🔥', 'streak', 'streak_days', 3, '{}', 25),
+  ('week-streak', 'Week Warrior', 'Maintain a 7-day study streak', '🔥', 'streak', 'streak_days', 7, '{}', 75),
+  ('two-week-streak', 'Fortnight Focus', 'Maintain a 14-day study streak', '🔥', 'streak', 'streak_days', 14, '{}', 150),
+  ('month-streak', 'Monthly Master', 'Maintain a 30-day study streak', '🔥', 'streak', 'streak_days', 30, '{}', 500),
+  ('early-adopter', 'Early Adopter', 'Join ARKA-ED during the beta period', '🌱', 'milestone', 'special', 1, '{}', 100),
+  ('feedback-hero', 'Feedback Hero', 'Submit 5 helpful feedback reports', '💬', 'milestone', 'feedback_submitted', 5, '{}', 50),
+  ('quiz-master', 'Quiz Master', 'Pass an assessment with 100%', '🎖️', 'milestone', 'assessments_passed', 1, '{"perfectScore": true}', 150),
+  ('assessment-ace', 'Assessment Ace', 'Pass 5 different assessments', '🏅', 'milestone', 'assessments_passed', 5, '{}', 200),
+  ('night-owl', 'Night Owl', 'Complete a case after midnight', '🦉', 'milestone', 'special', 1, '{}', 25),
+  ('weekend-warrior', 'Weekend Warrior', 'Complete 10 cases on weekends', '🎮', 'milestone', 'special', 10, '{}', 50)
+ON CONFLICT (slug) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  icon = EXCLUDED.icon,
+  category = EXCLUDED.category,
+  requirement_type = EXCLUDED.requirement_type,
+  requirement_value = EXCLUDED.requirement_value,
+  requirement_meta = EXCLUDED.requirement_meta,
+  points = EXCLUDED.points,
+  updated_at = NOW();
+
+-- When the learner opened each case they have not yet recorded an attempt
+-- for. Only written by start_case_attempt() and score_case_attempt().
+CREATE TABLE case_attempt_starts (
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  case_id UUID NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, case_id)
+);
+
+ALTER TABLE user_case_attempts ADD COLUMN started_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN user_case_attempts.started_at IS 'When the learner opened the case, from case_attempt_starts; NULL when the attempt was not timed by the database';
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Start the clock on a case for the caller. Opening the case again before
+-- recording an attempt keeps the first start, so the clock cannot be reset.
+CREATE OR REPLACE FUNCTION start_case_attempt(p_case_id UUID)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_started_at TIMESTAMPTZ;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  INSERT INTO case_attempt_starts (user_id, case_id)
+    VALUES (auth.uid(), p_case_id)
+    ON CONFLICT (user_id, case_id) DO NOTHING;
+
+  SELECT started_at INTO v_started_at FROM case_attempt_starts
+    WHERE user_id = auth.uid() AND case_id = p_case_id;
+  RETURN v_started_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Stamp a case attempt with the server's clock, time it from the learner's
+-- start on the case, and score it from the case's imaging ratings
+-- (score_imaging_selection(), migration 010), whatever the client sent.
+-- Attempts without a start keep the client's time but are marked untimed.
+-- Attempts store "no imaging" as an empty selection.
+CREATE OR REPLACE FUNCTION score_case_attempt()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.created_at = NOW();
+
+  DELETE FROM case_attempt_starts
+    WHERE user_id = NEW.user_id AND case_id = NEW.case_id
+    RETURNING started_at INTO NEW.started_at;
+  IF NEW.started_at IS NOT NULL THEN
+    NEW.time_spent_seconds = GREATEST(0, EXTRACT(EPOCH FROM NEW.created_at - NEW.started_at))::INTEGER;
+  END IF;
+
+  SELECT s.score, s.is_correct, s.acr_rating
+    INTO NEW.score, NEW.is_correct, NEW.acr_rating_received
+    FROM score_imaging_selection(
+      NEW.case_id,
+      COALESCE(NULLIF(NEW.selected_imaging::TEXT[], '{}'), ARRAY['no-imaging']),
+      NEW.hints_used
+    ) AS s;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A learner's achievement stats, shaped like UserStats in
+-- src/lib/hooks/use-achievements.ts. Days and hours are in UTC. Runs with
+-- the caller's rights, so learners only ever see their own stats.
+CREATE OR REPLACE FUNCTION get_achievement_stats(p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_attempts JSONB;
+  v_category_accuracy JSONB;
+  v_streak INTEGER;
+  v_assessments_passed INTEGER;
+  v_perfect_assessments INTEGER;
+BEGIN
+  SELECT jsonb_build_object(
+    'casesCompleted', COUNT(DISTINCT a.case_id),
+    'perfectScores', COUNT(DISTINCT a.case_id) FILTER (WHERE a.score = 100),
+    'categoriesCompleted', COALESCE(jsonb_agg(DISTINCT c.category) FILTER (WHERE c.category IS NOT NULL), '[]'),
+    'fastestCaseTime', MIN(a.time_spent_seconds) FILTER (WHERE a.is_correct AND a.started_at IS NOT NULL),
+    'nightCases', COUNT(*) FILTER (WHERE EXTRACT(HOUR FROM a.created_at AT TIME ZONE 'UTC') < 5),
+    'weekendCases', COUNT(*) FILTER (WHERE EXTRACT(ISODOW FROM a.created_at AT TIME ZONE 'UTC') IN (6, 7))
+  )
+  INTO v_attempts
+  FROM user_case_attempts a
+  LEFT JOIN cases c ON c.id = a.case_id
+  WHERE a.user_id = p_user_id;
+
+  SELECT COALESCE(jsonb_object_agg(category, jsonb_build_object('correct', correct, 'total', total)), '{}')
+  INTO v_category_accuracy
+  FROM (
+    SELECT c.category,
+           COUNT(*) FILTER (WHERE a.is_correct) AS correct,
+           COUNT(*) AS total
+    FROM user_case_attempts a
+    JOIN cases c ON c.id = a.case_id
+    WHERE a.user_id = p_user_id
+    GROUP BY c.category
+  ) per_category;
+
+  -- Consecutive days with an attempt, counting back from today or yesterday
+  WITH days AS (
+    SELECT DISTINCT (created_at AT TIME ZONE 'UTC')::DATE AS day
+    FROM user_case_attempts
+    WHERE user_id = p_user_id
+  ),
+  runs AS (
+    SELECT day, day - (ROW_NUMBER() OVER (ORDER BY day))::INTEGER AS run
+    FROM days
+  ),
+  latest AS (
+    SELECT day, run FROM runs ORDER BY day DESC LIMIT 1
+  )
+  SELECT COUNT(*)
+  INTO v_streak
+  FROM runs, latest
+  WHERE runs.run = latest.run
+    AND latest.day >= (NOW() AT TIME ZONE 'UTC')::DATE - 1;
+
+  SELECT COUNT(DISTINCT assessment_id) FILTER (WHERE passed),
+         COUNT(DISTINCT assessment_id) FILTER (WHERE passed AND score = 100)
+  INTO v_assessments_passed, v_perfect_assessments
+  FROM user_assessments
+  WHERE user_id = p_user_id
+    AND status = 'completed'
+    -- Scored by the database over the drawn cases (migration 010), not
+    -- written by an older client
+    AND cardinality(case_ids) > 0;
+
+  RETURN v_attempts || jsonb_build_object(
+    'categoryAccuracy', v_category_accuracy,
+    'currentStreak', v_streak,
+    'assessmentsPassed', v_assessments_passed,
+    'perfectAssessments', v_perfect_assessments,
+    -- Feedback is not stored yet, so feedback-hero cannot be earned
+    'feedbackSubmitted', 0
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Progress toward an achievement, in the units of its requirement_value
+CREATE OR REPLACE FUNCTION achievement_progress(p_stats JSONB, p_achievement achievements)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(CASE p_achievement.requirement_type
+    WHEN 'cases_completed' THEN (p_stats->>'casesCompleted')::INTEGER
+    WHEN 'perfect_scores' THEN (p_stats->>'perfectScores')::INTEGER
+    WHEN 'category_accuracy' THEN (
+      SELECT MAX(ROUND(100.0 * (v->>'correct')::INTEGER / (v->>'total')::INTEGER))::INTEGER
+      FROM jsonb_each(p_stats->'categoryAccuracy') AS e(k, v)
+      WHERE (v->>'total')::INTEGER >= COALESCE((p_achievement.requirement_meta->>'minCases')::INTEGER, 5)
+    )
+    WHEN 'categories_completed' THEN jsonb_array_length(p_stats->'categoriesCompleted')
+    WHEN 'streak_days' THEN (p_stats->>'currentStreak')::INTEGER
+    WHEN 'assessments_passed' THEN CASE
+      WHEN (p_achievement.requirement_meta->>'perfectScore')::BOOLEAN
+        THEN (p_stats->>'perfectAssessments')::INTEGER
+      ELSE (p_stats->>'assessmentsPassed')::INTEGER
+    END
+    WHEN 'feedback_submitted' THEN (p_stats->>'feedbackSubmitted')::INTEGER
+    WHEN 'case_time' THEN (p_stats->>'fastestCaseTime')::INTEGER
+    WHEN 'special' THEN CASE p_achievement.slug
+      WHEN 'night-owl' THEN (p_stats->>'nightCases')::INTEGER
+      WHEN 'weekend-warrior' THEN (p_stats->>'weekendCases')::INTEGER
+    END
+  END, 0)
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Whether the stats meet an achievement's requirement. case_time is a
+-- ceiling (fastest correct case in seconds); everything else is a floor.
+-- early-adopter is awarded by hand and never matches here.
+CREATE OR REPLACE FUNCTION achievement_requirement_met(p_stats JSONB, p_achievement achievements)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN p_achievement.requirement_type = 'case_time' THEN
+      p_stats->>'fastestCaseTime' IS NOT NULL
+      AND (p_stats->>'fastestCaseTime')::INTEGER <= p_achievement.requirement_value
+    WHEN p_achievement.slug = 'early-adopter' THEN false
+    ELSE achievement_progress(p_stats, p_achievement) >= p_achievement.requirement_value
+  END
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Award every active achievement the learner now meets and has not yet
+-- earned. Safe to run repeatedly; returns only the rows it inserted.
+CREATE OR REPLACE FUNCTION evaluate_achievements(
+  p_user_id UUID,
+  p_source TEXT,
+  p_source_id UUID DEFAULT NULL
+)
+RETURNS SETOF user_achievements AS $$
+DECLARE
+  v_stats JSONB := get_achievement_stats(p_user_id);
+BEGIN
+  RETURN QUERY
+  INSERT INTO user_achievements (user_id, achievement_id, metadata)
+  SELECT p_user_id, a.id, jsonb_build_object(
+    'requirement_type', a.requirement_type,
+    'requirement_value', a.requirement_value,
+    'value', achievement_progress(v_stats, a),
+    'points', a.points,
+    'source', p_source,
+    'source_id', p_source_id
+  )
+  FROM achievements a
+  WHERE a.is_active
+    AND achievement_requirement_met(v_stats, a)
+  ON CONFLICT (user_id, achievement_id) DO NOTHING
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Learners cannot call evaluate_achievements() themselves, so the triggers
+-- their writes fire run with the owner's rights
+CREATE OR REPLACE FUNCTION evaluate_achievements_on_attempt()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM evaluate_achievements(NEW.user_id, 'case_attempt', NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION evaluate_achievements_on_assessment()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM evaluate_achievements(NEW.user_id, 'assessment', NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER score_case_attempt
+  BEFORE INSERT ON user_case_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION score_case_attempt();
+
+CREATE TRIGGER evaluate_achievements_on_attempt
+  AFTER INSERT ON user_case_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION evaluate_achievements_on_attempt();
+
+CREATE TRIGGER evaluate_achievements_on_assessment_insert
+  AFTER INSERT ON user_assessments
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed')
+  EXECUTE FUNCTION evaluate_achievements_on_assessment();
+
+-- Also covers sittings closed by the deadline trigger (migration 010)
+CREATE TRIGGER evaluate_achievements_on_assessment_complete
+  AFTER UPDATE ON user_assessments
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+  EXECUTE FUNCTION evaluate_achievements_on_assessment();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+-- Starts are only touched by start_case_attempt() and score_case_attempt()
+ALTER TABLE case_attempt_starts ENABLE ROW LEVEL SECURITY;
+
+-- Replaced by evaluate_achievements(); learners could award themselves anything
+DROP POLICY IF EXISTS "System can insert user achievements" ON user_achievements;
+
+-- Attempts are append-only, so a scored attempt cannot be rewritten
+DROP POLICY IF EXISTS "Users can manage own case attempts" ON user_case_attempts;
+
+CREATE POLICY "Users can view own case attempts"
+  ON user_case_attempts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record own case attempts"
+  ON user_case_attempts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- ============================================================================
+-- REALTIME & BACKFILL
+-- ============================================================================
+
+-- Unlocks are pushed to the learner's browser; RLS limits each subscriber
+-- to their own rows
+ALTER PUBLICATION supabase_realtime ADD TABLE user_achievements;
+
+-- Award what existing learners have already earned
+SELECT evaluate_achievements(id, 'backfill') FROM profiles;
+
+REVOKE EXECUTE ON FUNCTION evaluate_achievements FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_achievement_stats TO authenticated;
+GRANT EXECUTE ON FUNCTION start_case_attempt TO authenticated;
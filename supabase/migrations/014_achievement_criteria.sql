@@ -0,0 +1,361 @@
+-- ============================================================================
+-- ARKA-ED Achievement Criteria
+-- ============================================================================
+-- Replaces the fixed requirement_type/requirement_value pair with a JSON
+-- criteria expression per achievement: counts, accuracy, streaks and passed
+-- assessments over filtered case attempts, optionally within a window of
+-- days, combined with all/any. Admins can define new achievements from
+-- /admin/achievements; evaluate_achievements() and learners' progress bars
+-- both read the same criteria.
+-- See src/lib/achievements/criteria.ts
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS achievement_requirement_met(JSONB, achievements);
+DROP FUNCTION IF EXISTS achievement_progress(JSONB, achievements);
+DROP FUNCTION IF EXISTS get_achievement_stats(UUID);
+
+ALTER TABLE achievements ADD COLUMN criteria JSONB;
+
+UPDATE achievements a
+SET criteria = c.criteria::JSONB, updated_at = NOW()
+FROM (VALUES
+  ('first-case', '{"type":"count","of":"cases","min":1}'),
+  ('ten-cases', '{"type":"count","of":"cases","min":10}'),
+  ('twenty-five-cases', '{"type":"count","of":"cases","min":25}'),
+  ('fifty-cases', '{"type":"count","of":"cases","min":50}'),
+  ('hundred-cases', '{"type":"count","of":"cases","min":100}'),
+  ('perfect-score', '{"type":"count","of":"cases","where":{"minScore":100},"min":1}'),
+  ('three-perfects', '{"type":"count","of":"cases","where":{"minScore":100},"min":3}'),
+  ('category-expert', '{"type":"accuracy","perCategory":true,"minAttempts":5,"min":90}'),
+  ('all-categories', '{"type":"count","of":"categories","min":5}'),
+  ('speedster', '{"type":"count","of":"attempts","where":{"correct":true,"maxTimeSeconds":120},"min":1}'),
+  ('lightning-fast', '{"type":"count","of":"attempts","where":{"correct":true,"maxTimeSeconds":60},"min":1}'),
+  ('three-day-streak', '{"type":"streak","of":"days","min":3}'),
+  ('week-streak', '{"type":"streak","of":"days","min":7}'),
+  ('two-week-streak', '{"type":"streak","of":"days","min":14}'),
+  ('month-streak', '{"type":"streak","of":"days","min":30}'),
+  ('early-adopter', '{"type":"manual"}'),
+  ('feedback-hero', '{"type":"manual"}'),
+  ('quiz-master', '{"type":"assessments","minScore":100,"min":1}'),
+  ('assessment-ace', '{"type":"assessments","min":5}'),
+  ('night-owl', '{"type":"count","of":"attempts","where":{"hours":{"from":0,"to":5}},"min":1}'),
+  ('weekend-warrior', '{"type":"count","of":"attempts","where":{"weekdays":[6,7]},"min":10}')
+
+) AS c(slug, criteria)
+WHERE a.slug = c.slug;
+
+-- Anything else predates this app's definitions; keep it out of automatic awards
+UPDATE achievements SET criteria = '{"type":"manual"}' WHERE criteria IS NULL;
+
+ALTER TABLE achievements
+  ALTER COLUMN criteria SET NOT NULL,
+  ADD CONSTRAINT achievements_criteria_type CHECK (
+    jsonb_typeof(criteria) = 'object' AND criteria ? 'type'
+  ),
+  DROP COLUMN requirement_type,
+  DROP COLUMN requirement_value,
+  DROP COLUMN requirement_meta;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Whether a case attempt passes an AttemptFilter. Hours and weekdays are UTC.
+-- Time limits only match attempts the database timed (migration 013).
+CREATE OR REPLACE FUNCTION achievement_attempt_matches(
+  p_attempt user_case_attempts,
+  p_case cases,
+  p_where JSONB
+)
+RETURNS BOOLEAN AS $$
+  SELECT p_where IS NULL OR COALESCE(
+    (NOT p_where ? 'categories' OR p_where->'categories' ? p_case.category::TEXT)
+    AND (NOT p_where ? 'difficulties' OR p_where->'difficulties' ? p_case.difficulty::TEXT)
+    AND (NOT p_where ? 'modes' OR p_where->'modes' ? p_attempt.mode::TEXT)
+    AND (NOT p_where ? 'correct' OR p_attempt.is_correct = (p_where->>'correct')::BOOLEAN)
+    AND (NOT p_where ? 'minScore' OR p_attempt.score >= (p_where->>'minScore')::INTEGER)
+    AND (NOT p_where ? 'maxTimeSeconds' OR (
+      p_attempt.started_at IS NOT NULL
+      AND p_attempt.time_spent_seconds <= (p_where->>'maxTimeSeconds')::INTEGER
+    ))
+    AND (NOT p_where ? 'hours' OR CASE
+      WHEN (p_where->'hours'->>'from')::INTEGER <= (p_where->'hours'->>'to')::INTEGER THEN
+        EXTRACT(HOUR FROM p_attempt.created_at AT TIME ZONE 'UTC') >= (p_where->'hours'->>'from')::INTEGER
+        AND EXTRACT(HOUR FROM p_attempt.created_at AT TIME ZONE 'UTC') < (p_where->'hours'->>'to')::INTEGER
+      ELSE
+        EXTRACT(HOUR FROM p_attempt.created_at AT TIME ZONE 'UTC') >= (p_where->'hours'->>'from')::INTEGER
+        OR EXTRACT(HOUR FROM p_attempt.created_at AT TIME ZONE 'UTC') < (p_where->'hours'->>'to')::INTEGER
+    END)
+    AND (NOT p_where ? 'weekdays' OR p_where->'weekdays'
+      @> to_jsonb(EXTRACT(ISODOW FROM p_attempt.created_at AT TIME ZONE 'UTC')::INTEGER)),
+    false
+  )
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A learner's case attempts that pass a filter
+CREATE OR REPLACE FUNCTION achievement_attempts(p_user_id UUID, p_where JSONB)
+RETURNS TABLE (
+  attempt_id UUID,
+  case_id UUID,
+  category TEXT,
+  is_correct BOOLEAN,
+  occurred_at TIMESTAMPTZ
+) AS $$
+  SELECT a.id, a.case_id, c.category::TEXT, a.is_correct, a.created_at
+  FROM user_case_attempts a
+  LEFT JOIN cases c ON c.id = a.case_id
+  WHERE a.user_id = p_user_id
+    AND achievement_attempt_matches(a, c, p_where)
+$$ LANGUAGE sql STABLE;
+
+-- Progress of a learner toward criteria, as { progress, total, met }.
+-- Leaves report progress in their own units (attempts, percent, days);
+-- all/any report percent, averaged or best across their conditions.
+-- Windowed leaves report their best span of `within.days`.
+CREATE OR REPLACE FUNCTION achievement_criteria_progress(p_user_id UUID, p_criteria JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_type TEXT := p_criteria->>'type';
+  v_min INTEGER := COALESCE((p_criteria->>'min')::INTEGER, 0);
+  v_window INTERVAL := make_interval(days => (p_criteria->'within'->>'days')::INTEGER);
+  v_progress INTEGER := 0;
+  v_met BOOLEAN;
+BEGIN
+  IF v_type IN ('all', 'any') THEN
+    WITH results AS (
+      SELECT achievement_criteria_progress(p_user_id, e.condition) AS r
+      FROM jsonb_array_elements(p_criteria->'conditions') AS e(condition)
+    ),
+    ratios AS (
+      SELECT LEAST(1, CASE
+               WHEN (r->>'total')::NUMERIC <= 0 THEN 1
+               ELSE (r->>'progress')::NUMERIC / (r->>'total')::NUMERIC
+             END) AS ratio,
+             (r->>'met')::BOOLEAN AS met
+      FROM results
+    )
+    SELECT CASE WHEN v_type = 'all' THEN FLOOR(100 * AVG(ratio)) ELSE FLOOR(100 * MAX(ratio)) END,
+           CASE WHEN v_type = 'all' THEN bool_and(met) ELSE bool_or(met) END
+    INTO v_progress, v_met
+    FROM ratios;
+
+    RETURN jsonb_build_object(
+      'progress', COALESCE(v_progress, 0),
+      'total', 100,
+      'met', COALESCE(v_met, false)
+    );
+  END IF;
+
+  IF v_type = 'count' THEN
+    WITH matched AS (
+      SELECT * FROM achievement_attempts(p_user_id, p_criteria->'where')
+    ),
+    window_ends AS (
+      SELECT occurred_at AS window_end FROM matched WHERE v_window IS NOT NULL
+      UNION ALL
+      SELECT 'infinity'::TIMESTAMPTZ WHERE v_window IS NULL
+    )
+    SELECT MAX((
+      SELECT CASE p_criteria->>'of'
+        WHEN 'cases' THEN COUNT(DISTINCT m.case_id)
+        WHEN 'categories' THEN COUNT(DISTINCT m.category)
+        WHEN 'days' THEN COUNT(DISTINCT (m.occurred_at AT TIME ZONE 'UTC')::DATE)
+        ELSE COUNT(*)
+      END
+      FROM matched m
+      WHERE v_window IS NULL
+        OR (m.occurred_at <= w.window_end AND m.occurred_at > w.window_end - v_window)
+    ))
+    INTO v_progress
+    FROM window_ends w;
+
+  ELSIF v_type = 'accuracy' THEN
+    WITH matched AS (
+      SELECT * FROM achievement_attempts(p_user_id, p_criteria->'where')
+    ),
+    window_ends AS (
+      SELECT occurred_at AS window_end FROM matched WHERE v_window IS NOT NULL
+      UNION ALL
+      SELECT 'infinity'::TIMESTAMPTZ WHERE v_window IS NULL
+    ),
+    spans AS (
+      SELECT w.window_end,
+             CASE WHEN (p_criteria->>'perCategory')::BOOLEAN THEN m.category END AS category,
+             COUNT(*) FILTER (WHERE m.is_correct) AS correct,
+             COUNT(*) AS total
+      FROM window_ends w
+      JOIN matched m
+        ON v_window IS NULL
+        OR (m.occurred_at <= w.window_end AND m.occurred_at > w.window_end - v_window)
+      GROUP BY 1, 2
+    )
+    SELECT MAX(FLOOR(100.0 * correct / total))
+    INTO v_progress
+    FROM spans
+    WHERE total >= COALESCE((p_criteria->>'minAttempts')::INTEGER, 1);
+
+  ELSIF v_type = 'streak' AND p_criteria->>'of' = 'attempts' THEN
+    -- The learner's most recent attempts, back to the last one that doesn't match
+    SELECT COUNT(*)
+    INTO v_progress
+    FROM user_case_attempts a
+    WHERE a.user_id = p_user_id
+      AND a.created_at > COALESCE((
+        SELECT MAX(b.created_at)
+        FROM user_case_attempts b
+        LEFT JOIN cases c ON c.id = b.case_id
+        WHERE b.user_id = p_user_id
+          AND NOT achievement_attempt_matches(b, c, p_criteria->'where')
+      ), '-infinity');
+
+  ELSIF v_type = 'streak' THEN
+    -- Consecutive UTC days with a matching attempt, ending today or yesterday
+    WITH days AS (
+      SELECT DISTINCT (occurred_at AT TIME ZONE 'UTC')::DATE AS day
+      FROM achievement_attempts(p_user_id, p_criteria->'where')
+    ),
+    runs AS (
+      SELECT day, day - (ROW_NUMBER() OVER (ORDER BY day))::INTEGER AS run
+      FROM days
+    ),
+    latest AS (
+      SELECT day, run FROM runs ORDER BY day DESC LIMIT 1
+    )
+    SELECT COUNT(*)
+    INTO v_progress
+    FROM runs, latest
+    WHERE runs.run = latest.run
+      AND latest.day >= (NOW() AT TIME ZONE 'UTC')::DATE - 1;
+
+  ELSIF v_type = 'assessments' THEN
+    WITH passed AS (
+      SELECT assessment_id, completed_at
+      FROM user_assessments
+      WHERE user_id = p_user_id
+        AND status = 'completed'
+        -- Scored by the database (migration 010)
+        AND cardinality(case_ids) > 0
+        AND passed
+        AND score >= COALESCE((p_criteria->>'minScore')::INTEGER, 0)
+    ),
+    window_ends AS (
+      SELECT completed_at AS window_end FROM passed WHERE v_window IS NOT NULL
+      UNION ALL
+      SELECT 'infinity'::TIMESTAMPTZ WHERE v_window IS NULL
+    )
+    SELECT MAX((
+      SELECT COUNT(DISTINCT p.assessment_id)
+      FROM passed p
+      WHERE v_window IS NULL
+        OR (p.completed_at <= w.window_end AND p.completed_at > w.window_end - v_window)
+    ))
+    INTO v_progress
+    FROM window_ends w;
+
+  ELSIF v_type = 'manual' THEN
+    RETURN jsonb_build_object('progress', 0, 'total', 1, 'met', false);
+
+  ELSE
+    RAISE EXCEPTION 'Unknown achievement criteria type: %', v_type;
+  END IF;
+
+  v_progress := COALESCE(v_progress, 0);
+  RETURN jsonb_build_object(
+    'progress', v_progress,
+    'total', v_min,
+    'met', v_progress >= v_min
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Award every active achievement the learner now meets and has not yet
+-- earned. Safe to run repeatedly; returns only the rows it inserted. An
+-- achievement with broken criteria is skipped, never failing the write
+-- that triggered evaluation.
+CREATE OR REPLACE FUNCTION evaluate_achievements(
+  p_user_id UUID,
+  p_source TEXT,
+  p_source_id UUID DEFAULT NULL
+)
+RETURNS SETOF user_achievements AS $$
+DECLARE
+  v_achievement achievements;
+  v_result JSONB;
+  v_awarded user_achievements;
+BEGIN
+  FOR v_achievement IN
+    SELECT a.*
+    FROM achievements a
+    WHERE a.is_active
+      AND NOT EXISTS (
+        SELECT 1 FROM user_achievements ua
+        WHERE ua.user_id = p_user_id AND ua.achievement_id = a.id
+      )
+  LOOP
+    BEGIN
+      v_result := achievement_criteria_progress(p_user_id, v_achievement.criteria);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Skipping achievement %: %', v_achievement.slug, SQLERRM;
+      CONTINUE;
+    END;
+
+    IF (v_result->>'met')::BOOLEAN THEN
+      INSERT INTO user_achievements (user_id, achievement_id, metadata)
+      VALUES (p_user_id, v_achievement.id, jsonb_build_object(
+        'progress', v_result->'progress',
+        'total', v_result->'total',
+        'points', v_achievement.points,
+        'source', p_source,
+        'source_id', p_source_id
+      ))
+      ON CONFLICT (user_id, achievement_id) DO NOTHING
+      RETURNING * INTO v_awarded;
+
+      IF FOUND THEN
+        RETURN NEXT v_awarded;
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The signed-in learner's progress toward every active achievement. Runs
+-- with the caller's rights, so it only ever sees their own activity.
+CREATE OR REPLACE FUNCTION get_achievement_progress()
+RETURNS TABLE (
+  achievement_id UUID,
+  slug TEXT,
+  progress INTEGER,
+  total INTEGER
+) AS $$
+DECLARE
+  v_achievement achievements;
+  v_result JSONB;
+BEGIN
+  FOR v_achievement IN SELECT * FROM achievements WHERE is_active LOOP
+    BEGIN
+      v_result := achievement_criteria_progress(auth.uid(), v_achievement.criteria);
+    EXCEPTION WHEN OTHERS THEN
+      CONTINUE;
+    END;
+
+    achievement_id := v_achievement.id;
+    slug := v_achievement.slug;
+    progress := (v_result->>'progress')::INTEGER;
+    total := (v_result->>'total')::INTEGER;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+-- Achievements with manual criteria are awarded by admins
+CREATE POLICY "Admins can award achievements"
+  ON user_achievements FOR INSERT
+  WITH CHECK (is_admin());
+
+REVOKE EXECUTE ON FUNCTION evaluate_achievements FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_achievement_progress TO authenticated;
@@ -0,0 +1,476 @@
+-- ============================================================================
+-- ARKA-ED Admin Analytics
+-- ============================================================================
+-- Platform metrics for the admin dashboard and analytics page, computed from
+-- user_case_attempts, user_assessments and profiles. Every function takes the
+-- reporting period as [p_start, p_end) and is restricted to admins; they run
+-- as SECURITY DEFINER because the metrics span every learner's rows. Days and
+-- weeks are UTC; weeks start on Monday. See src/lib/supabase/analytics.ts
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Headline numbers for the period, with the same metrics for the equally long
+-- period before it. Daily, weekly and monthly active users end at p_end.
+CREATE OR REPLACE FUNCTION get_analytics_overview(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ
+)
+RETURNS TABLE (
+  total_users INTEGER,
+  new_users INTEGER,
+  previous_new_users INTEGER,
+  active_users INTEGER,
+  previous_active_users INTEGER,
+  daily_active_users INTEGER,
+  weekly_active_users INTEGER,
+  monthly_active_users INTEGER,
+  attempts INTEGER,
+  previous_attempts INTEGER,
+  accuracy NUMERIC,
+  previous_accuracy NUMERIC,
+  avg_time_seconds NUMERIC,
+  total_time_seconds BIGINT,
+  assessments_completed INTEGER,
+  assessments_in_progress INTEGER,
+  assessments_not_started INTEGER,
+  assessments_abandoned INTEGER
+) AS $$
+DECLARE
+  v_previous_start TIMESTAMPTZ := p_start - (p_end - p_start);
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view analytics';
+  END IF;
+
+  RETURN QUERY
+  WITH period_attempts AS (
+    SELECT
+      a.user_id,
+      a.is_correct,
+      a.time_spent_seconds,
+      a.created_at >= p_start AS is_current
+    FROM user_case_attempts a
+    WHERE a.created_at >= v_previous_start
+      AND a.created_at < p_end
+  ),
+  period_sittings AS (
+    SELECT ua.status
+    FROM user_assessments ua
+    WHERE ua.created_at >= p_start
+      AND ua.created_at < p_end
+  )
+  SELECT
+    (SELECT COUNT(*) FROM profiles p WHERE p.created_at < p_end)::INTEGER,
+    (SELECT COUNT(*) FROM profiles p
+      WHERE p.created_at >= p_start AND p.created_at < p_end)::INTEGER,
+    (SELECT COUNT(*) FROM profiles p
+      WHERE p.created_at >= v_previous_start AND p.created_at < p_start)::INTEGER,
+    (SELECT COUNT(DISTINCT pa.user_id) FROM period_attempts pa WHERE pa.is_current)::INTEGER,
+    (SELECT COUNT(DISTINCT pa.user_id) FROM period_attempts pa WHERE NOT pa.is_current)::INTEGER,
+    (SELECT COUNT(DISTINCT a.user_id) FROM user_case_attempts a
+      WHERE a.created_at >= p_end - INTERVAL '1 day' AND a.created_at < p_end)::INTEGER,
+    (SELECT COUNT(DISTINCT a.user_id) FROM user_case_attempts a
+      WHERE a.created_at >= p_end - INTERVAL '7 days' AND a.created_at < p_end)::INTEGER,
+    (SELECT COUNT(DISTINCT a.user_id) FROM user_case_attempts a
+      WHERE a.created_at >= p_end - INTERVAL '30 days' AND a.created_at < p_end)::INTEGER,
+    (SELECT COUNT(*) FROM period_attempts pa WHERE pa.is_current)::INTEGER,
+    (SELECT COUNT(*) FROM period_attempts pa WHERE NOT pa.is_current)::INTEGER,
+    (SELECT ROUND(100.0 * AVG(CASE WHEN pa.is_correct THEN 1 ELSE 0 END), 1)
+      FROM period_attempts pa WHERE pa.is_current),
+    (SELECT ROUND(100.0 * AVG(CASE WHEN pa.is_correct THEN 1 ELSE 0 END), 1)
+      FROM period_attempts pa WHERE NOT pa.is_current),
+    (SELECT ROUND(AVG(pa.time_spent_seconds), 1) FROM period_attempts pa WHERE pa.is_current),
+    (SELECT COALESCE(SUM(pa.time_spent_seconds), 0) FROM period_attempts pa WHERE pa.is_current)::BIGINT,
+    (SELECT COUNT(*) FROM period_sittings s WHERE s.status = 'completed')::INTEGER,
+    (SELECT COUNT(*) FROM period_sittings s WHERE s.status = 'in_progress')::INTEGER,
+    (SELECT COUNT(*) FROM period_sittings s WHERE s.status = 'not_started')::INTEGER,
+    (SELECT COUNT(*) FROM period_sittings s WHERE s.status = 'abandoned')::INTEGER;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Activity per day or week. active_users is distinct learners with an attempt
+-- in the bucket; weekly_active_users is distinct learners in the 7 days
+-- ending with the bucket (for weekly buckets the two are the same).
+CREATE OR REPLACE FUNCTION get_analytics_activity(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_bucket TEXT DEFAULT 'day'
+)
+RETURNS TABLE (
+  bucket DATE,
+  active_users INTEGER,
+  weekly_active_users INTEGER,
+  attempts INTEGER,
+  registrations INTEGER
+) AS $$
+DECLARE
+  v_step INTERVAL;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view analytics';
+  END IF;
+
+  IF p_bucket NOT IN ('day', 'week') THEN
+    RAISE EXCEPTION 'Unknown analytics bucket: %', p_bucket;
+  END IF;
+  v_step := ('1 ' || p_bucket)::INTERVAL;
+
+  RETURN QUERY
+  WITH buckets AS (
+    SELECT
+      b::DATE AS bucket_day,
+      b AT TIME ZONE 'UTC' AS bucket_start,
+      (b + v_step) AT TIME ZONE 'UTC' AS bucket_end
+    FROM generate_series(
+      date_trunc(p_bucket, p_start AT TIME ZONE 'UTC'),
+      (p_end AT TIME ZONE 'UTC') - INTERVAL '1 microsecond',
+      v_step
+    ) AS b
+  )
+  SELECT
+    bk.bucket_day,
+    (SELECT COUNT(DISTINCT a.user_id) FROM user_case_attempts a
+      WHERE a.created_at >= bk.bucket_start AND a.created_at < bk.bucket_end)::INTEGER,
+    (SELECT COUNT(DISTINCT a.user_id) FROM user_case_attempts a
+      WHERE a.created_at >= bk.bucket_end - INTERVAL '7 days' AND a.created_at < bk.bucket_end)::INTEGER,
+    (SELECT COUNT(*) FROM user_case_attempts a
+      WHERE a.created_at >= bk.bucket_start AND a.created_at < bk.bucket_end)::INTEGER,
+    (SELECT COUNT(*) FROM profiles p
+      WHERE p.created_at >= bk.bucket_start AND p.created_at < bk.bucket_end)::INTEGER
+  FROM buckets bk
+  ORDER BY bk.bucket_day;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Attempts, accuracy and average time by case category and by difficulty
+CREATE OR REPLACE FUNCTION get_analytics_breakdown(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ
+)
+RETURNS TABLE (
+  dimension TEXT,
+  value TEXT,
+  attempts INTEGER,
+  accuracy NUMERIC,
+  avg_time_seconds NUMERIC
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view analytics';
+  END IF;
+
+  RETURN QUERY
+  WITH period_attempts AS (
+    SELECT
+      c.category::TEXT AS case_category,
+      c.difficulty::TEXT AS case_difficulty,
+      a.is_correct,
+      a.time_spent_seconds
+    FROM user_case_attempts a
+    JOIN cases c ON c.id = a.case_id
+    WHERE a.created_at >= p_start
+      AND a.created_at < p_end
+  )
+  SELECT
+    'category'::TEXT,
+    pa.case_category,
+    COUNT(*)::INTEGER,
+    ROUND(100.0 * AVG(CASE WHEN pa.is_correct THEN 1 ELSE 0 END), 1),
+    ROUND(AVG(pa.time_spent_seconds), 1)
+  FROM period_attempts pa
+  GROUP BY pa.case_category
+  UNION ALL
+  SELECT
+    'difficulty'::TEXT,
+    pa.case_difficulty,
+    COUNT(*)::INTEGER,
+    ROUND(100.0 * AVG(CASE WHEN pa.is_correct THEN 1 ELSE 0 END), 1),
+    ROUND(AVG(pa.time_spent_seconds), 1)
+  FROM period_attempts pa
+  GROUP BY pa.case_difficulty
+  ORDER BY 1, 3 DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The most attempted cases, and the cases with the lowest accuracy among
+-- those with at least p_min_attempts attempts, so a case tried twice and
+-- missed twice does not top the list. Keep the default in sync with
+-- HARDEST_CASE_MIN_ATTEMPTS in analytics.ts.
+CREATE OR REPLACE FUNCTION get_analytics_cases(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_min_attempts INTEGER DEFAULT 10,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  ranking TEXT,
+  case_id UUID,
+  title TEXT,
+  category TEXT,
+  attempts INTEGER,
+  accuracy NUMERIC,
+  avg_score NUMERIC
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view analytics';
+  END IF;
+
+  RETURN QUERY
+  WITH case_stats AS (
+    SELECT
+      a.case_id AS id,
+      COUNT(*)::INTEGER AS attempt_count,
+      ROUND(100.0 * AVG(CASE WHEN a.is_correct THEN 1 ELSE 0 END), 1) AS correct_rate,
+      ROUND(AVG(a.score), 1) AS mean_score
+    FROM user_case_attempts a
+    WHERE a.created_at >= p_start
+      AND a.created_at < p_end
+    GROUP BY a.case_id
+  ),
+  ranked AS (
+    (
+      SELECT 'popular'::TEXT AS list, cs.*
+      FROM case_stats cs
+      ORDER BY cs.attempt_count DESC, cs.id
+      LIMIT p_limit
+    )
+    UNION ALL
+    (
+      SELECT 'hardest'::TEXT AS list, cs.*
+      FROM case_stats cs
+      WHERE cs.attempt_count >= p_min_attempts
+      ORDER BY cs.correct_rate, cs.attempt_count DESC
+      LIMIT p_limit
+    )
+  )
+  SELECT r.list, r.id, c.title, c.category::TEXT, r.attempt_count, r.correct_rate, r.mean_score
+  FROM ranked r
+  JOIN cases c ON c.id = r.id
+  ORDER BY
+    r.list,
+    CASE WHEN r.list = 'popular' THEN -r.attempt_count ELSE r.correct_rate END,
+    r.attempt_count DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Learners by their mean case score in the period
+CREATE OR REPLACE FUNCTION get_analytics_score_distribution(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ
+)
+RETURNS TABLE (
+  bucket TEXT,
+  learners INTEGER
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view analytics';
+  END IF;
+
+  RETURN QUERY
+  WITH learner_scores AS (
+    SELECT AVG(a.score) AS mean_score
+    FROM user_case_attempts a
+    WHERE a.created_at >= p_start
+      AND a.created_at < p_end
+    GROUP BY a.user_id
+  )
+  SELECT bk.label, COUNT(ls.mean_score)::INTEGER
+  FROM (VALUES
+    (1, '0-20%', 0, 20),
+    (2, '21-40%', 20, 40),
+    (3, '41-60%', 40, 60),
+    (4, '61-80%', 60, 80),
+    (5, '81-100%', 80, 100)
+  ) AS bk(sort_order, label, low, high)
+  LEFT JOIN learner_scores ls
+    ON ls.mean_score <= bk.high
+    AND (ls.mean_score > bk.low OR bk.low = 0)
+  GROUP BY bk.sort_order, bk.label
+  ORDER BY bk.sort_order;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Weekly retention cohorts. Learners who signed up in the period are grouped
+-- by signup week; retained is how many of a cohort made an attempt in the
+-- week week_offset weeks later (0 is the signup week). Only weeks that have
+-- started before p_end are returned, up to p_weeks after signup.
+CREATE OR REPLACE FUNCTION get_retention_cohorts(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_weeks INTEGER DEFAULT 12
+)
+RETURNS TABLE (
+  cohort_week DATE,
+  cohort_size INTEGER,
+  week_offset INTEGER,
+  retained INTEGER
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view analytics';
+  END IF;
+
+  RETURN QUERY
+  WITH cohorts AS (
+    SELECT p.id AS user_id, date_trunc('week', p.created_at AT TIME ZONE 'UTC') AS week_start
+    FROM profiles p
+    WHERE p.created_at >= p_start
+      AND p.created_at < p_end
+  ),
+  sizes AS (
+    SELECT c.week_start, COUNT(*)::INTEGER AS members
+    FROM cohorts c
+    GROUP BY c.week_start
+  ),
+  offsets AS (
+    SELECT s.week_start, s.members, n AS offset_weeks
+    FROM sizes s,
+      generate_series(
+        0,
+        LEAST(
+          p_weeks,
+          CEIL(EXTRACT(EPOCH FROM (p_end AT TIME ZONE 'UTC') - s.week_start) / 604800)::INTEGER - 1
+        )
+      ) AS n
+  ),
+  active_weeks AS (
+    SELECT DISTINCT a.user_id, date_trunc('week', a.created_at AT TIME ZONE 'UTC') AS week_start
+    FROM user_case_attempts a
+    WHERE a.created_at >= p_start
+      AND a.created_at < p_end
+  )
+  SELECT
+    o.week_start::DATE,
+    o.members,
+    o.offset_weeks,
+    (SELECT COUNT(*) FROM cohorts c
+      JOIN active_weeks aw
+        ON aw.user_id = c.user_id
+        AND aw.week_start = o.week_start + make_interval(weeks => o.offset_weeks)
+      WHERE c.week_start = o.week_start)::INTEGER
+  FROM offsets o
+  ORDER BY 1, 3;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Learners by their longest run of consecutive active UTC days in the
+-- period. streak_days is the bucket's total, for averaging.
+CREATE OR REPLACE FUNCTION get_streak_distribution(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ
+)
+RETURNS TABLE (
+  bucket TEXT,
+  learners INTEGER,
+  streak_days INTEGER
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view analytics';
+  END IF;
+
+  RETURN QUERY
+  WITH active_days AS (
+    SELECT DISTINCT a.user_id, (a.created_at AT TIME ZONE 'UTC')::DATE AS active_day
+    FROM user_case_attempts a
+    WHERE a.created_at >= p_start
+      AND a.created_at < p_end
+  ),
+  runs AS (
+    -- Consecutive days share the same day minus row number
+    SELECT
+      ad.user_id,
+      ad.active_day - (ROW_NUMBER() OVER (PARTITION BY ad.user_id ORDER BY ad.active_day))::INTEGER AS run_id
+    FROM active_days ad
+  ),
+  longest AS (
+    SELECT r.user_id, MAX(r.run_length) AS days
+    FROM (
+      SELECT ru.user_id, ru.run_id, COUNT(*)::INTEGER AS run_length
+      FROM runs ru
+      GROUP BY ru.user_id, ru.run_id
+    ) r
+    GROUP BY r.user_id
+  )
+  SELECT bk.label, COUNT(l.days)::INTEGER, COALESCE(SUM(l.days), 0)::INTEGER
+  FROM (VALUES
+    (1, '1-3 days', 1, 3),
+    (2, '4-7 days', 4, 7),
+    (3, '8-14 days', 8, 14),
+    (4, '15-30 days', 15, 30),
+    (5, '31+ days', 31, NULL)
+  ) AS bk(sort_order, label, low, high)
+  LEFT JOIN longest l
+    ON l.days >= bk.low
+    AND (bk.high IS NULL OR l.days <= bk.high)
+  GROUP BY bk.sort_order, bk.label
+  ORDER BY bk.sort_order;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Latest registrations, case attempts and passed assessments, newest first
+CREATE OR REPLACE FUNCTION get_recent_activity(
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  activity_type TEXT,
+  occurred_at TIMESTAMPTZ,
+  user_name TEXT,
+  detail TEXT,
+  score INTEGER
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view analytics';
+  END IF;
+
+  RETURN QUERY
+  SELECT recent.kind, recent.occurred, recent.who, recent.what, recent.points
+  FROM (
+    (
+      SELECT 'registration'::TEXT AS kind, p.created_at AS occurred, p.full_name AS who,
+        p.role::TEXT AS what, NULL::INTEGER AS points
+      FROM profiles p
+      ORDER BY p.created_at DESC
+      LIMIT p_limit
+    )
+    UNION ALL
+    (
+      SELECT 'case_completion'::TEXT, a.created_at, p.full_name, c.title, a.score
+      FROM user_case_attempts a
+      JOIN profiles p ON p.id = a.user_id
+      JOIN cases c ON c.id = a.case_id
+      ORDER BY a.created_at DESC
+      LIMIT p_limit
+    )
+    UNION ALL
+    (
+      SELECT 'assessment_pass'::TEXT, ua.completed_at, p.full_name, asm.title, ua.score
+      FROM user_assessments ua
+      JOIN profiles p ON p.id = ua.user_id
+      JOIN assessments asm ON asm.id = ua.assessment_id
+      WHERE ua.status = 'completed'
+        AND ua.passed
+        AND ua.completed_at IS NOT NULL
+      ORDER BY ua.completed_at DESC
+      LIMIT p_limit
+    )
+  ) recent
+  ORDER BY recent.occurred DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_analytics_overview TO authenticated;
+GRANT EXECUTE ON FUNCTION get_analytics_activity TO authenticated;
+GRANT EXECUTE ON FUNCTION get_analytics_breakdown TO authenticated;
+GRANT EXECUTE ON FUNCTION get_analytics_cases TO authenticated;
+GRANT EXECUTE ON FUNCTION get_analytics_score_distribution TO authenticated;
+GRANT EXECUTE ON FUNCTION get_retention_cohorts TO authenticated;
+GRANT EXECUTE ON FUNCTION get_streak_distribution TO authenticated;
+GRANT EXECUTE ON FUNCTION get_recent_activity TO authenticated;
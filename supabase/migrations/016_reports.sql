@@ -0,0 +1,293 @@
+-- ============================================================================
+-- ARKA-ED Admin Reports
+-- ============================================================================
+-- Data for the reports on /admin/reports, over a reporting period
+-- [p_start, p_end), and a history of generated reports. Each history entry
+-- keeps a snapshot of the report's rows so it downloads again exactly as it
+-- was generated, in either format. Institutional benchmarks gain a period.
+-- See src/lib/reports/builders.ts
+-- ============================================================================
+
+CREATE TABLE generated_reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  report_id TEXT NOT NULL CHECK (report_id IN (
+    'user-progress',
+    'assessment-results',
+    'category-performance',
+    'institutional-benchmarks'
+  )),
+  format TEXT NOT NULL CHECK (format IN ('csv', 'pdf')),
+  date_range TEXT NOT NULL,
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  row_count INTEGER NOT NULL DEFAULT 0 CHECK (row_count >= 0),
+  rows JSONB NOT NULL DEFAULT '[]',
+  generated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_generated_reports_created_at ON generated_reports(created_at DESC);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- One row per learner: activity and results in the period
+CREATE OR REPLACE FUNCTION get_user_progress_report(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ
+)
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  email TEXT,
+  role TEXT,
+  institution TEXT,
+  training_year INTEGER,
+  attempts INTEGER,
+  cases_attempted INTEGER,
+  accuracy NUMERIC,
+  avg_score NUMERIC,
+  time_spent_seconds BIGINT,
+  assessments_completed INTEGER,
+  assessments_passed INTEGER,
+  last_active_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can generate reports';
+  END IF;
+
+  RETURN QUERY
+  WITH attempt_stats AS (
+    SELECT
+      a.user_id AS learner_id,
+      COUNT(*)::INTEGER AS attempt_count,
+      COUNT(DISTINCT a.case_id)::INTEGER AS case_count,
+      ROUND(100.0 * AVG(CASE WHEN a.is_correct THEN 1 ELSE 0 END), 1) AS correct_rate,
+      ROUND(AVG(a.score), 1) AS mean_score,
+      SUM(a.time_spent_seconds)::BIGINT AS seconds,
+      MAX(a.created_at) AS last_attempt_at
+    FROM user_case_attempts a
+    WHERE a.created_at >= p_start
+      AND a.created_at < p_end
+    GROUP BY a.user_id
+  ),
+  sitting_stats AS (
+    SELECT
+      ua.user_id AS learner_id,
+      COUNT(*)::INTEGER AS completed_count,
+      COUNT(*) FILTER (WHERE ua.passed)::INTEGER AS passed_count,
+      MAX(ua.completed_at) AS last_sitting_at
+    FROM user_assessments ua
+    WHERE ua.status = 'completed'
+      AND ua.completed_at >= p_start
+      AND ua.completed_at < p_end
+    GROUP BY ua.user_id
+  )
+  SELECT
+    p.id,
+    p.full_name,
+    p.email,
+    p.role::TEXT,
+    p.institution,
+    p.training_year,
+    COALESCE(ast.attempt_count, 0),
+    COALESCE(ast.case_count, 0),
+    ast.correct_rate,
+    ast.mean_score,
+    COALESCE(ast.seconds, 0)::BIGINT,
+    COALESCE(ss.completed_count, 0),
+    COALESCE(ss.passed_count, 0),
+    GREATEST(ast.last_attempt_at, ss.last_sitting_at)
+  FROM profiles p
+  LEFT JOIN attempt_stats ast ON ast.learner_id = p.id
+  LEFT JOIN sitting_stats ss ON ss.learner_id = p.id
+  WHERE p.role <> 'admin'
+    AND p.created_at < p_end
+  ORDER BY p.full_name, p.email;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- One row per assessment sitting completed in the period. sitting is the
+-- learner's nth completed sitting of that assessment, counting earlier ones.
+CREATE OR REPLACE FUNCTION get_assessment_results_report(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ
+)
+RETURNS TABLE (
+  user_assessment_id UUID,
+  full_name TEXT,
+  email TEXT,
+  institution TEXT,
+  assessment_title TEXT,
+  sitting INTEGER,
+  score INTEGER,
+  passing_score INTEGER,
+  passed BOOLEAN,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  duration_seconds INTEGER
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can generate reports';
+  END IF;
+
+  RETURN QUERY
+  WITH sittings AS (
+    SELECT
+      ua.*,
+      ROW_NUMBER() OVER (
+        PARTITION BY ua.user_id, ua.assessment_id
+        ORDER BY ua.completed_at
+      )::INTEGER AS sitting_number
+    FROM user_assessments ua
+    WHERE ua.status = 'completed'
+      AND ua.completed_at < p_end
+  )
+  SELECT
+    s.id,
+    p.full_name,
+    p.email,
+    p.institution,
+    asm.title,
+    s.sitting_number,
+    s.score,
+    asm.passing_score,
+    s.passed,
+    s.started_at,
+    s.completed_at,
+    EXTRACT(EPOCH FROM s.completed_at - s.started_at)::INTEGER
+  FROM sittings s
+  JOIN profiles p ON p.id = s.user_id
+  JOIN assessments asm ON asm.id = s.assessment_id
+  WHERE s.completed_at >= p_start
+  ORDER BY asm.title, p.full_name, s.completed_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- One row per case category with attempts in the period
+CREATE OR REPLACE FUNCTION get_category_performance_report(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ
+)
+RETURNS TABLE (
+  category TEXT,
+  cases_attempted INTEGER,
+  learners INTEGER,
+  attempts INTEGER,
+  accuracy NUMERIC,
+  avg_score NUMERIC,
+  avg_time_seconds NUMERIC,
+  avg_hints NUMERIC
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can generate reports';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.category::TEXT,
+    COUNT(DISTINCT a.case_id)::INTEGER,
+    COUNT(DISTINCT a.user_id)::INTEGER,
+    COUNT(*)::INTEGER,
+    ROUND(100.0 * AVG(CASE WHEN a.is_correct THEN 1 ELSE 0 END), 1),
+    ROUND(AVG(a.score), 1),
+    ROUND(AVG(a.time_spent_seconds), 1),
+    ROUND(AVG(a.hints_used), 2)
+  FROM user_case_attempts a
+  JOIN cases c ON c.id = a.case_id
+  WHERE a.created_at >= p_start
+    AND a.created_at < p_end
+  GROUP BY c.category
+  ORDER BY c.category;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Institutional benchmarks (009) narrowed to learners whose first completed
+-- sitting falls in the period. Without a period, every first sitting counts.
+DROP FUNCTION IF EXISTS get_institution_benchmarks(TEXT);
+
+CREATE OR REPLACE FUNCTION get_institution_benchmarks(
+  p_assessment_id TEXT DEFAULT NULL,
+  p_start TIMESTAMPTZ DEFAULT NULL,
+  p_end TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  institution TEXT,
+  learner_count INTEGER,
+  mean_score NUMERIC,
+  median_score NUMERIC,
+  pass_rate NUMERIC
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view institutional benchmarks';
+  END IF;
+
+  RETURN QUERY
+  WITH first_sittings AS (
+    SELECT DISTINCT ON (ua.user_id, ua.assessment_id)
+      ua.user_id,
+      ua.score,
+      ua.passed,
+      ua.completed_at
+    FROM user_assessments ua
+    WHERE (p_assessment_id IS NULL OR ua.assessment_id::TEXT = p_assessment_id)
+      AND ua.status = 'completed'
+      AND ua.score IS NOT NULL
+    ORDER BY ua.user_id, ua.assessment_id, ua.completed_at
+  ),
+  scored AS (
+    SELECT NULLIF(trim(p.institution), '') AS institution, fs.user_id, fs.score, fs.passed
+    FROM first_sittings fs
+    JOIN profiles p ON p.id = fs.user_id
+    WHERE (p_start IS NULL OR fs.completed_at >= p_start)
+      AND (p_end IS NULL OR fs.completed_at < p_end)
+  ),
+  grouped AS (
+    SELECT
+      s.institution,
+      COUNT(DISTINCT s.user_id)::INTEGER AS learners,
+      ROUND(AVG(s.score), 1) AS mean,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY s.score)::NUMERIC AS median,
+      ROUND(100.0 * AVG(CASE WHEN s.passed THEN 1 ELSE 0 END), 1) AS pass_rate
+    FROM scored s
+    WHERE s.institution IS NOT NULL
+    GROUP BY s.institution
+    UNION ALL
+    SELECT
+      NULL,
+      COUNT(DISTINCT s.user_id)::INTEGER,
+      ROUND(AVG(s.score), 1),
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY s.score)::NUMERIC,
+      ROUND(100.0 * AVG(CASE WHEN s.passed THEN 1 ELSE 0 END), 1)
+    FROM scored s
+  )
+  SELECT g.institution, g.learners, g.mean, g.median, g.pass_rate
+  FROM grouped g
+  WHERE g.learners >= cohort_min_size()
+  ORDER BY g.institution NULLS FIRST;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE generated_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view generated reports"
+  ON generated_reports FOR SELECT
+  USING (is_admin());
+
+CREATE POLICY "Admins can record generated reports"
+  ON generated_reports FOR INSERT
+  WITH CHECK (is_admin() AND generated_by = auth.uid());
+
+GRANT EXECUTE ON FUNCTION get_user_progress_report TO authenticated;
+GRANT EXECUTE ON FUNCTION get_assessment_results_report TO authenticated;
+GRANT EXECUTE ON FUNCTION get_category_performance_report TO authenticated;
+GRANT EXECUTE ON FUNCTION get_institution_benchmarks TO authenticated;
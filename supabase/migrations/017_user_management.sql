@@ -0,0 +1,240 @@
+-- ============================================================================
+-- ARKA-ED User Management
+-- ============================================================================
+-- Backs /admin/users: a searchable user list with each user's case activity,
+-- account deactivation, and an audit log of admin actions. Invitations, role
+-- changes, deactivation and password resets go through the admin route
+-- handlers with the service role, which also write the audit log. Users
+-- cannot change their own role or deactivation, and new accounts start as
+-- students whatever the signup sent. A deactivated user's API requests are
+-- refused at once, even while their session is still valid.
+-- See src/lib/supabase/admin.ts
+-- ============================================================================
+
+-- Set while the account is deactivated; the auth user is banned as well
+ALTER TABLE profiles ADD COLUMN deactivated_at TIMESTAMPTZ;
+
+CREATE TABLE admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN (
+    'invite',
+    'role_change',
+    'deactivate',
+    'reactivate',
+    'password_reset'
+  )),
+  target_user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  -- Kept so the entry still reads after the target is deleted
+  target_email TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_admin_audit_log_created_at ON admin_audit_log(created_at DESC);
+CREATE INDEX idx_admin_audit_log_target ON admin_audit_log(target_user_id);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- A page of users matching the filters, with their case activity.
+-- cases_completed counts distinct cases attempted; accuracy is the share of
+-- correct attempts; last_active is the latest attempt or assessment sitting.
+-- total_count is the number of matching users across all pages. Called by
+-- the admin route handlers with the service role, who check the caller;
+-- the same goes for get_admin_user_summary().
+CREATE OR REPLACE FUNCTION search_admin_users(
+  p_search TEXT DEFAULT NULL,
+  p_role TEXT DEFAULT NULL,
+  p_institution TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  full_name TEXT,
+  avatar_url TEXT,
+  role TEXT,
+  institution TEXT,
+  specialty_track TEXT,
+  training_year INTEGER,
+  streak_count INTEGER,
+  last_activity_date DATE,
+  onboarding_completed BOOLEAN,
+  deactivated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  cases_completed INTEGER,
+  accuracy NUMERIC,
+  last_active TIMESTAMPTZ,
+  total_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH matching AS (
+    SELECT p.*
+    FROM profiles p
+    WHERE (
+        p_search IS NULL
+        OR p.full_name ILIKE '%' || p_search || '%'
+        OR p.email ILIKE '%' || p_search || '%'
+      )
+      AND (p_role IS NULL OR p.role::TEXT = p_role)
+      AND (p_institution IS NULL OR p.institution ILIKE '%' || p_institution || '%')
+  ),
+  attempt_stats AS (
+    SELECT
+      a.user_id AS learner_id,
+      COUNT(DISTINCT a.case_id)::INTEGER AS case_count,
+      ROUND(100.0 * AVG(CASE WHEN a.is_correct THEN 1 ELSE 0 END), 1) AS correct_rate,
+      MAX(a.created_at) AS last_attempt_at
+    FROM user_case_attempts a
+    WHERE a.user_id IN (SELECT m.id FROM matching m)
+    GROUP BY a.user_id
+  ),
+  sitting_stats AS (
+    SELECT
+      ua.user_id AS learner_id,
+      MAX(COALESCE(ua.completed_at, ua.started_at)) AS last_sitting_at
+    FROM user_assessments ua
+    WHERE ua.user_id IN (SELECT m.id FROM matching m)
+    GROUP BY ua.user_id
+  )
+  SELECT
+    m.id,
+    m.email,
+    m.full_name,
+    m.avatar_url,
+    m.role::TEXT,
+    m.institution,
+    m.specialty_track::TEXT,
+    m.training_year,
+    m.streak_count,
+    m.last_activity_date,
+    m.onboarding_completed,
+    m.deactivated_at,
+    m.created_at,
+    m.updated_at,
+    COALESCE(ast.case_count, 0),
+    ast.correct_rate,
+    GREATEST(ast.last_attempt_at, ss.last_sitting_at),
+    COUNT(*) OVER ()
+  FROM matching m
+  LEFT JOIN attempt_stats ast ON ast.learner_id = m.id
+  LEFT JOIN sitting_stats ss ON ss.learner_id = m.id
+  ORDER BY m.created_at DESC, m.id
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Headline figures for the user list, across all users
+CREATE OR REPLACE FUNCTION get_admin_user_summary()
+RETURNS TABLE (
+  total_users BIGINT,
+  active_today BIGINT,
+  avg_accuracy NUMERIC,
+  institutions BIGINT,
+  deactivated BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    (SELECT COUNT(*) FROM profiles p),
+    (SELECT COUNT(DISTINCT a.user_id)
+       FROM user_case_attempts a
+       WHERE a.created_at >= NOW() - INTERVAL '24 hours'),
+    (SELECT ROUND(100.0 * AVG(CASE WHEN a.is_correct THEN 1 ELSE 0 END), 1)
+       FROM user_case_attempts a),
+    (SELECT COUNT(DISTINCT p.institution) FROM profiles p WHERE p.institution IS NOT NULL),
+    (SELECT COUNT(*) FROM profiles p WHERE p.deactivated_at IS NOT NULL);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- New users' profiles. The role is never taken from signup metadata, which
+-- the user controls; invitations assign it with the service role.
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', 'User')
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Role and deactivation are set by admins through the service role. A
+-- user's own profile writes cannot change them, and a profile they insert
+-- themselves starts as an active student. Writes with no user behind them
+-- (the service role, handle_new_user()) are left alone.
+CREATE OR REPLACE FUNCTION protect_profile_account()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.role = 'student';
+    NEW.deactivated_at = NULL;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at THEN
+    RAISE EXCEPTION 'Roles and account status are changed by admins';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Run by PostgREST before every API request. The ban on a deactivated
+-- account only stops sign-in and token refresh, so the access token it
+-- already holds is refused here until it expires.
+CREATE OR REPLACE FUNCTION check_account_active()
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.deactivated_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'This account has been deactivated' USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER protect_profile_account
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_account();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Entries are written by the service role only, and never changed
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the audit log"
+  ON admin_audit_log FOR SELECT
+  USING (is_admin());
+
+REVOKE EXECUTE ON FUNCTION search_admin_users FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_admin_user_summary FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_admin_users TO service_role;
+GRANT EXECUTE ON FUNCTION get_admin_user_summary TO service_role;
+
+-- ============================================================================
+-- API
+-- ============================================================================
+
+ALTER ROLE authenticator SET pgrst.db_pre_request = 'public.check_account_active';
+NOTIFY pgrst, 'reload config';
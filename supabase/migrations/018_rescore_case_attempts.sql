@@ -0,0 +1,19 @@
+-- ============================================================================
+-- ARKA-ED Rescore Case Attempts
+-- ============================================================================
+-- Certificates count correct case attempts, and attempts recorded before
+-- score_case_attempt() (migration 013) carry the client's score. Rescore
+-- them from their imaging selection so every attempt a certificate counts
+-- was scored by the database.
+-- See src/app/api/certificates/route.ts
+-- ============================================================================
+
+UPDATE user_case_attempts a
+SET score = s.score, is_correct = s.is_correct, acr_rating_received = s.acr_rating
+FROM user_case_attempts b
+CROSS JOIN LATERAL score_imaging_selection(
+  b.case_id,
+  COALESCE(NULLIF(b.selected_imaging::TEXT[], '{}'), ARRAY['no-imaging']),
+  b.hints_used
+) AS s
+WHERE a.id = b.id;